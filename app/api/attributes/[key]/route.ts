@@ -0,0 +1,172 @@
+/**
+ * API Route: /api/attributes/[key]
+ * This file handles HTTP requests to /api/attributes/:key endpoint
+ * It handles GET (fetch one), PUT (update) and DELETE operations on a custom attribute
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission, requireUser } from '@/backend/middleware/auth';
+import { attributeService } from '@/backend/services/attributeService';
+import { validateUpdateAttribute } from '@/backend/validation/attributeSchemas';
+import { ConflictError, ValidationError } from '@/backend/utils/errors';
+
+/**
+ * GET /api/attributes/:key
+ * Fetches a single attribute definition by its key
+ *
+ * @returns {Promise<NextResponse>} JSON response with the definition, or 404 if not found
+ *
+ * Example usage:
+ * fetch('/api/attributes/office')
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  try {
+    // Return 401 if not signed in
+    const auth = await requireUser(request);
+    if (!auth.ok) return auth.response;
+
+    const { key } = await params;
+    const attribute = await attributeService.getByKey(key);
+
+    if (!attribute) {
+      return NextResponse.json(
+        { error: 'Attribute not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(attribute);
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to fetch attribute' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/attributes/:key
+ * Updates the label, options or required flag of an attribute
+ * (the key and type can't be changed)
+ *
+ * @returns {Promise<NextResponse>} JSON response with updated definition or error
+ *   (403 without "attributes:manage", 404 not found, 422 invalid data,
+ *   409 when a removed enum option is still used by users)
+ *
+ * Example usage:
+ * fetch('/api/attributes/office', {
+ *   method: 'PUT',
+ *   headers: { 'Content-Type': 'application/json' },
+ *   body: JSON.stringify({ options: ['Berlin', 'London', 'Paris'] })
+ * })
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  try {
+    // Return 401 if not signed in, 403 if not allowed to manage attributes
+    const auth = await requirePermission(request, 'attributes:manage');
+    if (!auth.ok) return auth.response;
+
+    const { key } = await params;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateUpdateAttribute(body);
+    if (!validation.ok) {
+      return NextResponse.json(
+        { errors: validation.errors },
+        { status: 422 }
+      );
+    }
+
+    const attribute = await attributeService.update(key, validation.value);
+
+    if (!attribute) {
+      return NextResponse.json(
+        { error: 'Attribute not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(attribute);
+  } catch (error) {
+    // Options that don't fit the attribute's type: 422
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { errors: error.errors },
+        { status: 422 }
+      );
+    }
+
+    if (error instanceof ConflictError) {
+      return NextResponse.json(
+        { error: error.message, field: error.field, errors: { [error.field]: error.message } },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update attribute' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/attributes/:key
+ * Deletes an attribute definition
+ * Attributes that users still have a value for can't be deleted (409 Conflict)
+ *
+ * @returns {Promise<NextResponse>} JSON response with success message or error
+ *   (403 without "attributes:manage")
+ *
+ * Example usage:
+ * fetch('/api/attributes/office', { method: 'DELETE' })
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  try {
+    // Return 401 if not signed in, 403 if not allowed to manage attributes
+    const auth = await requirePermission(request, 'attributes:manage');
+    if (!auth.ok) return auth.response;
+
+    const { key } = await params;
+    const success = await attributeService.delete(key);
+
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Attribute not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: 'Attribute deleted successfully' });
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to delete attribute' },
+      { status: 500 }
+    );
+  }
+}
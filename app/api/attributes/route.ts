@@ -0,0 +1,97 @@
+/**
+ * API Route: /api/attributes
+ * This file handles HTTP requests to the /api/attributes endpoint
+ * It handles GET (fetch all) and POST (create new) for custom user attributes
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission, requireUser } from '@/backend/middleware/auth';
+import { attributeService } from '@/backend/services/attributeService';
+import { validateCreateAttribute } from '@/backend/validation/attributeSchemas';
+import { ConflictError } from '@/backend/utils/errors';
+
+/**
+ * GET /api/attributes
+ * Fetches every custom attribute definition, in the order they were defined
+ *
+ * @returns {Promise<NextResponse>} JSON response with array of definitions
+ *
+ * Example usage:
+ * fetch('/api/attributes')
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Return 401 if not signed in (the user form needs the definitions)
+    const auth = await requireUser(request);
+    if (!auth.ok) return auth.response;
+
+    const attributes = await attributeService.getAll();
+    return NextResponse.json(attributes);
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to fetch attributes' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/attributes
+ * Defines a new custom attribute
+ *
+ * @param {NextRequest} request - The incoming HTTP request with the definition in body
+ * @returns {Promise<NextResponse>} JSON response with the created definition,
+ *   403 without "attributes:manage", 422 when the data is invalid, or 409 when the key is already used
+ *
+ * Example usage:
+ * fetch('/api/attributes', {
+ *   method: 'POST',
+ *   headers: { 'Content-Type': 'application/json' },
+ *   body: JSON.stringify({ key: 'office', label: 'Office', type: 'enum', options: ['Berlin', 'London'] })
+ * })
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Return 401 if not signed in, 403 if not allowed to manage attributes
+    const auth = await requirePermission(request, 'attributes:manage');
+    if (!auth.ok) return auth.response;
+
+    // Return 400 (Bad Request) if the body isn't valid JSON at all
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    // Return 422 (Unprocessable Entity) with one message per invalid field
+    const validation = validateCreateAttribute(body);
+    if (!validation.ok) {
+      return NextResponse.json(
+        { errors: validation.errors },
+        { status: 422 }
+      );
+    }
+
+    const attribute = await attributeService.create(validation.value);
+
+    // Return the created definition with status 201 (Created)
+    return NextResponse.json(attribute, { status: 201 });
+  } catch (error) {
+    // Key already used by another attribute: 409 (Conflict)
+    if (error instanceof ConflictError) {
+      return NextResponse.json(
+        { error: error.message, field: error.field, errors: { [error.field]: error.message } },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create attribute' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * API Route: /api/audit
+ * The audit log of every change made to users, newest first
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/backend/middleware/auth';
+import { auditService } from '@/backend/services/auditService';
+import { parseAuditQuery } from '@/backend/utils/auditQuery';
+
+/**
+ * GET /api/audit
+ * Fetches one page of audit log entries
+ *
+ * Query parameters (all optional):
+ * - page, pageSize: Which page to return (default 1 and 10, max pageSize 100)
+ * - userId:         Only changes to this user
+ * - actorId:        Only changes made by this user
+ * - action:         create | update | delete | restore | purge
+ * - from, to:       Only entries within this date range
+ *
+ * @param {NextRequest} request - The incoming HTTP request
+ * @returns {Promise<NextResponse>} JSON envelope { items, total, page, pageSize },
+ *   400 for an invalid parameter, 403 without "users:read"
+ *
+ * Example usage:
+ * fetch('/api/audit?actorId=1&action=delete')
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Return 401 if not signed in, 403 if not allowed to see users
+    const auth = await requirePermission(request, 'users:read');
+    if (!auth.ok) return auth.response;
+
+    // Return 400 (Bad Request) if a parameter has an invalid value
+    const query = parseAuditQuery(request.nextUrl.searchParams);
+    if (!query.ok) {
+      return NextResponse.json({ error: query.error }, { status: 400 });
+    }
+
+    return NextResponse.json(await auditService.list(query.value));
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to fetch audit log' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * API Route: /api/auth/login
+ * Signs a user in and sets the session cookie
+ *
+ * This route is public (the proxy lets it through) - it is how you get a session
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authConfig } from '@/backend/config/auth';
+import { authService } from '@/backend/services/authService';
+import { validateLogin } from '@/backend/validation/authSchemas';
+
+/**
+ * POST /api/auth/login
+ * Checks email + password and starts a session
+ *
+ * @param {NextRequest} request - Body: { email, password }
+ * @returns {Promise<NextResponse>} { user } with a Set-Cookie header,
+ *   401 if the email or password is wrong, 422 if fields are missing
+ *
+ * Example usage:
+ * fetch('/api/auth/login', {
+ *   method: 'POST',
+ *   headers: { 'Content-Type': 'application/json' },
+ *   body: JSON.stringify({ email: 'john@example.com', password: 'password' })
+ * })
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateLogin(body);
+    if (!validation.ok) {
+      return NextResponse.json(
+        { errors: validation.errors },
+        { status: 422 }
+      );
+    }
+
+    const result = await authService.login(validation.value);
+
+    // Same message for "unknown email" and "wrong password", so we don't reveal which emails exist
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Invalid email or password' },
+        { status: 401 }
+      );
+    }
+
+    const response = NextResponse.json({ user: result.user });
+
+    // httpOnly: JavaScript in the browser can't read the cookie (protects against XSS)
+    // sameSite "lax": the cookie isn't sent with cross-site form posts (protects against CSRF)
+    // secure: only sent over HTTPS in production
+    response.cookies.set(authConfig.sessionCookieName, result.token, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      expires: result.expiresAt,
+    });
+
+    return response;
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to sign in' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * API Route: /api/auth/logout
+ * Signs the current user out
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authConfig } from '@/backend/config/auth';
+import { authService } from '@/backend/services/authService';
+
+/**
+ * POST /api/auth/logout
+ * Deletes the session and clears the session cookie
+ *
+ * @param {NextRequest} request - The incoming HTTP request (with the session cookie)
+ * @returns {Promise<NextResponse>} Success message
+ *
+ * Example usage:
+ * fetch('/api/auth/logout', { method: 'POST' })
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await authService.logout(request.cookies.get(authConfig.sessionCookieName)?.value);
+
+    const response = NextResponse.json({ message: 'Signed out' });
+    response.cookies.delete(authConfig.sessionCookieName);
+    return response;
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to sign out' },
+      { status: 500 }
+    );
+  }
+}
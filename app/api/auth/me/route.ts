@@ -0,0 +1,30 @@
+/**
+ * API Route: /api/auth/me
+ * Returns the signed-in user
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/backend/middleware/auth';
+
+/**
+ * GET /api/auth/me
+ *
+ * @param {NextRequest} request - The incoming HTTP request (with the session cookie)
+ * @returns {Promise<NextResponse>} { user }, or 401 if not signed in
+ *
+ * Example usage:
+ * fetch('/api/auth/me')
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireUser(request);
+    if (!auth.ok) return auth.response;
+
+    return NextResponse.json({ user: auth.user });
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to fetch current user' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * API Route: /api/openapi.json
+ * The OpenAPI 3.1 description of the /api/users endpoints
+ * (built in backend/openapi/spec.ts)
+ *
+ * Public on purpose: tools like Swagger UI or code generators can read it
+ * without a session. It only describes the API - every endpoint it lists
+ * still requires signing in.
+ */
+
+import { NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/backend/openapi/spec';
+import { OpenApiDocument } from '@/backend/types/openapi';
+
+/**
+ * GET /api/openapi.json
+ * @returns {Promise<NextResponse>} The OpenAPI document as JSON
+ *
+ * Example usage:
+ * fetch('/api/openapi.json')
+ */
+export async function GET() {
+  try {
+    return NextResponse.json<OpenApiDocument>(buildOpenApiDocument());
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to build the API description' },
+      { status: 500 }
+    );
+  }
+}
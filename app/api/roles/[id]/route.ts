@@ -0,0 +1,162 @@
+/**
+ * API Route: /api/roles/[id]
+ * This file handles HTTP requests to /api/roles/:id endpoint
+ * It handles GET (fetch one), PUT (update) and DELETE operations on a specific role
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission, requireUser } from '@/backend/middleware/auth';
+import { roleService } from '@/backend/services/roleService';
+import { validateUpdateRole } from '@/backend/validation/roleSchemas';
+import { ConflictError } from '@/backend/utils/errors';
+
+/**
+ * GET /api/roles/:id
+ * Fetches a single role by its ID
+ *
+ * @returns {Promise<NextResponse>} JSON response with the role, or 404 if not found
+ *
+ * Example usage:
+ * fetch('/api/roles/admin')
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Return 401 if not signed in
+    const auth = await requireUser(request);
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+    const role = await roleService.getById(id);
+
+    if (!role) {
+      return NextResponse.json(
+        { error: 'Role not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(role);
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to fetch role' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/roles/:id
+ * Updates an existing role by its ID
+ *
+ * @returns {Promise<NextResponse>} JSON response with updated role or error
+ *   (403 without "roles:manage", 404 not found, 422 invalid data, 409 name already used)
+ *
+ * Example usage:
+ * fetch('/api/roles/manager', {
+ *   method: 'PUT',
+ *   headers: { 'Content-Type': 'application/json' },
+ *   body: JSON.stringify({ color: 'indigo' })
+ * })
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Return 401 if not signed in, 403 if not allowed to manage roles
+    const auth = await requirePermission(request, 'roles:manage');
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateUpdateRole(body);
+    if (!validation.ok) {
+      return NextResponse.json(
+        { errors: validation.errors },
+        { status: 422 }
+      );
+    }
+
+    const updatedRole = await roleService.update(id, validation.value);
+
+    if (!updatedRole) {
+      return NextResponse.json(
+        { error: 'Role not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(updatedRole);
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      return NextResponse.json(
+        { error: error.message, field: error.field, errors: { [error.field]: error.message } },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update role' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/roles/:id
+ * Deletes a role by its ID
+ * Roles that are still assigned to users can't be deleted (409 Conflict)
+ *
+ * @returns {Promise<NextResponse>} JSON response with success message or error
+ *   (403 without "roles:manage")
+ *
+ * Example usage:
+ * fetch('/api/roles/123', { method: 'DELETE' })
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Return 401 if not signed in, 403 if not allowed to manage roles
+    const auth = await requirePermission(request, 'roles:manage');
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+    const success = await roleService.delete(id);
+
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Role not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: 'Role deleted successfully' });
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to delete role' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * API Route: /api/roles
+ * This file handles HTTP requests to the /api/roles endpoint
+ * It handles GET (fetch all) and POST (create new)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission, requireUser } from '@/backend/middleware/auth';
+import { roleService } from '@/backend/services/roleService';
+import { validateCreateRole } from '@/backend/validation/roleSchemas';
+import { ConflictError } from '@/backend/utils/errors';
+
+/**
+ * GET /api/roles
+ * Fetches all roles, sorted by name
+ *
+ * @returns {Promise<NextResponse>} JSON response with array of roles
+ *
+ * Example usage:
+ * fetch('/api/roles')
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Return 401 if not signed in
+    const auth = await requireUser(request);
+    if (!auth.ok) return auth.response;
+
+    const roles = await roleService.getAll();
+    return NextResponse.json(roles);
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to fetch roles' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/roles
+ * Creates a new role
+ *
+ * @param {NextRequest} request - The incoming HTTP request with role data in body
+ * @returns {Promise<NextResponse>} JSON response with the created role,
+ *   403 without "roles:manage", 422 when the data is invalid, or 409 when the name is already used
+ *
+ * Example usage:
+ * fetch('/api/roles', {
+ *   method: 'POST',
+ *   headers: { 'Content-Type': 'application/json' },
+ *   body: JSON.stringify({ name: 'Support', color: 'yellow', permissions: ['users:read'] })
+ * })
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Return 401 if not signed in, 403 if not allowed to manage roles
+    const auth = await requirePermission(request, 'roles:manage');
+    if (!auth.ok) return auth.response;
+
+    // Return 400 (Bad Request) if the body isn't valid JSON at all
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    // Return 422 (Unprocessable Entity) with one message per invalid field
+    const validation = validateCreateRole(body);
+    if (!validation.ok) {
+      return NextResponse.json(
+        { errors: validation.errors },
+        { status: 422 }
+      );
+    }
+
+    const newRole = await roleService.create(validation.value);
+
+    // Return the created role with status 201 (Created)
+    return NextResponse.json(newRole, { status: 201 });
+  } catch (error) {
+    // Name already used by another role: 409 (Conflict)
+    if (error instanceof ConflictError) {
+      return NextResponse.json(
+        { error: error.message, field: error.field, errors: { [error.field]: error.message } },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create role' },
+      { status: 500 }
+    );
+  }
+}
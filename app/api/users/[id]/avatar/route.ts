@@ -0,0 +1,306 @@
+/**
+ * API Route: /api/users/[id]/avatar
+ * A user's profile picture: show it (GET), upload a new one (POST) or remove it (DELETE)
+ *
+ * Caching:
+ * - Every upload gets a new avatar id (user.avatar), and the browser asks for
+ *   /api/users/:id/avatar?size=128&v=<avatar id>. That URL always shows the same
+ *   picture, so it may be cached forever - a new picture simply has a new URL.
+ * - Without v (or with an old one) the answer must be revalidated: the ETag
+ *   names the picture, and If-None-Match gets a 304 when it is still the same.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, requirePermission } from '@/backend/middleware/auth';
+import { actorFrom } from '@/backend/services/auditService';
+import { avatarService } from '@/backend/services/avatarService';
+import { roleService } from '@/backend/services/roleService';
+import { userService } from '@/backend/services/userService';
+import { PreconditionFailedError, ValidationError } from '@/backend/utils/errors';
+import { parseIfMatch, userETag } from '@/backend/utils/etag';
+import { canAssignRole } from '@/backend/utils/permissions';
+import { readLimitedBody } from '@/backend/utils/requestBody';
+import { Permission } from '@/backend/types/role';
+import { PreconditionFailedBody, UserResponse, ValidationErrorBody } from '@/backend/types/api';
+import { AVATAR_SIZES, AvatarSize } from '@/backend/types/avatar';
+import { avatarConfig } from '@/backend/config/avatars';
+
+// The thumbnail sent when no size is asked for
+const DEFAULT_SIZE: AvatarSize = 128;
+
+// One year - the longest cache time browsers honour
+const IMMUTABLE_MAX_AGE = 60 * 60 * 24 * 365;
+
+// Room for the form around the picture (boundaries, part headers, the file name)
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+// The largest request body that can hold an allowed picture
+const MAX_BODY_BYTES = avatarConfig.maxUploadBytes + MULTIPART_OVERHEAD_BYTES;
+
+/**
+ * Checks that the user exists and that their picture may be changed by you
+ * Like any other edit, this needs their role to be one you could give (see
+ * canAssignRole) - a Manager can't change an Admin's picture.
+ *
+ * @param {Permission[]} permissions - The signed-in user's permissions
+ * @param {string} id - The user whose picture is changed
+ * @returns {Promise<NextResponse | null>} A 404 or 403 response, or null when allowed
+ */
+async function checkCanEditAvatar(permissions: Permission[], id: string): Promise<NextResponse | null> {
+  const user = await userService.getById(id);
+  if (!user) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 });
+  }
+
+  const role = await roleService.getById(user.roleId);
+  if (role && !canAssignRole(permissions, role)) {
+    return forbidden('users:change-role');
+  }
+  return null;
+}
+
+/**
+ * 412 (Precondition Failed) response for a stale If-Match, with the current user to compare
+ * @param {string} id - The user that was changed by someone else
+ * @param {PreconditionFailedError} error - The error thrown by the service
+ */
+async function preconditionFailed(id: string, error: PreconditionFailedError): Promise<NextResponse> {
+  const current = await userService.getById(id);
+  if (!current) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 });
+  }
+
+  return NextResponse.json<PreconditionFailedBody>(
+    { error: error.message, current },
+    { status: 412, headers: { ETag: userETag(current) } }
+  );
+}
+
+/**
+ * GET /api/users/:id/avatar?size=128&v=<avatar id>
+ * Sends one thumbnail of the user's picture (a WebP image)
+ *
+ * @param {NextRequest} request - The incoming HTTP request
+ * @param {Object} params - Route parameters containing the user ID
+ * @returns {Promise<NextResponse>} The picture, 304 when If-None-Match still matches,
+ *   400 for a size that isn't stored, 404 when the user has no picture
+ *
+ * Example usage:
+ * <img src={`/api/users/${user.id}/avatar?size=64&v=${user.avatar}`} />
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Return 401 if not signed in, 403 if not allowed to view users
+    const auth = await requirePermission(request, 'users:read');
+    if (!auth.ok) return auth.response;
+
+    // Return 400 for sizes we don't make thumbnails in
+    const sizeParam = request.nextUrl.searchParams.get('size');
+    const size = sizeParam === null ? DEFAULT_SIZE : Number(sizeParam);
+    if (!(AVATAR_SIZES as readonly number[]).includes(size)) {
+      return NextResponse.json(
+        { error: `size must be one of ${AVATAR_SIZES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const avatar = await userService.getAvatar(id, size as AvatarSize);
+    if (!avatar) {
+      return NextResponse.json(
+        { error: 'User has no avatar' },
+        { status: 404 }
+      );
+    }
+
+    // "private": the picture is only for signed-in users, so shared caches must not keep it
+    const etag = `"${avatar.avatarId}-${size}"`;
+    const isCurrentUrl = request.nextUrl.searchParams.get('v') === avatar.avatarId;
+    const headers = {
+      ETag: etag,
+      'Cache-Control': isCurrentUrl ? `private, max-age=${IMMUTABLE_MAX_AGE}, immutable` : 'private, no-cache',
+    };
+
+    // The browser already has this picture: 304 (Not Modified), without sending it again
+    if (request.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    return new NextResponse(new Uint8Array(avatar.data), {
+      headers: {
+        ...headers,
+        'Content-Type': 'image/webp',
+        'Content-Length': String(avatar.data.length),
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to load avatar' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/users/:id/avatar
+ * Uploads a new picture (replaces the current one)
+ *
+ * Body: multipart/form-data with the picture in the "avatar" field
+ * (JPEG, PNG, WebP or GIF, at most AVATAR_MAX_UPLOAD_MB - see backend/config/avatars.ts)
+ *
+ * @param {NextRequest} request - The incoming HTTP request
+ * @param {Object} params - Route parameters containing the user ID
+ * @returns {Promise<NextResponse>} The updated user (and its ETag)
+ *   (400 when the body isn't a form, 403 without "users:update" or for a user whose role
+ *   you couldn't give, 404 not found, 412 when If-Match names an older version, 413 when
+ *   the request is far too large to hold such a picture, 422 when the file is too large
+ *   or isn't a usable picture)
+ *
+ * Example usage:
+ * const form = new FormData();
+ * form.append('avatar', file);
+ * fetch('/api/users/123/avatar', { method: 'POST', body: form, headers: { 'If-Match': '"3"' } })
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Return 401 if not signed in, 403 if not allowed to edit users
+    const auth = await requirePermission(request, 'users:update');
+    if (!auth.ok) return auth.response;
+
+    // Return 404 for unknown users, 403 for users above your own role
+    const { id } = await params;
+    const refused = await checkCanEditAvatar(auth.permissions, id);
+    if (refused) return refused;
+
+    // Return 413 (Content Too Large) for a body that can't hold an allowed picture:
+    // right away when Content-Length says so, otherwise as soon as too many bytes
+    // have arrived (chunked uploads have no Content-Length)
+    const tooLarge = NextResponse.json(
+      { error: 'Request body is too large' },
+      { status: 413 }
+    );
+    if (Number(request.headers.get('content-length')) > MAX_BODY_BYTES) return tooLarge;
+    const body = await readLimitedBody(request, MAX_BODY_BYTES);
+    if (!body) return tooLarge;
+
+    // Return 400 (Bad Request) if the body isn't a form at all
+    let form: FormData;
+    try {
+      const contentType = request.headers.get('content-type') ?? '';
+      form = await new Response(body, { headers: { 'Content-Type': contentType } }).formData();
+    } catch {
+      return NextResponse.json(
+        { error: 'Request body must be multipart/form-data' },
+        { status: 400 }
+      );
+    }
+
+    // Return 422 if the form has no file
+    const file = form.get('avatar');
+    if (!(file instanceof File)) {
+      return NextResponse.json<ValidationErrorBody>(
+        { errors: { avatar: 'Is required' } },
+        { status: 422 }
+      );
+    }
+
+    // Return 422 for files that are too large, before decoding them
+    avatarService.checkSize(file.size);
+
+    const user = await userService.setAvatar(
+      id,
+      Buffer.from(await file.arrayBuffer()),
+      actorFrom(auth.user),
+      parseIfMatch(request.headers.get('if-match'))
+    );
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<UserResponse>(user, { headers: { ETag: userETag(user) } });
+  } catch (error) {
+    // Too large, or not a picture we accept: 422
+    if (error instanceof ValidationError) {
+      return NextResponse.json<ValidationErrorBody>(
+        { errors: error.errors },
+        { status: 422 }
+      );
+    }
+
+    // Someone else saved the user since the version in If-Match: 412
+    if (error instanceof PreconditionFailedError) {
+      return preconditionFailed((await params).id, error);
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to upload avatar' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/users/:id/avatar
+ * Removes the picture - the user is shown with their initials again
+ *
+ * @param {NextRequest} request - The incoming HTTP request
+ * @param {Object} params - Route parameters containing the user ID
+ * @returns {Promise<NextResponse>} The updated user (and its ETag)
+ *   (403 without "users:update" or for a user whose role you couldn't give,
+ *   404 not found, 412 when If-Match names an older version)
+ *
+ * Example usage:
+ * fetch('/api/users/123/avatar', { method: 'DELETE', headers: { 'If-Match': '"4"' } })
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Return 401 if not signed in, 403 if not allowed to edit users
+    const auth = await requirePermission(request, 'users:update');
+    if (!auth.ok) return auth.response;
+
+    // Return 404 for unknown users, 403 for users above your own role
+    const { id } = await params;
+    const refused = await checkCanEditAvatar(auth.permissions, id);
+    if (refused) return refused;
+
+    const user = await userService.setAvatar(
+      id,
+      null,
+      actorFrom(auth.user),
+      parseIfMatch(request.headers.get('if-match'))
+    );
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<UserResponse>(user, { headers: { ETag: userETag(user) } });
+  } catch (error) {
+    // Someone else saved the user since the version in If-Match: 412
+    if (error instanceof PreconditionFailedError) {
+      return preconditionFailed((await params).id, error);
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to remove avatar' },
+      { status: 500 }
+    );
+  }
+}
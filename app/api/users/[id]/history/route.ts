@@ -0,0 +1,62 @@
+/**
+ * API Route: /api/users/[id]/history
+ * The audit log entries of one user, newest first
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/backend/middleware/auth';
+import { auditService } from '@/backend/services/auditService';
+import { userService } from '@/backend/services/userService';
+import { parseAuditQuery } from '@/backend/utils/auditQuery';
+import { UserHistoryResponse } from '@/backend/types/api';
+
+/**
+ * GET /api/users/:id/history
+ * Fetches one page of changes made to a user
+ * Also works for users in the trash or purged users, as long as they have history
+ *
+ * Accepts the same query parameters as GET /api/audit (userId is taken from the URL)
+ *
+ * @param {NextRequest} request - The incoming HTTP request
+ * @param {Object} params - Route parameters containing the user ID
+ * @returns {Promise<NextResponse>} JSON envelope { items, total, page, pageSize },
+ *   or 404 if there is no such user
+ *
+ * Example usage:
+ * fetch('/api/users/123/history')
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Return 401 if not signed in, 403 if not allowed to see users
+    const auth = await requirePermission(request, 'users:read');
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+
+    // Return 400 (Bad Request) if a parameter has an invalid value
+    const query = parseAuditQuery(request.nextUrl.searchParams);
+    if (!query.ok) {
+      return NextResponse.json({ error: query.error }, { status: 400 });
+    }
+
+    const history = await auditService.list({ ...query.value, userId: id });
+
+    // No history and no user: the id is unknown
+    if (history.total === 0 && !(await userService.getById(id))) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<UserHistoryResponse>(history);
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to fetch user history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * API Route: /api/users/[id]/password
+ * Sets the password a user signs in with
+ *
+ * Users added through the API, the batch endpoint or an import have no password
+ * yet - until one is set here they can't sign in.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, requirePermission } from '@/backend/middleware/auth';
+import { authService } from '@/backend/services/authService';
+import { roleService } from '@/backend/services/roleService';
+import { userService } from '@/backend/services/userService';
+import { canAssignRole } from '@/backend/utils/permissions';
+import { validateSetPassword } from '@/backend/validation/authSchemas';
+import { MessageResponse, ValidationErrorBody } from '@/backend/types/api';
+
+/**
+ * PUT /api/users/:id/password
+ * Replaces the user's password (or gives them their first one)
+ *
+ * Body: { "password": "..." } - at least 8 characters
+ *
+ * Whoever sets a password can sign in as that user, so besides "users:update"
+ * the user's role must be one you could give (see canAssignRole) - a Manager
+ * can set passwords of Developers and Users, but not of Admins.
+ *
+ * @param {NextRequest} request - The incoming HTTP request
+ * @param {Object} params - Route parameters containing the user ID
+ * @returns {Promise<NextResponse>} A confirmation message
+ *   (400 invalid JSON, 403 missing permission, 404 not found, 422 invalid password)
+ *
+ * Example usage:
+ * fetch('/api/users/123/password', {
+ *   method: 'PUT',
+ *   headers: { 'Content-Type': 'application/json' },
+ *   body: JSON.stringify({ password: 'correct horse battery staple' })
+ * })
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Return 401 if not signed in, 403 if not allowed to edit users
+    const auth = await requirePermission(request, 'users:update');
+    if (!auth.ok) return auth.response;
+
+    // Return 400 (Bad Request) if the body isn't valid JSON at all
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    // Return 422 if the password is missing or too short
+    const validation = validateSetPassword(body);
+    if (!validation.ok) {
+      return NextResponse.json<ValidationErrorBody>(
+        { errors: validation.errors },
+        { status: 422 }
+      );
+    }
+
+    const { id } = await params;
+    const user = await userService.getById(id);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    // Return 403 for users whose role grants more than your own permissions
+    const role = await roleService.getById(user.roleId);
+    if (role && !canAssignRole(auth.permissions, role)) {
+      return forbidden('users:change-role');
+    }
+
+    // The user may have been deleted in the meantime: 404
+    if (!(await authService.setPassword(id, validation.value.password))) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<MessageResponse>({ message: 'Password set' });
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to set password' },
+      { status: 500 }
+    );
+  }
+}
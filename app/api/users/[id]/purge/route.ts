@@ -0,0 +1,62 @@
+/**
+ * API Route: /api/users/[id]/purge
+ * Removes a deleted user for good
+ *
+ * Users in the trash are also purged automatically once they have been there
+ * longer than TRASH_RETENTION_DAYS (see backend/config/trash.ts)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/backend/middleware/auth';
+import { actorFrom } from '@/backend/services/auditService';
+import { userService } from '@/backend/services/userService';
+import { ConflictError } from '@/backend/utils/errors';
+import { MessageResponse } from '@/backend/types/api';
+
+/**
+ * POST /api/users/:id/purge
+ * Permanently removes a user that is in the trash (can't be undone)
+ *
+ * @param {NextRequest} request - The incoming HTTP request
+ * @param {Object} params - Route parameters containing the user ID
+ * @returns {Promise<NextResponse>} JSON response with success message or error
+ *   (403 without "users:delete", 404 not found, 409 when the user is not in the trash)
+ *
+ * Example usage:
+ * fetch('/api/users/123/purge', { method: 'POST' })
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Return 401 if not signed in, 403 if not allowed to delete users
+    const auth = await requirePermission(request, 'users:delete');
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+    const success = await userService.purge(id, actorFrom(auth.user));
+
+    if (!success) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<MessageResponse>({ message: 'User purged successfully' });
+  } catch (error) {
+    // User is still active - it has to be deleted (moved to the trash) first: 409
+    if (error instanceof ConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to purge user' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * API Route: /api/users/[id]/restore
+ * Takes a deleted user out of the trash
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/backend/middleware/auth';
+import { actorFrom } from '@/backend/services/auditService';
+import { userService } from '@/backend/services/userService';
+import { ConflictError } from '@/backend/utils/errors';
+import { UserResponse } from '@/backend/types/api';
+
+/**
+ * POST /api/users/:id/restore
+ * Restores a user that was deleted (moved to the trash)
+ *
+ * @param {NextRequest} request - The incoming HTTP request
+ * @param {Object} params - Route parameters containing the user ID
+ * @returns {Promise<NextResponse>} JSON response with the restored user
+ *   (403 without "users:delete", 404 not found, 409 when the user is not in the trash)
+ *
+ * Example usage:
+ * fetch('/api/users/123/restore', { method: 'POST' })
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Return 401 if not signed in, 403 if not allowed to delete (and so restore) users
+    const auth = await requirePermission(request, 'users:delete');
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+    const user = await userService.restore(id, actorFrom(auth.user));
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<UserResponse>(user);
+  } catch (error) {
+    // User is not in the trash: 409 (Conflict)
+    if (error instanceof ConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to restore user' },
+      { status: 500 }
+    );
+  }
+}
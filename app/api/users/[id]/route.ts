@@ -5,26 +5,173 @@
  * Dynamic Route:
  * - [id] in folder name means this is a dynamic route parameter
  * - If user visits /api/users/123, the id will be "123"
- * - This file handles PUT (update) and DELETE operations on a specific user
+ * - This file handles GET (fetch one), PUT (replace), PATCH (partial update)
+ *   and DELETE operations on a specific user
+ *
+ * PUT vs. PATCH:
+ * - PUT replaces the user: name, email and roleId are all required, and the
+ *   optional fields (phone, department, jobTitle, managerId, status, attributes)
+ *   that are left out are cleared
+ * - PATCH changes only what the patch describes, in one of two formats:
+ *   - application/merge-patch+json: { "name": "New Name" }
+ *     (custom attributes are merged too: { "attributes": { "costCenter": null } } removes one)
+ *   - application/json-patch+json:  [{ "op": "replace", "path": "/name", "value": "New Name" }]
+ *     ("test" operations let you say "only if the email is still X")
+ *
+ * Optimistic concurrency:
+ * - GET, PUT and PATCH responses carry an ETag header with the user's version
+ * - PUT, PATCH and DELETE accept If-Match: when the user has changed since that
+ *   version, they answer 412 with the current user instead of overwriting it
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, requirePermission, requireUser } from '@/backend/middleware/auth';
+import { actorFrom } from '@/backend/services/auditService';
+import { roleService } from '@/backend/services/roleService';
 import { userService } from '@/backend/services/userService';
+import { validateReplaceUser } from '@/backend/validation/userSchemas';
+import { ConflictError, PreconditionFailedError, ValidationError } from '@/backend/utils/errors';
+import { parseIfMatch, userETag } from '@/backend/utils/etag';
+import { hasPermission, missingEditPermission } from '@/backend/utils/permissions';
+import { EditableUser, editableUser, sameFieldValue } from '@/backend/utils/userFields';
+import {
+  JSON_PATCH_CONTENT_TYPE,
+  JsonPatchError,
+  MERGE_PATCH_CONTENT_TYPE,
+  applyJsonPatch,
+  applyMergePatch,
+} from '@/backend/lib/jsonPatch';
 import { UpdateUserDto } from '@/backend/types/user';
+import {
+  ConflictBody,
+  MessageResponse,
+  PreconditionFailedBody,
+  UserResponse,
+  ValidationErrorBody,
+} from '@/backend/types/api';
+
+// The patch formats PATCH understands (sent back in the Accept-Patch header)
+const ACCEPT_PATCH = `${MERGE_PATCH_CONTENT_TYPE}, ${JSON_PATCH_CONTENT_TYPE}`;
+
+/**
+ * 412 (Precondition Failed) response for a stale If-Match
+ * Includes the current user (and its ETag), so the client can show what changed and merge
+ * @param {string} id - The user that was changed by someone else
+ * @param {PreconditionFailedError} error - The error thrown by the service
+ */
+async function preconditionFailed(id: string, error: PreconditionFailedError): Promise<NextResponse> {
+  const current = await userService.getById(id);
+
+  // Deleted in the meantime: nothing left to merge with
+  if (!current) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 });
+  }
+
+  return NextResponse.json<PreconditionFailedBody>(
+    { error: error.message, current },
+    { status: 412, headers: { ETag: userETag(current) } } // 412 = Precondition Failed
+  );
+}
+
+/**
+ * Turns an error thrown while saving an edit (PUT or PATCH) into a response
+ * @param {string} id - The user being edited
+ * @param {unknown} error - What userService.update() threw
+ */
+async function updateFailed(id: string, error: unknown): Promise<NextResponse> {
+  // Someone else saved the user since the version in If-Match: 412
+  if (error instanceof PreconditionFailedError) {
+    return preconditionFailed(id, error);
+  }
+
+  // Data points to something that doesn't exist (e.g. an unknown role): 422
+  if (error instanceof ValidationError) {
+    return NextResponse.json<ValidationErrorBody>(
+      { errors: error.errors },
+      { status: 422 }
+    );
+  }
+
+  // Email already used by another user: 409 (Conflict) naming the field
+  if (error instanceof ConflictError) {
+    return NextResponse.json<ConflictBody>(
+      { error: error.message, field: error.field, errors: { [error.field]: error.message } },
+      { status: 409 } // 409 = Conflict
+    );
+  }
+
+  // If something goes wrong, return error with status 500
+  return NextResponse.json(
+    { error: 'Failed to update user' },
+    { status: 500 }
+  );
+}
+
+/**
+ * GET /api/users/:id
+ * Fetches a single user by their ID
+ *
+ * @param {NextRequest} request - The incoming HTTP request
+ * @param {Object} params - Route parameters containing the user ID
+ * @returns {Promise<NextResponse>} JSON response with the user (and an ETag header), or 404 if not found
+ *
+ * Example usage:
+ * fetch('/api/users/123')
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Return 401 if not signed in, 403 if not allowed to see users
+    const auth = await requirePermission(request, 'users:read');
+    if (!auth.ok) return auth.response;
+
+    // Extract the id from the route parameters
+    const { id } = await params;
+
+    // Call the service to find the user
+    const user = await userService.getById(id);
+
+    // If user not found, return 404 (Not Found) error
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    // Return the user with status 200 (OK) and its version as ETag
+    return NextResponse.json<UserResponse>(user, { headers: { ETag: userETag(user) } });
+  } catch (error) {
+    // If something goes wrong, return error with status 500
+    return NextResponse.json(
+      { error: 'Failed to fetch user' },
+      { status: 500 }
+    );
+  }
+}
 
 /**
  * PUT /api/users/:id
- * Updates an existing user by their ID
+ * Replaces an existing user by their ID
+ * name, email and roleId must be sent, and optional fields that are left out
+ * are cleared - to change only some fields, use PATCH instead
  *
- * @param {NextRequest} request - The incoming HTTP request with updated data
+ * @param {NextRequest} request - The incoming HTTP request with the complete user
  * @param {Object} params - Route parameters containing the user ID
  * @returns {Promise<NextResponse>} JSON response with updated user or error
+ *   (403 without "users:update", or without "users:change-role" for a new role or
+ *   for a user whose role is above your own,
+ *   422 with { errors: { field: message } } when a field is missing, invalid or the role is unknown,
+ *   409 when the new email is already used by another user,
+ *   412 with { error, current } when If-Match names an older version)
  *
  * Example usage:
  * fetch('/api/users/123', {
  *   method: 'PUT',
- *   headers: { 'Content-Type': 'application/json' },
- *   body: JSON.stringify({ name: 'Updated Name' })
+ *   headers: { 'Content-Type': 'application/json', 'If-Match': '"3"' },
+ *   body: JSON.stringify({ name: 'Updated Name', email: 'updated@example.com', roleId: '4' })
  * })
  */
 export async function PUT(
@@ -32,46 +179,233 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    // Return 401 if not signed in (which fields may be changed is checked below,
+    // once the patch shows what changes)
+    const auth = await requireUser(request);
+    if (!auth.ok) return auth.response;
+
     // Extract the id from the route parameters
     // In Next.js 15+, params is a Promise and must be awaited
     const { id } = await params;
 
-    // Extract the update data from request body
-    const body: UpdateUserDto = await request.json();
+    // Extract the new data from request body
+    // Return 400 (Bad Request) if the body isn't valid JSON at all
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
 
-    // Call the service to update the user
-    const updatedUser = userService.update(id, body);
+    // Validate the complete user: every field is required
+    // Unknown fields like "id" or "createdAt" are rejected, so they can't overwrite stored values
+    const validation = validateReplaceUser(body);
+    if (!validation.ok) {
+      return NextResponse.json<ValidationErrorBody>(
+        { errors: validation.errors },
+        { status: 422 } // 422 = Unprocessable Entity
+      );
+    }
 
     // If user not found, return 404 (Not Found) error
-    if (!updatedUser) {
+    const current = await userService.getById(id);
+    if (!current) {
       return NextResponse.json(
         { error: 'User not found' },
         { status: 404 } // 404 = Not Found
       );
     }
 
-    // Return the updated user with status 200 (OK)
-    return NextResponse.json(updatedUser);
+    // Return 403 if not allowed to make these changes (see missingEditPermission)
+    const currentRole = await roleService.getById(current.roleId);
+    const missing = missingEditPermission(auth.permissions, current, validation.value, currentRole);
+    if (missing) return forbidden(missing);
+
+    // Call the service to update the user (recorded in the audit log)
+    // If-Match (optional) says which version the client edited
+    const updatedUser = await userService.update(
+      id,
+      validation.value,
+      actorFrom(auth.user),
+      parseIfMatch(request.headers.get('if-match'))
+    );
+
+    // Moved to the trash in the meantime
+    if (!updatedUser) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    // Return the updated user with status 200 (OK) and its new version as ETag
+    return NextResponse.json<UserResponse>(updatedUser, { headers: { ETag: userETag(updatedUser) } });
   } catch (error) {
-    // If something goes wrong, return error with status 500
-    return NextResponse.json(
-      { error: 'Failed to update user' },
-      { status: 500 }
+    return updateFailed((await params).id, error);
+  }
+}
+
+/**
+ * PATCH /api/users/:id
+ * Changes some fields of an existing user
+ *
+ * The Content-Type header says which patch format the body uses:
+ * - application/merge-patch+json (RFC 7396): an object with the fields to change
+ * - application/json-patch+json (RFC 6902): a list of add/remove/replace/move/copy/test operations
+ *
+ * The patch is applied to the editable fields ({ name, email, roleId, phone,
+ * ..., attributes }, with "" for fields that aren't set); the result must
+ * still be a complete, valid user. Only the fields that really changed are saved.
+ *
+ * @param {NextRequest} request - The incoming HTTP request with the patch
+ * @param {Object} params - Route parameters containing the user ID
+ * @returns {Promise<NextResponse>} JSON response with updated user or error
+ *   (400 when the body isn't JSON or the patch is malformed,
+ *   415 with an Accept-Patch header for any other Content-Type,
+ *   409 when a JSON Patch "test" operation fails,
+ *   422 when the patch doesn't fit or the patched user is invalid,
+ *   plus the same 403/409/412 responses as PUT)
+ *
+ * Example usage:
+ * fetch('/api/users/123', {
+ *   method: 'PATCH',
+ *   headers: { 'Content-Type': 'application/merge-patch+json', 'If-Match': '"3"' },
+ *   body: JSON.stringify({ name: 'Updated Name' })
+ * })
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Return 401 if not signed in (which fields may be changed is checked below)
+    const auth = await requireUser(request);
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+
+    // Only the two patch formats are accepted: 415 (Unsupported Media Type) otherwise
+    // "application/merge-patch+json; charset=utf-8" → "application/merge-patch+json"
+    const contentType = request.headers.get('content-type')?.split(';')[0].trim().toLowerCase();
+    if (contentType !== MERGE_PATCH_CONTENT_TYPE && contentType !== JSON_PATCH_CONTENT_TYPE) {
+      return NextResponse.json(
+        { error: `Content-Type must be ${MERGE_PATCH_CONTENT_TYPE} or ${JSON_PATCH_CONTENT_TYPE}` },
+        { status: 415, headers: { 'Accept-Patch': ACCEPT_PATCH } }
+      );
+    }
+
+    // Return 400 (Bad Request) if the body isn't valid JSON at all
+    let patch: unknown;
+    try {
+      patch = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    // If user not found, return 404 (Not Found) error
+    const current = await userService.getById(id);
+    if (!current) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    // Return 403 before touching the patch when no change at all would be allowed:
+    // neither permission to edit users, or a user above your own role (e.g. a Manager patching an Admin)
+    if (!hasPermission(auth.permissions, 'users:update') && !hasPermission(auth.permissions, 'users:change-role')) {
+      return forbidden('users:update');
+    }
+    const currentRole = await roleService.getById(current.roleId);
+    const missingForUser = missingEditPermission(auth.permissions, current, {}, currentRole);
+    if (missingForUser) return forbidden(missingForUser);
+
+    // Apply the patch to the editable fields only
+    // (id, createdAt, version etc. can't be patched - adding them fails validation below)
+    const editable = editableUser(current);
+    let patched: unknown;
+    try {
+      patched = contentType === MERGE_PATCH_CONTENT_TYPE
+        ? applyMergePatch(editable, patch)
+        : applyJsonPatch(editable, patch);
+    } catch (error) {
+      if (!(error instanceof JsonPatchError)) throw error;
+
+      if (error.kind === 'test-failed') {
+        return NextResponse.json({ error: error.message }, { status: 409 }); // 409 = Conflict
+      }
+      if (error.kind === 'unprocessable') {
+        return NextResponse.json<ValidationErrorBody>({ errors: { body: error.message } }, { status: 422 });
+      }
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    // The patched user must still be complete and valid (e.g. "remove /name" → 422)
+    const validation = validateReplaceUser(patched);
+    if (!validation.ok) {
+      return NextResponse.json<ValidationErrorBody>(
+        { errors: validation.errors },
+        { status: 422 } // 422 = Unprocessable Entity
+      );
+    }
+
+    // Keep only the fields the patch really changed
+    const changes: UpdateUserDto = {};
+    (Object.keys(validation.value) as (keyof EditableUser)[]).forEach((field) => {
+      if (!sameFieldValue(validation.value[field], editable[field])) {
+        Object.assign(changes, { [field]: validation.value[field] });
+      }
+    });
+
+    // Return 403 if not allowed to make these particular changes
+    const missing = missingEditPermission(auth.permissions, current, changes, currentRole);
+    if (missing) return forbidden(missing);
+
+    // The patch was computed from the version read above, so without If-Match
+    // that version is still required - nobody's changes are silently overwritten
+    const updatedUser = await userService.update(
+      id,
+      changes,
+      actorFrom(auth.user),
+      parseIfMatch(request.headers.get('if-match')) ?? current.version
     );
+
+    // Moved to the trash in the meantime
+    if (!updatedUser) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    // Return the updated user with status 200 (OK) and its new version as ETag
+    return NextResponse.json<UserResponse>(updatedUser, { headers: { ETag: userETag(updatedUser) } });
+  } catch (error) {
+    return updateFailed((await params).id, error);
   }
 }
 
 /**
  * DELETE /api/users/:id
  * Deletes a user by their ID
+ * The user is moved to the trash (soft delete) and can be restored with
+ * POST /api/users/:id/restore until it is purged
  *
  * @param {NextRequest} request - The incoming HTTP request
  * @param {Object} params - Route parameters containing the user ID
  * @returns {Promise<NextResponse>} JSON response with success message or error
+ *   (403 without the "users:delete" permission, 412 when If-Match names an older version)
  *
  * Example usage:
  * fetch('/api/users/123', {
- *   method: 'DELETE'
+ *   method: 'DELETE',
+ *   headers: { 'If-Match': '"3"' } // Optional
  * })
  */
 export async function DELETE(
@@ -79,12 +413,20 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    // Return 401 if not signed in, 403 if not allowed to delete users
+    const auth = await requirePermission(request, 'users:delete');
+    if (!auth.ok) return auth.response;
+
     // Extract the id from the route parameters
     const { id } = await params;
 
     // Call the service to delete the user
     // Returns true if successful, false if user not found
-    const success = userService.delete(id);
+    const success = await userService.delete(
+      id,
+      actorFrom(auth.user),
+      parseIfMatch(request.headers.get('if-match'))
+    );
 
     // If user not found, return 404 error
     if (!success) {
@@ -95,8 +437,13 @@ export async function DELETE(
     }
 
     // Return success message with status 200
-    return NextResponse.json({ message: 'User deleted successfully' });
+    return NextResponse.json<MessageResponse>({ message: 'User deleted successfully' });
   } catch (error) {
+    // Someone else saved the user since the version in If-Match: 412
+    if (error instanceof PreconditionFailedError) {
+      return preconditionFailed((await params).id, error);
+    }
+
     // If something goes wrong, return error with status 500
     return NextResponse.json(
       { error: 'Failed to delete user' },
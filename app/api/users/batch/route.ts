@@ -0,0 +1,204 @@
+/**
+ * API Route: /api/users/batch
+ * Runs many create/update/delete operations in one request
+ *
+ * Every operation gets its own result with the HTTP status it would have had
+ * as a single request (201, 200, 403, 404, 409, 412, 422...), so the client
+ * can tell exactly which ones worked.
+ *
+ * With "transactional": true the batch is all or nothing: if one operation
+ * fails, none is saved and the others are reported as 424 (Failed Dependency).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/backend/middleware/auth';
+import { actorFrom } from '@/backend/services/auditService';
+import { roleService } from '@/backend/services/roleService';
+import { userService } from '@/backend/services/userService';
+import {
+  BATCH_OPERATIONS,
+  BatchAuthorizer,
+  BatchItemResult,
+  BatchOperation,
+  BatchOperationType,
+  BatchOutcome,
+  BatchResponse,
+} from '@/backend/types/batch';
+import { ValidationErrorBody } from '@/backend/types/api';
+import { Permission } from '@/backend/types/role';
+import { validateBatchOperation, validateBatchRequest } from '@/backend/validation/batchSchemas';
+import { ValidationResult, isPlainObject } from '@/backend/validation/schema';
+import {
+  ConflictError,
+  ForbiddenError,
+  PreconditionFailedError,
+  ValidationError,
+} from '@/backend/utils/errors';
+import { canAssignRole, hasPermission, missingEditPermission } from '@/backend/utils/permissions';
+
+/**
+ * Builds the permission check for one signed-in user
+ * The same rules as the single-user endpoints:
+ * - create: "users:create", and only roles you may give (see canAssignRole)
+ * - update: "users:update" for name/email, "users:change-role" for a new role
+ *   (or for any change to a user whose role you couldn't give)
+ * - delete: "users:delete"
+ */
+function authorizerFor(permissions: Permission[]): BatchAuthorizer {
+  return async (operation, current) => {
+    if (operation.op === 'create') {
+      if (!hasPermission(permissions, 'users:create')) throw new ForbiddenError('users:create');
+      const role = await roleService.getById(operation.data.roleId);
+      if (role && !canAssignRole(permissions, role)) throw new ForbiddenError('users:change-role');
+      return;
+    }
+
+    if (operation.op === 'update' && current) {
+      const currentRole = await roleService.getById(current.roleId);
+      const missing = missingEditPermission(permissions, current, operation.data, currentRole);
+      if (missing) throw new ForbiddenError(missing);
+      return;
+    }
+
+    if (operation.op === 'delete' && !hasPermission(permissions, 'users:delete')) {
+      throw new ForbiddenError('users:delete');
+    }
+  };
+}
+
+/**
+ * The "op" of an operation that failed validation, if it names a known one
+ */
+function operationType(input: unknown): BatchOperationType | undefined {
+  const op = isPlainObject(input) ? input.op : undefined;
+  return BATCH_OPERATIONS.find((type) => type === op);
+}
+
+/**
+ * Turns the outcome of one operation into its result, with a matching HTTP status
+ */
+function toItemResult(index: number, operation: BatchOperation, outcome: BatchOutcome): BatchItemResult {
+  const result: BatchItemResult = {
+    index,
+    op: operation.op,
+    id: operation.op === 'create' ? undefined : operation.id,
+    status: 500,
+  };
+
+  switch (outcome.status) {
+    case 'done':
+      return { ...result, id: outcome.user.id, status: operation.op === 'create' ? 201 : 200, user: outcome.user };
+    case 'not-found':
+      return { ...result, status: 404, error: 'User not found' };
+    case 'skipped':
+      return { ...result, status: 424, error: 'Not saved because another operation in the batch failed' };
+  }
+
+  const { error } = outcome;
+  if (error instanceof ForbiddenError) {
+    return { ...result, status: 403, error: error.message, permission: error.permission };
+  }
+  if (error instanceof ValidationError) {
+    return { ...result, status: 422, error: error.message, errors: error.errors };
+  }
+  if (error instanceof ConflictError) {
+    return { ...result, status: 409, error: error.message, errors: { [error.field]: error.message } };
+  }
+  if (error instanceof PreconditionFailedError) {
+    return { ...result, status: 412, error: error.message };
+  }
+  return { ...result, error: 'Failed to run operation' };
+}
+
+/**
+ * POST /api/users/batch
+ * Applies a list of operations and reports the result of each one
+ *
+ * Body:
+ * {
+ *   "transactional": false,      // Optional: true = all or nothing
+ *   "operations": [               // 1 to 100 operations, run in this order
+ *     { "op": "create", "data": { "name": "Ann", "email": "ann@example.com", "roleId": "user" } },
+ *     { "op": "update", "id": "2", "data": { "roleId": "manager" }, "version": 3 },
+ *     { "op": "delete", "id": "3", "version": 1 }
+ *   ]
+ * }
+ * "version" is optional and works like If-Match: 412 if the user changed since then
+ *
+ * @param {NextRequest} request - The incoming HTTP request
+ * @returns {Promise<NextResponse>} { transactional, succeeded, failed, results } -
+ *   200 when every operation was saved, 207 (Multi-Status) when some were not,
+ *   400 when the body isn't JSON, 422 when the body isn't a valid batch
+ *
+ * Example usage:
+ * fetch('/api/users/batch', {
+ *   method: 'POST',
+ *   headers: { 'Content-Type': 'application/json' },
+ *   body: JSON.stringify({ operations: [{ op: 'delete', id: '3' }] })
+ * })
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Return 401 if not signed in (permissions are checked per operation)
+    const auth = await requireUser(request);
+    if (!auth.ok) return auth.response;
+
+    // Return 400 (Bad Request) if the body isn't valid JSON at all
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    // Return 422 if the body isn't a batch (e.g. "operations" missing or too long)
+    const batch = validateBatchRequest(body);
+    if (!batch.ok) {
+      return NextResponse.json<ValidationErrorBody>(
+        { errors: batch.errors },
+        { status: 422 } // 422 = Unprocessable Entity
+      );
+    }
+    const { transactional } = batch.value;
+
+    // Check every operation - invalid ones fail with 422 without running
+    const checked: ValidationResult<BatchOperation>[] = batch.value.operations.map(validateBatchOperation);
+    const valid = checked.flatMap((result) => (result.ok ? [result.value] : []));
+
+    // In an all-or-nothing batch, one invalid operation stops everything
+    const runnable = transactional && valid.length < checked.length ? [] : valid;
+    const outcomes = runnable.length > 0
+      ? await userService.batch({ operations: runnable, transactional }, actorFrom(auth.user), authorizerFor(auth.permissions))
+      : [];
+
+    // Put the results back in request order
+    let next = 0;
+    const results: BatchItemResult[] = checked.map((result, index) => {
+      if (!result.ok) {
+        return { index, op: operationType(batch.value.operations[index]), status: 422, errors: result.errors };
+      }
+      const outcome: BatchOutcome = runnable.length > 0 ? outcomes[next++] : { status: 'skipped' };
+      return toItemResult(index, result.value, outcome);
+    });
+
+    const succeeded = results.filter((result) => result.status < 300).length;
+    const response: BatchResponse = {
+      transactional,
+      succeeded,
+      failed: results.length - succeeded,
+      results,
+    };
+
+    // 207 = Multi-Status: look at each result to see what happened
+    return NextResponse.json<BatchResponse>(response, { status: response.failed > 0 ? 207 : 200 });
+  } catch (error) {
+    // If something goes wrong, return error with status 500
+    return NextResponse.json(
+      { error: 'Failed to run batch' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * API Route: /api/users/check-email
+ * Tells the form whether an email address is still free
+ *
+ * Note: this folder has a fixed name, so Next.js matches it before the
+ * dynamic [id] folder - /api/users/check-email never reaches [id]/route.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/backend/middleware/auth';
+import { userService } from '@/backend/services/userService';
+import { CheckEmailResponse } from '@/backend/types/api';
+
+/**
+ * GET /api/users/check-email?email=...&excludeId=...
+ * Checks if an email is available (case-insensitive)
+ *
+ * @param {NextRequest} request - The incoming HTTP request
+ * @returns {Promise<NextResponse>} JSON response { available: boolean }
+ *
+ * Example usage:
+ * fetch('/api/users/check-email?email=jane@example.com')
+ * // When editing user 2, its own email counts as available:
+ * fetch('/api/users/check-email?email=jane@example.com&excludeId=2')
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Return 401 if not signed in, 403 if not allowed to see users
+    const auth = await requirePermission(request, 'users:read');
+    if (!auth.ok) return auth.response;
+
+    const email = request.nextUrl.searchParams.get('email');
+    const excludeId = request.nextUrl.searchParams.get('excludeId') || undefined;
+
+    // Return 400 (Bad Request) if no email was given
+    if (!email) {
+      return NextResponse.json(
+        { error: 'email query parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const available = await userService.isEmailAvailable(email, excludeId);
+    return NextResponse.json<CheckEmailResponse>({ available });
+  } catch {
+    // If something goes wrong, return error with status 500
+    return NextResponse.json(
+      { error: 'Failed to check email' },
+      { status: 500 }
+    );
+  }
+}
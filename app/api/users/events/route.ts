@@ -0,0 +1,113 @@
+/**
+ * API Route: /api/users/events
+ * A live stream of user changes (server-sent events)
+ *
+ * The browser keeps this request open with an EventSource and receives one
+ * message per created, changed, deleted, restored or purged user - also the
+ * changes made by other people in other browsers.
+ */
+
+import { NextRequest } from 'next/server';
+import { requirePermission } from '@/backend/middleware/auth';
+import { userEventService } from '@/backend/services/userEventService';
+import { UserEvent } from '@/backend/types/events';
+
+// How long a browser waits before reconnecting after the stream broke (milliseconds)
+const RETRY_MS = 3000;
+
+// A comment line is sent this often so proxies don't close an idle connection
+const HEARTBEAT_MS = 25_000;
+
+/**
+ * Formats one server-sent event: "id", "event" and "data" lines, ended by a blank line
+ */
+function formatEvent(event: UserEvent): string {
+  return `id: ${event.id}\nevent: user\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Reads the last event the browser saw
+ * - EventSource sends it as the Last-Event-ID header when it reconnects by itself
+ * - after a manual reconnect it comes as ?lastEventId= (EventSource can't set headers)
+ * @returns {number | null} The event id, or null when the browser starts fresh
+ */
+function lastEventIdFrom(request: NextRequest): number | null {
+  const value = request.headers.get('last-event-id') ?? request.nextUrl.searchParams.get('lastEventId');
+  if (value === null || !/^\d+$/.test(value)) return null;
+  return Number(value);
+}
+
+/**
+ * GET /api/users/events
+ * Opens the event stream
+ *
+ * Messages:
+ * - event "user":  data is a UserEvent (see backend/types/events.ts), id is its number
+ * - event "reset": some missed changes are no longer known (e.g. the server restarted) -
+ *                  the browser should reload its data
+ *
+ * When resuming (Last-Event-ID header or ?lastEventId=), the changes missed in
+ * between are sent first.
+ *
+ * @param {NextRequest} request - The incoming HTTP request
+ * @returns {Promise<Response>} A text/event-stream response that stays open
+ *   (401 if not signed in, 403 without "users:read")
+ *
+ * Example usage:
+ * const events = new EventSource('/api/users/events');
+ * events.addEventListener('user', (message) => console.log(JSON.parse(message.data)));
+ */
+export async function GET(request: NextRequest) {
+  // Return 401 if not signed in, 403 if not allowed to see users
+  const auth = await requirePermission(request, 'users:read');
+  if (!auth.ok) return auth.response;
+
+  const lastEventId = lastEventIdFrom(request);
+  const encoder = new TextEncoder();
+
+  // Set when the stream starts, called when the browser goes away
+  let stop = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (text: string) => {
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          stop(); // The stream is already closed
+        }
+      };
+
+      send(`retry: ${RETRY_MS}\n\n`);
+
+      // Listen first, then catch up - so no change falls in between
+      const unsubscribe = userEventService.subscribe((event) => send(formatEvent(event)));
+      if (lastEventId !== null) {
+        const missed = userEventService.since(lastEventId);
+        if (missed === null) send('event: reset\ndata: {}\n\n');
+        else missed.forEach((event) => send(formatEvent(event)));
+      }
+
+      const heartbeat = setInterval(() => send(': ping\n\n'), HEARTBEAT_MS);
+
+      stop = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        request.signal.removeEventListener('abort', stop);
+      };
+      request.signal.addEventListener('abort', stop);
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Tells nginx not to hold the messages back
+    },
+  });
+}
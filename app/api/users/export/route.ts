@@ -0,0 +1,75 @@
+/**
+ * API Route: /api/users/export
+ * Downloads users as a CSV, JSON or Excel file
+ *
+ * The file contains exactly what the user table shows for the same query
+ * (search, filters and sort) - but every page, not just the current one.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/backend/middleware/auth';
+import { exportService } from '@/backend/services/exportService';
+import { parseExportOptions } from '@/backend/utils/exportQuery';
+import { parseUserListQuery } from '@/backend/utils/userQuery';
+
+/**
+ * GET /api/users/export
+ * Streams the matching users as a file download
+ *
+ * Query parameters (all optional):
+ * - q, roleId, createdFrom, createdTo, includeDeleted, sort, order:
+ *                 Same as GET /api/users (page and pageSize are ignored)
+ * - format:       csv | json | xlsx (default csv)
+ * - columns:      Comma separated: id, name, email, role, phone, department, jobTitle,
+ *                 manager, status, createdAt, updatedAt, deletedAt - see EXPORT_COLUMNS
+ *                 (default name,email,role,createdAt)
+ * - locale:       How dates are written in CSV and Excel files, e.g. de-DE
+ *                 (default: the browser's Accept-Language, then en-US)
+ * - timeZone:     The time zone of those dates, e.g. Europe/Berlin (default UTC)
+ *
+ * @param {NextRequest} request - The incoming HTTP request
+ * @returns {Promise<NextResponse>} The file, with a Content-Disposition header so
+ *   browsers save it (e.g. "users-2025-01-31.csv")
+ *   (403 without "users:read", 400 when a parameter has an invalid value)
+ *
+ * Example usage:
+ * <a href="/api/users/export?format=xlsx&roleId=admin&columns=name,email">Download</a>
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Return 401 if not signed in, 403 if not allowed to see users
+    const auth = await requirePermission(request, 'users:read');
+    if (!auth.ok) return auth.response;
+
+    // Which users: the same query parameters as the list
+    // Return 400 (Bad Request) if a parameter has an invalid value
+    const params = request.nextUrl.searchParams;
+    const query = parseUserListQuery(params);
+    if (!query.ok) {
+      return NextResponse.json({ error: query.error }, { status: 400 });
+    }
+
+    // How the file looks: format, columns, date formatting
+    const options = parseExportOptions(params, request.headers.get('accept-language'));
+    if (!options.ok) {
+      return NextResponse.json({ error: options.error }, { status: 400 });
+    }
+
+    const file = await exportService.export(query.value, options.value);
+
+    // Send the file piece by piece as it is produced
+    return new NextResponse(file.body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.fileName}"`,
+        'Cache-Control': 'no-store', // Always export the current data
+      },
+    });
+  } catch (error) {
+    // If something goes wrong, return error with status 500
+    return NextResponse.json(
+      { error: 'Failed to export users' },
+      { status: 500 }
+    );
+  }
+}
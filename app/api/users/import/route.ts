@@ -0,0 +1,86 @@
+/**
+ * API Route: /api/users/import
+ * Adds many users at once from rows of a CSV or JSON file
+ *
+ * The browser reads the file and maps its columns, then sends the rows here:
+ * 1. With "dryRun": true to preview - every row is checked, nothing is saved
+ * 2. Without it to import - valid rows are created, the others are skipped
+ *    and returned as a report
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/backend/middleware/auth';
+import { actorFrom } from '@/backend/services/auditService';
+import { importService } from '@/backend/services/importService';
+import { validateImportRequest } from '@/backend/validation/importSchemas';
+import { ValidationErrorBody } from '@/backend/types/api';
+import { ImportPreview, ImportResult } from '@/backend/types/import';
+
+/**
+ * POST /api/users/import
+ * Checks (dryRun) or imports rows of users
+ *
+ * Body:
+ * {
+ *   "dryRun": true,     // Optional: true = only check the rows
+ *   "rows": [           // 1 to 1000 rows; role is a role name or id
+ *     { "name": "Ann Lee", "email": "ann@example.com", "role": "Manager" }
+ *   ]
+ * }
+ *
+ * @param {NextRequest} request - The incoming HTTP request
+ * @returns {Promise<NextResponse>} Preview { rows, valid, invalid } for a dry run,
+ *   otherwise 201 with { created, skipped } (skipped rows carry their errors)
+ *   (403 without "users:create", 400 when the body isn't JSON,
+ *   422 when the body has no valid list of rows)
+ *
+ * Example usage:
+ * fetch('/api/users/import', {
+ *   method: 'POST',
+ *   headers: { 'Content-Type': 'application/json' },
+ *   body: JSON.stringify({ dryRun: true, rows })
+ * })
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Return 401 if not signed in, 403 if not allowed to add users
+    const auth = await requirePermission(request, 'users:create');
+    if (!auth.ok) return auth.response;
+
+    // Return 400 (Bad Request) if the body isn't valid JSON at all
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    // Return 422 if the rows are missing or not rows of text
+    const validation = validateImportRequest(body);
+    if (!validation.ok) {
+      return NextResponse.json<ValidationErrorBody>(
+        { errors: validation.errors },
+        { status: 422 } // 422 = Unprocessable Entity
+      );
+    }
+    const { rows, dryRun } = validation.value;
+
+    // Preview: check every row, save nothing
+    if (dryRun) {
+      return NextResponse.json<ImportPreview>(await importService.check(rows, auth.permissions));
+    }
+
+    // Import: create the valid rows (each one recorded in the audit log)
+    const result = await importService.import(rows, actorFrom(auth.user), auth.permissions);
+    return NextResponse.json<ImportResult>(result, { status: 201 }); // 201 = Created
+  } catch (error) {
+    // If something goes wrong, return error with status 500
+    return NextResponse.json(
+      { error: 'Failed to import users' },
+      { status: 500 }
+    );
+  }
+}
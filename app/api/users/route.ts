@@ -9,25 +9,58 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, requirePermission } from '@/backend/middleware/auth';
+import { roleService } from '@/backend/services/roleService';
+import { actorFrom } from '@/backend/services/auditService';
 import { userService } from '@/backend/services/userService';
-import { CreateUserDto } from '@/backend/types/user';
+import { parseUserListQuery } from '@/backend/utils/userQuery';
+import { validateCreateUser } from '@/backend/validation/userSchemas';
+import { ConflictError, ValidationError } from '@/backend/utils/errors';
+import { canAssignRole } from '@/backend/utils/permissions';
+import { userETag } from '@/backend/utils/etag';
+import { ConflictBody, UserListResponse, UserResponse, ValidationErrorBody } from '@/backend/types/api';
 
 /**
  * GET /api/users
- * Fetches all users from the database
+ * Fetches one page of users from the database
  *
- * @returns {Promise<NextResponse>} JSON response with array of users
+ * Query parameters (all optional):
+ * - page, pageSize:         Which page to return (default 1 and 10, max pageSize 100)
+ * - sort:                   name | email | role | createdAt | deletedAt (default createdAt)
+ * - order:                  asc | desc (default asc)
+ * - roleId:                 Only users with this role
+ * - createdFrom, createdTo: Only users created within this date range
+ * - q:                      Search text matched against name, email and role name
+ *                           (case-insensitive, tolerates small typos)
+ * - includeDeleted:         true = also users in the trash, only = just the trash
+ *                           (deleted users are left out by default)
+ *
+ * @param {NextRequest} request - The incoming HTTP request
+ * @returns {Promise<NextResponse>} JSON envelope { items, total, page, pageSize }
+ *   When q is given, each item has `highlights` with the matched character ranges
  *
  * Example usage:
- * fetch('/api/users')
+ * fetch('/api/users?page=2&pageSize=20&sort=name&order=desc&roleId=admin')
+ * fetch('/api/users?q=jane')
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    // Call the service to get all users
-    const users = userService.getAll();
+    // Return 401 if not signed in, 403 if not allowed to see users
+    const auth = await requirePermission(request, 'users:read');
+    if (!auth.ok) return auth.response;
+
+    // Read and validate the query string
+    // Return 400 (Bad Request) if a parameter has an invalid value
+    const query = parseUserListQuery(request.nextUrl.searchParams);
+    if (!query.ok) {
+      return NextResponse.json({ error: query.error }, { status: 400 });
+    }
 
-    // Return users as JSON response (status 200 by default)
-    return NextResponse.json(users);
+    // Call the service to get the requested page of users
+    const result = await userService.list(query.value);
+
+    // Return the page as JSON response (status 200 by default)
+    return NextResponse.json<UserListResponse>(result);
   } catch (error) {
     // If something goes wrong, return error with status 500 (Internal Server Error)
     return NextResponse.json(
@@ -42,35 +75,76 @@ export async function GET() {
  * Creates a new user in the database
  *
  * @param {NextRequest} request - The incoming HTTP request with user data in body
- * @returns {Promise<NextResponse>} JSON response with the created user
+ * @returns {Promise<NextResponse>} JSON response with the created user,
+ *   or 403 without the "users:create" permission (or when giving a role above your own),
+ *   or 422 with { errors: { field: message } } when the data is invalid or the role is unknown,
+ *   or 409 when the email is already used by another user
  *
  * Example usage:
  * fetch('/api/users', {
  *   method: 'POST',
  *   headers: { 'Content-Type': 'application/json' },
- *   body: JSON.stringify({ name: 'John', email: 'john@test.com', role: 'User' })
+ *   body: JSON.stringify({ name: 'John', email: 'john@test.com', roleId: 'user' })
  * })
  */
 export async function POST(request: NextRequest) {
   try {
-    // Extract JSON data from the request body
-    const body: CreateUserDto = await request.json();
+    // Return 401 if not signed in, 403 if not allowed to add users
+    const auth = await requirePermission(request, 'users:create');
+    if (!auth.ok) return auth.response;
 
-    // Validate required fields
-    // Return 400 (Bad Request) if any required field is missing
-    if (!body.name || !body.email || !body.role) {
+    // Extract JSON data from the request body
+    // Return 400 (Bad Request) if the body isn't valid JSON at all
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
       return NextResponse.json(
-        { error: 'Name, email, and role are required' },
+        { error: 'Request body must be valid JSON' },
         { status: 400 } // 400 = Bad Request
       );
     }
 
-    // Call the service to create the user
-    const newUser = userService.create(body);
+    // Validate the fields (required, email format, allowed role, no unknown fields)
+    // Return 422 (Unprocessable Entity) with one message per invalid field
+    const validation = validateCreateUser(body);
+    if (!validation.ok) {
+      return NextResponse.json<ValidationErrorBody>(
+        { errors: validation.errors },
+        { status: 422 } // 422 = Unprocessable Entity
+      );
+    }
 
-    // Return the created user with status 201 (Created)
-    return NextResponse.json(newUser, { status: 201 });
+    // Without "users:change-role", only roles that don't grant more than your own
+    // permissions can be given (e.g. a Manager can't create an Admin): 403
+    const role = await roleService.getById(validation.value.roleId);
+    if (role && !canAssignRole(auth.permissions, role)) {
+      return forbidden('users:change-role');
+    }
+
+    // Call the service to create the user (with the trimmed, validated data)
+    // The signed-in user is recorded as the actor in the audit log
+    const newUser = await userService.create(validation.value, actorFrom(auth.user));
+
+    // Return the created user with status 201 (Created) and its version as ETag
+    return NextResponse.json<UserResponse>(newUser, { status: 201, headers: { ETag: userETag(newUser) } });
   } catch (error) {
+    // Data points to something that doesn't exist (e.g. an unknown role): 422
+    if (error instanceof ValidationError) {
+      return NextResponse.json<ValidationErrorBody>(
+        { errors: error.errors },
+        { status: 422 }
+      );
+    }
+
+    // Email already used by another user: 409 (Conflict) naming the field
+    if (error instanceof ConflictError) {
+      return NextResponse.json<ConflictBody>(
+        { error: error.message, field: error.field, errors: { [error.field]: error.message } },
+        { status: 409 } // 409 = Conflict
+      );
+    }
+
     // If something goes wrong, return error with status 500
     return NextResponse.json(
       { error: 'Failed to create user' },
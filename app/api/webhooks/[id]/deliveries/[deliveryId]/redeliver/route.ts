@@ -0,0 +1,60 @@
+/**
+ * API Route: /api/webhooks/[id]/deliveries/[deliveryId]/redeliver
+ * Sends an earlier delivery again
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/backend/middleware/auth';
+import { webhookService } from '@/backend/services/webhookService';
+import { ConflictError } from '@/backend/utils/errors';
+import { WebhookDelivery } from '@/backend/types/webhook';
+
+/**
+ * POST /api/webhooks/:id/deliveries/:deliveryId/redeliver
+ * Queues the same payload again as a new delivery (e.g. after the receiver was fixed)
+ * It is sent right away, with the same retries as any other delivery
+ *
+ * @param {NextRequest} request - The incoming HTTP request (no body)
+ * @param {Object} params - Route parameters containing the webhook and delivery IDs
+ * @returns {Promise<NextResponse>} 202 (Accepted) with the new delivery,
+ *   404 if the webhook or delivery doesn't exist, or 409 if the webhook is switched off
+ *
+ * Example usage:
+ * fetch('/api/webhooks/123/deliveries/abc/redeliver', { method: 'POST' })
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; deliveryId: string }> }
+) {
+  try {
+    // Return 401 if not signed in, 403 if not allowed to manage webhooks
+    const auth = await requirePermission(request, 'webhooks:manage');
+    if (!auth.ok) return auth.response;
+
+    const { id, deliveryId } = await params;
+    const delivery = await webhookService.redeliver(id, deliveryId);
+
+    if (!delivery) {
+      return NextResponse.json(
+        { error: 'Delivery not found' },
+        { status: 404 }
+      );
+    }
+
+    // 202 = Accepted: queued, the outcome shows up in the delivery log
+    return NextResponse.json<WebhookDelivery>(delivery, { status: 202 });
+  } catch (error) {
+    // Paused webhook: 409 (Conflict)
+    if (error instanceof ConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to redeliver webhook delivery' },
+      { status: 500 }
+    );
+  }
+}
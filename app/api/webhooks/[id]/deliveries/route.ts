@@ -0,0 +1,62 @@
+/**
+ * API Route: /api/webhooks/[id]/deliveries
+ * The delivery log of one webhook, newest first
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/backend/middleware/auth';
+import { webhookService } from '@/backend/services/webhookService';
+import { parseDeliveryQuery } from '@/backend/utils/webhookQuery';
+import { PaginatedResult } from '@/backend/types/user';
+import { WebhookDelivery } from '@/backend/types/webhook';
+
+/**
+ * GET /api/webhooks/:id/deliveries
+ * Fetches one page of deliveries: what was sent, how often it was tried,
+ * and what the receiver answered
+ *
+ * Query parameters (all optional):
+ * - page, pageSize: Which page to return (default 1 and 10, max pageSize 100)
+ * - status:         pending | succeeded | failed
+ *
+ * @param {NextRequest} request - The incoming HTTP request
+ * @param {Object} params - Route parameters containing the webhook ID
+ * @returns {Promise<NextResponse>} JSON envelope { items, total, page, pageSize },
+ *   or 404 if there is no such webhook
+ *
+ * Example usage:
+ * fetch('/api/webhooks/123/deliveries?status=failed')
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Return 401 if not signed in, 403 if not allowed to manage webhooks
+    const auth = await requirePermission(request, 'webhooks:manage');
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+
+    // Return 400 (Bad Request) if a parameter has an invalid value
+    const query = parseDeliveryQuery(request.nextUrl.searchParams);
+    if (!query.ok) {
+      return NextResponse.json({ error: query.error }, { status: 400 });
+    }
+
+    if (!(await webhookService.getById(id))) {
+      return NextResponse.json(
+        { error: 'Webhook not found' },
+        { status: 404 }
+      );
+    }
+
+    const deliveries = await webhookService.listDeliveries(id, query.value);
+    return NextResponse.json<PaginatedResult<WebhookDelivery>>(deliveries);
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to fetch webhook deliveries' },
+      { status: 500 }
+    );
+  }
+}
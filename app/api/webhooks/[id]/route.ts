@@ -0,0 +1,149 @@
+/**
+ * API Route: /api/webhooks/[id]
+ * This file handles HTTP requests to /api/webhooks/:id endpoint
+ * It handles GET (fetch one), PATCH (update) and DELETE operations on a specific webhook
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/backend/middleware/auth';
+import { webhookService, withoutSecret } from '@/backend/services/webhookService';
+import { validateUpdateWebhook } from '@/backend/validation/webhookSchemas';
+import { MessageResponse, ValidationErrorBody } from '@/backend/types/api';
+import { WebhookResponse } from '@/backend/types/webhook';
+
+/**
+ * GET /api/webhooks/:id
+ * Fetches a single webhook by its ID (without its secret)
+ *
+ * @returns {Promise<NextResponse>} JSON response with the webhook, or 404 if not found
+ *
+ * Example usage:
+ * fetch('/api/webhooks/123')
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Return 401 if not signed in, 403 if not allowed to manage webhooks
+    const auth = await requirePermission(request, 'webhooks:manage');
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+    const webhook = await webhookService.getById(id);
+
+    if (!webhook) {
+      return NextResponse.json(
+        { error: 'Webhook not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<WebhookResponse>(withoutSecret(webhook));
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to fetch webhook' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/webhooks/:id
+ * Updates some fields of a webhook (same fields as POST /api/webhooks)
+ * Sending a new secret replaces the old one; "active": false pauses the webhook
+ *
+ * @returns {Promise<NextResponse>} JSON response with the updated webhook or error
+ *   (403 without "webhooks:manage", 404 not found, 422 invalid data)
+ *
+ * Example usage:
+ * fetch('/api/webhooks/123', {
+ *   method: 'PATCH',
+ *   headers: { 'Content-Type': 'application/json' },
+ *   body: JSON.stringify({ active: false })
+ * })
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Return 401 if not signed in, 403 if not allowed to manage webhooks
+    const auth = await requirePermission(request, 'webhooks:manage');
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateUpdateWebhook(body);
+    if (!validation.ok) {
+      return NextResponse.json<ValidationErrorBody>(
+        { errors: validation.errors },
+        { status: 422 }
+      );
+    }
+
+    const updatedWebhook = await webhookService.update(id, validation.value);
+
+    if (!updatedWebhook) {
+      return NextResponse.json(
+        { error: 'Webhook not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<WebhookResponse>(withoutSecret(updatedWebhook));
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to update webhook' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/webhooks/:id
+ * Deletes a webhook, its delivery log and anything still waiting to be sent
+ *
+ * @returns {Promise<NextResponse>} JSON response with success message or error
+ *   (403 without "webhooks:manage", 404 not found)
+ *
+ * Example usage:
+ * fetch('/api/webhooks/123', { method: 'DELETE' })
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Return 401 if not signed in, 403 if not allowed to manage webhooks
+    const auth = await requirePermission(request, 'webhooks:manage');
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+    const success = await webhookService.delete(id);
+
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Webhook not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<MessageResponse>({ message: 'Webhook deleted successfully' });
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to delete webhook' },
+      { status: 500 }
+    );
+  }
+}
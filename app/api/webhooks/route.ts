@@ -0,0 +1,100 @@
+/**
+ * API Route: /api/webhooks
+ * This file handles HTTP requests to the /api/webhooks endpoint
+ * It handles GET (fetch all) and POST (create new)
+ *
+ * Every webhook endpoint needs the "webhooks:manage" permission.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/backend/middleware/auth';
+import { webhookService, withoutSecret } from '@/backend/services/webhookService';
+import { validateCreateWebhook } from '@/backend/validation/webhookSchemas';
+import { ValidationErrorBody } from '@/backend/types/api';
+import { Webhook, WebhookResponse } from '@/backend/types/webhook';
+
+/**
+ * GET /api/webhooks
+ * Fetches all webhooks, oldest first (without their secrets)
+ *
+ * @returns {Promise<NextResponse>} JSON response with array of webhooks
+ *
+ * Example usage:
+ * fetch('/api/webhooks')
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Return 401 if not signed in, 403 if not allowed to manage webhooks
+    const auth = await requirePermission(request, 'webhooks:manage');
+    if (!auth.ok) return auth.response;
+
+    const webhooks = await webhookService.getAll();
+    return NextResponse.json<WebhookResponse[]>(webhooks.map(withoutSecret));
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to fetch webhooks' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/webhooks
+ * Creates a new webhook
+ *
+ * Body fields:
+ * - url:         Where to POST the payloads (http:// or https://)
+ * - events:      Any of user.created, user.updated, user.deleted, user.restored, user.purged
+ * - secret:      Optional: key for the X-Webhook-Signature header (at least 16 characters)
+ *                - a random one is made when missing
+ * - description: Optional
+ * - active:      Optional: false = don't send anything yet (default true)
+ *
+ * @param {NextRequest} request - The incoming HTTP request with webhook data in body
+ * @returns {Promise<NextResponse>} JSON response with the created webhook INCLUDING its
+ *   secret (the only time it is shown), 403 without "webhooks:manage", or 422 when the data is invalid
+ *
+ * Example usage:
+ * fetch('/api/webhooks', {
+ *   method: 'POST',
+ *   headers: { 'Content-Type': 'application/json' },
+ *   body: JSON.stringify({ url: 'http://localhost:4000/hooks', events: ['user.created', 'user.deleted'] })
+ * })
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Return 401 if not signed in, 403 if not allowed to manage webhooks
+    const auth = await requirePermission(request, 'webhooks:manage');
+    if (!auth.ok) return auth.response;
+
+    // Return 400 (Bad Request) if the body isn't valid JSON at all
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    // Return 422 (Unprocessable Entity) with one message per invalid field
+    const validation = validateCreateWebhook(body);
+    if (!validation.ok) {
+      return NextResponse.json<ValidationErrorBody>(
+        { errors: validation.errors },
+        { status: 422 }
+      );
+    }
+
+    const webhook = await webhookService.create(validation.value);
+
+    // Return the created webhook with status 201 (Created)
+    return NextResponse.json<Webhook>(webhook, { status: 201 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to create webhook' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * API Docs Page
+ * Shows the /api/users endpoints at /docs and lets signed-in users try them
+ *
+ * The page reads the same OpenAPI document that GET /api/openapi.json serves,
+ * so the docs can't describe a different API than the one tools see.
+ */
+
+import type { Metadata } from 'next';
+import { buildOpenApiDocument } from '@/backend/openapi/spec';
+import { ApiDocs } from '@/frontend/components/ApiDocs';
+
+export const metadata: Metadata = {
+  title: 'API Docs',
+};
+
+/**
+ * DocsPage Component
+ * Builds the document on the server and hands it to the interactive viewer
+ */
+export default function DocsPage() {
+  return (
+    // Same background and container as the home page
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-blue-50 to-gray-100">
+      <main className="container mx-auto px-4 py-8 max-w-5xl">
+        <ApiDocs document={buildOpenApiDocument()} />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+/**
+ * Error Page (error boundary)
+ * Shown instead of a page when it crashes while rendering
+ *
+ * In Next.js App Router:
+ * - error.tsx wraps every page below it in a React error boundary
+ * - The header (layout) stays, so the app doesn't go blank
+ * - reset() renders the page again, e.g. after a temporary problem
+ */
+
+'use client'; // Error boundaries must be Client Components
+
+import { useEffect } from 'react';
+import Link from 'next/link';
+
+/**
+ * Props passed to this page by Next.js
+ */
+interface ErrorPageProps {
+  error: Error & { digest?: string }; // digest = id of the error in the server logs
+  reset: () => void;
+}
+
+/**
+ * ErrorPage Component
+ * @param {ErrorPageProps} props - The error and a way to try again
+ */
+export default function ErrorPage({ error, reset }: ErrorPageProps) {
+  // Keep the details for developers (the browser console)
+  useEffect(() => {
+    console.error('Page crashed:', error);
+  }, [error]);
+
+  return (
+    // Same background as the other pages
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-blue-50 to-gray-100 flex items-center justify-center px-4">
+      <main role="alert" className="bg-white rounded-xl shadow-lg border border-gray-200 w-full max-w-md p-8 text-center">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Something went wrong</h1>
+        <p className="text-gray-600 mb-6">
+          This page could not be shown. Try again, or go back to the user list.
+          {error.digest && <span className="block text-xs text-gray-400 mt-2">Error id: {error.digest}</span>}
+        </p>
+        <div className="flex justify-center gap-3">
+          <button
+            type="button"
+            onClick={reset}
+            className="bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 font-medium"
+          >
+            Try again
+          </button>
+          <Link href="/" className="py-2 px-4 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 font-medium">
+            User list
+          </Link>
+        </div>
+      </main>
+    </div>
+  );
+}
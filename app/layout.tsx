@@ -11,6 +11,9 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
+import { getCurrentUser } from "@/backend/middleware/auth";
+import { AccountMenu } from "@/frontend/components/AccountMenu";
+import { ToastProvider } from "@/frontend/contexts/ToastContext";
 
 /**
  * Font Configuration
@@ -42,11 +45,14 @@ export const metadata: Metadata = {
  * @param {Object} props - Component props
  * @param {React.ReactNode} props.children - The page content to render
  */
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  // The signed-in user (null on the sign-in page)
+  const user = await getCurrentUser();
+
   return (
     // suppressHydrationWarning on html and body prevents warnings
     // caused by browser extensions that modify these elements
@@ -58,8 +64,14 @@ export default function RootLayout({
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
         suppressHydrationWarning
       >
-        {/* Render the page content */}
-        {children}
+        {/* Toast notifications (success, error, undo) for every page */}
+        <ToastProvider>
+          {/* Who is signed in + Sign out button */}
+          {user && <AccountMenu user={user} />}
+
+          {/* Render the page content */}
+          {children}
+        </ToastProvider>
       </body>
     </html>
   );
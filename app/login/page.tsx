@@ -0,0 +1,39 @@
+/**
+ * Sign-in Page
+ * Shown at /login - the proxy sends visitors here when they are not signed in
+ */
+
+import type { Metadata } from 'next';
+import { redirect } from 'next/navigation';
+import { getCurrentUser } from '@/backend/middleware/auth';
+import { LoginForm } from '@/frontend/components/LoginForm';
+
+export const metadata: Metadata = {
+  title: 'Sign in',
+};
+
+/**
+ * LoginPage Component
+ * @param {Object} props - Page props from Next.js
+ * @param {Promise<Object>} props.searchParams - ?next=<page to open after signing in>
+ */
+export default async function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ next?: string | string[] }>;
+}) {
+  const { next } = await searchParams;
+
+  // Already signed in? Nothing to do here
+  if (await getCurrentUser()) redirect('/');
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-blue-50 to-gray-100 flex items-center justify-center px-4">
+      <main className="bg-white rounded-xl shadow-lg border border-gray-200 w-full max-w-sm p-8">
+        <h1 className="text-2xl font-bold text-gray-900 mb-1">Sign in</h1>
+        <p className="text-gray-600 mb-6">User Management</p>
+        <LoginForm next={typeof next === 'string' ? next : undefined} />
+      </main>
+    </div>
+  );
+}
@@ -8,6 +8,8 @@
  * - The component exported as default is what gets rendered
  */
 
+import { trashConfig } from '@/backend/config/trash';
+import { getCurrentPermissions, getCurrentUser } from '@/backend/middleware/auth';
 import { UserTable } from '@/frontend/components/UserTable';
 
 /**
@@ -18,8 +20,24 @@ import { UserTable } from '@/frontend/components/UserTable';
  * - Outer div: Full-screen container with gradient background
  * - Main section: Centers content with max width and padding
  * - UserTable: The actual table component with all CRUD functionality
+ *
+ * @param {Object} props - Page props from Next.js
+ * @param {Promise<Object>} props.searchParams - URL query parameters (e.g. ?q=jane)
  */
-export default function Home() {
+export default async function Home({
+  searchParams,
+}: {
+  searchParams: Promise<{ q?: string | string[] }>;
+}) {
+  // In Next.js 15+, searchParams is a Promise and must be awaited
+  const { q } = await searchParams;
+
+  // The signed-in user's permissions decide which buttons the table shows
+  const permissions = await getCurrentPermissions();
+
+  // The signed-in user - the table highlights changes made by everyone else
+  const currentUser = await getCurrentUser();
+
   return (
     // Full-screen container with beautiful gradient background
     // min-h-screen = minimum height of 100vh (full viewport height)
@@ -32,7 +50,13 @@ export default function Home() {
       <main className="container mx-auto px-4 py-8 max-w-7xl">
         {/* Render the UserTable component */}
         {/* This component contains all the CRUD functionality */}
-        <UserTable />
+        {/* initialSearch keeps a shared link like /?q=jane searching for "jane" */}
+        <UserTable
+          initialSearch={typeof q === 'string' ? q : ''}
+          permissions={permissions}
+          trashRetentionDays={trashConfig.retentionDays}
+          currentUserId={currentUser?.id ?? ''}
+        />
       </main>
     </div>
   );
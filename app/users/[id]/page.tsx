@@ -0,0 +1,55 @@
+/**
+ * User Detail Page
+ * Shows a single user at /users/:id
+ *
+ * In Next.js App Router:
+ * - [id] in the folder name is a dynamic route parameter
+ * - This is a Server Component: it loads the user on the server,
+ *   so the page arrives with the data already filled in
+ * - notFound() shows the 404 page when the user doesn't exist
+ */
+
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { getCurrentPermissions } from '@/backend/middleware/auth';
+import { userService } from '@/backend/services/userService';
+import { UserDetail } from '@/frontend/components/UserDetail';
+
+/**
+ * Props passed to this page by Next.js
+ * In Next.js 15+, params is a Promise and must be awaited
+ */
+interface UserPageProps {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Page Metadata
+ * Uses the user's name as the browser tab title
+ */
+export async function generateMetadata({ params }: UserPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const user = await userService.getById(id);
+  return { title: user ? `${user.name} · Users` : 'User not found' };
+}
+
+/**
+ * UserPage Component
+ * Loads the user and renders the detail view
+ */
+export default async function UserPage({ params }: UserPageProps) {
+  const { id } = await params;
+  const [user, permissions] = await Promise.all([userService.getById(id), getCurrentPermissions()]);
+
+  // Unknown id: show the 404 page
+  if (!user) notFound();
+
+  return (
+    // Same background and container as the home page
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-blue-50 to-gray-100">
+      <main className="container mx-auto px-4 py-8 max-w-3xl">
+        <UserDetail user={user} permissions={permissions} />
+      </main>
+    </div>
+  );
+}
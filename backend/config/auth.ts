@@ -0,0 +1,40 @@
+/**
+ * Authentication Configuration
+ * Settings for sign-in and session cookies, based on environment variables
+ *
+ * Environment variables:
+ * - SESSION_SECRET: Secret used to sign session cookies (REQUIRED in production -
+ *   the server refuses to start without it)
+ * - SESSION_TTL_HOURS: How long a sign-in lasts (default: 168 hours = 7 days)
+ * - SEED_PASSWORD: Password given to the sample users on first start
+ *   (default: "password" in development; in production a random one, printed once when the users are created)
+ */
+
+import { randomBytes } from 'crypto';
+
+// Only used when SESSION_SECRET is missing in development - never in production
+const DEVELOPMENT_SECRET = 'development-only-session-secret-change-me';
+
+const isProduction = process.env.NODE_ENV === 'production';
+
+// "next build" also runs with NODE_ENV=production, but only loads the code -
+// the secrets are needed when the server starts, not while building
+const isBuilding = process.env.NEXT_PHASE === 'phase-production-build';
+
+// Anyone who knows the public default secret could sign their own session cookies
+if (isProduction && !isBuilding && !process.env.SESSION_SECRET) {
+  throw new Error('[auth] SESSION_SECRET must be set in production');
+}
+
+/**
+ * Auth Config Object
+ * Read once when the server starts
+ */
+export const authConfig = {
+  sessionSecret: process.env.SESSION_SECRET || DEVELOPMENT_SECRET,
+  sessionTtlMs: Number(process.env.SESSION_TTL_HOURS || 168) * 60 * 60 * 1000,
+  sessionCookieName: 'session',
+  seedPassword: process.env.SEED_PASSWORD || (isProduction ? randomBytes(12).toString('base64url') : 'password'),
+  // true when seedPassword was made up above - it is then printed when the sample users are created
+  seedPasswordGenerated: !process.env.SEED_PASSWORD && isProduction,
+};
@@ -0,0 +1,18 @@
+/**
+ * Avatar Configuration
+ * Limits for uploaded profile pictures, based on environment variables
+ *
+ * Environment variables:
+ * - AVATAR_MAX_UPLOAD_MB: Largest picture that can be uploaded, in megabytes (default: 5)
+ *
+ * The accepted formats and the stored sizes are in backend/types/avatar.ts
+ */
+
+/**
+ * Avatar Config Object
+ * Read once when the server starts
+ */
+export const avatarConfig = {
+  maxUploadBytes: Number(process.env.AVATAR_MAX_UPLOAD_MB || 5) * 1024 * 1024,
+  maxPixels: 40_000_000, // Refuse larger pictures before decoding them (e.g. a tiny file that unpacks to 50000×50000)
+};
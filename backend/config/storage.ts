@@ -0,0 +1,30 @@
+/**
+ * Storage Configuration
+ * Decides where the app keeps its data, based on environment variables
+ *
+ * Environment variables:
+ * - STORAGE_DRIVER: "file" (default) saves JSON files to disk,
+ *                   "memory" keeps everything in memory (handy for tests/demos)
+ * - DATA_DIR:       Folder for the JSON files (default: ./data in the project root)
+ */
+
+import path from 'path';
+
+export type StorageDriver = 'file' | 'memory';
+
+/**
+ * Storage Config Object
+ * Read once when the server starts
+ */
+export const storageConfig = {
+  driver: (process.env.STORAGE_DRIVER === 'memory' ? 'memory' : 'file') as StorageDriver,
+  dataDir: process.env.DATA_DIR || path.join(process.cwd(), 'data'),
+};
+
+/**
+ * Builds the full path of a data file inside DATA_DIR
+ * @param {string} fileName - e.g. "users.json"
+ */
+export function dataFilePath(fileName: string): string {
+  return path.join(storageConfig.dataDir, fileName);
+}
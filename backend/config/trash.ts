@@ -0,0 +1,16 @@
+/**
+ * Trash Configuration
+ * How long deleted users stay in the trash, based on environment variables
+ *
+ * Environment variables:
+ * - TRASH_RETENTION_DAYS: Days a deleted user can still be restored (default: 30)
+ *                         After that they are purged (removed for good) automatically
+ */
+
+/**
+ * Trash Config Object
+ * Read once when the server starts
+ */
+export const trashConfig = {
+  retentionDays: Number(process.env.TRASH_RETENTION_DAYS || 30),
+};
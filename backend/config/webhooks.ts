@@ -0,0 +1,24 @@
+/**
+ * Webhook Configuration
+ * How webhook deliveries are sent and retried, based on environment variables
+ *
+ * Environment variables:
+ * - WEBHOOK_MAX_ATTEMPTS:       Tries per delivery before it counts as failed (default: 8)
+ * - WEBHOOK_RETRY_BASE_SECONDS: Wait before the first retry - doubled after every
+ *                               failed try (default: 30, so 30s, 1m, 2m, 4m, ...)
+ * - WEBHOOK_RETRY_MAX_SECONDS:  The longest wait between two tries (default: 3600)
+ * - WEBHOOK_TIMEOUT_SECONDS:    How long to wait for the receiver to answer (default: 10)
+ * - WEBHOOK_LOG_SIZE:           Finished deliveries kept in the log, per webhook (default: 200)
+ */
+
+/**
+ * Webhook Config Object
+ * Read once when the server starts
+ */
+export const webhookConfig = {
+  maxAttempts: Number(process.env.WEBHOOK_MAX_ATTEMPTS || 8),
+  retryBaseSeconds: Number(process.env.WEBHOOK_RETRY_BASE_SECONDS || 30),
+  retryMaxSeconds: Number(process.env.WEBHOOK_RETRY_MAX_SECONDS || 3600),
+  timeoutSeconds: Number(process.env.WEBHOOK_TIMEOUT_SECONDS || 10),
+  logSize: Number(process.env.WEBHOOK_LOG_SIZE || 200),
+};
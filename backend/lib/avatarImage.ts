@@ -0,0 +1,50 @@
+/**
+ * Avatar Images
+ * Checks uploaded pictures and turns them into square thumbnails (uses sharp)
+ *
+ * - The format is read from the file's contents - a renamed file can't pass as a picture
+ * - Pictures are turned upright (phones store the rotation separately, in EXIF data)
+ * - Everything else in EXIF (e.g. where the photo was taken) is left out of the thumbnails
+ */
+
+import sharp from 'sharp';
+import { avatarConfig } from '../config/avatars';
+import { AVATAR_CONTENT_TYPES, AvatarSize } from '../types/avatar';
+
+/**
+ * Opens a picture for sharp, refusing huge ones before they are decoded
+ * Animated GIFs and WebPs only use their first frame
+ */
+function open(data: Buffer) {
+  return sharp(data, { limitInputPixels: avatarConfig.maxPixels, animated: false });
+}
+
+/**
+ * DETECT TYPE
+ * @param {Buffer} data - The uploaded file
+ * @returns {Promise<string | null>} e.g. "image/png", or null if it isn't a picture we accept
+ */
+export async function detectAvatarType(data: Buffer): Promise<string | null> {
+  try {
+    const { format } = await open(data).metadata();
+    const type = `image/${format}`;
+    return (AVATAR_CONTENT_TYPES as readonly string[]).includes(type) ? type : null;
+  } catch {
+    return null; // Not a picture at all (or a broken one)
+  }
+}
+
+/**
+ * MAKE THUMBNAIL
+ * Crops the middle square of the picture and scales it to `size` × `size` pixels
+ * @param {Buffer} data - The uploaded picture (check it with detectAvatarType() first)
+ * @param {AvatarSize} size - Width and height of the thumbnail
+ * @returns {Promise<Buffer>} The thumbnail as WebP
+ */
+export async function makeAvatarThumbnail(data: Buffer, size: AvatarSize): Promise<Buffer> {
+  return open(data)
+    .rotate() // No angle = turn it the way its EXIF data says
+    .resize(size, size, { fit: 'cover' })
+    .webp({ quality: 85 })
+    .toBuffer();
+}
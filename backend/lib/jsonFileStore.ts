@@ -0,0 +1,169 @@
+/**
+ * JSON File Store
+ * A tiny embedded "database" that keeps one JSON document on disk
+ *
+ * Features:
+ * - Atomic writes: data is written to a temporary file first and then renamed
+ *   over the real file, so a crash mid-write never leaves a half-written file
+ * - Serialized updates: writes are queued one after another, so two requests
+ *   can never read-modify-write the same file at the same time
+ * - Setup and migrations: a missing file is created from `initialData`, and an
+ *   existing file remembers its schemaVersion, so any newer migrations run
+ *   automatically the first time the store is used (no manual setup)
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Migration
+ * One step that upgrades the stored data from (version - 1) to version
+ * Version 1 is the shape a file was first created with, so migrations start at 2
+ */
+export interface Migration {
+  version: number;                     // Schema version this migration upgrades to
+  description: string;                 // Human readable summary (shown in logs)
+  up: (data: unknown) => unknown;      // Transforms the old data into the new shape
+}
+
+/**
+ * The shape of the file on disk
+ * We wrap the actual data so we can store the schema version next to it
+ */
+interface StoredDocument {
+  schemaVersion: number;
+  data: unknown;
+}
+
+/**
+ * Options for a JsonFileStore
+ */
+export interface JsonFileStoreOptions<T> {
+  initialData: () => T;      // Contents for a brand new file (already in the latest shape)
+  migrations?: Migration[];  // Upgrades for files written by older versions of the app
+}
+
+/**
+ * JsonFileStore Class
+ * Holds the document in memory after the first read and writes every change to disk
+ */
+export class JsonFileStore<T> {
+  private data: T | null = null;                       // In-memory copy of the document
+  private loading: Promise<void> | null = null;        // Shared promise so we only load once
+  private queue: Promise<unknown> = Promise.resolve(); // Chain of pending writes
+
+  private readonly initialData: () => T;
+  private readonly migrations: Migration[];
+
+  /**
+   * @param {string} filePath - Absolute path of the JSON file
+   * @param {JsonFileStoreOptions<T>} options - Initial data and schema migrations
+   */
+  constructor(
+    private readonly filePath: string,
+    options: JsonFileStoreOptions<T>
+  ) {
+    this.initialData = options.initialData;
+    this.migrations = options.migrations ?? [];
+  }
+
+  /**
+   * READ
+   * Returns a copy of the current document
+   * A copy is returned so callers can't accidentally change the stored data
+   */
+  async read(): Promise<T> {
+    await this.load();
+    return structuredClone(this.data as T);
+  }
+
+  /**
+   * UPDATE
+   * Runs `mutate` against a draft of the document and saves the result
+   * If `mutate` throws, nothing is written and the error is passed on
+   *
+   * @param {Function} mutate - Changes the draft in place and may return a value
+   * @returns The value returned by `mutate`
+   */
+  async update<R>(mutate: (draft: T) => R): Promise<R> {
+    const run = async () => {
+      await this.load();
+      const draft = structuredClone(this.data as T);
+      const result = mutate(draft);
+      await this.write(draft);
+      this.data = draft; // Only replace the in-memory copy once the write succeeded
+      return result;
+    };
+
+    // Wait for earlier writes (even failed ones) before starting this one
+    const next = this.queue.then(run, run);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * Loads the file (or creates it) and runs pending migrations
+   * Only happens once per process - later calls reuse the same promise
+   */
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.loadFromDisk().catch((error) => {
+        this.loading = null; // Allow a retry on the next call
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  private async loadFromDisk(): Promise<void> {
+    let document: StoredDocument;
+
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      document = JSON.parse(raw) as StoredDocument;
+    } catch (error) {
+      // A missing file just means this is a fresh checkout - anything else is a real problem
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+
+      // New file: start from the initial data, which is already in the latest shape
+      console.info(`[store] ${path.basename(this.filePath)}: creating file`);
+      const data = this.initialData();
+      await this.write(data);
+      this.data = data;
+      return;
+    }
+
+    // Run every migration that is newer than the stored version, in order
+    const pending = this.migrations
+      .filter((migration) => migration.version > document.schemaVersion)
+      .sort((a, b) => a.version - b.version);
+
+    for (const migration of pending) {
+      console.info(`[store] ${path.basename(this.filePath)}: migrating to v${migration.version} (${migration.description})`);
+      document = { schemaVersion: migration.version, data: migration.up(document.data) };
+    }
+
+    if (pending.length > 0) {
+      await this.write(document.data as T, document.schemaVersion);
+    }
+
+    this.data = document.data as T;
+  }
+
+  /**
+   * Atomic write: write to "<file>.<pid>.tmp" and then rename it over the real file
+   * rename() is atomic on the same filesystem, so readers see the old or new file, never half
+   */
+  private async write(data: T, schemaVersion = this.latestVersion()): Promise<void> {
+    const document: StoredDocument = { schemaVersion, data };
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(document, null, 2), 'utf8');
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  private latestVersion(): number {
+    return this.migrations.reduce((max, migration) => Math.max(max, migration.version), 1);
+  }
+}
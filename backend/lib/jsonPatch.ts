@@ -0,0 +1,300 @@
+/**
+ * JSON Patch Helpers
+ * The two standard ways to describe a partial change to a JSON document
+ *
+ * 1. JSON Merge Patch (RFC 7396) - Content-Type: application/merge-patch+json
+ *    Send an object with just the fields to change. null removes a field.
+ *    { "name": "Jane Doe" }
+ *
+ * 2. JSON Patch (RFC 6902) - Content-Type: application/json-patch+json
+ *    Send a list of operations. "test" checks a value first - if it doesn't
+ *    match, nothing is changed at all.
+ *    [
+ *      { "op": "test", "path": "/email", "value": "jane@example.com" },
+ *      { "op": "replace", "path": "/name", "value": "Jane Doe" }
+ *    ]
+ *
+ * Both functions return a NEW document and never change the one passed in.
+ */
+
+export const MERGE_PATCH_CONTENT_TYPE = 'application/merge-patch+json';
+export const JSON_PATCH_CONTENT_TYPE = 'application/json-patch+json';
+
+/**
+ * Why a patch couldn't be applied
+ * - malformed:     the patch itself is broken (e.g. unknown "op") → 400
+ * - unprocessable: the patch is valid but doesn't fit the document (e.g. missing path) → 422
+ * - test-failed:   a "test" operation didn't match → 409
+ */
+export type JsonPatchErrorKind = 'malformed' | 'unprocessable' | 'test-failed';
+
+/**
+ * JsonPatchError
+ * Thrown by applyMergePatch() and applyJsonPatch()
+ */
+export class JsonPatchError extends Error {
+  constructor(
+    public readonly kind: JsonPatchErrorKind,
+    message: string
+  ) {
+    super(message);
+    this.name = 'JsonPatchError';
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * The operations JSON Patch knows
+ */
+export const JSON_PATCH_OPERATIONS = ['add', 'remove', 'replace', 'move', 'copy', 'test'] as const;
+
+/**
+ * One JSON Patch operation
+ */
+export interface JsonPatchOperation {
+  op: (typeof JSON_PATCH_OPERATIONS)[number];
+  path: string;       // JSON Pointer to the target, e.g. "/name"
+  from?: string;      // Source pointer (move and copy only)
+  value?: unknown;    // New or expected value (add, replace and test only)
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Keys that reach into JavaScript's object internals instead of the document
+// ("__proto__" would write onto Object.prototype, i.e. every object in the server)
+const RESERVED_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * Refuses keys that could change JavaScript objects themselves
+ */
+function assertSafeKey(key: string): void {
+  if (RESERVED_KEYS.includes(key)) {
+    throw new JsonPatchError('malformed', `"${key}" cannot be used as a key`);
+  }
+}
+
+/**
+ * Deep equality for JSON values (key order doesn't matter)
+ */
+function jsonEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => jsonEqual(item, b[index]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((key) => Object.hasOwn(b, key) && jsonEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+// ==================== JSON MERGE PATCH (RFC 7396) ====================
+
+/**
+ * APPLY MERGE PATCH
+ * @param {unknown} target - The current document
+ * @param {unknown} patch - The merge patch (usually an object)
+ * @returns {unknown} The patched document
+ * @throws {JsonPatchError} When the patch uses a reserved key like "__proto__"
+ */
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+  // A patch that isn't an object replaces the whole target
+  if (!isObject(patch)) return structuredClone(patch);
+
+  const result: JsonObject = isObject(target) ? structuredClone(target) : {};
+  for (const [key, value] of Object.entries(patch)) {
+    assertSafeKey(key);
+    if (value === null) {
+      delete result[key]; // null means "remove this field"
+    } else {
+      result[key] = applyMergePatch(Object.hasOwn(result, key) ? result[key] : undefined, value);
+    }
+  }
+  return result;
+}
+
+// ==================== JSON PATCH (RFC 6902) ====================
+
+/**
+ * Splits a JSON Pointer into its parts: "/a/b~1c" → ["a", "b/c"]
+ * ~1 stands for "/" and ~0 for "~" inside a key
+ * Reserved keys like "__proto__" are refused (see assertSafeKey)
+ */
+function parsePointer(pointer: unknown): string[] {
+  if (typeof pointer !== 'string' || (pointer !== '' && !pointer.startsWith('/'))) {
+    throw new JsonPatchError('malformed', `Invalid JSON Pointer: ${JSON.stringify(pointer)}`);
+  }
+  if (pointer === '') return [];
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((part) => {
+      const key = part.replace(/~1/g, '/').replace(/~0/g, '~');
+      assertSafeKey(key);
+      return key;
+    });
+}
+
+/**
+ * Finds the container (object or array) that holds the last part of a pointer
+ * Only the document's own keys are followed, never inherited ones like "toString"
+ */
+function resolveParent(document: unknown, parts: string[], pointer: string): JsonObject | unknown[] {
+  let current: unknown = document;
+  for (const part of parts.slice(0, -1)) {
+    if (Array.isArray(current)) {
+      current = current[arrayIndex(current, part, pointer, false)];
+    } else {
+      current = isObject(current) && Object.hasOwn(current, part) ? current[part] : undefined;
+    }
+    if (current === undefined) {
+      throw new JsonPatchError('unprocessable', `Path not found: ${pointer}`);
+    }
+  }
+  if (!isObject(current) && !Array.isArray(current)) {
+    throw new JsonPatchError('unprocessable', `Path not found: ${pointer}`);
+  }
+  return current;
+}
+
+/**
+ * Turns the last pointer part into an array index ("-" = after the last item when adding)
+ */
+function arrayIndex(array: unknown[], part: string, pointer: string, forAdd: boolean): number {
+  if (forAdd && part === '-') return array.length;
+  const index = /^(0|[1-9]\d*)$/.test(part) ? Number(part) : NaN;
+  const max = forAdd ? array.length : array.length - 1;
+  if (Number.isNaN(index) || index > max) {
+    throw new JsonPatchError('unprocessable', `Array index out of range: ${pointer}`);
+  }
+  return index;
+}
+
+/**
+ * Reads the value at a pointer (throws if it doesn't exist)
+ */
+function getValue(document: unknown, pointer: string): unknown {
+  const parts = parsePointer(pointer);
+  if (parts.length === 0) return document;
+
+  const parent = resolveParent(document, parts, pointer);
+  const last = parts[parts.length - 1];
+  if (Array.isArray(parent)) return parent[arrayIndex(parent, last, pointer, false)];
+  if (!Object.hasOwn(parent, last)) throw new JsonPatchError('unprocessable', `Path not found: ${pointer}`);
+  return parent[last];
+}
+
+/**
+ * Adds (or for objects: sets) a value at a pointer and returns the new document
+ */
+function addValue(document: unknown, pointer: string, value: unknown): unknown {
+  const parts = parsePointer(pointer);
+  if (parts.length === 0) return value; // Replacing the whole document
+
+  const parent = resolveParent(document, parts, pointer);
+  const last = parts[parts.length - 1];
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, last, pointer, true), 0, value);
+  } else {
+    parent[last] = value;
+  }
+  return document;
+}
+
+/**
+ * Removes the value at a pointer (throws if it doesn't exist)
+ */
+function removeValue(document: unknown, pointer: string): void {
+  const parts = parsePointer(pointer);
+  if (parts.length === 0) {
+    throw new JsonPatchError('unprocessable', 'The whole document cannot be removed');
+  }
+
+  const parent = resolveParent(document, parts, pointer);
+  const last = parts[parts.length - 1];
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, last, pointer, false), 1);
+  } else {
+    if (!Object.hasOwn(parent, last)) throw new JsonPatchError('unprocessable', `Path not found: ${pointer}`);
+    delete parent[last];
+  }
+}
+
+/**
+ * Checks that one operation has everything it needs
+ */
+function assertOperation(operation: unknown, index: number): asserts operation is JsonPatchOperation {
+  const knownOps: readonly unknown[] = JSON_PATCH_OPERATIONS;
+  if (!isObject(operation) || typeof operation.op !== 'string' || !knownOps.includes(operation.op)) {
+    throw new JsonPatchError('malformed', `Operation ${index}: "op" must be one of ${JSON_PATCH_OPERATIONS.join(', ')}`);
+  }
+  if (typeof operation.path !== 'string') {
+    throw new JsonPatchError('malformed', `Operation ${index}: "path" is required`);
+  }
+  if (['add', 'replace', 'test'].includes(operation.op) && !('value' in operation)) {
+    throw new JsonPatchError('malformed', `Operation ${index}: "value" is required for ${operation.op}`);
+  }
+  if (['move', 'copy'].includes(operation.op) && typeof operation.from !== 'string') {
+    throw new JsonPatchError('malformed', `Operation ${index}: "from" is required for ${operation.op}`);
+  }
+}
+
+/**
+ * APPLY JSON PATCH
+ * Runs the operations in order. If any operation fails, the whole patch fails
+ * and the original document is untouched (the work happens on a copy).
+ *
+ * @param {unknown} document - The current document
+ * @param {unknown} operations - The patch (must be an array of operations)
+ * @returns {unknown} The patched document
+ * @throws {JsonPatchError} When the patch is malformed, doesn't fit, or a test fails
+ */
+export function applyJsonPatch(document: unknown, operations: unknown): unknown {
+  if (!Array.isArray(operations)) {
+    throw new JsonPatchError('malformed', 'A JSON Patch must be an array of operations');
+  }
+
+  let result = structuredClone(document);
+
+  operations.forEach((operation: unknown, index) => {
+    assertOperation(operation, index);
+    const { op, path } = operation;
+
+    switch (op) {
+      case 'add':
+        result = addValue(result, path, structuredClone(operation.value));
+        break;
+      case 'remove':
+        removeValue(result, path);
+        break;
+      case 'replace':
+        getValue(result, path); // Must exist already
+        if (path === '') {
+          result = structuredClone(operation.value);
+        } else {
+          removeValue(result, path);
+          result = addValue(result, path, structuredClone(operation.value));
+        }
+        break;
+      case 'move': {
+        const value = getValue(result, operation.from as string);
+        removeValue(result, operation.from as string);
+        result = addValue(result, path, value);
+        break;
+      }
+      case 'copy':
+        result = addValue(result, path, structuredClone(getValue(result, operation.from as string)));
+        break;
+      case 'test':
+        if (!jsonEqual(getValue(result, path), operation.value)) {
+          throw new JsonPatchError('test-failed', `Test failed: ${path} is not ${JSON.stringify(operation.value)}`);
+        }
+        break;
+    }
+  });
+
+  return result;
+}
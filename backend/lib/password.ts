@@ -0,0 +1,57 @@
+/**
+ * Password Hashing
+ * Passwords are never stored as plain text - only a salted scrypt hash
+ *
+ * Stored format: "scrypt$<salt>$<hash>" (salt and hash in hex)
+ * - The random salt makes the same password produce a different hash per account
+ * - scrypt is deliberately slow, which makes guessing passwords expensive
+ */
+
+import { randomBytes, scrypt as scryptCallback, scryptSync, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+const scrypt = promisify(scryptCallback) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+/**
+ * HASH PASSWORD
+ * @param {string} password - The plain text password
+ * @returns {Promise<string>} The value to store, e.g. "scrypt$9f2c...$a81b..."
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+/**
+ * HASH PASSWORD (synchronous)
+ * Only for seeding data during startup migrations, which can't be async
+ */
+export function hashPasswordSync(password: string): string {
+  const salt = randomBytes(SALT_LENGTH);
+  const hash = scryptSync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+/**
+ * VERIFY PASSWORD
+ * Hashes the given password with the stored salt and compares the results
+ *
+ * @param {string} password - The password typed by the user
+ * @param {string} stored - The stored "scrypt$salt$hash" value
+ * @returns {Promise<boolean>} true if the password is correct
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [algorithm, saltHex, hashHex] = stored.split('$');
+  if (algorithm !== 'scrypt' || !saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scrypt(password, Buffer.from(saltHex, 'hex'), expected.length);
+
+  // timingSafeEqual takes the same time no matter where the bytes differ,
+  // so attackers can't learn the hash from response times
+  return timingSafeEqual(actual, expected);
+}
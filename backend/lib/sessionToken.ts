@@ -0,0 +1,52 @@
+/**
+ * Session Tokens
+ * The value stored in the session cookie: "<sessionId>.<expiresAt>.<signature>"
+ *
+ * The signature is an HMAC of the id and expiry, made with SESSION_SECRET.
+ * This lets the proxy (see proxy.ts) reject fake or expired cookies quickly,
+ * without reading any stored data. Route handlers then look the session up
+ * in storage, so signed-out sessions stop working right away.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { authConfig } from '../config/auth';
+
+/**
+ * Computes the signature for a session id + expiry
+ */
+function sign(payload: string): string {
+  return createHmac('sha256', authConfig.sessionSecret).update(payload).digest('base64url');
+}
+
+/**
+ * CREATE TOKEN
+ * @param {string} sessionId - The stored session's id
+ * @param {Date} expiresAt - When the session ends
+ * @returns {string} The signed cookie value
+ */
+export function createSessionToken(sessionId: string, expiresAt: Date): string {
+  const payload = `${sessionId}.${expiresAt.getTime()}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * VERIFY TOKEN
+ * Checks the signature and the expiry date
+ *
+ * @param {string | undefined} token - The cookie value
+ * @returns {string | null} The session id if the token is genuine and not expired, otherwise null
+ */
+export function verifySessionToken(token: string | undefined): string | null {
+  if (!token) return null;
+
+  const [sessionId, expiresAt, signature] = token.split('.');
+  if (!sessionId || !expiresAt || !signature) return null;
+
+  const expected = Buffer.from(sign(`${sessionId}.${expiresAt}`));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  if (Number(expiresAt) <= Date.now()) return null;
+
+  return sessionId;
+}
@@ -0,0 +1,206 @@
+/**
+ * Excel Writer
+ * Builds a simple .xlsx file (one sheet, text cells, bold header row)
+ *
+ * An .xlsx file is a ZIP archive of a few XML files:
+ *   [Content_Types].xml          - which file is what
+ *   _rels/.rels                  - points to the workbook
+ *   xl/workbook.xml              - the list of sheets
+ *   xl/_rels/workbook.xml.rels   - points to the sheet and the styles
+ *   xl/styles.xml                - fonts (normal and bold)
+ *   xl/worksheets/sheet1.xml     - the cells
+ *
+ * Every value is written as text, so nothing in the data is ever run as a formula.
+ */
+
+import { deflateRawSync } from 'zlib';
+
+// ==================== XML ====================
+
+/**
+ * Makes text safe to put inside XML
+ * Escapes the special characters and drops control characters XML can't contain
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Column number to Excel letters: 0 → A, 25 → Z, 26 → AA
+ */
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * One row of text cells; style 1 = bold (used for the header)
+ */
+function rowXml(values: string[], rowIndex: number, style: 0 | 1): string {
+  const cells = values
+    .map((value, column) => {
+      const ref = `${columnName(column)}${rowIndex + 1}`;
+      const styleAttr = style ? ` s="${style}"` : '';
+      return `<c r="${ref}" t="inlineStr"${styleAttr}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+    })
+    .join('');
+  return `<row r="${rowIndex + 1}">${cells}</row>`;
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PKG_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+/**
+ * The fixed parts of the file (everything except the sheet itself)
+ */
+function staticParts(sheetName: string): Record<string, string> {
+  return {
+    '[Content_Types].xml':
+      XML_HEADER +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      '</Types>',
+    '_rels/.rels':
+      XML_HEADER +
+      `<Relationships xmlns="${PKG_REL_NS}">` +
+      `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+      '</Relationships>',
+    'xl/workbook.xml':
+      XML_HEADER +
+      `<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">` +
+      `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>` +
+      '</workbook>',
+    'xl/_rels/workbook.xml.rels':
+      XML_HEADER +
+      `<Relationships xmlns="${PKG_REL_NS}">` +
+      `<Relationship Id="rId1" Type="${REL_NS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+      `<Relationship Id="rId2" Type="${REL_NS}/styles" Target="styles.xml"/>` +
+      '</Relationships>',
+    'xl/styles.xml':
+      XML_HEADER +
+      `<styleSheet xmlns="${MAIN_NS}">` +
+      '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+      '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+      '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+      '</styleSheet>',
+  };
+}
+
+// ==================== ZIP ====================
+
+// CRC-32 lookup table (the checksum every ZIP entry needs)
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Packs files into a ZIP archive (deflate compressed)
+ * Layout: [local header + data] per file, then the central directory, then its end record
+ */
+function zip(files: Record<string, string>): Buffer {
+  // Date and time of the entries, in the old MS-DOS format ZIP uses
+  const now = new Date();
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+  const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name, 'utf8');
+    const data = Buffer.from(content, 'utf8');
+    const compressed = deflateRawSync(data);
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);   // Local file header signature
+    local.writeUInt16LE(20, 4);           // Version needed to extract (2.0)
+    local.writeUInt16LE(0, 6);            // Flags
+    local.writeUInt16LE(8, 8);            // Compression: deflate
+    local.writeUInt16LE(dosTime, 10);
+    local.writeUInt16LE(dosDate, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    local.writeUInt16LE(0, 28);           // No extra field
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0); // Central directory header signature
+    central.writeUInt16LE(20, 4);         // Version made by
+    central.writeUInt16LE(20, 6);         // Version needed to extract
+    central.writeUInt16LE(0, 8);          // Flags
+    central.writeUInt16LE(8, 10);         // Compression: deflate
+    central.writeUInt16LE(dosTime, 12);
+    central.writeUInt16LE(dosDate, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    // Extra field, comment, disk number and file attributes stay 0
+    central.writeUInt32LE(offset, 42);    // Where the local header starts
+
+    localParts.push(local, nameBytes, compressed);
+    centralParts.push(central, nameBytes);
+    offset += local.length + nameBytes.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const count = Object.keys(files).length;
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);       // End of central directory signature
+  end.writeUInt16LE(count, 8);            // Entries on this disk
+  end.writeUInt16LE(count, 10);           // Entries in total
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);          // Where the central directory starts
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+// ==================== PUBLIC API ====================
+
+/**
+ * TO XLSX
+ * @param {string[]} header - Column titles (first row, bold)
+ * @param {string[][]} rows - One array of values per row
+ * @param {string} sheetName - Name of the sheet tab (Excel allows at most 31 characters)
+ * @returns {Buffer} The .xlsx file
+ */
+export function toXlsx(header: string[], rows: string[][], sheetName = 'Sheet1'): Buffer {
+  const sheetRows = [rowXml(header, 0, 1), ...rows.map((row, index) => rowXml(row, index + 1, 0))];
+  const sheet =
+    XML_HEADER +
+    `<worksheet xmlns="${MAIN_NS}">` +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<sheetData>${sheetRows.join('')}</sheetData>` +
+    '</worksheet>';
+
+  return zip({ ...staticParts(sheetName.slice(0, 31)), 'xl/worksheets/sheet1.xml': sheet });
+}
@@ -0,0 +1,105 @@
+/**
+ * Auth Helpers for Route Handlers and Pages
+ * Reads the session cookie and returns the signed-in user
+ *
+ * The proxy (proxy.ts) already turns away requests without a valid cookie.
+ * These helpers do the full check against stored sessions, so a signed-out
+ * session is rejected even while its cookie has not expired yet.
+ *
+ * They also load the user's permissions (from their role), so handlers can
+ * answer 403 Forbidden when a signed-in user isn't allowed to do something.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { authConfig } from '../config/auth';
+import { authService } from '../services/authService';
+import { ErrorBody, ForbiddenBody } from '../types/api';
+import { Permission } from '../types/role';
+import { User } from '../types/user';
+import { hasPermission } from '../utils/permissions';
+
+/**
+ * Result of requireUser() / requirePermission():
+ * either the user and their permissions, or a 401/403 response to return right away
+ */
+export type AuthResult =
+  | { ok: true; user: User; permissions: Permission[] }
+  | { ok: false; response: NextResponse };
+
+/**
+ * 401 (Unauthorized) JSON response for API calls without a valid session
+ */
+export function unauthorized(): NextResponse {
+  return NextResponse.json<ErrorBody>(
+    { error: 'Authentication required' },
+    { status: 401 } // 401 = Unauthorized (not signed in)
+  );
+}
+
+/**
+ * 403 (Forbidden) JSON response for signed-in users without the needed permission
+ * @param {Permission} permission - The permission that was missing (shown to the client)
+ */
+export function forbidden(permission: Permission): NextResponse {
+  return NextResponse.json<ForbiddenBody>(
+    { error: 'You do not have permission to do this', permission },
+    { status: 403 } // 403 = Forbidden (signed in, but not allowed)
+  );
+}
+
+/**
+ * REQUIRE USER (route handlers)
+ * Usage:
+ *   const auth = await requireUser(request);
+ *   if (!auth.ok) return auth.response;
+ *
+ * @param {NextRequest} request - The incoming HTTP request
+ */
+export async function requireUser(request: NextRequest): Promise<AuthResult> {
+  const token = request.cookies.get(authConfig.sessionCookieName)?.value;
+  const user = await authService.getSessionUser(token);
+  if (!user) return { ok: false, response: unauthorized() };
+
+  return { ok: true, user, permissions: await authService.getPermissions(user) };
+}
+
+/**
+ * REQUIRE PERMISSION (route handlers)
+ * Same as requireUser(), but also answers 403 when the permission is missing
+ * Usage:
+ *   const auth = await requirePermission(request, 'users:delete');
+ *   if (!auth.ok) return auth.response;
+ *
+ * @param {NextRequest} request - The incoming HTTP request
+ * @param {Permission} permission - The permission this action needs
+ */
+export async function requirePermission(
+  request: NextRequest,
+  permission: Permission
+): Promise<AuthResult> {
+  const auth = await requireUser(request);
+  if (auth.ok && !hasPermission(auth.permissions, permission)) {
+    return { ok: false, response: forbidden(permission) };
+  }
+  return auth;
+}
+
+/**
+ * GET CURRENT USER (Server Components, e.g. pages and layouts)
+ * @returns {Promise<User | null>} The signed-in user, or null
+ */
+export async function getCurrentUser(): Promise<User | null> {
+  const cookieStore = await cookies(); // In Next.js 15+, cookies() must be awaited
+  return authService.getSessionUser(cookieStore.get(authConfig.sessionCookieName)?.value);
+}
+
+/**
+ * GET CURRENT PERMISSIONS (Server Components)
+ * Lets pages tell the UI which buttons to show
+ * @returns {Promise<Permission[]>} The signed-in user's permissions (empty if signed out)
+ */
+export async function getCurrentPermissions(): Promise<Permission[]> {
+  const user = await getCurrentUser();
+  return user ? authService.getPermissions(user) : [];
+}
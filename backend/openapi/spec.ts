@@ -0,0 +1,955 @@
+/**
+ * OpenAPI Specification
+ * Describes the /api/users endpoints as an OpenAPI 3.1 document
+ * (served at GET /api/openapi.json, shown on the /docs page)
+ *
+ * How this stays in sync with the code:
+ * - Schemas are written with objectSchema<T>(), which makes TypeScript check
+ *   that every field of the type (User, CreateUserDto, ...) is described and that
+ *   exactly its required fields are listed - adding, removing or renaming a field
+ *   fails type-checking here until the spec is updated
+ * - Limits and allowed values (page sizes, sort fields, export formats, ...) are
+ *   the constants the validation code uses, not copies
+ * - Schema references go through ref(), which only accepts names that exist
+ */
+
+import { AUDIT_ACTIONS, AuditActor, AuditEntry, FieldChange } from '../types/audit';
+import { SetPasswordDto } from '../types/auth';
+import {
+  BatchRequestBody,
+  CheckEmailResponse,
+  ConflictBody,
+  ErrorBody,
+  ForbiddenBody,
+  ImportRequestBody,
+  MessageResponse,
+  PreconditionFailedBody,
+  UserHistoryResponse,
+  UserListResponse,
+  ValidationErrorBody,
+} from '../types/api';
+import { BATCH_OPERATIONS, BatchItemResult, BatchOperation, BatchResponse } from '../types/batch';
+import { UserEvent } from '../types/events';
+import { EXPORT_COLUMNS, EXPORT_FORMATS, DEFAULT_EXPORT_COLUMNS } from '../types/export';
+import { ImportPreview, ImportResult, ImportRow, ImportRowResult } from '../types/import';
+import { PERMISSIONS } from '../types/role';
+import { CreateUserDto, MatchRange, USER_STATUSES, UpdateUserDto, User, UserListItem } from '../types/user';
+import {
+  OpenApiDocument,
+  ParameterObject,
+  ReferenceObject,
+  ResponseObject,
+  SchemaObject,
+} from '../types/openapi';
+import { authConfig } from '../config/auth';
+import { avatarConfig } from '../config/avatars';
+import { AVATAR_CONTENT_TYPES, AVATAR_SIZES } from '../types/avatar';
+import {
+  JSON_PATCH_CONTENT_TYPE,
+  JSON_PATCH_OPERATIONS,
+  JsonPatchOperation,
+  MERGE_PATCH_CONTENT_TYPE,
+} from '../lib/jsonPatch';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, MAX_SEARCH_LENGTH, SORT_FIELDS } from '../utils/userQuery';
+import { PASSWORD_MIN_LENGTH } from '../validation/authSchemas';
+import { MAX_BATCH_OPERATIONS } from '../validation/batchSchemas';
+import { MAX_IMPORT_ROWS } from '../validation/importSchemas';
+import {
+  EMAIL_MAX_LENGTH,
+  NAME_MAX_LENGTH,
+  PHONE_MAX_LENGTH,
+  PROFILE_TEXT_MAX_LENGTH,
+} from '../validation/userSchemas';
+
+// ==================== TYPED SCHEMA HELPERS ====================
+
+/**
+ * The keys of T that are not optional, e.g. RequiredKeys<User> excludes "deletedAt"
+ */
+type RequiredKeys<T> = { [K in keyof T]-?: object extends Pick<T, K> ? never : K }[keyof T];
+
+/**
+ * OBJECT SCHEMA
+ * Describes an object type - TypeScript checks that `properties` has exactly
+ * the fields of T, and `required` exactly its non-optional fields
+ *
+ * @param {Object} properties - A schema for every field of T
+ * @param {Object} required - { field: true } for every required field of T
+ * @param {boolean} closed - true = other fields are rejected (request bodies)
+ */
+function objectSchema<T>(
+  properties: { [K in keyof T]-?: SchemaObject },
+  required: { [K in RequiredKeys<T>]: true },
+  closed = false
+): SchemaObject {
+  return {
+    type: 'object',
+    properties: properties as Record<string, SchemaObject>,
+    required: Object.keys(required),
+    ...(closed && { additionalProperties: false }),
+  };
+}
+
+const text = (description: string, extra: SchemaObject = {}): SchemaObject => ({ type: 'string', description, ...extra });
+const dateTime = (description: string): SchemaObject => ({ type: 'string', format: 'date-time', description });
+const integer = (description: string, extra: SchemaObject = {}): SchemaObject => ({ type: 'integer', description, ...extra });
+const listOf = (items: SchemaObject, extra: SchemaObject = {}): SchemaObject => ({ type: 'array', items, ...extra });
+
+// Field errors: one message per field, e.g. { "email": "Email already in use" }
+const fieldErrors: SchemaObject = {
+  type: 'object',
+  description: 'One message per invalid field',
+  additionalProperties: { type: 'string' },
+  examples: [{ email: 'Must be a valid email address' }],
+};
+
+// The fields of a user as sent by clients
+const userFields: { [K in keyof CreateUserDto]-?: SchemaObject } = {
+  name: text('Full name', { minLength: 1, maxLength: NAME_MAX_LENGTH }),
+  email: text('Email address, unique among users (compared ignoring case)', {
+    format: 'email',
+    maxLength: EMAIL_MAX_LENGTH,
+  }),
+  roleId: text('ID of the role, e.g. "user" (see GET /api/roles)'),
+  phone: text('Phone number ("" = not set)', { maxLength: PHONE_MAX_LENGTH, examples: ['+49 30 1234567'] }),
+  department: text('Department ("" = not set)', { maxLength: PROFILE_TEXT_MAX_LENGTH }),
+  jobTitle: text('Job title ("" = not set)', { maxLength: PROFILE_TEXT_MAX_LENGTH }),
+  managerId: text('ID of the user this user reports to ("" = nobody)'),
+  status: { type: 'string', enum: USER_STATUSES, description: 'suspended users can\'t sign in (default "active")' },
+  attributes: {
+    type: 'object',
+    description:
+      'Custom attribute values by attribute key (see GET /api/attributes): text, number, date ("YYYY-MM-DD") or enum option',
+    additionalProperties: { type: ['string', 'number'] },
+    examples: [{ costCenter: 'CC-12', startDate: '2024-03-01' }],
+  },
+};
+
+// The columns of an import file row
+const importRowFields = {
+  name: text('Full name'),
+  email: text('Email address'),
+  role: text('Role name ("Manager") or id ("manager"), matched ignoring case'),
+};
+
+// ==================== SCHEMAS ====================
+
+/**
+ * Every shared schema, by name (#/components/schemas/<name>)
+ */
+const schemas = {
+  User: objectSchema<User>(
+    {
+      id: text('Unique identifier'),
+      ...userFields,
+      createdAt: dateTime('When the user was created'),
+      updatedAt: dateTime('When the user was last changed'),
+      version: integer('Goes up by 1 on every change - sent as the ETag and expected in If-Match', { minimum: 1 }),
+      deletedAt: dateTime('When the user was moved to the trash (missing = not deleted)'),
+      avatar: text('ID of the profile picture (missing = none) - see GET /api/users/{id}/avatar'),
+    },
+    {
+      id: true,
+      name: true,
+      email: true,
+      roleId: true,
+      status: true,
+      attributes: true,
+      createdAt: true,
+      updatedAt: true,
+      version: true,
+    }
+  ),
+
+  CreateUserDto: objectSchema<CreateUserDto>(userFields, { name: true, email: true, roleId: true }, true),
+
+  UpdateUserDto: objectSchema<UpdateUserDto>(userFields, {}, true),
+
+  SetPasswordDto: objectSchema<SetPasswordDto>(
+    { password: text('The new password (spaces count)', { minLength: PASSWORD_MIN_LENGTH, maxLength: 1000 }) },
+    { password: true },
+    true
+  ),
+
+  MatchRange: objectSchema<MatchRange>(
+    {
+      start: integer('First matched character (inclusive)', { minimum: 0 }),
+      end: integer('End of the match (exclusive)', { minimum: 0 }),
+    },
+    { start: true, end: true }
+  ),
+
+  UserListItem: {
+    allOf: [
+      { $ref: '#/components/schemas/User' },
+      objectSchema<Pick<UserListItem, 'managerName' | 'highlights'>>(
+        {
+          managerName: text("Name of the user's manager (missing = no manager)"),
+          highlights: {
+            type: 'object',
+            description: 'Only when searching (?q=): which characters of name, email and role matched',
+            properties: Object.fromEntries(
+              ['name', 'email', 'role'].map((field) => [field, listOf({ $ref: '#/components/schemas/MatchRange' })])
+            ),
+          },
+        },
+        {}
+      ),
+    ],
+  },
+
+  UserList: objectSchema<UserListResponse>(
+    {
+      items: listOf({ $ref: '#/components/schemas/UserListItem' }, { description: 'The requested page' }),
+      total: integer('Number of matches across all pages', { minimum: 0 }),
+      page: integer('The page number', { minimum: 1 }),
+      pageSize: integer('Users per page', { minimum: 1, maximum: MAX_PAGE_SIZE }),
+    },
+    { items: true, total: true, page: true, pageSize: true }
+  ),
+
+  AuditActor: objectSchema<AuditActor>(
+    {
+      id: { type: ['string', 'null'], description: 'Who made the change (null = the system, e.g. purging old trash)' },
+      name: text('Their name at the time'),
+    },
+    { id: true, name: true }
+  ),
+
+  FieldChange: objectSchema<FieldChange>(
+    {
+      field: text('The changed field, e.g. "email"'),
+      before: { description: 'Old value (null for a new user)' },
+      after: { description: 'New value (null when removed)' },
+    },
+    { field: true, before: true, after: true }
+  ),
+
+  AuditEntry: objectSchema<AuditEntry>(
+    {
+      id: text('Unique identifier of the entry'),
+      userId: text('The user that was changed'),
+      userName: text("That user's name at the time"),
+      action: { type: 'string', enum: AUDIT_ACTIONS },
+      actor: { $ref: '#/components/schemas/AuditActor' },
+      changes: listOf({ $ref: '#/components/schemas/FieldChange' }),
+      timestamp: dateTime('When it happened'),
+    },
+    { id: true, userId: true, userName: true, action: true, actor: true, changes: true, timestamp: true }
+  ),
+
+  UserEvent: objectSchema<UserEvent>(
+    {
+      id: integer('Goes up by 1 per event - also sent as the event id, for resuming', { minimum: 1 }),
+      type: { type: 'string', enum: AUDIT_ACTIONS },
+      user: { $ref: '#/components/schemas/User', description: 'The user after the change (before it, for purge)' },
+      actor: { $ref: '#/components/schemas/AuditActor' },
+      timestamp: dateTime('When it happened'),
+    },
+    { id: true, type: true, user: true, actor: true, timestamp: true }
+  ),
+
+  UserHistory: objectSchema<UserHistoryResponse>(
+    {
+      items: listOf({ $ref: '#/components/schemas/AuditEntry' }, { description: 'Newest first' }),
+      total: integer('Number of entries across all pages', { minimum: 0 }),
+      page: integer('The page number', { minimum: 1 }),
+      pageSize: integer('Entries per page', { minimum: 1 }),
+    },
+    { items: true, total: true, page: true, pageSize: true }
+  ),
+
+  Error: objectSchema<ErrorBody>({ error: text('Readable message') }, { error: true }),
+
+  ForbiddenError: objectSchema<ForbiddenBody>(
+    {
+      error: text('Readable message'),
+      permission: { type: 'string', enum: PERMISSIONS, description: 'The missing permission' },
+    },
+    { error: true, permission: true }
+  ),
+
+  ValidationError: objectSchema<ValidationErrorBody>({ errors: fieldErrors }, { errors: true }),
+
+  ConflictError: objectSchema<ConflictBody>(
+    { error: text('Readable message'), field: text('The field with the taken value'), errors: fieldErrors },
+    { error: true, field: true, errors: true }
+  ),
+
+  PreconditionFailedError: objectSchema<PreconditionFailedBody>(
+    {
+      error: text('Readable message'),
+      current: { $ref: '#/components/schemas/User' },
+    },
+    { error: true, current: true }
+  ),
+
+  Message: objectSchema<MessageResponse>({ message: text('What happened') }, { message: true }),
+
+  CheckEmailResult: objectSchema<CheckEmailResponse>(
+    { available: { type: 'boolean', description: 'true = no other user has this email' } },
+    { available: true }
+  ),
+
+  JsonPatchOperation: objectSchema<JsonPatchOperation>(
+    {
+      op: { type: 'string', enum: JSON_PATCH_OPERATIONS },
+      path: text('JSON Pointer to the target, e.g. "/name"'),
+      from: text('Source pointer (move and copy)'),
+      value: { description: 'New or expected value (add, replace and test)' },
+    },
+    { op: true, path: true }
+  ),
+
+  BatchOperation: {
+    oneOf: [
+      objectSchema<Extract<BatchOperation, { op: 'create' }>>(
+        { op: { const: 'create' }, data: { $ref: '#/components/schemas/CreateUserDto' } },
+        { op: true, data: true },
+        true
+      ),
+      objectSchema<Extract<BatchOperation, { op: 'update' }>>(
+        {
+          op: { const: 'update' },
+          id: text('The user to change'),
+          data: { $ref: '#/components/schemas/UpdateUserDto' },
+          version: integer('Optional: like If-Match - fails with 412 if the user changed since', { minimum: 1 }),
+        },
+        { op: true, id: true, data: true },
+        true
+      ),
+      objectSchema<Extract<BatchOperation, { op: 'delete' }>>(
+        {
+          op: { const: 'delete' },
+          id: text('The user to move to the trash'),
+          version: integer('Optional: like If-Match - fails with 412 if the user changed since', { minimum: 1 }),
+        },
+        { op: true, id: true },
+        true
+      ),
+    ],
+    discriminator: { propertyName: 'op' },
+  },
+
+  BatchRequest: objectSchema<BatchRequestBody>(
+    {
+      operations: listOf(
+        { $ref: '#/components/schemas/BatchOperation' },
+        { minItems: 1, maxItems: MAX_BATCH_OPERATIONS }
+      ),
+      transactional: { type: 'boolean', default: false, description: 'true = all operations succeed, or none is saved' },
+    },
+    { operations: true },
+    true
+  ),
+
+  BatchItemResult: objectSchema<BatchItemResult>(
+    {
+      index: integer('Position of the operation in the request', { minimum: 0 }),
+      op: { type: 'string', enum: BATCH_OPERATIONS },
+      id: text('The user the operation was about (the new id for create)'),
+      status: integer('The status the operation would have had on its own (424 = skipped)'),
+      user: { $ref: '#/components/schemas/User' },
+      error: text('What went wrong'),
+      errors: fieldErrors,
+      permission: { type: 'string', enum: PERMISSIONS, description: 'The missing permission (403)' },
+    },
+    { index: true, status: true }
+  ),
+
+  BatchResponse: objectSchema<BatchResponse>(
+    {
+      transactional: { type: 'boolean' },
+      succeeded: integer('Operations that were saved', { minimum: 0 }),
+      failed: integer('Operations that were not (including skipped ones)', { minimum: 0 }),
+      results: listOf({ $ref: '#/components/schemas/BatchItemResult' }, { description: 'In request order' }),
+    },
+    { transactional: true, succeeded: true, failed: true, results: true }
+  ),
+
+  ImportRow: objectSchema<ImportRow>(
+    importRowFields,
+    { name: true, email: true, role: true },
+    true
+  ),
+
+  ImportRequest: objectSchema<ImportRequestBody>(
+    {
+      rows: listOf({ $ref: '#/components/schemas/ImportRow' }, { minItems: 1, maxItems: MAX_IMPORT_ROWS }),
+      dryRun: { type: 'boolean', default: false, description: 'true = only check the rows (preview)' },
+    },
+    { rows: true },
+    true
+  ),
+
+  ImportRowResult: objectSchema<ImportRowResult>(
+    {
+      ...importRowFields,
+      row: integer('Row number in the file (1 = first row after the header)', { minimum: 1 }),
+      roleId: text('The matched role (missing when the role is unknown)'),
+      errors: { ...fieldErrors, description: 'Why the row can\'t be imported (missing = valid)' },
+    },
+    { name: true, email: true, role: true, row: true }
+  ),
+
+  ImportPreview: objectSchema<ImportPreview>(
+    {
+      rows: listOf({ $ref: '#/components/schemas/ImportRowResult' }),
+      valid: integer('Rows that would be imported', { minimum: 0 }),
+      invalid: integer('Rows that would be skipped', { minimum: 0 }),
+    },
+    { rows: true, valid: true, invalid: true }
+  ),
+
+  ImportResult: objectSchema<ImportResult>(
+    {
+      created: listOf({ $ref: '#/components/schemas/User' }),
+      skipped: listOf({ $ref: '#/components/schemas/ImportRowResult' }, { description: 'Rows not imported, with their errors' }),
+    },
+    { created: true, skipped: true }
+  ),
+};
+
+type SchemaName = keyof typeof schemas;
+
+/**
+ * Reference to a shared schema - only names that exist are accepted
+ */
+function ref(name: SchemaName): SchemaObject {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+// ==================== PARAMETERS AND RESPONSES ====================
+
+const parameters: Record<string, ParameterObject> = {
+  UserId: { name: 'id', in: 'path', required: true, description: 'The user ID', schema: { type: 'string' } },
+  IfMatch: {
+    name: 'If-Match',
+    in: 'header',
+    description: 'The version you edited, e.g. "3" (quotes included). Missing = no check',
+    schema: { type: 'string', examples: ['"3"'] },
+  },
+};
+
+const param = (name: keyof typeof parameters): ReferenceObject => ({ $ref: `#/components/parameters/${name}` });
+
+/**
+ * Query parameters of GET /api/users (export takes the same ones, except paging)
+ */
+const listFilterParameters: ParameterObject[] = [
+  { name: 'sort', in: 'query', schema: { type: 'string', enum: SORT_FIELDS, default: 'createdAt' } },
+  { name: 'order', in: 'query', schema: { type: 'string', enum: ['asc', 'desc'], default: 'asc' } },
+  { name: 'roleId', in: 'query', description: 'Only users with this role', schema: { type: 'string' } },
+  { name: 'createdFrom', in: 'query', description: 'Only users created on/after this date', schema: { type: 'string', format: 'date' } },
+  { name: 'createdTo', in: 'query', description: 'Only users created on/before this date (a date includes that whole day)', schema: { type: 'string', format: 'date' } },
+  {
+    name: 'q',
+    in: 'query',
+    description: 'Search text matched against name, email and role name (ignores case, tolerates small typos)',
+    schema: { type: 'string', maxLength: MAX_SEARCH_LENGTH },
+  },
+  {
+    name: 'includeDeleted',
+    in: 'query',
+    description: 'true = also users in the trash, only = just the trash',
+    schema: { type: 'string', enum: ['true', 'false', 'only'], default: 'false' },
+  },
+];
+
+const pagingParameters = (maxPageSize: number): ParameterObject[] => [
+  { name: 'page', in: 'query', schema: { type: 'integer', minimum: 1, default: 1 } },
+  { name: 'pageSize', in: 'query', schema: { type: 'integer', minimum: 1, maximum: maxPageSize, default: DEFAULT_PAGE_SIZE } },
+];
+
+const responses: Record<string, ResponseObject> = {
+  BadRequest: { description: 'Invalid query parameter or body that is not JSON', content: { 'application/json': { schema: ref('Error') } } },
+  Unauthorized: { description: 'Not signed in', content: { 'application/json': { schema: ref('Error') } } },
+  Forbidden: { description: 'Signed in, but missing a permission', content: { 'application/json': { schema: ref('ForbiddenError') } } },
+  NotFound: { description: 'No such user', content: { 'application/json': { schema: ref('Error') } } },
+  ValidationFailed: { description: 'Invalid data', content: { 'application/json': { schema: ref('ValidationError') } } },
+  EmailTaken: { description: 'The email is already used by another user', content: { 'application/json': { schema: ref('ConflictError') } } },
+  PreconditionFailed: {
+    description: 'Someone else changed the user since the If-Match version - current is their version',
+    headers: { ETag: { schema: { type: 'string' } } },
+    content: { 'application/json': { schema: ref('PreconditionFailedError') } },
+  },
+  ServerError: { description: 'Unexpected error', content: { 'application/json': { schema: ref('Error') } } },
+};
+
+const response = (name: keyof typeof responses): ReferenceObject => ({ $ref: `#/components/responses/${name}` });
+
+/**
+ * A JSON success response
+ */
+function jsonResponse(description: string, schema: SchemaObject, withETag = false): ResponseObject {
+  return {
+    description,
+    ...(withETag && { headers: { ETag: { description: 'The user version, e.g. "3"', schema: { type: 'string' } } } }),
+    content: { 'application/json': { schema } },
+  };
+}
+
+/**
+ * A JSON request body
+ */
+const jsonBody = (schema: SchemaObject, example?: unknown) => ({
+  required: true,
+  content: { 'application/json': { schema, ...(example !== undefined && { example }) } },
+});
+
+const exampleUser = { name: 'Ann Lee', email: 'ann@example.com', roleId: 'user' };
+
+// ==================== DOCUMENT ====================
+
+/**
+ * BUILD OPENAPI DOCUMENT
+ * @returns {OpenApiDocument} The description of the /api/users endpoints
+ */
+export function buildOpenApiDocument(): OpenApiDocument {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'User Management API',
+      version: '1.0.0',
+      description:
+        'Manage users: list, search, create, edit, delete (to a trash), restore, import and export.\n\n' +
+        'Every request needs a signed-in session: sign in with POST /api/auth/login, which sets the ' +
+        `"${authConfig.sessionCookieName}" cookie. What you may do depends on the permissions of your role.`,
+    },
+    tags: [
+      { name: 'Users', description: 'Single users' },
+      { name: 'Trash', description: 'Deleted users can be restored, or removed for good' },
+      { name: 'Bulk', description: 'Many users at once' },
+    ],
+    security: [{ sessionCookie: [] }],
+    paths: {
+      '/api/users': {
+        get: {
+          operationId: 'listUsers',
+          summary: 'List users',
+          description: 'One page of users, searched, filtered and sorted. Needs "users:read".',
+          tags: ['Users'],
+          parameters: [...pagingParameters(MAX_PAGE_SIZE), ...listFilterParameters],
+          responses: {
+            200: jsonResponse('One page of users', ref('UserList')),
+            400: response('BadRequest'),
+            401: response('Unauthorized'),
+            403: response('Forbidden'),
+          },
+        },
+        post: {
+          operationId: 'createUser',
+          summary: 'Create a user',
+          description: 'Needs "users:create" - and "users:change-role" to give a role above your own.',
+          tags: ['Users'],
+          requestBody: jsonBody(ref('CreateUserDto'), exampleUser),
+          responses: {
+            201: jsonResponse('The created user', ref('User'), true),
+            400: response('BadRequest'),
+            401: response('Unauthorized'),
+            403: response('Forbidden'),
+            409: response('EmailTaken'),
+            422: response('ValidationFailed'),
+          },
+        },
+      },
+
+      '/api/users/{id}': {
+        get: {
+          operationId: 'getUser',
+          summary: 'Get a user',
+          tags: ['Users'],
+          parameters: [param('UserId')],
+          responses: {
+            200: jsonResponse('The user', ref('User'), true),
+            401: response('Unauthorized'),
+            403: response('Forbidden'),
+            404: response('NotFound'),
+          },
+        },
+        put: {
+          operationId: 'replaceUser',
+          summary: 'Replace a user',
+          description:
+            'Every field must be sent. Needs "users:update" (and "users:change-role" to change the role, ' +
+            'or to edit a user whose role is above your own).',
+          tags: ['Users'],
+          parameters: [param('UserId'), param('IfMatch')],
+          requestBody: jsonBody(ref('CreateUserDto'), exampleUser),
+          responses: {
+            200: jsonResponse('The saved user', ref('User'), true),
+            400: response('BadRequest'),
+            401: response('Unauthorized'),
+            403: response('Forbidden'),
+            404: response('NotFound'),
+            409: response('EmailTaken'),
+            412: response('PreconditionFailed'),
+            422: response('ValidationFailed'),
+          },
+        },
+        patch: {
+          operationId: 'updateUser',
+          summary: 'Change some fields of a user',
+          description:
+            `Send a JSON Merge Patch (${MERGE_PATCH_CONTENT_TYPE}) with the fields to change, ` +
+            `or a JSON Patch (${JSON_PATCH_CONTENT_TYPE}) with a list of operations. ` +
+            'The result must still be a valid user. Needs "users:update" (and "users:change-role" to change ' +
+            'the role, or to edit a user whose role is above your own).',
+          tags: ['Users'],
+          parameters: [param('UserId'), param('IfMatch')],
+          requestBody: {
+            required: true,
+            content: {
+              [MERGE_PATCH_CONTENT_TYPE]: { schema: ref('UpdateUserDto'), example: { name: 'Ann Smith' } },
+              [JSON_PATCH_CONTENT_TYPE]: {
+                schema: listOf(ref('JsonPatchOperation')),
+                example: [{ op: 'replace', path: '/name', value: 'Ann Smith' }],
+              },
+            },
+          },
+          responses: {
+            200: jsonResponse('The saved user', ref('User'), true),
+            400: response('BadRequest'),
+            401: response('Unauthorized'),
+            403: response('Forbidden'),
+            404: response('NotFound'),
+            409: {
+              description: 'The email is taken, or a JSON Patch "test" operation failed',
+              content: { 'application/json': { schema: { oneOf: [ref('ConflictError'), ref('Error')] } } },
+            },
+            412: response('PreconditionFailed'),
+            415: {
+              description: 'Unsupported Content-Type (the Accept-Patch header lists the supported ones)',
+              headers: { 'Accept-Patch': { schema: { type: 'string' } } },
+              content: { 'application/json': { schema: ref('Error') } },
+            },
+            422: response('ValidationFailed'),
+          },
+        },
+        delete: {
+          operationId: 'deleteUser',
+          summary: 'Move a user to the trash',
+          description: 'Needs "users:delete".',
+          tags: ['Users'],
+          parameters: [param('UserId'), param('IfMatch')],
+          responses: {
+            200: jsonResponse('Deleted', ref('Message')),
+            401: response('Unauthorized'),
+            403: response('Forbidden'),
+            404: response('NotFound'),
+            412: response('PreconditionFailed'),
+          },
+        },
+      },
+
+      '/api/users/{id}/restore': {
+        post: {
+          operationId: 'restoreUser',
+          summary: 'Take a user out of the trash',
+          description: 'Needs "users:delete".',
+          tags: ['Trash'],
+          parameters: [param('UserId')],
+          responses: {
+            200: jsonResponse('The restored user', ref('User')),
+            401: response('Unauthorized'),
+            403: response('Forbidden'),
+            404: response('NotFound'),
+            409: { description: 'The user is not in the trash', content: { 'application/json': { schema: ref('Error') } } },
+          },
+        },
+      },
+
+      '/api/users/{id}/purge': {
+        post: {
+          operationId: 'purgeUser',
+          summary: 'Remove a user in the trash for good',
+          description: 'Cannot be undone. Needs "users:delete".',
+          tags: ['Trash'],
+          parameters: [param('UserId')],
+          responses: {
+            200: jsonResponse('Removed', ref('Message')),
+            401: response('Unauthorized'),
+            403: response('Forbidden'),
+            404: response('NotFound'),
+            409: { description: 'The user is not in the trash', content: { 'application/json': { schema: ref('Error') } } },
+          },
+        },
+      },
+
+      '/api/users/{id}/history': {
+        get: {
+          operationId: 'getUserHistory',
+          summary: "A user's change history",
+          description: 'Newest first. Also works for deleted and purged users. Needs "audit:read".',
+          tags: ['Users'],
+          parameters: [
+            param('UserId'),
+            ...pagingParameters(MAX_PAGE_SIZE),
+            { name: 'action', in: 'query', schema: { type: 'string', enum: AUDIT_ACTIONS } },
+            { name: 'from', in: 'query', schema: { type: 'string', format: 'date' } },
+            { name: 'to', in: 'query', schema: { type: 'string', format: 'date' } },
+          ],
+          responses: {
+            200: jsonResponse('One page of history entries', ref('UserHistory')),
+            400: response('BadRequest'),
+            401: response('Unauthorized'),
+            403: response('Forbidden'),
+            404: response('NotFound'),
+          },
+        },
+      },
+
+      '/api/users/{id}/avatar': {
+        get: {
+          operationId: 'getUserAvatar',
+          summary: "A user's profile picture",
+          description:
+            'A square WebP thumbnail. With v set to the user\'s current avatar id the answer may be ' +
+            'cached forever (a new picture gets a new id); otherwise it is revalidated with its ETag. ' +
+            'Also works for users in the trash. Needs "users:read".',
+          tags: ['Users'],
+          parameters: [
+            param('UserId'),
+            { name: 'size', in: 'query', description: 'Width and height in pixels', schema: { type: 'integer', enum: AVATAR_SIZES, default: 128 } },
+            { name: 'v', in: 'query', description: 'The avatar id (user.avatar)', schema: { type: 'string' } },
+          ],
+          responses: {
+            200: {
+              description: 'The picture',
+              headers: {
+                ETag: { schema: { type: 'string' } },
+                'Cache-Control': { schema: { type: 'string' } },
+              },
+              content: { 'image/webp': { schema: { type: 'string', format: 'binary' } } },
+            },
+            304: { description: 'Not Modified (If-None-Match matched the ETag)' },
+            400: response('BadRequest'),
+            401: response('Unauthorized'),
+            403: response('Forbidden'),
+            404: { description: 'No such user, or the user has no picture', content: { 'application/json': { schema: ref('Error') } } },
+          },
+        },
+        post: {
+          operationId: 'uploadUserAvatar',
+          summary: 'Upload a profile picture',
+          description:
+            `A ${AVATAR_CONTENT_TYPES.join(', ')} picture of up to ${avatarConfig.maxUploadBytes / 1024 / 1024} MB, ` +
+            `sent as the "avatar" field of a multipart form. It is cropped to a square and stored as ` +
+            `${AVATAR_SIZES.join(', ')} pixel thumbnails, replacing the current picture. Needs "users:update", ` +
+            'and the user\'s role must be one you could give (without "users:change-role", only roles ' +
+            'that grant nothing beyond your own permissions).',
+          tags: ['Users'],
+          parameters: [param('UserId'), param('IfMatch')],
+          requestBody: {
+            required: true,
+            content: {
+              'multipart/form-data': {
+                schema: { type: 'object', properties: { avatar: { type: 'string', format: 'binary' } }, required: ['avatar'] },
+              },
+            },
+          },
+          responses: {
+            200: jsonResponse('The updated user', ref('User'), true),
+            400: response('BadRequest'),
+            401: response('Unauthorized'),
+            403: response('Forbidden'),
+            404: response('NotFound'),
+            412: response('PreconditionFailed'),
+            413: { description: 'The request body is far larger than an allowed picture', content: { 'application/json': { schema: ref('Error') } } },
+            422: response('ValidationFailed'),
+          },
+        },
+        delete: {
+          operationId: 'deleteUserAvatar',
+          summary: 'Remove the profile picture',
+          description:
+            'The user is shown with their initials again. Needs "users:update", and the user\'s role ' +
+            'must be one you could give (without "users:change-role", only roles that grant nothing ' +
+            'beyond your own permissions).',
+          tags: ['Users'],
+          parameters: [param('UserId'), param('IfMatch')],
+          responses: {
+            200: jsonResponse('The updated user', ref('User'), true),
+            401: response('Unauthorized'),
+            403: response('Forbidden'),
+            404: response('NotFound'),
+            412: response('PreconditionFailed'),
+          },
+        },
+      },
+
+      '/api/users/{id}/password': {
+        put: {
+          operationId: 'setUserPassword',
+          summary: "Set a user's password",
+          description:
+            'Users created through the API or an import can only sign in once a password is set. ' +
+            'Needs "users:update", and the user\'s role must be one you could give ' +
+            '(without "users:change-role", only roles that grant nothing beyond your own permissions).',
+          tags: ['Users'],
+          parameters: [param('UserId')],
+          requestBody: jsonBody(ref('SetPasswordDto'), { password: 'correct horse battery staple' }),
+          responses: {
+            200: jsonResponse('Password set', ref('Message')),
+            400: response('BadRequest'),
+            401: response('Unauthorized'),
+            403: response('Forbidden'),
+            404: response('NotFound'),
+            422: response('ValidationFailed'),
+          },
+        },
+      },
+
+      '/api/users/events': {
+        get: {
+          operationId: 'streamUserEvents',
+          summary: 'Live stream of user changes',
+          description:
+            'Server-sent events (open with EventSource). Each change is an event named "user" whose data ' +
+            'is a UserEvent. To resume after a dropped connection, send the last event id as the ' +
+            'Last-Event-ID header or the lastEventId parameter: the missed events come first. When they ' +
+            'are no longer known, a "reset" event asks to reload instead. Needs "users:read".',
+          tags: ['Users'],
+          parameters: [
+            { name: 'lastEventId', in: 'query', description: 'The last event id seen', schema: { type: 'integer', minimum: 0 } },
+            { name: 'Last-Event-ID', in: 'header', description: 'The same, as sent by EventSource itself', schema: { type: 'string' } },
+          ],
+          responses: {
+            200: {
+              description: 'A stream that stays open (text/event-stream)',
+              content: { 'text/event-stream': { schema: ref('UserEvent') } },
+            },
+            401: response('Unauthorized'),
+            403: response('Forbidden'),
+          },
+        },
+      },
+
+      '/api/users/check-email': {
+        get: {
+          operationId: 'checkEmail',
+          summary: 'Check whether an email is still free',
+          tags: ['Users'],
+          parameters: [
+            { name: 'email', in: 'query', required: true, schema: { type: 'string', format: 'email' } },
+            {
+              name: 'excludeId',
+              in: 'query',
+              description: 'The user being edited - their own email counts as free',
+              schema: { type: 'string' },
+            },
+          ],
+          responses: {
+            200: jsonResponse('Whether the email is free', ref('CheckEmailResult')),
+            400: response('BadRequest'),
+            401: response('Unauthorized'),
+            403: response('Forbidden'),
+          },
+        },
+      },
+
+      '/api/users/batch': {
+        post: {
+          operationId: 'batchUsers',
+          summary: 'Run many create/update/delete operations',
+          description:
+            'Permissions are checked per operation. By default every operation runs on its own; ' +
+            'with "transactional": true all of them are saved or none (the others answer 424).',
+          tags: ['Bulk'],
+          requestBody: jsonBody(ref('BatchRequest'), {
+            operations: [
+              { op: 'update', id: '2', data: { roleId: 'manager' }, version: 1 },
+              { op: 'delete', id: '3' },
+            ],
+          }),
+          responses: {
+            200: jsonResponse('Every operation succeeded', ref('BatchResponse')),
+            207: jsonResponse('Some operations failed - see each result', ref('BatchResponse')),
+            400: response('BadRequest'),
+            401: response('Unauthorized'),
+            422: response('ValidationFailed'),
+          },
+        },
+      },
+
+      '/api/users/import': {
+        post: {
+          operationId: 'importUsers',
+          summary: 'Import users from file rows',
+          description:
+            'With "dryRun": true every row is only checked. Otherwise the valid rows are created and ' +
+            'the others are skipped. Needs "users:create".',
+          tags: ['Bulk'],
+          requestBody: jsonBody(ref('ImportRequest'), {
+            dryRun: true,
+            rows: [{ name: 'Ann Lee', email: 'ann@example.com', role: 'User' }],
+          }),
+          responses: {
+            200: jsonResponse('Preview (dryRun)', ref('ImportPreview')),
+            201: jsonResponse('The created users and the skipped rows', ref('ImportResult')),
+            400: response('BadRequest'),
+            401: response('Unauthorized'),
+            403: response('Forbidden'),
+            422: response('ValidationFailed'),
+          },
+        },
+      },
+
+      '/api/users/export': {
+        get: {
+          operationId: 'exportUsers',
+          summary: 'Download users as a file',
+          description:
+            'Every user matching the filters (all pages) as CSV, JSON or Excel. Dates in CSV and Excel ' +
+            'files are written for the locale and time zone; JSON keeps ISO 8601. Needs "users:read".',
+          tags: ['Bulk'],
+          parameters: [
+            { name: 'format', in: 'query', schema: { type: 'string', enum: EXPORT_FORMATS, default: 'csv' } },
+            {
+              name: 'columns',
+              in: 'query',
+              description: `Comma separated, in file order. Any of: ${EXPORT_COLUMNS.join(', ')}`,
+              schema: { type: 'string', default: DEFAULT_EXPORT_COLUMNS.join(',') },
+            },
+            {
+              name: 'locale',
+              in: 'query',
+              description: 'e.g. de-DE (default: the Accept-Language header, then en-US)',
+              schema: { type: 'string' },
+            },
+            { name: 'timeZone', in: 'query', description: 'e.g. Europe/Berlin', schema: { type: 'string', default: 'UTC' } },
+            ...listFilterParameters,
+          ],
+          responses: {
+            200: {
+              description: 'The file (Content-Disposition: attachment)',
+              content: {
+                'text/csv': { schema: { type: 'string' } },
+                'application/json': { schema: listOf({ type: 'object' }) },
+                'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': {
+                  schema: { type: 'string', format: 'binary' },
+                },
+              },
+            },
+            400: response('BadRequest'),
+            401: response('Unauthorized'),
+            403: response('Forbidden'),
+          },
+        },
+      },
+    },
+    components: {
+      schemas,
+      parameters,
+      responses,
+      securitySchemes: {
+        sessionCookie: {
+          type: 'apiKey',
+          in: 'cookie',
+          name: authConfig.sessionCookieName,
+          description: 'Set by POST /api/auth/login',
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,24 @@
+/**
+ * Account Repository Interface
+ * Describes how sign-in credentials are stored (one account per user)
+ */
+
+import { Account } from '../types/auth';
+
+export interface AccountRepository {
+  /**
+   * Returns the account of a user, or undefined if the user can't sign in
+   */
+  findByUserId(userId: string): Promise<Account | undefined>;
+
+  /**
+   * Creates or replaces the account of account.userId
+   */
+  save(account: Account): Promise<Account>;
+
+  /**
+   * Removes the account of a user
+   * Returns true if an account was removed
+   */
+  delete(userId: string): Promise<boolean>;
+}
@@ -0,0 +1,49 @@
+/**
+ * Attribute Repository Interface
+ * Describes how custom attribute definitions are stored (same idea as RoleRepository)
+ *
+ * Attribute keys are unique, like a primary key.
+ */
+
+import { AttributeDefinition } from '../types/attribute';
+import { ConflictError } from '../utils/errors';
+
+export interface AttributeRepository {
+  /**
+   * Returns every attribute definition, in the order they were defined
+   */
+  findAll(): Promise<AttributeDefinition[]>;
+
+  /**
+   * Returns one definition, or undefined if no attribute has this key
+   */
+  findByKey(key: string): Promise<AttributeDefinition | undefined>;
+
+  /**
+   * Stores a brand new definition
+   * Throws ConflictError if another attribute already has the same key
+   */
+  insert(attribute: AttributeDefinition): Promise<AttributeDefinition>;
+
+  /**
+   * Replaces an existing definition (matched by key)
+   * Returns null if the attribute doesn't exist
+   */
+  replace(attribute: AttributeDefinition): Promise<AttributeDefinition | null>;
+
+  /**
+   * Removes a definition
+   * Returns true if a definition was removed, false if it didn't exist
+   */
+  delete(key: string): Promise<boolean>;
+}
+
+/**
+ * Throws a ConflictError if an attribute with this key already exists
+ * Shared by the repository implementations
+ */
+export function assertUniqueAttributeKey(attributes: AttributeDefinition[], attribute: AttributeDefinition): void {
+  if (attributes.some((existing) => existing.key === attribute.key)) {
+    throw new ConflictError('key', 'Attribute key already in use');
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Audit Repository Interface
+ * Describes how audit log entries are stored
+ *
+ * The log is append-only: there is deliberately no way to change or remove an entry.
+ */
+
+import { AuditEntry } from '../types/audit';
+
+export interface AuditRepository {
+  /**
+   * Returns every entry, oldest first (the order they were added)
+   */
+  findAll(): Promise<AuditEntry[]>;
+
+  /**
+   * Adds an entry at the end of the log
+   */
+  append(entry: AuditEntry): Promise<AuditEntry>;
+}
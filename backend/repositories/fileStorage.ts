@@ -0,0 +1,41 @@
+/**
+ * File Storage Interface
+ * Describes HOW binary files (e.g. avatar pictures) are stored, without saying WHERE
+ *
+ * Files are addressed by a key that looks like a relative path, e.g.
+ * "avatars/12/3f9a.../128.webp". The avatarService only talks to this
+ * interface, so the local folder can be swapped for cloud storage (S3 and
+ * friends) without touching any business logic or API routes.
+ */
+
+export interface FileStorage {
+  /**
+   * Stores a file, replacing any file with the same key
+   */
+  write(key: string, data: Buffer): Promise<void>;
+
+  /**
+   * Returns a file's contents, or undefined if there is no file with this key
+   */
+  read(key: string): Promise<Buffer | undefined>;
+
+  /**
+   * Removes every file inside a folder, e.g. "avatars/12" removes "avatars/12/a/64.webp"
+   * and "avatars/12/b/64.webp". Removing a folder that doesn't exist is not an error
+   */
+  deleteFolder(folder: string): Promise<void>;
+}
+
+// Letters, digits, "-", "_" and "." in each part (not starting with "."), parts separated by "/"
+const KEY_PATTERN = /^[A-Za-z0-9_-][A-Za-z0-9_.-]*(\/[A-Za-z0-9_-][A-Za-z0-9_.-]*)*$/;
+
+/**
+ * Throws if a key could point outside the storage (e.g. "../secrets" or "/etc/passwd")
+ * Shared by the implementations - keys are built from ids, but better safe than sorry
+ * @param {string} key - The key (or folder) to check
+ */
+export function assertSafeKey(key: string): void {
+  if (!KEY_PATTERN.test(key)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+}
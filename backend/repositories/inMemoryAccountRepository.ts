@@ -0,0 +1,33 @@
+/**
+ * In-Memory Account Repository
+ * Keeps accounts in a plain array (data resets when the server restarts)
+ *
+ * Used for tests and quick demos (STORAGE_DRIVER=memory)
+ */
+
+import { Account } from '../types/auth';
+import { AccountRepository } from './accountRepository';
+
+export class InMemoryAccountRepository implements AccountRepository {
+  /**
+   * @param {Account[]} accounts - Starting data (defaults to an empty list)
+   */
+  constructor(private accounts: Account[] = []) {}
+
+  async findByUserId(userId: string): Promise<Account | undefined> {
+    const account = this.accounts.find((account) => account.userId === userId);
+    return account ? { ...account } : undefined;
+  }
+
+  async save(account: Account): Promise<Account> {
+    this.accounts = this.accounts.filter((existing) => existing.userId !== account.userId);
+    this.accounts.push({ ...account });
+    return { ...account };
+  }
+
+  async delete(userId: string): Promise<boolean> {
+    const before = this.accounts.length;
+    this.accounts = this.accounts.filter((account) => account.userId !== userId);
+    return this.accounts.length < before;
+  }
+}
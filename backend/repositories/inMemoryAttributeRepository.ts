@@ -0,0 +1,45 @@
+/**
+ * In-Memory Attribute Repository
+ * Keeps attribute definitions in a plain array (data resets when the server restarts)
+ *
+ * Used for tests and quick demos (STORAGE_DRIVER=memory)
+ */
+
+import { AttributeDefinition } from '../types/attribute';
+import { AttributeRepository, assertUniqueAttributeKey } from './attributeRepository';
+
+export class InMemoryAttributeRepository implements AttributeRepository {
+  private attributes: AttributeDefinition[] = [];
+
+  async findAll(): Promise<AttributeDefinition[]> {
+    // structuredClone copies nested arrays too (options)
+    return structuredClone(this.attributes);
+  }
+
+  async findByKey(key: string): Promise<AttributeDefinition | undefined> {
+    const attribute = this.attributes.find((attribute) => attribute.key === key);
+    return attribute ? structuredClone(attribute) : undefined;
+  }
+
+  async insert(attribute: AttributeDefinition): Promise<AttributeDefinition> {
+    assertUniqueAttributeKey(this.attributes, attribute);
+    this.attributes.push(structuredClone(attribute));
+    return structuredClone(attribute);
+  }
+
+  async replace(attribute: AttributeDefinition): Promise<AttributeDefinition | null> {
+    const index = this.attributes.findIndex((existing) => existing.key === attribute.key);
+    if (index === -1) return null;
+
+    this.attributes[index] = structuredClone(attribute);
+    return structuredClone(attribute);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const index = this.attributes.findIndex((attribute) => attribute.key === key);
+    if (index === -1) return false;
+
+    this.attributes.splice(index, 1);
+    return true;
+  }
+}
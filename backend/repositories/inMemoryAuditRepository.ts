@@ -0,0 +1,22 @@
+/**
+ * In-Memory Audit Repository
+ * Keeps the audit log in a plain array (it's empty again after a restart)
+ *
+ * Used for tests and quick demos (STORAGE_DRIVER=memory)
+ */
+
+import { AuditEntry } from '../types/audit';
+import { AuditRepository } from './auditRepository';
+
+export class InMemoryAuditRepository implements AuditRepository {
+  private entries: AuditEntry[] = [];
+
+  async findAll(): Promise<AuditEntry[]> {
+    return structuredClone(this.entries);
+  }
+
+  async append(entry: AuditEntry): Promise<AuditEntry> {
+    this.entries.push(structuredClone(entry));
+    return entry;
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * In-Memory File Storage
+ * Keeps files in a Map (data resets when the server restarts)
+ *
+ * Used for tests and quick demos (STORAGE_DRIVER=memory)
+ */
+
+import { FileStorage, assertSafeKey } from './fileStorage';
+
+export class InMemoryFileStorage implements FileStorage {
+  private files = new Map<string, Buffer>();
+
+  async write(key: string, data: Buffer): Promise<void> {
+    assertSafeKey(key);
+    this.files.set(key, Buffer.from(data)); // Copy, so the caller can't change the stored file
+  }
+
+  async read(key: string): Promise<Buffer | undefined> {
+    assertSafeKey(key);
+    const data = this.files.get(key);
+    return data ? Buffer.from(data) : undefined;
+  }
+
+  async deleteFolder(folder: string): Promise<void> {
+    assertSafeKey(folder);
+    for (const key of [...this.files.keys()]) {
+      if (key.startsWith(`${folder}/`)) this.files.delete(key);
+    }
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * In-Memory Role Repository
+ * Keeps roles in a plain array (data resets when the server restarts)
+ *
+ * Used for tests and quick demos (STORAGE_DRIVER=memory)
+ */
+
+import { Role } from '../types/role';
+import { RoleRepository, assertUniqueRoleName } from './roleRepository';
+
+export class InMemoryRoleRepository implements RoleRepository {
+  /**
+   * @param {Role[]} roles - Starting data (defaults to an empty list)
+   */
+  constructor(private roles: Role[] = []) {}
+
+  async findAll(): Promise<Role[]> {
+    // structuredClone copies nested arrays too (permissions)
+    return structuredClone(this.roles);
+  }
+
+  async findById(id: string): Promise<Role | undefined> {
+    const role = this.roles.find((role) => role.id === id);
+    return role ? structuredClone(role) : undefined;
+  }
+
+  async insert(role: Role): Promise<Role> {
+    assertUniqueRoleName(this.roles, role);
+    this.roles.push(structuredClone(role));
+    return structuredClone(role);
+  }
+
+  async replace(role: Role): Promise<Role | null> {
+    const index = this.roles.findIndex((existing) => existing.id === role.id);
+    if (index === -1) return null;
+
+    assertUniqueRoleName(this.roles, role);
+    this.roles[index] = structuredClone(role);
+    return structuredClone(role);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const index = this.roles.findIndex((role) => role.id === id);
+    if (index === -1) return false;
+
+    this.roles.splice(index, 1);
+    return true;
+  }
+}
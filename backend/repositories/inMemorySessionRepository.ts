@@ -0,0 +1,35 @@
+/**
+ * In-Memory Session Repository
+ * Keeps sessions in a plain array (everyone is signed out when the server restarts)
+ *
+ * Used for tests and quick demos (STORAGE_DRIVER=memory)
+ */
+
+import { Session } from '../types/auth';
+import { SessionRepository } from './sessionRepository';
+
+export class InMemorySessionRepository implements SessionRepository {
+  private sessions: Session[] = [];
+
+  async findById(id: string): Promise<Session | undefined> {
+    const session = this.sessions.find((session) => session.id === id);
+    return session ? { ...session } : undefined;
+  }
+
+  async insert(session: Session): Promise<Session> {
+    this.sessions.push({ ...session });
+    return { ...session };
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const before = this.sessions.length;
+    this.sessions = this.sessions.filter((session) => session.id !== id);
+    return this.sessions.length < before;
+  }
+
+  async deleteExpired(now: Date): Promise<number> {
+    const before = this.sessions.length;
+    this.sessions = this.sessions.filter((session) => new Date(session.expiresAt) > now);
+    return before - this.sessions.length;
+  }
+}
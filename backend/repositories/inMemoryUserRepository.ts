@@ -0,0 +1,73 @@
+/**
+ * In-Memory User Repository
+ * Keeps users in a plain array (data resets when the server restarts)
+ *
+ * Used for tests and quick demos (STORAGE_DRIVER=memory)
+ */
+
+import { User } from '../types/user';
+import {
+  UserRepository,
+  UserWrite,
+  applyUserWrites,
+  assertUniqueEmail,
+  assertVersion,
+  findEmailOwner,
+} from './userRepository';
+
+export class InMemoryUserRepository implements UserRepository {
+  /**
+   * @param {User[]} users - Starting data (defaults to an empty list)
+   */
+  constructor(private users: User[] = []) {}
+
+  async findAll(): Promise<User[]> {
+    // Return copies so callers can't change our stored objects by accident
+    return this.users.map((user) => ({ ...user }));
+  }
+
+  async findById(id: string): Promise<User | undefined> {
+    // .find() searches the array and returns the first matching item
+    const user = this.users.find((user) => user.id === id);
+    return user ? { ...user } : undefined;
+  }
+
+  async findByEmail(email: string): Promise<User | undefined> {
+    const user = findEmailOwner(this.users, email);
+    return user ? { ...user } : undefined;
+  }
+
+  async insert(user: User): Promise<User> {
+    assertUniqueEmail(this.users, user);
+    this.users.push({ ...user });
+    return { ...user };
+  }
+
+  async replace(user: User, expectedVersion?: number): Promise<User | null> {
+    const index = this.users.findIndex((existing) => existing.id === user.id);
+
+    // If user not found (index is -1), return null
+    if (index === -1) return null;
+
+    assertVersion(this.users[index], expectedVersion);
+    assertUniqueEmail(this.users, user);
+    this.users[index] = { ...user };
+    return { ...user };
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const index = this.users.findIndex((user) => user.id === id);
+    if (index === -1) return false;
+
+    // .splice(index, 1) removes 1 item at the specified index
+    this.users.splice(index, 1);
+    return true;
+  }
+
+  async saveAll(writes: UserWrite[]): Promise<void> {
+    // Work on a copy and only keep it when every write succeeded
+    const draft = this.users.map((user) => ({ ...user }));
+    applyUserWrites(draft, writes);
+    this.users = draft;
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * In-Memory Webhook Delivery Repository
+ * Keeps deliveries in a plain array - pending ones are lost on restart
+ *
+ * Used for tests and quick demos (STORAGE_DRIVER=memory)
+ */
+
+import { WebhookDelivery } from '../types/webhook';
+import { WebhookDeliveryRepository } from './webhookDeliveryRepository';
+
+export class InMemoryWebhookDeliveryRepository implements WebhookDeliveryRepository {
+  private deliveries: WebhookDelivery[] = [];
+
+  async findAll(): Promise<WebhookDelivery[]> {
+    return structuredClone(this.deliveries);
+  }
+
+  async findById(id: string): Promise<WebhookDelivery | undefined> {
+    const delivery = this.deliveries.find((delivery) => delivery.id === id);
+    return delivery ? structuredClone(delivery) : undefined;
+  }
+
+  async insertMany(deliveries: WebhookDelivery[]): Promise<WebhookDelivery[]> {
+    this.deliveries.push(...structuredClone(deliveries));
+    return deliveries;
+  }
+
+  async replace(delivery: WebhookDelivery): Promise<WebhookDelivery | null> {
+    const index = this.deliveries.findIndex((existing) => existing.id === delivery.id);
+    if (index === -1) return null;
+
+    this.deliveries[index] = structuredClone(delivery);
+    return structuredClone(delivery);
+  }
+
+  async deleteMany(ids: string[]): Promise<number> {
+    const before = this.deliveries.length;
+    this.deliveries = this.deliveries.filter((delivery) => !ids.includes(delivery.id));
+    return before - this.deliveries.length;
+  }
+}
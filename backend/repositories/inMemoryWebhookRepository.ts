@@ -0,0 +1,44 @@
+/**
+ * In-Memory Webhook Repository
+ * Keeps webhooks in a plain array (data resets when the server restarts)
+ *
+ * Used for tests and quick demos (STORAGE_DRIVER=memory)
+ */
+
+import { Webhook } from '../types/webhook';
+import { WebhookRepository } from './webhookRepository';
+
+export class InMemoryWebhookRepository implements WebhookRepository {
+  private webhooks: Webhook[] = [];
+
+  async findAll(): Promise<Webhook[]> {
+    // structuredClone copies nested arrays too (events)
+    return structuredClone(this.webhooks);
+  }
+
+  async findById(id: string): Promise<Webhook | undefined> {
+    const webhook = this.webhooks.find((webhook) => webhook.id === id);
+    return webhook ? structuredClone(webhook) : undefined;
+  }
+
+  async insert(webhook: Webhook): Promise<Webhook> {
+    this.webhooks.push(structuredClone(webhook));
+    return structuredClone(webhook);
+  }
+
+  async replace(webhook: Webhook): Promise<Webhook | null> {
+    const index = this.webhooks.findIndex((existing) => existing.id === webhook.id);
+    if (index === -1) return null;
+
+    this.webhooks[index] = structuredClone(webhook);
+    return structuredClone(webhook);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const index = this.webhooks.findIndex((webhook) => webhook.id === id);
+    if (index === -1) return false;
+
+    this.webhooks.splice(index, 1);
+    return true;
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Repositories
+ * Creates the repository instances used by the services
+ *
+ * Which implementation is used depends on STORAGE_DRIVER (see backend/config/storage.ts)
+ */
+
+import { dataFilePath, storageConfig } from '../config/storage';
+import { UserRepository } from './userRepository';
+import { InMemoryUserRepository } from './inMemoryUserRepository';
+import { JsonFileUserRepository } from './jsonFileUserRepository';
+import { RoleRepository } from './roleRepository';
+import { InMemoryRoleRepository } from './inMemoryRoleRepository';
+import { JsonFileRoleRepository } from './jsonFileRoleRepository';
+import { AccountRepository } from './accountRepository';
+import { InMemoryAccountRepository } from './inMemoryAccountRepository';
+import { JsonFileAccountRepository } from './jsonFileAccountRepository';
+import { SessionRepository } from './sessionRepository';
+import { InMemorySessionRepository } from './inMemorySessionRepository';
+import { JsonFileSessionRepository } from './jsonFileSessionRepository';
+import { AuditRepository } from './auditRepository';
+import { InMemoryAuditRepository } from './inMemoryAuditRepository';
+import { JsonFileAuditRepository } from './jsonFileAuditRepository';
+import { WebhookRepository } from './webhookRepository';
+import { InMemoryWebhookRepository } from './inMemoryWebhookRepository';
+import { JsonFileWebhookRepository } from './jsonFileWebhookRepository';
+import { WebhookDeliveryRepository } from './webhookDeliveryRepository';
+import { InMemoryWebhookDeliveryRepository } from './inMemoryWebhookDeliveryRepository';
+import { JsonFileWebhookDeliveryRepository } from './jsonFileWebhookDeliveryRepository';
+import { AttributeRepository } from './attributeRepository';
+import { InMemoryAttributeRepository } from './inMemoryAttributeRepository';
+import { JsonFileAttributeRepository } from './jsonFileAttributeRepository';
+import { FileStorage } from './fileStorage';
+import { InMemoryFileStorage } from './inMemoryFileStorage';
+import { LocalDiskFileStorage } from './localDiskFileStorage';
+import { createSeedAccounts, createSeedRoles, createSeedUsers } from './seedData';
+
+export type { UserRepository, UserWrite } from './userRepository';
+export type { RoleRepository } from './roleRepository';
+export type { AccountRepository } from './accountRepository';
+export type { SessionRepository } from './sessionRepository';
+export type { AuditRepository } from './auditRepository';
+export type { WebhookRepository } from './webhookRepository';
+export type { WebhookDeliveryRepository } from './webhookDeliveryRepository';
+export type { AttributeRepository } from './attributeRepository';
+export type { FileStorage } from './fileStorage';
+
+/**
+ * Builds the user repository for the configured storage driver
+ */
+export function createUserRepository(): UserRepository {
+  if (storageConfig.driver === 'memory') {
+    return new InMemoryUserRepository(createSeedUsers());
+  }
+  return new JsonFileUserRepository(dataFilePath('users.json'));
+}
+
+/**
+ * Builds the role repository for the configured storage driver
+ */
+export function createRoleRepository(): RoleRepository {
+  if (storageConfig.driver === 'memory') {
+    return new InMemoryRoleRepository(createSeedRoles());
+  }
+  return new JsonFileRoleRepository(dataFilePath('roles.json'));
+}
+
+/**
+ * Builds the account repository for the configured storage driver
+ */
+export function createAccountRepository(): AccountRepository {
+  if (storageConfig.driver === 'memory') {
+    return new InMemoryAccountRepository(createSeedAccounts());
+  }
+  return new JsonFileAccountRepository(dataFilePath('accounts.json'));
+}
+
+/**
+ * Builds the session repository for the configured storage driver
+ */
+export function createSessionRepository(): SessionRepository {
+  if (storageConfig.driver === 'memory') {
+    return new InMemorySessionRepository();
+  }
+  return new JsonFileSessionRepository(dataFilePath('sessions.json'));
+}
+
+/**
+ * Builds the audit log repository for the configured storage driver
+ */
+export function createAuditRepository(): AuditRepository {
+  if (storageConfig.driver === 'memory') {
+    return new InMemoryAuditRepository();
+  }
+  return new JsonFileAuditRepository(dataFilePath('audit.json'));
+}
+
+/**
+ * Builds the webhook repository for the configured storage driver
+ */
+export function createWebhookRepository(): WebhookRepository {
+  if (storageConfig.driver === 'memory') {
+    return new InMemoryWebhookRepository();
+  }
+  return new JsonFileWebhookRepository(dataFilePath('webhooks.json'));
+}
+
+/**
+ * Builds the webhook delivery repository (queue and log) for the configured storage driver
+ */
+export function createWebhookDeliveryRepository(): WebhookDeliveryRepository {
+  if (storageConfig.driver === 'memory') {
+    return new InMemoryWebhookDeliveryRepository();
+  }
+  return new JsonFileWebhookDeliveryRepository(dataFilePath('webhook-deliveries.json'));
+}
+
+/**
+ * Builds the custom attribute repository for the configured storage driver
+ */
+export function createAttributeRepository(): AttributeRepository {
+  if (storageConfig.driver === 'memory') {
+    return new InMemoryAttributeRepository();
+  }
+  return new JsonFileAttributeRepository(dataFilePath('attributes.json'));
+}
+
+/**
+ * Builds the file storage (uploaded pictures) for the configured storage driver
+ */
+export function createFileStorage(): FileStorage {
+  if (storageConfig.driver === 'memory') {
+    return new InMemoryFileStorage();
+  }
+  return new LocalDiskFileStorage(dataFilePath('files'));
+}
+
+/**
+ * Shared instances used by the services
+ * Created once per server process
+ */
+export const userRepository: UserRepository = createUserRepository();
+export const roleRepository: RoleRepository = createRoleRepository();
+export const accountRepository: AccountRepository = createAccountRepository();
+export const sessionRepository: SessionRepository = createSessionRepository();
+export const auditRepository: AuditRepository = createAuditRepository();
+export const webhookRepository: WebhookRepository = createWebhookRepository();
+export const webhookDeliveryRepository: WebhookDeliveryRepository = createWebhookDeliveryRepository();
+export const attributeRepository: AttributeRepository = createAttributeRepository();
+export const fileStorage: FileStorage = createFileStorage();
@@ -0,0 +1,53 @@
+/**
+ * JSON File Account Repository
+ * Saves sign-in credentials to a JSON file on disk
+ *
+ * Default location: data/accounts.json (see backend/config/storage.ts)
+ */
+
+import { JsonFileStore } from '../lib/jsonFileStore';
+import { Account } from '../types/auth';
+import { AccountRepository } from './accountRepository';
+import { createSeedAccounts } from './seedData';
+
+/**
+ * Shape of the data stored in accounts.json
+ */
+interface AccountsDocument {
+  accounts: Account[];
+}
+
+export class JsonFileAccountRepository implements AccountRepository {
+  private store: JsonFileStore<AccountsDocument>;
+
+  /**
+   * @param {string} filePath - Where to keep the JSON file
+   */
+  constructor(filePath: string) {
+    // A new accounts.json starts with accounts for the sample users
+    this.store = new JsonFileStore<AccountsDocument>(filePath, {
+      initialData: () => ({ accounts: createSeedAccounts() }),
+    });
+  }
+
+  async findByUserId(userId: string): Promise<Account | undefined> {
+    const { accounts } = await this.store.read();
+    return accounts.find((account) => account.userId === userId);
+  }
+
+  async save(account: Account): Promise<Account> {
+    await this.store.update((draft) => {
+      draft.accounts = draft.accounts.filter((existing) => existing.userId !== account.userId);
+      draft.accounts.push(account);
+    });
+    return account;
+  }
+
+  async delete(userId: string): Promise<boolean> {
+    return this.store.update((draft) => {
+      const before = draft.accounts.length;
+      draft.accounts = draft.accounts.filter((account) => account.userId !== userId);
+      return draft.accounts.length < before;
+    });
+  }
+}
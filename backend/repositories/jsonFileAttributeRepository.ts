@@ -0,0 +1,68 @@
+/**
+ * JSON File Attribute Repository
+ * Saves attribute definitions to a JSON file on disk, so they survive server restarts
+ *
+ * Default location: data/attributes.json (see backend/config/storage.ts)
+ */
+
+import { JsonFileStore } from '../lib/jsonFileStore';
+import { AttributeDefinition } from '../types/attribute';
+import { AttributeRepository, assertUniqueAttributeKey } from './attributeRepository';
+
+/**
+ * Shape of the data stored in attributes.json
+ */
+interface AttributesDocument {
+  attributes: AttributeDefinition[];
+}
+
+export class JsonFileAttributeRepository implements AttributeRepository {
+  private store: JsonFileStore<AttributesDocument>;
+
+  /**
+   * @param {string} filePath - Where to keep the JSON file
+   */
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<AttributesDocument>(filePath, {
+      initialData: () => ({ attributes: [] }),
+    });
+  }
+
+  async findAll(): Promise<AttributeDefinition[]> {
+    const { attributes } = await this.store.read();
+    return attributes;
+  }
+
+  async findByKey(key: string): Promise<AttributeDefinition | undefined> {
+    const { attributes } = await this.store.read();
+    return attributes.find((attribute) => attribute.key === key);
+  }
+
+  async insert(attribute: AttributeDefinition): Promise<AttributeDefinition> {
+    await this.store.update((draft) => {
+      assertUniqueAttributeKey(draft.attributes, attribute);
+      draft.attributes.push(attribute);
+    });
+    return attribute;
+  }
+
+  async replace(attribute: AttributeDefinition): Promise<AttributeDefinition | null> {
+    return this.store.update((draft) => {
+      const index = draft.attributes.findIndex((existing) => existing.key === attribute.key);
+      if (index === -1) return null;
+
+      draft.attributes[index] = attribute;
+      return attribute;
+    });
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.store.update((draft) => {
+      const index = draft.attributes.findIndex((attribute) => attribute.key === key);
+      if (index === -1) return false;
+
+      draft.attributes.splice(index, 1);
+      return true;
+    });
+  }
+}
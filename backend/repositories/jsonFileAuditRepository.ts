@@ -0,0 +1,42 @@
+/**
+ * JSON File Audit Repository
+ * Saves the audit log to a JSON file, so the history survives restarts
+ *
+ * Default location: data/audit.json (see backend/config/storage.ts)
+ */
+
+import { JsonFileStore } from '../lib/jsonFileStore';
+import { AuditEntry } from '../types/audit';
+import { AuditRepository } from './auditRepository';
+
+/**
+ * Shape of the data stored in audit.json
+ */
+interface AuditDocument {
+  entries: AuditEntry[];
+}
+
+export class JsonFileAuditRepository implements AuditRepository {
+  private store: JsonFileStore<AuditDocument>;
+
+  /**
+   * @param {string} filePath - Where to keep the JSON file
+   */
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<AuditDocument>(filePath, {
+      initialData: () => ({ entries: [] }),
+    });
+  }
+
+  async findAll(): Promise<AuditEntry[]> {
+    const { entries } = await this.store.read();
+    return entries;
+  }
+
+  async append(entry: AuditEntry): Promise<AuditEntry> {
+    await this.store.update((draft) => {
+      draft.entries.push(entry);
+    });
+    return entry;
+  }
+}
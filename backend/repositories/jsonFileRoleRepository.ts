@@ -0,0 +1,107 @@
+/**
+ * JSON File Role Repository
+ * Saves roles to a JSON file on disk, so data survives server restarts
+ *
+ * Default location: data/roles.json (see backend/config/storage.ts)
+ */
+
+import { JsonFileStore, Migration } from '../lib/jsonFileStore';
+import { Role } from '../types/role';
+import { RoleRepository, assertUniqueRoleName } from './roleRepository';
+import { createSeedRoles } from './seedData';
+
+/**
+ * Shape of the data stored in roles.json
+ */
+interface RolesDocument {
+  roles: Role[];
+}
+
+/**
+ * Schema migrations for roles.json
+ * Add a new entry (with the next version number) whenever the stored shape changes
+ */
+const migrations: Migration[] = [
+  {
+    version: 2,
+    description: 'let the built-in Admin role manage webhooks',
+    up: (data) => {
+      const { roles } = data as RolesDocument;
+      return {
+        roles: roles.map((role) =>
+          role.id === 'admin' && !role.permissions.includes('webhooks:manage')
+            ? { ...role, permissions: [...role.permissions, 'webhooks:manage'] }
+            : role
+        ),
+      };
+    },
+  },
+  {
+    version: 3,
+    description: 'let the built-in Admin role manage custom attributes',
+    up: (data) => {
+      const { roles } = data as RolesDocument;
+      return {
+        roles: roles.map((role) =>
+          role.id === 'admin' && !role.permissions.includes('attributes:manage')
+            ? { ...role, permissions: [...role.permissions, 'attributes:manage'] }
+            : role
+        ),
+      };
+    },
+  },
+];
+
+export class JsonFileRoleRepository implements RoleRepository {
+  private store: JsonFileStore<RolesDocument>;
+
+  /**
+   * @param {string} filePath - Where to keep the JSON file
+   */
+  constructor(filePath: string) {
+    // A new roles.json starts with the built-in roles
+    this.store = new JsonFileStore<RolesDocument>(filePath, {
+      initialData: () => ({ roles: createSeedRoles() }),
+      migrations,
+    });
+  }
+
+  async findAll(): Promise<Role[]> {
+    const { roles } = await this.store.read();
+    return roles;
+  }
+
+  async findById(id: string): Promise<Role | undefined> {
+    const { roles } = await this.store.read();
+    return roles.find((role) => role.id === id);
+  }
+
+  async insert(role: Role): Promise<Role> {
+    await this.store.update((draft) => {
+      assertUniqueRoleName(draft.roles, role);
+      draft.roles.push(role);
+    });
+    return role;
+  }
+
+  async replace(role: Role): Promise<Role | null> {
+    return this.store.update((draft) => {
+      const index = draft.roles.findIndex((existing) => existing.id === role.id);
+      if (index === -1) return null;
+
+      assertUniqueRoleName(draft.roles, role);
+      draft.roles[index] = role;
+      return role;
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.store.update((draft) => {
+      const index = draft.roles.findIndex((role) => role.id === id);
+      if (index === -1) return false;
+
+      draft.roles.splice(index, 1);
+      return true;
+    });
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * JSON File Session Repository
+ * Saves sign-in sessions to a JSON file, so users stay signed in across restarts
+ *
+ * Default location: data/sessions.json (see backend/config/storage.ts)
+ */
+
+import { JsonFileStore } from '../lib/jsonFileStore';
+import { Session } from '../types/auth';
+import { SessionRepository } from './sessionRepository';
+
+/**
+ * Shape of the data stored in sessions.json
+ */
+interface SessionsDocument {
+  sessions: Session[];
+}
+
+export class JsonFileSessionRepository implements SessionRepository {
+  private store: JsonFileStore<SessionsDocument>;
+
+  /**
+   * @param {string} filePath - Where to keep the JSON file
+   */
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<SessionsDocument>(filePath, {
+      initialData: () => ({ sessions: [] }),
+    });
+  }
+
+  async findById(id: string): Promise<Session | undefined> {
+    const { sessions } = await this.store.read();
+    return sessions.find((session) => session.id === id);
+  }
+
+  async insert(session: Session): Promise<Session> {
+    await this.store.update((draft) => {
+      draft.sessions.push(session);
+    });
+    return session;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.store.update((draft) => {
+      const before = draft.sessions.length;
+      draft.sessions = draft.sessions.filter((session) => session.id !== id);
+      return draft.sessions.length < before;
+    });
+  }
+
+  async deleteExpired(now: Date): Promise<number> {
+    return this.store.update((draft) => {
+      const before = draft.sessions.length;
+      draft.sessions = draft.sessions.filter((session) => new Date(session.expiresAt) > now);
+      return before - draft.sessions.length;
+    });
+  }
+}
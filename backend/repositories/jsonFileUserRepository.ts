@@ -0,0 +1,138 @@
+/**
+ * JSON File User Repository
+ * Saves users to a JSON file on disk, so data survives server restarts
+ *
+ * Uses JsonFileStore for atomic writes and schema migrations.
+ * Default location: data/users.json (see backend/config/storage.ts)
+ */
+
+import { JsonFileStore, Migration } from '../lib/jsonFileStore';
+import { User } from '../types/user';
+import {
+  UserRepository,
+  UserWrite,
+  applyUserWrites,
+  assertUniqueEmail,
+  assertVersion,
+  findEmailOwner,
+} from './userRepository';
+import { createSeedUsers } from './seedData';
+
+/**
+ * Shape of the data stored in users.json
+ */
+interface UsersDocument {
+  users: User[];
+}
+
+/**
+ * Schema migrations for users.json
+ * Add a new entry (with the next version number) whenever the stored shape changes
+ */
+const migrations: Migration[] = [
+  {
+    version: 2,
+    description: 'normalize emails to lowercase',
+    up: (data) => {
+      const { users } = data as UsersDocument;
+      return { users: users.map((user) => ({ ...user, email: user.email.trim().toLowerCase() })) };
+    },
+  },
+  {
+    version: 3,
+    description: 'replace free-form role names with role ids',
+    up: (data) => {
+      // Old users have { role: 'Admin' } - the built-in role ids are the lowercase names
+      const { users } = data as { users: (Omit<User, 'roleId'> & { role: string })[] };
+      const builtInIds = ['admin', 'manager', 'developer', 'user'];
+
+      return {
+        users: users.map(({ role, ...user }) => {
+          const roleId = role.toLowerCase();
+          return { ...user, roleId: builtInIds.includes(roleId) ? roleId : 'user' };
+        }),
+      };
+    },
+  },
+  {
+    version: 4,
+    description: 'add version and updatedAt for optimistic concurrency',
+    up: (data) => {
+      const { users } = data as { users: Omit<User, 'version' | 'updatedAt'>[] };
+      return { users: users.map((user) => ({ ...user, updatedAt: user.createdAt, version: 1 })) };
+    },
+  },
+  {
+    version: 5,
+    description: 'add status and custom attributes (profile fields like phone are optional)',
+    up: (data) => {
+      const { users } = data as { users: Omit<User, 'status' | 'attributes'>[] };
+      return { users: users.map((user) => ({ ...user, status: 'active', attributes: {} })) };
+    },
+  },
+];
+
+export class JsonFileUserRepository implements UserRepository {
+  private store: JsonFileStore<UsersDocument>;
+
+  /**
+   * @param {string} filePath - Where to keep the JSON file
+   */
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<UsersDocument>(filePath, {
+      initialData: () => ({ users: createSeedUsers() }),
+      migrations,
+    });
+  }
+
+  async findAll(): Promise<User[]> {
+    const { users } = await this.store.read();
+    return users;
+  }
+
+  async findById(id: string): Promise<User | undefined> {
+    const { users } = await this.store.read();
+    return users.find((user) => user.id === id);
+  }
+
+  async findByEmail(email: string): Promise<User | undefined> {
+    const { users } = await this.store.read();
+    return findEmailOwner(users, email);
+  }
+
+  async insert(user: User): Promise<User> {
+    // The check runs inside update(), so no other write can sneak in between
+    await this.store.update((draft) => {
+      assertUniqueEmail(draft.users, user);
+      draft.users.push(user);
+    });
+    return user;
+  }
+
+  async replace(user: User, expectedVersion?: number): Promise<User | null> {
+    return this.store.update((draft) => {
+      const index = draft.users.findIndex((existing) => existing.id === user.id);
+      if (index === -1) return null;
+
+      assertVersion(draft.users[index], expectedVersion);
+      assertUniqueEmail(draft.users, user);
+      draft.users[index] = user;
+      return user;
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.store.update((draft) => {
+      const index = draft.users.findIndex((user) => user.id === id);
+      if (index === -1) return false;
+
+      draft.users.splice(index, 1);
+      return true;
+    });
+  }
+
+  async saveAll(writes: UserWrite[]): Promise<void> {
+    // One store update: if applyUserWrites() throws, nothing is written
+    await this.store.update((draft) => applyUserWrites(draft.users, writes));
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * JSON File Webhook Delivery Repository
+ * Saves the delivery queue and log to a JSON file, so deliveries that are
+ * still waiting are sent after a restart too
+ *
+ * Default location: data/webhook-deliveries.json (see backend/config/storage.ts)
+ */
+
+import { JsonFileStore } from '../lib/jsonFileStore';
+import { WebhookDelivery } from '../types/webhook';
+import { WebhookDeliveryRepository } from './webhookDeliveryRepository';
+
+/**
+ * Shape of the data stored in webhook-deliveries.json
+ */
+interface DeliveriesDocument {
+  deliveries: WebhookDelivery[];
+}
+
+export class JsonFileWebhookDeliveryRepository implements WebhookDeliveryRepository {
+  private store: JsonFileStore<DeliveriesDocument>;
+
+  /**
+   * @param {string} filePath - Where to keep the JSON file
+   */
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<DeliveriesDocument>(filePath, {
+      initialData: () => ({ deliveries: [] }),
+    });
+  }
+
+  async findAll(): Promise<WebhookDelivery[]> {
+    const { deliveries } = await this.store.read();
+    return deliveries;
+  }
+
+  async findById(id: string): Promise<WebhookDelivery | undefined> {
+    const { deliveries } = await this.store.read();
+    return deliveries.find((delivery) => delivery.id === id);
+  }
+
+  async insertMany(deliveries: WebhookDelivery[]): Promise<WebhookDelivery[]> {
+    await this.store.update((draft) => {
+      draft.deliveries.push(...deliveries);
+    });
+    return deliveries;
+  }
+
+  async replace(delivery: WebhookDelivery): Promise<WebhookDelivery | null> {
+    return this.store.update((draft) => {
+      const index = draft.deliveries.findIndex((existing) => existing.id === delivery.id);
+      if (index === -1) return null;
+
+      draft.deliveries[index] = delivery;
+      return delivery;
+    });
+  }
+
+  async deleteMany(ids: string[]): Promise<number> {
+    return this.store.update((draft) => {
+      const before = draft.deliveries.length;
+      draft.deliveries = draft.deliveries.filter((delivery) => !ids.includes(delivery.id));
+      return before - draft.deliveries.length;
+    });
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * JSON File Webhook Repository
+ * Saves webhooks to a JSON file on disk, so they survive server restarts
+ *
+ * Default location: data/webhooks.json (see backend/config/storage.ts)
+ */
+
+import { JsonFileStore } from '../lib/jsonFileStore';
+import { Webhook } from '../types/webhook';
+import { WebhookRepository } from './webhookRepository';
+
+/**
+ * Shape of the data stored in webhooks.json
+ */
+interface WebhooksDocument {
+  webhooks: Webhook[];
+}
+
+export class JsonFileWebhookRepository implements WebhookRepository {
+  private store: JsonFileStore<WebhooksDocument>;
+
+  /**
+   * @param {string} filePath - Where to keep the JSON file
+   */
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<WebhooksDocument>(filePath, {
+      initialData: () => ({ webhooks: [] }),
+    });
+  }
+
+  async findAll(): Promise<Webhook[]> {
+    const { webhooks } = await this.store.read();
+    return webhooks;
+  }
+
+  async findById(id: string): Promise<Webhook | undefined> {
+    const { webhooks } = await this.store.read();
+    return webhooks.find((webhook) => webhook.id === id);
+  }
+
+  async insert(webhook: Webhook): Promise<Webhook> {
+    await this.store.update((draft) => {
+      draft.webhooks.push(webhook);
+    });
+    return webhook;
+  }
+
+  async replace(webhook: Webhook): Promise<Webhook | null> {
+    return this.store.update((draft) => {
+      const index = draft.webhooks.findIndex((existing) => existing.id === webhook.id);
+      if (index === -1) return null;
+
+      draft.webhooks[index] = webhook;
+      return webhook;
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.store.update((draft) => {
+      const index = draft.webhooks.findIndex((webhook) => webhook.id === id);
+      if (index === -1) return false;
+
+      draft.webhooks.splice(index, 1);
+      return true;
+    });
+  }
+}
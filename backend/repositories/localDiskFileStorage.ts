@@ -0,0 +1,52 @@
+/**
+ * Local Disk File Storage
+ * Saves files in a folder on disk, so they survive server restarts
+ *
+ * A key is the file's path inside the folder, e.g. "avatars/12/3f9a.../128.webp"
+ * Like JsonFileStore, files are written to a temporary file first and then
+ * renamed, so readers never see a half-written file.
+ *
+ * Default location: data/files (inside DATA_DIR, see backend/config/storage.ts)
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { FileStorage, assertSafeKey } from './fileStorage';
+
+export class LocalDiskFileStorage implements FileStorage {
+  /**
+   * @param {string} rootDir - The folder that holds all files
+   */
+  constructor(private readonly rootDir: string) {}
+
+  async write(key: string, data: Buffer): Promise<void> {
+    const filePath = this.pathOf(key);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, filePath);
+  }
+
+  async read(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(this.pathOf(key));
+    } catch (error) {
+      // A missing file is a normal answer - anything else is a real problem
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async deleteFolder(folder: string): Promise<void> {
+    await fs.rm(this.pathOf(folder), { recursive: true, force: true });
+  }
+
+  /**
+   * The absolute path of a key inside rootDir
+   */
+  private pathOf(key: string): string {
+    assertSafeKey(key);
+    return path.resolve(this.rootDir, key);
+  }
+}
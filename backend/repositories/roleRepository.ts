@@ -0,0 +1,51 @@
+/**
+ * Role Repository Interface
+ * Describes how roles are stored (same idea as UserRepository)
+ *
+ * Role names are unique (ignoring upper/lower case), like a unique index.
+ */
+
+import { Role } from '../types/role';
+import { ConflictError } from '../utils/errors';
+
+export interface RoleRepository {
+  /**
+   * Returns every stored role
+   */
+  findAll(): Promise<Role[]>;
+
+  /**
+   * Returns one role, or undefined if no role has this id
+   */
+  findById(id: string): Promise<Role | undefined>;
+
+  /**
+   * Stores a brand new role
+   * Throws ConflictError if another role already has the same name
+   */
+  insert(role: Role): Promise<Role>;
+
+  /**
+   * Replaces an existing role (matched by id)
+   * Returns null if the role doesn't exist
+   * Throws ConflictError if another role already has the same name
+   */
+  replace(role: Role): Promise<Role | null>;
+
+  /**
+   * Removes a role
+   * Returns true if a role was removed, false if it didn't exist
+   */
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Throws a ConflictError if another role already uses this role's name
+ * Shared by the repository implementations
+ */
+export function assertUniqueRoleName(roles: Role[], role: Role): void {
+  const name = role.name.toLowerCase();
+  if (roles.some((existing) => existing.id !== role.id && existing.name.toLowerCase() === name)) {
+    throw new ConflictError('name', 'Role name already in use');
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Seed Data
+ * Built-in roles, sample users and their accounts, created when the app starts with an empty store
+ * This way a fresh checkout shows something in the table right away
+ */
+
+import { authConfig } from '../config/auth';
+import { hashPasswordSync } from '../lib/password';
+import { Account } from '../types/auth';
+import { Role } from '../types/role';
+import { User } from '../types/user';
+
+/**
+ * Returns a fresh copy of the built-in roles
+ * Their ids are readable words, so the seed users (and old data) can point to them
+ */
+export function createSeedRoles(): Role[] {
+  return [
+    {
+      id: 'admin',
+      name: 'Admin',
+      description: 'Full access, including deleting users and managing roles, webhooks and custom attributes',
+      color: 'purple',
+      permissions: [
+        'users:read',
+        'users:create',
+        'users:update',
+        'users:delete',
+        'users:change-role',
+        'roles:manage',
+        'webhooks:manage',
+        'attributes:manage',
+      ],
+    },
+    {
+      id: 'manager',
+      name: 'Manager',
+      description: 'Can add and edit users',
+      color: 'blue',
+      permissions: ['users:read', 'users:create', 'users:update'],
+    },
+    {
+      id: 'developer',
+      name: 'Developer',
+      description: 'Read-only access to users',
+      color: 'green',
+      permissions: ['users:read'],
+    },
+    {
+      id: 'user',
+      name: 'User',
+      description: 'Read-only access to users',
+      color: 'gray',
+      permissions: ['users:read'],
+    },
+  ];
+}
+
+/**
+ * Returns a fresh copy of the sample users
+ * A function (instead of a constant) so every store gets its own objects
+ */
+export function createSeedUsers(): User[] {
+  const now = new Date().toISOString(); // Current date/time in ISO format
+
+  // Fields every sample user has
+  const base = { status: 'active' as const, attributes: {}, createdAt: now, updatedAt: now, version: 1 };
+
+  return [
+    // Sample user 1 - Admin
+    { id: '1', name: 'John Doe', email: 'john@example.com', roleId: 'admin', department: 'IT', jobTitle: 'IT Lead', ...base },
+    // Sample user 2 - Regular User, reports to John
+    {
+      id: '2',
+      name: 'Jane Smith',
+      email: 'jane@example.com',
+      roleId: 'user',
+      department: 'IT',
+      jobTitle: 'Support Engineer',
+      managerId: '1',
+      ...base,
+    },
+    // Sample user 3 - Regular User
+    { id: '3', name: 'Bob Johnson', email: 'bob@example.com', roleId: 'user', department: 'Sales', ...base },
+  ];
+}
+
+/**
+ * Returns sign-in accounts for the sample users
+ * They can sign in with their email and SEED_PASSWORD (default: "password",
+ * or a random one in production - see backend/config/auth.ts)
+ */
+export function createSeedAccounts(): Account[] {
+  const now = new Date().toISOString();
+  if (authConfig.seedPasswordGenerated) {
+    console.warn(`[auth] SEED_PASSWORD is not set - the sample users' password is: ${authConfig.seedPassword}`);
+  }
+  return createSeedUsers().map((user) => ({
+    userId: user.id,
+    passwordHash: hashPasswordSync(authConfig.seedPassword),
+    createdAt: now,
+  }));
+}
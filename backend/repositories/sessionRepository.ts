@@ -0,0 +1,30 @@
+/**
+ * Session Repository Interface
+ * Describes how sign-in sessions are stored
+ */
+
+import { Session } from '../types/auth';
+
+export interface SessionRepository {
+  /**
+   * Returns one session, or undefined if it doesn't exist (e.g. signed out)
+   */
+  findById(id: string): Promise<Session | undefined>;
+
+  /**
+   * Stores a new session
+   */
+  insert(session: Session): Promise<Session>;
+
+  /**
+   * Removes a session (sign-out)
+   * Returns true if a session was removed
+   */
+  delete(id: string): Promise<boolean>;
+
+  /**
+   * Removes every session that expired before `now`
+   * Returns how many sessions were removed
+   */
+  deleteExpired(now: Date): Promise<number>;
+}
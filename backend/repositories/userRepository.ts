@@ -0,0 +1,132 @@
+/**
+ * User Repository Interface
+ * Describes HOW users are stored, without saying WHERE they are stored
+ *
+ * The userService only talks to this interface, so we can swap the storage
+ * (in-memory array, JSON file, a real database later) without touching
+ * any business logic or API routes.
+ *
+ * Like a unique index in a database, every implementation must refuse to
+ * store two users whose emails only differ in upper/lower case.
+ *
+ * replace() can also check the stored version first, so two saves based on
+ * the same version can't both succeed (optimistic concurrency).
+ *
+ * saveAll() stores several writes as one unit: either all of them are kept
+ * or none is (used by transactional batches).
+ */
+
+import { User } from '../types/user';
+import { ConflictError, PreconditionFailedError } from '../utils/errors';
+
+/**
+ * One write in saveAll()
+ * insert = a brand new user, replace = a new version of a stored user
+ */
+export type UserWrite =
+  | { type: 'insert'; user: User }
+  | { type: 'replace'; user: User; expectedVersion?: number };
+
+export interface UserRepository {
+  /**
+   * Returns every stored user
+   */
+  findAll(): Promise<User[]>;
+
+  /**
+   * Returns one user, or undefined if no user has this id
+   */
+  findById(id: string): Promise<User | undefined>;
+
+  /**
+   * Returns the user with this email (case-insensitive), or undefined
+   */
+  findByEmail(email: string): Promise<User | undefined>;
+
+  /**
+   * Stores a brand new user
+   * Throws ConflictError if another user already has the same email
+   */
+  insert(user: User): Promise<User>;
+
+  /**
+   * Replaces an existing user (matched by id)
+   * Returns null if the user doesn't exist
+   * Throws ConflictError if another user already has the same email
+   * Throws PreconditionFailedError if expectedVersion is given and the stored version differs
+   */
+  replace(user: User, expectedVersion?: number): Promise<User | null>;
+
+  /**
+   * Removes a user
+   * Returns true if a user was removed, false if it didn't exist
+   */
+  delete(id: string): Promise<boolean>;
+
+  /**
+   * Runs several inserts/replaces in order, all or nothing
+   * Every write is checked like insert()/replace(); if one fails, nothing is stored
+   * Throws PreconditionFailedError if a replaced user is gone or at another version
+   */
+  saveAll(writes: UserWrite[]): Promise<void>;
+}
+
+/**
+ * Finds a user whose email equals `email`, ignoring upper/lower case
+ * Shared by the repository implementations to enforce unique emails
+ *
+ * @param {User[]} users - The users to search
+ * @param {string} email - The email to look for
+ * @param {string} excludeId - Optional: ignore this user (the one being updated)
+ */
+export function findEmailOwner(users: User[], email: string, excludeId?: string): User | undefined {
+  const normalized = email.toLowerCase();
+  return users.find((user) => user.id !== excludeId && user.email.toLowerCase() === normalized);
+}
+
+/**
+ * Throws a ConflictError if another user already uses this user's email
+ */
+export function assertUniqueEmail(users: User[], user: User): void {
+  if (findEmailOwner(users, user.email, user.id)) {
+    throw new ConflictError('email', 'Email already in use');
+  }
+}
+
+/**
+ * Throws a PreconditionFailedError if the stored user is not at the expected version
+ * Shared by the repository implementations, and run in the same step as the write
+ *
+ * @param {User} stored - The user as it is stored right now
+ * @param {number} expectedVersion - Optional: the version the change was based on
+ */
+export function assertVersion(stored: User, expectedVersion?: number): void {
+  if (expectedVersion !== undefined && stored.version !== expectedVersion) {
+    throw new PreconditionFailedError();
+  }
+}
+
+/**
+ * Applies writes to a list of users, in order (changes the list in place)
+ * Shared by the repository implementations for saveAll() - they call it on a
+ * copy, so a write that throws halfway leaves the stored users untouched
+ *
+ * @param {User[]} users - A copy of the stored users
+ * @param {UserWrite[]} writes - The writes to apply
+ */
+export function applyUserWrites(users: User[], writes: UserWrite[]): void {
+  for (const write of writes) {
+    if (write.type === 'insert') {
+      assertUniqueEmail(users, write.user);
+      users.push({ ...write.user });
+      continue;
+    }
+
+    const index = users.findIndex((existing) => existing.id === write.user.id);
+    if (index === -1) throw new PreconditionFailedError();
+
+    assertVersion(users[index], write.expectedVersion);
+    assertUniqueEmail(users, write.user);
+    users[index] = { ...write.user };
+  }
+}
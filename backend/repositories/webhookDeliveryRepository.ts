@@ -0,0 +1,38 @@
+/**
+ * Webhook Delivery Repository Interface
+ * Describes how webhook deliveries (the queue and the delivery log) are stored
+ *
+ * Pending deliveries are the queue: they are stored, so they are still sent
+ * after a server restart. Finished ones make up the delivery log.
+ */
+
+import { WebhookDelivery } from '../types/webhook';
+
+export interface WebhookDeliveryRepository {
+  /**
+   * Returns every delivery, oldest first (the order they were queued)
+   */
+  findAll(): Promise<WebhookDelivery[]>;
+
+  /**
+   * Returns one delivery, or undefined if no delivery has this id
+   */
+  findById(id: string): Promise<WebhookDelivery | undefined>;
+
+  /**
+   * Adds deliveries at the end of the queue
+   */
+  insertMany(deliveries: WebhookDelivery[]): Promise<WebhookDelivery[]>;
+
+  /**
+   * Replaces an existing delivery (matched by id), e.g. after an attempt
+   * Returns null if the delivery doesn't exist
+   */
+  replace(delivery: WebhookDelivery): Promise<WebhookDelivery | null>;
+
+  /**
+   * Removes deliveries (old log entries, or the log of a deleted webhook)
+   * Returns how many were removed
+   */
+  deleteMany(ids: string[]): Promise<number>;
+}
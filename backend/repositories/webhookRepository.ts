@@ -0,0 +1,35 @@
+/**
+ * Webhook Repository Interface
+ * Describes how webhook subscriptions are stored (same idea as RoleRepository)
+ */
+
+import { Webhook } from '../types/webhook';
+
+export interface WebhookRepository {
+  /**
+   * Returns every stored webhook, oldest first
+   */
+  findAll(): Promise<Webhook[]>;
+
+  /**
+   * Returns one webhook, or undefined if no webhook has this id
+   */
+  findById(id: string): Promise<Webhook | undefined>;
+
+  /**
+   * Stores a brand new webhook
+   */
+  insert(webhook: Webhook): Promise<Webhook>;
+
+  /**
+   * Replaces an existing webhook (matched by id)
+   * Returns null if the webhook doesn't exist
+   */
+  replace(webhook: Webhook): Promise<Webhook | null>;
+
+  /**
+   * Removes a webhook
+   * Returns true if a webhook was removed, false if it didn't exist
+   */
+  delete(id: string): Promise<boolean>;
+}
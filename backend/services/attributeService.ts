@@ -0,0 +1,117 @@
+/**
+ * Attribute Service
+ * This file handles all the business logic for custom attribute definitions
+ *
+ * Business rules enforced here:
+ * - Attribute keys must be unique, and the key and type can't be changed later
+ *   (users already store values under them)
+ * - Enum options can't be removed while users still have that value
+ * - An attribute can't be deleted while users still have a value for it
+ *   (users in the trash count too, so they can still be restored with their values)
+ */
+
+import { attributeRepository, userRepository } from '../repositories';
+import { AttributeDefinition, CreateAttributeDto, UpdateAttributeDto } from '../types/attribute';
+import { ConflictError, ValidationError } from '../utils/errors';
+import { optionsError } from '../validation/attributeSchemas';
+
+/**
+ * Counts the users (including the trash) whose value for this attribute matches
+ * @param {string} key - The attribute's key
+ * @param {Function} matches - Which values to count (default: any value)
+ */
+async function countUsersWithValue(key: string, matches: (value: unknown) => boolean = () => true): Promise<number> {
+  const users = await userRepository.findAll();
+  return users.filter((user) => Object.hasOwn(user.attributes, key) && matches(user.attributes[key])).length;
+}
+
+/**
+ * "1 user" / "3 users"
+ */
+function usersText(count: number): string {
+  return `${count} user${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Attribute Service Object
+ * Contains all CRUD operations for attribute definitions
+ */
+export const attributeService = {
+  /**
+   * GET ALL ATTRIBUTES
+   * @returns {Promise<AttributeDefinition[]>} Every definition, in the order they were defined
+   */
+  async getAll(): Promise<AttributeDefinition[]> {
+    return attributeRepository.findAll();
+  },
+
+  /**
+   * GET ATTRIBUTE BY KEY
+   * @param {string} key - The attribute's key
+   * @returns {Promise<AttributeDefinition | undefined>} The definition if found, undefined if not
+   */
+  async getByKey(key: string): Promise<AttributeDefinition | undefined> {
+    return attributeRepository.findByKey(key);
+  },
+
+  /**
+   * CREATE NEW ATTRIBUTE
+   * @param {CreateAttributeDto} data - The validated definition
+   * @returns {Promise<AttributeDefinition>} The new definition
+   * @throws {ConflictError} If another attribute already has this key
+   */
+  async create(data: CreateAttributeDto): Promise<AttributeDefinition> {
+    return attributeRepository.insert({
+      key: data.key,
+      label: data.label,
+      type: data.type,
+      options: data.options ?? [],
+      required: data.required ?? false,
+      createdAt: new Date().toISOString(),
+    });
+  },
+
+  /**
+   * UPDATE ATTRIBUTE
+   * Making an attribute required doesn't change existing users - they need a
+   * value the next time their attributes are edited
+   *
+   * @param {string} key - The key of the attribute to update
+   * @param {UpdateAttributeDto} data - The fields to update (can be partial)
+   * @returns {Promise<AttributeDefinition | null>} Updated definition if found, null if not found
+   * @throws {ValidationError} If the options don't fit the attribute's type
+   * @throws {ConflictError} If a removed enum option is still used by users
+   */
+  async update(key: string, data: UpdateAttributeDto): Promise<AttributeDefinition | null> {
+    const existing = await attributeRepository.findByKey(key);
+    if (!existing) return null;
+
+    if (data.options !== undefined) {
+      const error = optionsError(existing.type, data.options);
+      if (error) throw new ValidationError({ options: error });
+
+      const removed = existing.options.filter((option) => !data.options?.includes(option));
+      const inUse = await countUsersWithValue(key, (value) => removed.includes(value as string));
+      if (inUse > 0) {
+        throw new ConflictError('options', `A removed option is still used by ${usersText(inUse)}`);
+      }
+    }
+
+    return attributeRepository.replace({ ...existing, ...data });
+  },
+
+  /**
+   * DELETE ATTRIBUTE
+   * @param {string} key - The key of the attribute to delete
+   * @returns {Promise<boolean>} true if deleted, false if the attribute was not found
+   * @throws {ConflictError} If users still have a value for it
+   */
+  async delete(key: string): Promise<boolean> {
+    const inUse = await countUsersWithValue(key);
+    if (inUse > 0) {
+      throw new ConflictError('key', `Attribute is still set for ${usersText(inUse)}`);
+    }
+
+    return attributeRepository.delete(key);
+  },
+};
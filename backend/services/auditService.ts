@@ -0,0 +1,95 @@
+/**
+ * Audit Service
+ * Writes and reads the audit log of user changes
+ *
+ * userService calls record() after every create, update, delete, restore
+ * and purge, passing the user before and after the change. The service
+ * works out which fields changed, so callers never build diffs by hand.
+ */
+
+import { auditRepository } from '../repositories';
+import { AuditAction, AuditActor, AuditEntry, AuditQuery, FieldChange } from '../types/audit';
+import { PaginatedResult, User } from '../types/user';
+import { applyAuditQuery } from '../utils/auditQuery';
+
+/**
+ * Actor for changes nobody made by hand (e.g. purging old trash)
+ */
+export const SYSTEM_ACTOR: AuditActor = { id: null, name: 'System' };
+
+/**
+ * Turns the signed-in user into the actor stored with an entry
+ * @param {User} user - The user making the change
+ */
+export function actorFrom(user: User): AuditActor {
+  return { id: user.id, name: user.name };
+}
+
+/**
+ * Compares two versions of a user field by field
+ * A missing version (before a create, after a purge) counts as "no fields"
+ * Bookkeeping fields (id, version, updatedAt) are left out - they aren't real changes
+ *
+ * @returns {FieldChange[]} One entry per field whose value is different
+ */
+function diffFields(before: User | undefined, after: User | undefined): FieldChange[] {
+  const beforeFields: Record<string, unknown> = { ...before };
+  const afterFields: Record<string, unknown> = { ...after };
+  const fields = new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)]);
+  ['id', 'version', 'updatedAt'].forEach((field) => fields.delete(field));
+
+  const changes: FieldChange[] = [];
+  for (const field of fields) {
+    const oldValue = beforeFields[field] ?? null;
+    const newValue = afterFields[field] ?? null;
+    // Comparing as JSON also works for arrays and objects, not only strings
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes.push({ field, before: oldValue, after: newValue });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Audit Service Object
+ */
+export const auditService = {
+  /**
+   * RECORD
+   * Adds an entry for one change to a user
+   *
+   * @param {AuditAction} action - What happened
+   * @param {AuditActor} actor - Who did it (see actorFrom() and SYSTEM_ACTOR)
+   * @param {User | undefined} before - The user before the change (undefined for create)
+   * @param {User | undefined} after - The user after the change (undefined for purge)
+   * @returns {Promise<AuditEntry>} The stored entry
+   */
+  async record(
+    action: AuditAction,
+    actor: AuditActor,
+    before: User | undefined,
+    after: User | undefined
+  ): Promise<AuditEntry> {
+    const subject = (after ?? before) as User;
+
+    return auditRepository.append({
+      id: crypto.randomUUID(),
+      userId: subject.id,
+      userName: subject.name,
+      action,
+      actor,
+      changes: diffFields(before, after),
+      timestamp: new Date().toISOString(),
+    });
+  },
+
+  /**
+   * LIST ENTRIES (one page)
+   * Returns filtered entries, newest first
+   * @param {AuditQuery} query - Paging and filter options
+   * @returns {Promise<PaginatedResult<AuditEntry>>} { items, total, page, pageSize }
+   */
+  async list(query: AuditQuery): Promise<PaginatedResult<AuditEntry>> {
+    return applyAuditQuery(await auditRepository.findAll(), query);
+  },
+};
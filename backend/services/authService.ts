@@ -0,0 +1,138 @@
+/**
+ * Auth Service
+ * Signing in, signing out and finding out who is signed in
+ *
+ * How a sign-in works:
+ * 1. login() checks the email + password against the stored account
+ * 2. A session is stored, and a signed token for it is returned
+ * 3. The token is kept in an httpOnly cookie (see app/api/auth/login)
+ * 4. Every request sends the cookie back - getSessionUser() turns it into a User
+ */
+
+import { randomBytes } from 'crypto';
+import { authConfig } from '../config/auth';
+import { hashPassword, verifyPassword } from '../lib/password';
+import { createSessionToken, verifySessionToken } from '../lib/sessionToken';
+import { accountRepository, roleRepository, sessionRepository, userRepository } from '../repositories';
+import { LoginDto } from '../types/auth';
+import { Permission } from '../types/role';
+import { User } from '../types/user';
+
+/**
+ * Result of a successful sign-in
+ */
+export interface LoginResult {
+  user: User;        // The signed-in user
+  token: string;     // Value for the session cookie
+  expiresAt: Date;   // When the cookie/session expires
+}
+
+/**
+ * Users in the trash and suspended users can't sign in (or stay signed in)
+ */
+function canSignIn(user: User): boolean {
+  return !user.deletedAt && user.status !== 'suspended';
+}
+
+// A real hash that never matches - used when the email is unknown (see login())
+const DUMMY_HASH = hashPassword('dummy-password-that-never-matches');
+
+/**
+ * Auth Service Object
+ */
+export const authService = {
+  /**
+   * LOGIN
+   * Checks the credentials and starts a new session
+   *
+   * @param {LoginDto} credentials - Email and password from the sign-in form
+   * @returns {Promise<LoginResult | null>} The session, or null if email or password is wrong
+   */
+  async login({ email, password }: LoginDto): Promise<LoginResult | null> {
+    const found = await userRepository.findByEmail(email.trim().toLowerCase());
+    const user = found && canSignIn(found) ? found : undefined;
+    const account = user ? await accountRepository.findByUserId(user.id) : undefined;
+
+    // Always check a password, even for unknown emails - otherwise the faster
+    // response would tell an attacker which emails exist
+    const valid = await verifyPassword(password, account?.passwordHash ?? (await DUMMY_HASH));
+    if (!user || !account || !valid) return null;
+
+    // Good moment to clean up old sessions
+    await sessionRepository.deleteExpired(new Date());
+
+    const expiresAt = new Date(Date.now() + authConfig.sessionTtlMs);
+    const session = await sessionRepository.insert({
+      id: randomBytes(24).toString('base64url'), // Random and unguessable
+      userId: user.id,
+      createdAt: new Date().toISOString(),
+      expiresAt: expiresAt.toISOString(),
+    });
+
+    return { user, token: createSessionToken(session.id, expiresAt), expiresAt };
+  },
+
+  /**
+   * LOGOUT
+   * Deletes the session, so the cookie stops working even if someone copied it
+   * @param {string | undefined} token - The session cookie value
+   */
+  async logout(token: string | undefined): Promise<void> {
+    const sessionId = verifySessionToken(token);
+    if (sessionId) await sessionRepository.delete(sessionId);
+  },
+
+  /**
+   * GET SESSION USER
+   * Finds the signed-in user for a session cookie
+   *
+   * @param {string | undefined} token - The session cookie value
+   * @returns {Promise<User | null>} The user, or null if not signed in (or the session ended)
+   */
+  async getSessionUser(token: string | undefined): Promise<User | null> {
+    const sessionId = verifySessionToken(token);
+    if (!sessionId) return null;
+
+    const session = await sessionRepository.findById(sessionId);
+    if (!session || new Date(session.expiresAt) <= new Date()) return null;
+
+    // The user may have been deleted (moved to the trash, or suspended) since signing in
+    const user = await userRepository.findById(session.userId);
+    return user && canSignIn(user) ? user : null;
+  },
+
+  /**
+   * SET PASSWORD
+   * Gives a user a new password (creates their account if they had none yet),
+   * so users added through the API or an import can sign in too
+   *
+   * @param {string} userId - The user
+   * @param {string} password - The new plain text password (only its hash is stored)
+   * @returns {Promise<boolean>} false if the user doesn't exist (or is in the trash)
+   */
+  async setPassword(userId: string, password: string): Promise<boolean> {
+    const user = await userRepository.findById(userId);
+    if (!user || user.deletedAt) return false;
+
+    const existing = await accountRepository.findByUserId(userId);
+    await accountRepository.save({
+      userId,
+      passwordHash: await hashPassword(password),
+      createdAt: existing?.createdAt ?? new Date().toISOString(),
+    });
+    return true;
+  },
+
+  /**
+   * GET PERMISSIONS
+   * Looks up what a user may do, through their role
+   * Read fresh on every request, so role changes apply right away
+   *
+   * @param {User} user - The signed-in user
+   * @returns {Promise<Permission[]>} The role's permissions (none if the role is missing)
+   */
+  async getPermissions(user: User): Promise<Permission[]> {
+    const role = await roleRepository.findById(user.roleId);
+    return role?.permissions ?? [];
+  },
+};
@@ -0,0 +1,96 @@
+/**
+ * Avatar Service
+ * Stores, reads and removes the thumbnails of users' profile pictures
+ *
+ * Every upload gets a new avatar id, and its thumbnails are stored under
+ * "avatars/<user id>/<avatar id>/<size>.webp". A new id means a new URL, so
+ * browsers can keep a picture cached forever - see GET /api/users/:id/avatar.
+ *
+ * Which avatar a user has is saved on the user (user.avatar) by userService.setAvatar(),
+ * so changing it is versioned and logged like any other change.
+ */
+
+import { avatarConfig } from '../config/avatars';
+import { AVATAR_SIZES, AvatarSize } from '../types/avatar';
+import { detectAvatarType, makeAvatarThumbnail } from '../lib/avatarImage';
+import { fileStorage } from '../repositories';
+import { ValidationError } from '../utils/errors';
+
+// The folder of one user's avatars, or of one avatar
+const folderOf = (userId: string, avatarId?: string) =>
+  avatarId ? `avatars/${userId}/${avatarId}` : `avatars/${userId}`;
+
+/**
+ * Avatar Service Object
+ */
+export const avatarService = {
+  /**
+   * CHECK SIZE
+   * Refuses files larger than AVATAR_MAX_UPLOAD_MB - the upload route calls
+   * this before reading the file into memory, store() once more for other callers
+   * @param {number} bytes - The size of the uploaded file
+   * @throws {ValidationError} If the file is too large
+   */
+  checkSize(bytes: number): void {
+    if (bytes > avatarConfig.maxUploadBytes) {
+      const megabytes = Math.round(avatarConfig.maxUploadBytes / 1024 / 1024);
+      throw new ValidationError({ avatar: `Must be ${megabytes} MB or smaller` });
+    }
+  },
+
+  /**
+   * STORE
+   * Checks an uploaded picture and stores its thumbnails
+   * @param {string} userId - Whose picture it is
+   * @param {Buffer} data - The uploaded file
+   * @returns {Promise<string>} The new avatar id
+   * @throws {ValidationError} If the file is too large or not a JPEG, PNG, WebP or GIF picture
+   */
+  async store(userId: string, data: Buffer): Promise<string> {
+    avatarService.checkSize(data.length);
+    if (!(await detectAvatarType(data))) {
+      throw new ValidationError({ avatar: 'Must be a JPEG, PNG, WebP or GIF picture' });
+    }
+
+    // Make every size first: a picture that is broken halfway through fails here, before anything is stored
+    let thumbnails: Buffer[];
+    try {
+      thumbnails = await Promise.all(AVATAR_SIZES.map((size) => makeAvatarThumbnail(data, size)));
+    } catch {
+      throw new ValidationError({ avatar: 'The picture could not be read' });
+    }
+
+    const avatarId = crypto.randomUUID();
+    try {
+      for (const [index, size] of AVATAR_SIZES.entries()) {
+        await fileStorage.write(`${folderOf(userId, avatarId)}/${size}.webp`, thumbnails[index]);
+      }
+    } catch (error) {
+      // Don't leave some of the sizes behind
+      await fileStorage.deleteFolder(folderOf(userId, avatarId));
+      throw error;
+    }
+    return avatarId;
+  },
+
+  /**
+   * READ
+   * @param {string} userId - Whose picture it is
+   * @param {string} avatarId - Which upload
+   * @param {AvatarSize} size - Which thumbnail
+   * @returns {Promise<Buffer | undefined>} The WebP thumbnail, or undefined if it doesn't exist
+   */
+  async read(userId: string, avatarId: string, size: AvatarSize): Promise<Buffer | undefined> {
+    return fileStorage.read(`${folderOf(userId, avatarId)}/${size}.webp`);
+  },
+
+  /**
+   * REMOVE
+   * Removes the thumbnails of one avatar, or of all of a user's avatars
+   * @param {string} userId - Whose pictures to remove
+   * @param {string} avatarId - Optional: only this upload (missing = all of them)
+   */
+  async remove(userId: string, avatarId?: string): Promise<void> {
+    await fileStorage.deleteFolder(folderOf(userId, avatarId));
+  },
+};
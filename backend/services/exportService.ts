@@ -0,0 +1,159 @@
+/**
+ * Export Service
+ * Turns the users matching a list query into a downloadable file
+ *
+ * Formats:
+ * - csv:  one line per user, written and sent in small pieces (streamed)
+ * - json: a list of objects, also streamed; dates stay ISO 8601 so programs can read them
+ * - xlsx: an Excel sheet; the ZIP format needs the whole file before it can be
+ *         finished, so it is built first and then sent as one piece
+ *
+ * In CSV and Excel files dates are written for people: in the requested
+ * locale and time zone, e.g. "31.01.2025, 14:05" for de-DE.
+ */
+
+import { EXPORT_COLUMN_LABELS, ExportColumn, ExportFile, ExportFormat, ExportOptions } from '../types/export';
+import { UserListItem, UserListQuery } from '../types/user';
+import { toXlsx } from '../lib/xlsx';
+import { csvLine } from '../utils/csv';
+import { roleService } from './roleService';
+import { userService } from './userService';
+
+// How many users are turned into text per piece of a streamed file
+const ROWS_PER_CHUNK = 500;
+
+const DATE_COLUMNS: ExportColumn[] = ['createdAt', 'updatedAt', 'deletedAt'];
+
+/**
+ * Content-Type header per format
+ */
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/**
+ * Builds a stream that asks for one piece of text at a time
+ * next() returns the next piece, or null when the file is complete.
+ * pull() only runs when the client is ready for more, so a slow download
+ * never makes the server build the whole file in memory first.
+ */
+function textStream(next: () => string | null): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const piece = next();
+      if (piece === null) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(piece));
+      }
+    },
+  });
+}
+
+/**
+ * Export Service Object
+ */
+export const exportService = {
+  /**
+   * EXPORT USERS
+   * @param {UserListQuery} query - Which users, in which order (paging is ignored - every match is exported)
+   * @param {ExportOptions} options - Format, columns, locale and time zone
+   * @returns {Promise<ExportFile>} The file to send
+   */
+  async export(query: Omit<UserListQuery, 'page' | 'pageSize'>, options: ExportOptions): Promise<ExportFile> {
+    const [users, roles] = await Promise.all([userService.listAll(query), roleService.getAll()]);
+    const roleNames = new Map(roles.map((role) => [role.id, role.name]));
+    const { columns, format } = options;
+
+    // The value of one column for one user (null = the user has no value, e.g. deletedAt)
+    const value = (user: UserListItem, column: ExportColumn): string | null => {
+      if (column === 'role') return roleNames.get(user.roleId) ?? user.roleId;
+      if (column === 'manager') return user.managerName ?? null;
+      return user[column] ?? null;
+    };
+
+    // The same value as text for a CSV/Excel cell, with dates formatted for people
+    // (csvLine keeps formula-like text such as a name starting with "=" from running as a formula)
+    const dateFormat = new Intl.DateTimeFormat(options.locale, {
+      dateStyle: 'medium',
+      timeStyle: 'short',
+      timeZone: options.timeZone,
+    });
+    const cell = (user: UserListItem, column: ExportColumn): string => {
+      const text = value(user, column);
+      if (text === null) return '';
+      return DATE_COLUMNS.includes(column) ? dateFormat.format(new Date(text)) : text;
+    };
+
+    const header = columns.map((column) => EXPORT_COLUMN_LABELS[column]);
+    const toRow = (user: UserListItem) => columns.map((column) => cell(user, column));
+    const fileName = `users-${new Date().toISOString().slice(0, 10)}.${format}`;
+    const contentType = CONTENT_TYPES[format];
+
+    // ---------- XLSX: built in one go ----------
+    if (format === 'xlsx') {
+      const file = toXlsx(header, users.map(toRow), 'Users');
+      return {
+        body: new ReadableStream<Uint8Array>({
+          start(controller) {
+            controller.enqueue(new Uint8Array(file));
+            controller.close();
+          },
+        }),
+        contentType,
+        fileName,
+      };
+    }
+
+    // ---------- CSV and JSON: streamed ----------
+    let position = 0;
+
+    // The next ROWS_PER_CHUNK users (empty when all were written)
+    const nextUsers = () => {
+      const chunk = users.slice(position, position + ROWS_PER_CHUNK);
+      position += chunk.length;
+      return chunk;
+    };
+
+    if (format === 'csv') {
+      // The byte order mark tells Excel the file is UTF-8 (so "Zoë" isn't garbled)
+      let started = false;
+      return {
+        body: textStream(() => {
+          if (!started) {
+            started = true;
+            return '\uFEFF' + csvLine(header);
+          }
+          const chunk = nextUsers();
+          return chunk.length > 0 ? chunk.map((user) => csvLine(toRow(user))).join('') : null;
+        }),
+        contentType,
+        fileName,
+      };
+    }
+
+    // JSON: [ {...}, {...} ] - the brackets are written around the pieces
+    let finished = false;
+    return {
+      body: textStream(() => {
+        if (finished) return null;
+        const isFirst = position === 0;
+        const chunk = nextUsers();
+        if (chunk.length === 0) {
+          finished = true;
+          return isFirst ? '[]\n' : '\n]\n';
+        }
+
+        const objects = chunk.map((user) =>
+          JSON.stringify(Object.fromEntries(columns.map((column) => [column, value(user, column)])))
+        );
+        return (isFirst ? '[\n  ' : ',\n  ') + objects.join(',\n  ');
+      }),
+      contentType,
+      fileName,
+    };
+  },
+};
@@ -0,0 +1,121 @@
+/**
+ * Import Service
+ * Checks and imports rows of users read from a CSV or JSON file
+ *
+ * Every row is checked on its own, with the same rules as creating one user,
+ * plus two checks that only make sense for a whole file:
+ * - The same email appearing twice in the file (only the first row is kept)
+ * - Roles given by name ("Manager") as well as by id ("manager")
+ *
+ * Importing creates the valid rows one by one through userService, so every
+ * new user is recorded in the audit log. Rows that fail are skipped and
+ * returned as a report - they never stop the other rows.
+ */
+
+import { ImportPreview, ImportResult, ImportRow, ImportRowResult } from '../types/import';
+import { AuditActor } from '../types/audit';
+import { Permission } from '../types/role';
+import { FieldErrors } from '../validation/schema';
+import { validateCreateUser } from '../validation/userSchemas';
+import { ConflictError, ValidationError } from '../utils/errors';
+import { canAssignRole } from '../utils/permissions';
+import { roleService } from './roleService';
+import { userService } from './userService';
+
+/**
+ * Import Service Object
+ */
+export const importService = {
+  /**
+   * CHECK ROWS (preview)
+   * Finds every problem in every row, without saving anything
+   *
+   * @param {ImportRow[]} rows - The rows from the file
+   * @param {Permission[]} permissions - The importing user's permissions (which roles they may give)
+   * @returns {Promise<ImportPreview>} One result per row, plus how many are valid
+   */
+  async check(rows: ImportRow[], permissions: Permission[]): Promise<ImportPreview> {
+    const roles = await roleService.getAll();
+    const firstRowByEmail = new Map<string, number>(); // Normalized email → first row using it
+    const results: ImportRowResult[] = [];
+
+    for (const [index, row] of rows.entries()) {
+      const result: ImportRowResult = { row: index + 1, ...row };
+      const errors: FieldErrors = {};
+
+      // Role: match the id or the name, ignoring upper/lower case
+      const wanted = row.role.trim().toLowerCase();
+      const role = roles.find((role) => role.id.toLowerCase() === wanted || role.name.toLowerCase() === wanted);
+      if (!wanted) {
+        errors.role = 'Is required';
+      } else if (!role) {
+        errors.role = 'Unknown role';
+      } else if (!canAssignRole(permissions, role)) {
+        errors.role = 'You are not allowed to give this role';
+      } else {
+        result.roleId = role.id;
+      }
+
+      // Name and email: the same rules as POST /api/users
+      const validation = validateCreateUser({ name: row.name, email: row.email, roleId: role?.id ?? 'unknown' });
+      if (!validation.ok) {
+        if (validation.errors.name) errors.name = validation.errors.name;
+        if (validation.errors.email) errors.email = validation.errors.email;
+      }
+
+      // Email: not used twice in the file, and not taken by an existing user
+      if (!errors.email) {
+        const email = row.email.trim().toLowerCase();
+        const firstRow = firstRowByEmail.get(email);
+        if (firstRow !== undefined) {
+          errors.email = `Same email as row ${firstRow}`;
+        } else {
+          firstRowByEmail.set(email, result.row);
+          if (!(await userService.isEmailAvailable(email))) errors.email = 'Email already in use';
+        }
+      }
+
+      if (Object.keys(errors).length > 0) result.errors = errors;
+      results.push(result);
+    }
+
+    const invalid = results.filter((result) => result.errors).length;
+    return { rows: results, valid: results.length - invalid, invalid };
+  },
+
+  /**
+   * IMPORT ROWS
+   * Creates a user for every valid row and reports the skipped rows
+   *
+   * @param {ImportRow[]} rows - The rows from the file
+   * @param {AuditActor} actor - Who is importing (for the audit log)
+   * @param {Permission[]} permissions - The importing user's permissions
+   * @returns {Promise<ImportResult>} The created users and the skipped rows with their errors
+   */
+  async import(rows: ImportRow[], actor: AuditActor, permissions: Permission[]): Promise<ImportResult> {
+    const { rows: checked } = await importService.check(rows, permissions);
+    const result: ImportResult = { created: [], skipped: [] };
+
+    for (const row of checked) {
+      if (row.errors || !row.roleId) {
+        result.skipped.push(row);
+        continue;
+      }
+
+      try {
+        result.created.push(await userService.create({ name: row.name.trim(), email: row.email, roleId: row.roleId }, actor));
+      } catch (error) {
+        // Someone else took the email (or removed the role) since the check
+        if (error instanceof ConflictError) {
+          result.skipped.push({ ...row, errors: { [error.field]: error.message } });
+        } else if (error instanceof ValidationError) {
+          result.skipped.push({ ...row, errors: error.errors });
+        } else {
+          throw error;
+        }
+      }
+    }
+
+    return result;
+  },
+};
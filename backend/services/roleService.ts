@@ -0,0 +1,88 @@
+/**
+ * Role Service
+ * This file handles all the business logic for managing roles
+ *
+ * Business rules enforced here:
+ * - Role names must be unique (ignoring case)
+ * - A role can't be deleted while users still have it
+ */
+
+import { CreateRoleDto, Role, UpdateRoleDto } from '../types/role';
+import { roleRepository, userRepository } from '../repositories';
+import { ConflictError } from '../utils/errors';
+
+/**
+ * Role Service Object
+ * Contains all CRUD operations for roles
+ */
+export const roleService = {
+  /**
+   * GET ALL ROLES
+   * Returns every role, sorted by name
+   * @returns {Promise<Role[]>} Array of all roles
+   */
+  async getAll(): Promise<Role[]> {
+    const roles = await roleRepository.findAll();
+    return roles.sort((a, b) => a.name.localeCompare(b.name));
+  },
+
+  /**
+   * GET ROLE BY ID
+   * @param {string} id - The role's unique identifier
+   * @returns {Promise<Role | undefined>} The role if found, undefined if not
+   */
+  async getById(id: string): Promise<Role | undefined> {
+    return roleRepository.findById(id);
+  },
+
+  /**
+   * CREATE NEW ROLE
+   * @param {CreateRoleDto} data - The data for the new role
+   * @returns {Promise<Role>} The newly created role with id added
+   * @throws {ConflictError} If another role already has this name
+   */
+  async create(data: CreateRoleDto): Promise<Role> {
+    const newRole: Role = {
+      id: Date.now().toString(), // Generate unique ID from current timestamp
+      description: '',           // Default, overridden if provided
+      ...data,
+    };
+
+    return roleRepository.insert(newRole);
+  },
+
+  /**
+   * UPDATE ROLE
+   * @param {string} id - The ID of the role to update
+   * @param {UpdateRoleDto} data - The fields to update (can be partial)
+   * @returns {Promise<Role | null>} Updated role if found, null if not found
+   * @throws {ConflictError} If another role already has the new name
+   */
+  async update(id: string, data: UpdateRoleDto): Promise<Role | null> {
+    const existing = await roleRepository.findById(id);
+    if (!existing) return null;
+
+    return roleRepository.replace({ ...existing, ...data });
+  },
+
+  /**
+   * DELETE ROLE
+   * @param {string} id - The ID of the role to delete
+   * @returns {Promise<boolean>} true if deleted, false if the role was not found
+   * @throws {ConflictError} If users still have this role
+   *   (users in the trash count too, so they can still be restored with their role)
+   */
+  async delete(id: string): Promise<boolean> {
+    const users = await userRepository.findAll();
+    const assigned = users.filter((user) => user.roleId === id).length;
+
+    if (assigned > 0) {
+      throw new ConflictError(
+        'id',
+        `Role is still assigned to ${assigned} user${assigned === 1 ? '' : 's'}`
+      );
+    }
+
+    return roleRepository.delete(id);
+  },
+};
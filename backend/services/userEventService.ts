@@ -0,0 +1,80 @@
+/**
+ * User Event Service
+ * Tells connected browsers about user changes as they happen
+ *
+ * userService calls publish() after every change it saved. Route handlers
+ * (GET /api/users/events) subscribe() and forward each event to a browser.
+ *
+ * The last MAX_BUFFERED_EVENTS events are kept, so a browser that lost its
+ * connection can ask for everything after the last event it saw (since()).
+ * Events live in this server process only: they are not saved, and with
+ * several server instances each one only knows its own changes.
+ */
+
+import { AuditAction, AuditActor } from '../types/audit';
+import { UserEvent } from '../types/events';
+import { User } from '../types/user';
+
+// How many recent events are kept for reconnecting browsers
+const MAX_BUFFERED_EVENTS = 1000;
+
+type UserEventListener = (event: UserEvent) => void;
+
+// Recent events, oldest first
+const buffer: UserEvent[] = [];
+const listeners = new Set<UserEventListener>();
+let lastId = 0;
+
+/**
+ * User Event Service Object
+ */
+export const userEventService = {
+  /**
+   * PUBLISH
+   * Numbers the event, keeps it for reconnecting browsers and sends it to every subscriber
+   *
+   * @param {AuditAction} type - What happened
+   * @param {AuditActor} actor - Who did it
+   * @param {User} user - The user after the change (before it, for purge)
+   * @returns {UserEvent} The published event
+   */
+  publish(type: AuditAction, actor: AuditActor, user: User): UserEvent {
+    const event: UserEvent = { id: ++lastId, type, user, actor, timestamp: new Date().toISOString() };
+
+    buffer.push(event);
+    if (buffer.length > MAX_BUFFERED_EVENTS) buffer.shift();
+
+    listeners.forEach((listener) => listener(event));
+    return event;
+  },
+
+  /**
+   * SUBSCRIBE
+   * @param {Function} listener - Called with every new event
+   * @returns {Function} Call it to stop listening
+   */
+  subscribe(listener: UserEventListener): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  /**
+   * SINCE
+   * The events after the given one, for a browser that reconnects
+   *
+   * @param {number} eventId - The last event the browser saw
+   * @returns {UserEvent[] | null} The missed events (oldest first), or null when
+   *   some of them are no longer kept (or the server restarted) - the browser
+   *   must then reload its data instead
+   */
+  since(eventId: number): UserEvent[] | null {
+    if (eventId > lastId) return null; // An id from before a restart
+    if (eventId === lastId) return [];
+
+    const oldestKept = buffer[0]?.id ?? lastId + 1;
+    if (eventId < oldestKept - 1) return null;
+    return buffer.filter((event) => event.id > eventId);
+  },
+};
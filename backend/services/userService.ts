@@ -1,43 +1,400 @@
 /**
  * User Service
  * This file handles all the business logic for managing users
- * In a real app, this would connect to a database
- * For now, we use an in-memory array (data resets when server restarts)
+ *
+ * The service doesn't know where users are stored - it delegates all
+ * reading and writing to a UserRepository (see backend/repositories).
+ * By default users are saved to a JSON file, so data survives restarts.
+ *
+ * Business rules enforced here:
+ * - Emails are stored in lowercase and must be unique (ignoring case)
+ * - A user's roleId must point to an existing role
+ * - A user's manager must be another user who isn't in the trash, and
+ *   managers can't report (directly or through others) to their own reports
+ * - Custom attribute values must fit the attribute definitions (see attributeService)
+ * - A new profile picture (avatar) is a change like any other; the pictures
+ *   themselves are stored by avatarService and removed when the user is purged
+ * - Deleting moves a user to the trash (sets deletedAt), where they can be restored
+ * - Users in the trash are purged (removed for good) after TRASH_RETENTION_DAYS,
+ *   or right away with purge(). Their email stays taken until then.
+ * - Every change is written to the audit log, with the user (actor) who made it,
+ *   sent to connected browsers (see userEventService) and queued for webhooks
+ *   (see webhookService)
+ * - Every change bumps the user's version; a change based on an older version
+ *   (expectedVersion, from the If-Match header) is refused with PreconditionFailedError
+ * - A transactional batch saves all of its operations or none of them
  */
 
-import { User, CreateUserDto, UpdateUserDto } from '../types/user';
+import {
+  User,
+  UserAttributes,
+  CreateUserDto,
+  UpdateUserDto,
+  PaginatedResult,
+  UserListItem,
+  UserListQuery,
+} from '../types/user';
+import { BatchAuthorizer, BatchOperation, BatchOutcome, BatchRequest } from '../types/batch';
+import { trashConfig } from '../config/trash';
+import {
+  UserRepository,
+  UserWrite,
+  accountRepository,
+  attributeRepository,
+  roleRepository,
+  userRepository,
+} from '../repositories';
+import { InMemoryUserRepository } from '../repositories/inMemoryUserRepository';
+import { AuditAction, AuditActor } from '../types/audit';
+import { AvatarSize } from '../types/avatar';
+import { avatarService } from './avatarService';
+import { SYSTEM_ACTOR, auditService } from './auditService';
+import { userEventService } from './userEventService';
+import { webhookService } from './webhookService';
+import { applyUserListQuery, matchUserListQuery } from '../utils/userQuery';
+import { ConflictError, PreconditionFailedError, ValidationError } from '../utils/errors';
+import { editableUser, sameFieldValue, withoutEmptyFields } from '../utils/userFields';
+import { validateAttributeValues } from '../validation/attributeSchemas';
 
 /**
- * In-memory storage for users
- * This array holds all our user data
- * In production, replace this with a real database (PostgreSQL, MongoDB, etc.)
+ * Normalizes an email before it is stored or compared
+ * "  John@Example.COM " → "john@example.com"
  */
-let users: User[] = [
-  // Sample user 1 - Admin
-  {
-    id: '1',
-    name: 'John Doe',
-    email: 'john@example.com',
-    role: 'Admin',
-    createdAt: new Date().toISOString(), // Current date/time in ISO format
-  },
-  // Sample user 2 - Regular User
-  {
-    id: '2',
-    name: 'Jane Smith',
-    email: 'jane@example.com',
-    role: 'User',
-    createdAt: new Date().toISOString(),
-  },
-  // Sample user 3 - Regular User
-  {
-    id: '3',
-    name: 'Bob Johnson',
-    email: 'bob@example.com',
-    role: 'User',
-    createdAt: new Date().toISOString(),
-  },
-];
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Throws a ConflictError if another user already has this email
+ * @param {string} email - Normalized email
+ * @param {string} excludeId - Optional: the user being updated (may keep its own email)
+ * @param {UserRepository} users - Where to look (a staging copy during transactional batches)
+ */
+async function assertEmailAvailable(
+  email: string,
+  excludeId?: string,
+  users: UserRepository = userRepository
+): Promise<void> {
+  const owner = await users.findByEmail(email);
+  if (owner && owner.id !== excludeId) {
+    throw new ConflictError(
+      'email',
+      owner.deletedAt ? 'Email belongs to a deleted user - restore or purge them first' : 'Email already in use'
+    );
+  }
+}
+
+/**
+ * Throws a PreconditionFailedError if the client's change was based on an older version
+ * @param {User} existing - The user as stored
+ * @param {number} expectedVersion - Optional: the version the client last saw (none = skip the check)
+ */
+function assertExpectedVersion(existing: User, expectedVersion?: number): void {
+  if (expectedVersion !== undefined && existing.version !== expectedVersion) {
+    throw new PreconditionFailedError('This user was changed by someone else');
+  }
+}
+
+/**
+ * Fills in the next version number and updatedAt of a changed user
+ * @param {User} existing - The user as it was read
+ * @param {User} changed - The new state
+ */
+function nextVersion(existing: User, changed: User): User {
+  return { ...changed, version: existing.version + 1, updatedAt: new Date().toISOString() };
+}
+
+/**
+ * Saves a changed copy of a stored user as its next version
+ * Passing existing.version to replace() makes the repository refuse the write
+ * if anyone else saved the user between our read and this write
+ *
+ * @param {User} existing - The user as it was read
+ * @param {User} changed - The new state (version and updatedAt are filled in here)
+ */
+async function saveNextVersion(existing: User, changed: User): Promise<User | null> {
+  return userRepository.replace(nextVersion(existing, changed), existing.version);
+}
+
+/**
+ * Records a saved change: an audit log entry, a live event for connected
+ * browsers, and deliveries for the webhooks that subscribed to it
+ * @param {User | undefined} before - The user before the change (undefined for create)
+ * @param {User | undefined} after - The user after the change (undefined for purge)
+ */
+async function recordChange(
+  action: AuditAction,
+  actor: AuditActor,
+  before: User | undefined,
+  after: User | undefined
+): Promise<void> {
+  await auditService.record(action, actor, before, after);
+  const event = userEventService.publish(action, actor, (after ?? before) as User);
+  await webhookService.enqueue(event);
+}
+
+/**
+ * Finds a user that is NOT in the trash
+ * Deleted users behave as if they don't exist for reading and editing
+ * @param {string} id - The user's id
+ * @param {UserRepository} users - Where to look (a staging copy during transactional batches)
+ */
+async function findActiveUser(id: string, users: UserRepository = userRepository): Promise<User | undefined> {
+  const user = await users.findById(id);
+  return user && !user.deletedAt ? user : undefined;
+}
+
+/**
+ * Throws a ValidationError if this manager can't be given to the user
+ * @param {string | undefined} userId - The user getting the manager (undefined for a new user)
+ * @param {string} managerId - The manager's id
+ * @param {UserRepository} users - Where to look (a staging copy during transactional batches)
+ */
+async function assertValidManager(
+  userId: string | undefined,
+  managerId: string,
+  users: UserRepository = userRepository
+): Promise<void> {
+  if (managerId === userId) {
+    throw new ValidationError({ managerId: "A user can't be their own manager" });
+  }
+
+  const manager = await findActiveUser(managerId, users);
+  if (!manager) {
+    throw new ValidationError({ managerId: 'Unknown manager' });
+  }
+
+  // Walk up the chain of managers: meeting the user means they'd manage themselves
+  // (a new user has no reports yet, so there's nothing to check)
+  const seen = new Set<string>();
+  for (let next: User | undefined = manager; userId && next?.managerId && !seen.has(next.id); ) {
+    if (next.managerId === userId) {
+      throw new ValidationError({ managerId: `${manager.name} reports to this user - that would be a loop` });
+    }
+    seen.add(next.id);
+    next = await users.findById(next.managerId);
+  }
+}
+
+/**
+ * Checks custom attribute values against the attribute definitions
+ * @param {UserAttributes} values - The values sent by the client
+ * @returns {Promise<UserAttributes>} The cleaned-up values (empty ones left out)
+ * @throws {ValidationError} With one message per bad value, keyed "attributes.<key>"
+ */
+async function checkAttributes(values: UserAttributes): Promise<UserAttributes> {
+  const result = validateAttributeValues(values, await attributeRepository.findAll());
+  if (!result.ok) throw new ValidationError(result.errors);
+  return result.value;
+}
+
+// Last id handed out by newUserId()
+let lastUserId = 0;
+
+/**
+ * Creates the id for a new user from the current time
+ * Never hands out the same id twice, even for several users created in the
+ * same millisecond (e.g. by one batch)
+ */
+function newUserId(): string {
+  lastUserId = Math.max(Date.now(), lastUserId + 1);
+  return lastUserId.toString();
+}
+
+/**
+ * Checks the data for a new user and builds it (not saved yet)
+ * @param {CreateUserDto} data - name, email, roleId and the optional profile fields
+ * @param {UserRepository} users - Where to check the email and manager (a staging copy during transactional batches)
+ * @throws {ConflictError} If the email is already used by another user
+ * @throws {ValidationError} If the role or manager doesn't exist, or an attribute value is invalid
+ */
+async function prepareNewUser(data: CreateUserDto, users: UserRepository = userRepository): Promise<User> {
+  const email = normalizeEmail(data.email);
+  await assertRoleExists(data.roleId);
+  await assertEmailAvailable(email, undefined, users);
+  if (data.managerId) await assertValidManager(undefined, data.managerId, users);
+  const attributes = await checkAttributes(data.attributes ?? {});
+
+  const now = new Date().toISOString();
+  return withoutEmptyFields({
+    id: newUserId(),
+    ...data,              // Spread operator: copies name, email, roleId... from data
+    email,                // ...but store the normalized email
+    status: data.status ?? 'active',
+    attributes,
+    createdAt: now,       // Add creation timestamp
+    updatedAt: now,
+    version: 1,           // First version
+  });
+}
+
+/**
+ * Checks the changes to a user and applies them to a copy (not saved yet)
+ * @param {User} existing - The user as stored
+ * @param {UpdateUserDto} data - The fields to change
+ * @param {UserRepository} users - Where to check the email and manager (a staging copy during transactional batches)
+ * @returns {Promise<User>} The changed copy, or `existing` itself when nothing actually changes
+ * @throws {ConflictError} If the new email is already used by another user
+ * @throws {ValidationError} If the new role or manager doesn't exist, or an attribute value is invalid
+ */
+async function prepareChanges(
+  existing: User,
+  data: UpdateUserDto,
+  users: UserRepository = userRepository
+): Promise<User> {
+  const changes = { ...data };
+  if (changes.roleId !== undefined) {
+    await assertRoleExists(changes.roleId);
+  }
+  if (changes.email !== undefined) {
+    changes.email = normalizeEmail(changes.email);
+    await assertEmailAvailable(changes.email, existing.id, users);
+  }
+  if (changes.managerId && changes.managerId !== existing.managerId) {
+    await assertValidManager(existing.id, changes.managerId, users);
+  }
+  if (changes.attributes !== undefined) {
+    changes.attributes = await checkAttributes(changes.attributes);
+  }
+
+  // Nothing actually changed (e.g. the same values were sent again):
+  // keep the current version instead of saving and logging an empty edit
+  // ("" and a missing phone number are the same thing - editableUser() fills in "")
+  const current = editableUser(existing);
+  const fields = Object.keys(changes) as (keyof UpdateUserDto)[];
+  if (fields.every((field) => sameFieldValue(changes[field], current[field]))) {
+    return existing;
+  }
+
+  // "" clears an optional field, so it is left out of the stored user
+  return withoutEmptyFields({
+    ...existing, // Keep all existing fields
+    ...changes,  // Override with new data (only provided fields)
+  });
+}
+
+/**
+ * Removes a user for good, together with their sign-in account and pictures
+ * The audit log keeps the user's history (including this purge)
+ */
+async function purgeUser(user: User, actor: AuditActor): Promise<void> {
+  await userRepository.delete(user.id);
+  await accountRepository.delete(user.id);
+  await avatarService.remove(user.id);
+  await recordChange('purge', actor, user, undefined);
+}
+
+/**
+ * Purges every user that has been in the trash longer than the retention period
+ * Runs whenever the user list is loaded, so no background job is needed
+ * @returns {Promise<number>} How many users were purged
+ */
+async function purgeExpiredUsers(): Promise<number> {
+  const cutoff = Date.now() - trashConfig.retentionDays * 24 * 60 * 60 * 1000;
+  const expired = (await userRepository.findAll()).filter(
+    (user) => user.deletedAt && new Date(user.deletedAt).getTime() < cutoff
+  );
+
+  for (const user of expired) {
+    await purgeUser(user, SYSTEM_ACTOR);
+  }
+  return expired.length;
+}
+
+/**
+ * Throws a ValidationError if no role has this id
+ * @param {string} roleId - The role id sent by the client
+ */
+async function assertRoleExists(roleId: string): Promise<void> {
+  if (!(await roleRepository.findById(roleId))) {
+    throw new ValidationError({ roleId: 'Unknown role' });
+  }
+}
+
+/**
+ * One operation of a transactional batch, checked against the staging copy
+ * (action null = an update that doesn't change anything, so nothing is saved)
+ */
+interface StagedChange {
+  action: AuditAction | null;
+  before?: User;
+  after: User;
+  write?: UserWrite;
+}
+
+/**
+ * Runs one batch operation on its own, through the normal service methods
+ * Used by non-transactional batches, where every operation succeeds or fails by itself
+ */
+async function runOperation(
+  operation: BatchOperation,
+  actor: AuditActor,
+  authorize: BatchAuthorizer
+): Promise<BatchOutcome> {
+  try {
+    if (operation.op === 'create') {
+      await authorize(operation);
+      return { status: 'done', user: await userService.create(operation.data, actor) };
+    }
+
+    const current = await findActiveUser(operation.id);
+    if (!current) return { status: 'not-found' };
+    await authorize(operation, current);
+
+    if (operation.op === 'update') {
+      const updated = await userService.update(operation.id, operation.data, actor, operation.version);
+      return updated ? { status: 'done', user: updated } : { status: 'not-found' };
+    }
+
+    if (!(await userService.delete(operation.id, actor, operation.version))) return { status: 'not-found' };
+    const deleted = await userRepository.findById(operation.id);
+    return deleted ? { status: 'done', user: deleted } : { status: 'not-found' };
+  } catch (error) {
+    return { status: 'failed', error };
+  }
+}
+
+/**
+ * Checks one operation of a transactional batch and applies it to the staging copy
+ * Nothing is saved for real here - see userService.batch()
+ *
+ * @param {UserRepository} staging - A copy of all users, with the earlier operations applied
+ * @returns {Promise<StagedChange | null>} The change, or null if the user doesn't exist
+ */
+async function stageOperation(
+  staging: UserRepository,
+  operation: BatchOperation,
+  authorize: BatchAuthorizer
+): Promise<StagedChange | null> {
+  if (operation.op === 'create') {
+    await authorize(operation);
+    const user = await prepareNewUser(operation.data, staging);
+    await staging.insert(user);
+    return { action: 'create', after: user, write: { type: 'insert', user } };
+  }
+
+  const existing = await findActiveUser(operation.id, staging);
+  if (!existing) return null;
+  assertExpectedVersion(existing, operation.version);
+  await authorize(operation, existing);
+
+  let changed: User;
+  if (operation.op === 'update') {
+    changed = await prepareChanges(existing, operation.data, staging);
+    if (changed === existing) return { action: null, after: existing };
+  } else {
+    changed = { ...existing, deletedAt: new Date().toISOString() };
+  }
+
+  const user = nextVersion(existing, changed);
+  await staging.replace(user, existing.version);
+  return {
+    action: operation.op,
+    before: existing,
+    after: user,
+    write: { type: 'replace', user, expectedVersion: existing.version },
+  };
+}
 
 /**
  * User Service Object
@@ -48,42 +405,79 @@ export const userService = {
   /**
    * GET ALL USERS
    * Returns the entire list of users
-   * @returns {User[]} Array of all users
+   * @returns {Promise<User[]>} Array of all users
    */
-  getAll(): User[] {
-    return users;
+  async getAll(): Promise<User[]> {
+    return userRepository.findAll();
+  },
+
+  /**
+   * LIST USERS (one page)
+   * Returns a searched, filtered and sorted page of users plus the total number of matches
+   * @param {UserListQuery} query - Paging, sorting, search and filter options
+   * @returns {Promise<PaginatedResult<UserListItem>>} { items, total, page, pageSize }
+   */
+  async list(query: UserListQuery): Promise<PaginatedResult<UserListItem>> {
+    // Good moment to empty old trash
+    await purgeExpiredUsers();
+
+    const [users, roles] = await Promise.all([userRepository.findAll(), roleRepository.findAll()]);
+    return applyUserListQuery(users, query, roles);
+  },
+
+  /**
+   * LIST ALL MATCHING USERS
+   * Same search, filters and sort as list(), but every match instead of one page
+   * Used by exports, which should contain exactly what the table shows
+   * @param {UserListQuery} query - Sorting, search and filter options (paging is ignored)
+   * @returns {Promise<UserListItem[]>} Every matching user, in order
+   */
+  async listAll(query: Omit<UserListQuery, 'page' | 'pageSize'>): Promise<UserListItem[]> {
+    await purgeExpiredUsers();
+
+    const [users, roles] = await Promise.all([userRepository.findAll(), roleRepository.findAll()]);
+    return matchUserListQuery(users, query, roles);
   },
 
   /**
    * GET USER BY ID
    * Finds and returns a single user by their ID
    * @param {string} id - The user's unique identifier
-   * @returns {User | undefined} The user if found, undefined if not
+   * @returns {Promise<User | undefined>} The user if found, undefined if not (or in the trash)
+   */
+  async getById(id: string): Promise<User | undefined> {
+    return findActiveUser(id);
+  },
+
+  /**
+   * IS EMAIL AVAILABLE
+   * Checks whether an email can be used (used by the form while typing)
+   * @param {string} email - The email to check (any upper/lower case)
+   * @param {string} excludeId - Optional: the user being edited (its own email counts as available)
+   * @returns {Promise<boolean>} true if no other user (also none in the trash) has this email
    */
-  getById(id: string): User | undefined {
-    // .find() searches the array and returns the first matching item
-    return users.find((user) => user.id === id);
+  async isEmailAvailable(email: string, excludeId?: string): Promise<boolean> {
+    const owner = await userRepository.findByEmail(normalizeEmail(email));
+    return !owner || owner.id === excludeId;
   },
 
   /**
    * CREATE NEW USER
-   * Creates a new user and adds them to the users array
-   * @param {CreateUserDto} data - The data for the new user (name, email, role)
-   * @returns {User} The newly created user with id and createdAt added
+   * Creates a new user and saves it in the repository
+   * @param {CreateUserDto} data - The data for the new user (name, email, roleId)
+   * @param {AuditActor} actor - Who is creating the user (for the audit log)
+   * @returns {Promise<User>} The newly created user with id and createdAt added
+   * @throws {ConflictError} If the email is already used by another user
+   * @throws {ValidationError} If the role doesn't exist
    */
-  create(data: CreateUserDto): User {
-    // Create new user object
-    const newUser: User = {
-      id: Date.now().toString(), // Generate unique ID from current timestamp
-      ...data,                   // Spread operator: copies name, email, role from data
-      createdAt: new Date().toISOString(), // Add creation timestamp
-    };
-
-    // Add new user to the array
-    users.push(newUser);
-
-    // Return the created user
-    return newUser;
+  async create(data: CreateUserDto, actor: AuditActor): Promise<User> {
+    // Check the data and create the new user object (id, timestamps, version 1)
+    const newUser = await prepareNewUser(data);
+
+    // Save the user and record who created it
+    const created = await userRepository.insert(newUser);
+    await recordChange('create', actor, undefined, created);
+    return created;
   },
 
   /**
@@ -91,43 +485,225 @@ export const userService = {
    * Updates an existing user's information
    * @param {string} id - The ID of the user to update
    * @param {UpdateUserDto} data - The fields to update (can be partial)
-   * @returns {User | null} Updated user if found, null if not found
+   * @param {AuditActor} actor - Who is making the change (for the audit log)
+   * @param {number} expectedVersion - Optional: the version the client edited (from If-Match)
+   * @returns {Promise<User | null>} Updated user if found, null if not found (or in the trash)
+   * @throws {ConflictError} If the new email is already used by another user
+   * @throws {ValidationError} If the new role doesn't exist
+   * @throws {PreconditionFailedError} If the user was changed since expectedVersion
+   */
+  async update(
+    id: string,
+    data: UpdateUserDto,
+    actor: AuditActor,
+    expectedVersion?: number
+  ): Promise<User | null> {
+    const existing = await findActiveUser(id);
+
+    // If user not found, return null
+    if (!existing) return null;
+    assertExpectedVersion(existing, expectedVersion);
+
+    // Merge the changes into the user (unchanged users are returned as they are)
+    const changed = await prepareChanges(existing, data);
+    if (changed === existing) return existing;
+
+    const updated = await saveNextVersion(existing, changed);
+
+    // Record what changed (before → after)
+    if (updated) await recordChange('update', actor, existing, updated);
+    return updated;
+  },
+
+  /**
+   * SET AVATAR
+   * Stores a new profile picture for a user, or removes the current one
+   * The old picture's thumbnails are removed once the user is saved
+   *
+   * @param {string} id - The ID of the user
+   * @param {Buffer | null} image - The uploaded picture, or null to remove the avatar
+   * @param {AuditActor} actor - Who is making the change (for the audit log)
+   * @param {number} expectedVersion - Optional: the version the client last saw (from If-Match)
+   * @returns {Promise<User | null>} The updated user, or null if not found (or in the trash)
+   * @throws {ValidationError} If the picture is too large or not a picture
+   * @throws {PreconditionFailedError} If the user was changed since expectedVersion
    */
-  update(id: string, data: UpdateUserDto): User | null {
-    // Find the index of the user in the array
-    const index = users.findIndex((user) => user.id === id);
+  async setAvatar(
+    id: string,
+    image: Buffer | null,
+    actor: AuditActor,
+    expectedVersion?: number
+  ): Promise<User | null> {
+    const existing = await findActiveUser(id);
+    if (!existing) return null;
+    assertExpectedVersion(existing, expectedVersion);
+
+    // Removing an avatar the user doesn't have: nothing to save
+    if (!image && !existing.avatar) return existing;
 
-    // If user not found (index is -1), return null
-    if (index === -1) return null;
+    const changed: User = { ...existing };
+    if (image) {
+      changed.avatar = await avatarService.store(id, image);
+    } else {
+      delete changed.avatar;
+    }
 
-    // Update the user by merging old data with new data
-    users[index] = {
-      ...users[index], // Keep all existing fields
-      ...data,         // Override with new data (only provided fields)
-    };
+    // If the user was changed or deleted while the picture was processed, drop the new picture again
+    let updated: User | null;
+    try {
+      updated = await saveNextVersion(existing, changed);
+    } catch (error) {
+      if (changed.avatar) await avatarService.remove(id, changed.avatar);
+      throw error;
+    }
+    if (!updated) {
+      if (changed.avatar) await avatarService.remove(id, changed.avatar);
+      return null;
+    }
 
-    // Return the updated user
-    return users[index];
+    if (existing.avatar) await avatarService.remove(id, existing.avatar);
+    await recordChange('update', actor, existing, updated);
+    return updated;
   },
 
   /**
-   * DELETE USER
-   * Removes a user from the users array
+   * GET AVATAR
+   * Reads one thumbnail of a user's current picture
+   * Works for users in the trash too, so the trash list can show their pictures
+   *
+   * @param {string} id - The ID of the user
+   * @param {AvatarSize} size - Which thumbnail
+   * @returns {Promise<{ avatarId: string; data: Buffer } | null>} The WebP thumbnail and
+   *   which upload it belongs to, or null if the user doesn't exist or has no picture
+   */
+  async getAvatar(id: string, size: AvatarSize): Promise<{ avatarId: string; data: Buffer } | null> {
+    const user = await userRepository.findById(id);
+    if (!user?.avatar) return null;
+
+    const data = await avatarService.read(id, user.avatar, size);
+    return data ? { avatarId: user.avatar, data } : null;
+  },
+
+  /**
+   * DELETE USER (soft delete)
+   * Moves a user to the trash by setting deletedAt - nothing is removed yet
    * @param {string} id - The ID of the user to delete
-   * @returns {boolean} true if deleted successfully, false if user not found
+   * @param {AuditActor} actor - Who is deleting the user (for the audit log)
+   * @param {number} expectedVersion - Optional: the version the client last saw (from If-Match)
+   * @returns {Promise<boolean>} true if deleted successfully, false if user not found (or already deleted)
+   * @throws {PreconditionFailedError} If the user was changed since expectedVersion
    */
-  delete(id: string): boolean {
-    // Find the index of the user
-    const index = users.findIndex((user) => user.id === id);
+  async delete(id: string, actor: AuditActor, expectedVersion?: number): Promise<boolean> {
+    const existing = await findActiveUser(id);
+    if (!existing) return false;
+    assertExpectedVersion(existing, expectedVersion);
+
+    // null = the user was removed for good at the same moment (e.g. purged) - nothing was deleted
+    const deleted = await saveNextVersion(existing, { ...existing, deletedAt: new Date().toISOString() });
+    if (!deleted) return false;
 
-    // If user not found, return false
-    if (index === -1) return false;
+    await recordChange('delete', actor, existing, deleted);
+    return true;
+  },
+
+  /**
+   * RESTORE USER
+   * Takes a user out of the trash again
+   * @param {string} id - The ID of the deleted user
+   * @param {AuditActor} actor - Who is restoring the user (for the audit log)
+   * @returns {Promise<User | null>} The restored user, or null if not found
+   * @throws {ConflictError} If the user is not in the trash
+   */
+  async restore(id: string, actor: AuditActor): Promise<User | null> {
+    const existing = await userRepository.findById(id);
+    if (!existing) return null;
+    if (!existing.deletedAt) {
+      throw new ConflictError('id', 'User is not in the trash');
+    }
 
-    // Remove the user from the array
-    // .splice(index, 1) removes 1 item at the specified index
-    users.splice(index, 1);
+    // Copy the user without deletedAt
+    const restored: User = { ...existing };
+    delete restored.deletedAt;
 
-    // Return true to indicate successful deletion
+    const result = await saveNextVersion(existing, restored);
+    if (result) await recordChange('restore', actor, existing, result);
+    return result;
+  },
+
+  /**
+   * PURGE USER
+   * Removes a user in the trash for good (can't be undone)
+   * @param {string} id - The ID of the deleted user
+   * @param {AuditActor} actor - Who is purging the user (for the audit log)
+   * @returns {Promise<boolean>} true if purged, false if user not found
+   * @throws {ConflictError} If the user is not in the trash (delete them first)
+   */
+  async purge(id: string, actor: AuditActor): Promise<boolean> {
+    const existing = await userRepository.findById(id);
+    if (!existing) return false;
+    if (!existing.deletedAt) {
+      throw new ConflictError('id', 'Only users in the trash can be purged - delete the user first');
+    }
+
+    await purgeUser(existing, actor);
     return true;
   },
+
+  /**
+   * BATCH
+   * Runs a list of create/update/delete operations and reports on each one
+   *
+   * - Default: operations run one after another, each succeeding or failing by itself
+   * - Transactional: every operation is first checked against a staging copy of
+   *   all users. Only when all of them pass are the changes saved, in one write.
+   *   Otherwise nothing is saved: the failing operation gets its error and all
+   *   others are reported as skipped.
+   *
+   * @param {BatchRequest} request - The operations and the mode
+   * @param {AuditActor} actor - Who is making the changes (for the audit log)
+   * @param {BatchAuthorizer} authorize - Checks the permissions for each operation
+   * @returns {Promise<BatchOutcome[]>} One outcome per operation, in the same order
+   */
+  async batch(request: BatchRequest, actor: AuditActor, authorize: BatchAuthorizer): Promise<BatchOutcome[]> {
+    const { operations, transactional } = request;
+
+    if (!transactional) {
+      const outcomes: BatchOutcome[] = [];
+      for (const operation of operations) {
+        outcomes.push(await runOperation(operation, actor, authorize));
+      }
+      return outcomes;
+    }
+
+    // Every operation but the failed one is skipped
+    const failAt = (index: number, outcome: BatchOutcome): BatchOutcome[] =>
+      operations.map((_, i) => (i === index ? outcome : { status: 'skipped' }));
+
+    // 1. Check everything against a private copy - later operations see earlier ones
+    const staging = new InMemoryUserRepository(await userRepository.findAll());
+    const staged: StagedChange[] = [];
+    for (const [index, operation] of operations.entries()) {
+      try {
+        const change = await stageOperation(staging, operation, authorize);
+        if (!change) return failAt(index, { status: 'not-found' });
+        staged.push(change);
+      } catch (error) {
+        return failAt(index, { status: 'failed', error });
+      }
+    }
+
+    // 2. Save all writes at once. If someone else changed one of these users
+    //    since step 1, the repository refuses the whole write.
+    try {
+      await userRepository.saveAll(staged.flatMap((change) => (change.write ? [change.write] : [])));
+    } catch (error) {
+      return operations.map(() => ({ status: 'failed', error }));
+    }
+
+    // 3. Only now that everything is saved, record it in the audit log
+    for (const change of staged) {
+      if (change.action) await recordChange(change.action, actor, change.before, change.after);
+    }
+    return staged.map((change) => ({ status: 'done', user: change.after }));
+  },
 };
@@ -0,0 +1,219 @@
+/**
+ * Webhook Dispatcher
+ * Sends queued webhook deliveries, and retries the ones that failed
+ *
+ * How it works:
+ * - Deliveries are stored (see WebhookDeliveryRepository), so the queue
+ *   survives restarts. One timer wakes the dispatcher when the next
+ *   delivery is due.
+ * - A delivery succeeds when the receiver answers with a 2xx status in time.
+ *   Otherwise it is tried again later, waiting twice as long each time
+ *   (exponential backoff), until webhookConfig.maxAttempts is reached -
+ *   then it is marked as failed and can be redelivered by hand.
+ * - Deliveries of one webhook are sent one after another (oldest first);
+ *   different webhooks don't wait for each other.
+ * - Only the newest webhookConfig.logSize finished deliveries of each webhook are kept.
+ *
+ * webhookService calls schedule() after queueing deliveries. After a restart
+ * the queue is picked up again the first time webhooks are used (a user
+ * change or a call to /api/webhooks).
+ */
+
+import { webhookConfig } from '../config/webhooks';
+import { SIGNATURE_HEADER, signWebhookPayload } from '../lib/webhookSignature';
+import { webhookDeliveryRepository, webhookRepository } from '../repositories';
+import { Webhook, WebhookDelivery } from '../types/webhook';
+
+// How much of the receiver's answer is kept in the delivery log
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+
+// setTimeout can't wait longer than about 24.8 days
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// ==================== SCHEDULER STATE ====================
+
+let timer: ReturnType<typeof setTimeout> | undefined;
+let isRunning = false;      // A run is sending deliveries right now
+let runAgain = false;       // schedule() was called during a run - look again afterwards
+let hasStarted = false;     // The stored queue was picked up after the server started
+
+/**
+ * The wait before the next try, after `attempts` failed tries (in milliseconds)
+ * 1 → base, 2 → base × 2, 3 → base × 4, ... but never more than the maximum
+ */
+export function retryDelayMs(attempts: number): number {
+  const seconds = Math.min(webhookConfig.retryBaseSeconds * 2 ** (attempts - 1), webhookConfig.retryMaxSeconds);
+  return seconds * 1000;
+}
+
+/**
+ * Sends one delivery to its webhook's URL
+ * @returns {Promise<Partial<WebhookDelivery>>} What to store about the answer (status, body or error)
+ */
+async function send(webhook: Webhook, delivery: WebhookDelivery): Promise<Partial<WebhookDelivery> & { ok: boolean }> {
+  const body = JSON.stringify(delivery.payload);
+
+  try {
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'user-management-webhooks/1.0',
+        'X-Webhook-Event': delivery.payload.type,
+        'X-Webhook-Delivery': delivery.id,
+        [SIGNATURE_HEADER]: signWebhookPayload(webhook.secret, body),
+      },
+      body,
+      redirect: 'manual', // A redirect is not a success - the URL should be fixed instead
+      signal: AbortSignal.timeout(webhookConfig.timeoutSeconds * 1000),
+    });
+    const responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY_LENGTH);
+
+    return {
+      ok: response.ok,
+      responseStatus: response.status,
+      responseBody,
+      error: response.ok ? undefined : `Receiver answered with status ${response.status}`,
+    };
+  } catch (error) {
+    const timedOut = error instanceof DOMException && error.name === 'TimeoutError';
+    return {
+      ok: false,
+      responseStatus: undefined,
+      responseBody: undefined,
+      error: timedOut
+        ? `No answer within ${webhookConfig.timeoutSeconds} seconds`
+        : `Could not reach the receiver: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+/**
+ * Tries one delivery and stores the outcome: succeeded, failed, or pending with the next try's time
+ */
+async function attempt(delivery: WebhookDelivery, webhook: Webhook | undefined): Promise<void> {
+  const now = new Date();
+
+  // The webhook was switched off after the delivery was queued: don't send, and don't retry
+  if (!webhook || !webhook.active) {
+    await webhookDeliveryRepository.replace({
+      ...delivery,
+      status: 'failed',
+      nextAttemptAt: null,
+      error: webhook ? 'Webhook is switched off' : 'Webhook was deleted',
+    });
+    return;
+  }
+
+  const { ok, ...outcome } = await send(webhook, delivery);
+  const attempts = delivery.attempts + 1;
+  const isLastAttempt = attempts >= webhookConfig.maxAttempts;
+
+  await webhookDeliveryRepository.replace({
+    ...delivery,
+    ...outcome,
+    attempts,
+    lastAttemptAt: now.toISOString(),
+    status: ok ? 'succeeded' : isLastAttempt ? 'failed' : 'pending',
+    nextAttemptAt: ok || isLastAttempt ? null : new Date(now.getTime() + retryDelayMs(attempts)).toISOString(),
+  });
+}
+
+/**
+ * Removes the oldest finished deliveries of a webhook beyond webhookConfig.logSize
+ */
+async function pruneLog(webhookId: string): Promise<void> {
+  const deliveries = await webhookDeliveryRepository.findAll();
+  const finished = deliveries.filter((delivery) => delivery.webhookId === webhookId && delivery.status !== 'pending');
+  const excess = finished.length - webhookConfig.logSize;
+
+  if (excess > 0) {
+    await webhookDeliveryRepository.deleteMany(finished.slice(0, excess).map((delivery) => delivery.id));
+  }
+}
+
+/**
+ * Sends every delivery that is due, then sets the timer for the next one
+ */
+async function runDueDeliveries(): Promise<void> {
+  if (isRunning) {
+    runAgain = true;
+    return;
+  }
+  isRunning = true;
+
+  try {
+    do {
+      runAgain = false;
+      const now = Date.now();
+      const [deliveries, webhooks] = await Promise.all([
+        webhookDeliveryRepository.findAll(),
+        webhookRepository.findAll(),
+      ]);
+
+      // Due deliveries, grouped by webhook (oldest first within each group)
+      const due = new Map<string, WebhookDelivery[]>();
+      for (const delivery of deliveries) {
+        if (delivery.status !== 'pending' || new Date(delivery.nextAttemptAt ?? 0).getTime() > now) continue;
+        due.set(delivery.webhookId, [...(due.get(delivery.webhookId) ?? []), delivery]);
+      }
+
+      // Webhooks in parallel, each webhook's deliveries in order
+      await Promise.all(
+        [...due].map(async ([webhookId, queue]) => {
+          const webhook = webhooks.find((candidate) => candidate.id === webhookId);
+          for (const delivery of queue) {
+            await attempt(delivery, webhook);
+          }
+          await pruneLog(webhookId);
+        })
+      );
+    } while (runAgain);
+  } catch (error) {
+    console.error('[webhooks] Sending deliveries failed:', error);
+  } finally {
+    isRunning = false;
+  }
+
+  await setTimer();
+}
+
+/**
+ * Sets the timer for the earliest pending delivery (or clears it when there is none)
+ */
+async function setTimer(): Promise<void> {
+  clearTimeout(timer);
+  timer = undefined;
+
+  const deliveries = await webhookDeliveryRepository.findAll();
+  const nextTimes = deliveries
+    .filter((delivery) => delivery.status === 'pending')
+    .map((delivery) => new Date(delivery.nextAttemptAt ?? 0).getTime());
+  if (nextTimes.length === 0) return;
+
+  const delay = Math.min(Math.max(0, Math.min(...nextTimes) - Date.now()), MAX_TIMER_DELAY_MS);
+  timer = setTimeout(() => void runDueDeliveries(), delay);
+}
+
+/**
+ * Webhook Dispatcher Object
+ */
+export const webhookDispatcher = {
+  /**
+   * SCHEDULE
+   * Sends the deliveries that are due now (in the background) and plans the rest
+   * Call it after queueing or changing deliveries
+   */
+  schedule(): void {
+    hasStarted = true;
+    void runDueDeliveries();
+  },
+
+  /**
+   * START
+   * Picks up the stored queue once after the server started - later calls do nothing
+   */
+  start(): void {
+    if (!hasStarted) webhookDispatcher.schedule();
+  },
+};
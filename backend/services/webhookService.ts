@@ -0,0 +1,203 @@
+/**
+ * Webhook Service
+ * This file handles all the business logic for webhooks
+ *
+ * - Managing subscriptions (create, read, update, delete)
+ * - Queueing a delivery for every subscribed webhook when a user changes
+ *   (userService calls enqueue() after every saved change)
+ * - Reading the delivery log, and sending a delivery again by hand
+ *
+ * The sending itself (signatures, retries, timers) happens in webhookDispatcher.
+ */
+
+import { createWebhookSecret } from '../lib/webhookSignature';
+import { webhookDeliveryRepository, webhookRepository } from '../repositories';
+import { UserEvent } from '../types/events';
+import { PaginatedResult } from '../types/user';
+import {
+  CreateWebhookDto,
+  DeliveryQuery,
+  UpdateWebhookDto,
+  WEBHOOK_EVENT_BY_ACTION,
+  Webhook,
+  WebhookDelivery,
+  WebhookPayload,
+  WebhookResponse,
+} from '../types/webhook';
+import { ConflictError } from '../utils/errors';
+import { applyDeliveryQuery } from '../utils/webhookQuery';
+import { webhookDispatcher } from './webhookDispatcher';
+
+/**
+ * Leaves out the secret - it is only shown once, when the webhook is created
+ * @param {Webhook} webhook - The stored webhook
+ */
+export function withoutSecret(webhook: Webhook): WebhookResponse {
+  const response: WebhookResponse & { secret?: string } = { ...webhook };
+  delete response.secret;
+  return response;
+}
+
+/**
+ * A new delivery of a payload, due right away
+ */
+function newDelivery(webhookId: string, payload: WebhookPayload, now: string): WebhookDelivery {
+  return {
+    id: crypto.randomUUID(),
+    webhookId,
+    payload,
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: now,
+    createdAt: now,
+  };
+}
+
+/**
+ * Webhook Service Object
+ * Contains all operations for webhooks and their deliveries
+ */
+export const webhookService = {
+  /**
+   * GET ALL WEBHOOKS
+   * @returns {Promise<Webhook[]>} Every webhook, oldest first
+   */
+  async getAll(): Promise<Webhook[]> {
+    webhookDispatcher.start();
+    return webhookRepository.findAll();
+  },
+
+  /**
+   * GET WEBHOOK BY ID
+   * @param {string} id - The webhook's unique identifier
+   * @returns {Promise<Webhook | undefined>} The webhook if found, undefined if not
+   */
+  async getById(id: string): Promise<Webhook | undefined> {
+    webhookDispatcher.start();
+    return webhookRepository.findById(id);
+  },
+
+  /**
+   * CREATE NEW WEBHOOK
+   * @param {CreateWebhookDto} data - The validated data (a secret is made when none is given)
+   * @returns {Promise<Webhook>} The new webhook, including its secret
+   */
+  async create(data: CreateWebhookDto): Promise<Webhook> {
+    const now = new Date().toISOString();
+
+    return webhookRepository.insert({
+      id: Date.now().toString(), // Generate unique ID from current timestamp
+      url: data.url,
+      events: data.events,
+      secret: data.secret ?? createWebhookSecret(),
+      description: data.description ?? '',
+      active: data.active ?? true,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+
+  /**
+   * UPDATE WEBHOOK
+   * Deliveries already queued are sent with the new URL and secret
+   * @param {string} id - The ID of the webhook to update
+   * @param {UpdateWebhookDto} data - The fields to update (can be partial)
+   * @returns {Promise<Webhook | null>} Updated webhook if found, null if not found
+   */
+  async update(id: string, data: UpdateWebhookDto): Promise<Webhook | null> {
+    const existing = await webhookRepository.findById(id);
+    if (!existing) return null;
+
+    return webhookRepository.replace({ ...existing, ...data, updatedAt: new Date().toISOString() });
+  },
+
+  /**
+   * DELETE WEBHOOK
+   * Its delivery log (and anything still queued for it) is removed too
+   * @param {string} id - The ID of the webhook to delete
+   * @returns {Promise<boolean>} true if deleted, false if the webhook was not found
+   */
+  async delete(id: string): Promise<boolean> {
+    const deleted = await webhookRepository.delete(id);
+    if (deleted) {
+      const deliveries = await webhookDeliveryRepository.findAll();
+      await webhookDeliveryRepository.deleteMany(
+        deliveries.filter((delivery) => delivery.webhookId === id).map((delivery) => delivery.id)
+      );
+    }
+    return deleted;
+  },
+
+  /**
+   * ENQUEUE
+   * Queues one delivery per active webhook that subscribed to this kind of change
+   * They are sent in the background - a slow receiver never slows down saving users
+   *
+   * @param {UserEvent} event - The change, as published by userEventService
+   * @returns {Promise<WebhookDelivery[]>} The queued deliveries (empty if nobody subscribed)
+   */
+  async enqueue(event: UserEvent): Promise<WebhookDelivery[]> {
+    webhookDispatcher.start();
+
+    const type = WEBHOOK_EVENT_BY_ACTION[event.type];
+    const webhooks = await webhookRepository.findAll();
+    const subscribed = webhooks.filter((webhook) => webhook.active && webhook.events.includes(type));
+    if (subscribed.length === 0) return [];
+
+    // One payload for everyone, so all receivers see the same event id
+    const payload: WebhookPayload = {
+      id: crypto.randomUUID(),
+      type,
+      createdAt: event.timestamp,
+      data: { user: event.user, actor: event.actor },
+    };
+
+    const now = new Date().toISOString();
+    const deliveries = await webhookDeliveryRepository.insertMany(
+      subscribed.map((webhook) => newDelivery(webhook.id, payload, now))
+    );
+    webhookDispatcher.schedule();
+    return deliveries;
+  },
+
+  /**
+   * LIST DELIVERIES
+   * One page of a webhook's delivery log, newest first
+   * @param {string} webhookId - The webhook
+   * @param {DeliveryQuery} query - Page, page size and an optional status filter
+   */
+  async listDeliveries(webhookId: string, query: DeliveryQuery): Promise<PaginatedResult<WebhookDelivery>> {
+    const deliveries = await webhookDeliveryRepository.findAll();
+    return applyDeliveryQuery(
+      deliveries.filter((delivery) => delivery.webhookId === webhookId),
+      query
+    );
+  },
+
+  /**
+   * REDELIVER
+   * Queues the payload of an earlier delivery again (same payload id, so the
+   * receiver can tell it's a repeat), e.g. after fixing the receiver
+   *
+   * @param {string} webhookId - The webhook
+   * @param {string} deliveryId - The delivery to repeat
+   * @returns {Promise<WebhookDelivery | null>} The new delivery, or null if the webhook or delivery doesn't exist
+   * @throws {ConflictError} If the webhook is switched off
+   */
+  async redeliver(webhookId: string, deliveryId: string): Promise<WebhookDelivery | null> {
+    const [webhook, original] = await Promise.all([
+      webhookRepository.findById(webhookId),
+      webhookDeliveryRepository.findById(deliveryId),
+    ]);
+    if (!webhook || !original || original.webhookId !== webhookId) return null;
+
+    if (!webhook.active) {
+      throw new ConflictError('active', 'Webhook is switched off - switch it on to redeliver');
+    }
+
+    const delivery = { ...newDelivery(webhookId, original.payload, new Date().toISOString()), redeliveryOf: original.id };
+    await webhookDeliveryRepository.insertMany([delivery]);
+    webhookDispatcher.schedule();
+    return delivery;
+  },
+};
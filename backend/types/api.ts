@@ -0,0 +1,117 @@
+/**
+ * API Contract
+ * The request and response bodies of the /api/users endpoints
+ *
+ * Route handlers type what they send with these types, e.g.
+ *   NextResponse.json<UserResponse>(user)
+ * and the frontend client (frontend/api/usersClient.ts) types what it reads
+ * with the same ones. Changing a response in a route means changing its type
+ * here, which makes every frontend use of it fail type-checking until updated.
+ */
+
+import { AuditEntry } from './audit';
+import { SetPasswordDto } from './auth';
+import { BatchOperation } from './batch';
+import { ImportRow } from './import';
+import { Permission } from './role';
+import { AttributeValue, CreateUserDto, PaginatedResult, UpdateUserDto, User, UserListItem } from './user';
+import { FieldErrors } from '../validation/schema';
+
+// ==================== ERROR BODIES ====================
+
+/**
+ * Any error response: 400, 401, 404, 500, ...
+ */
+export interface ErrorBody {
+  error: string;            // Readable message, e.g. "User not found"
+}
+
+/**
+ * 403 Forbidden - signed in, but missing a permission
+ */
+export interface ForbiddenBody extends ErrorBody {
+  permission: Permission;   // The permission that was missing, e.g. "users:delete"
+}
+
+/**
+ * 422 Unprocessable Entity - the data is invalid
+ */
+export interface ValidationErrorBody {
+  errors: FieldErrors;      // One message per invalid field, e.g. { email: "Invalid email" }
+}
+
+/**
+ * 409 Conflict - a value is already taken (e.g. the email)
+ */
+export interface ConflictBody extends ErrorBody, ValidationErrorBody {
+  field: string;            // The field with the taken value
+}
+
+/**
+ * 412 Precondition Failed - someone else saved the user since the If-Match version
+ */
+export interface PreconditionFailedBody extends ErrorBody {
+  current: User;            // The user as it is saved now (to show the differences)
+}
+
+// ==================== REQUEST BODIES ====================
+
+/**
+ * POST /api/users and PUT /api/users/:id (PUT replaces every field)
+ */
+export type UserRequestBody = CreateUserDto;
+
+/**
+ * PATCH /api/users/:id with Content-Type: application/merge-patch+json
+ * Only the fields to change
+ * Custom attributes are merged into the saved ones: send only the changed
+ * values, and null to remove a value
+ */
+export type UserMergePatch = Omit<UpdateUserDto, 'attributes'> & {
+  attributes?: Record<string, AttributeValue | null>;
+};
+
+/**
+ * POST /api/users/batch
+ */
+export interface BatchRequestBody {
+  operations: BatchOperation[];
+  transactional?: boolean;  // true = all or nothing (default false)
+}
+
+/**
+ * PUT /api/users/:id/password
+ */
+export type SetPasswordRequestBody = SetPasswordDto;
+
+/**
+ * POST /api/users/import
+ */
+export interface ImportRequestBody {
+  rows: ImportRow[];
+  dryRun?: boolean;         // true = only check the rows (preview)
+}
+
+// ==================== RESPONSE BODIES ====================
+
+/** GET /api/users */
+export type UserListResponse = PaginatedResult<UserListItem>;
+
+/** POST /api/users, GET/PUT/PATCH /api/users/:id, POST /api/users/:id/restore */
+export type UserResponse = User;
+
+/** DELETE /api/users/:id, POST /api/users/:id/purge, PUT /api/users/:id/password */
+export interface MessageResponse {
+  message: string;
+}
+
+/** GET /api/users/:id/history */
+export type UserHistoryResponse = PaginatedResult<AuditEntry>;
+
+/** GET /api/users/check-email */
+export interface CheckEmailResponse {
+  available: boolean;
+}
+
+// POST /api/users/batch answers with a BatchResponse (./batch), and
+// POST /api/users/import with an ImportPreview or ImportResult (./import)
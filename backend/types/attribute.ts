@@ -0,0 +1,50 @@
+/**
+ * Custom Attribute Types
+ * Admins can give every user extra fields (e.g. "Cost center" or "Start date")
+ * without code changes: an AttributeDefinition describes one such field, and
+ * each user keeps its values in User.attributes, keyed by the definition's key
+ */
+
+/**
+ * The kinds of values an attribute can hold
+ * text = any text, number = a number, date = a calendar date ("2025-01-31"),
+ * enum = one of a fixed list of options
+ */
+export const ATTRIBUTE_TYPES = ['text', 'number', 'date', 'enum'] as const;
+
+export type AttributeType = (typeof ATTRIBUTE_TYPES)[number];
+
+/**
+ * AttributeDefinition Interface
+ * One custom attribute
+ */
+export interface AttributeDefinition {
+  key: string;          // Unique identifier, used in User.attributes (e.g. "costCenter") - can't be changed
+  label: string;        // Shown in forms and column headers, e.g. "Cost center"
+  type: AttributeType;  // What kind of value it holds - can't be changed
+  options: string[];    // The allowed values of an enum attribute (empty for other types)
+  required: boolean;    // true = every user needs a value
+  createdAt: string;    // Timestamp when the attribute was defined
+}
+
+/**
+ * CreateAttributeDto (Data Transfer Object)
+ * What is needed to define a new attribute
+ */
+export interface CreateAttributeDto {
+  key: string;          // Required: letters, digits and "_", starting with a letter
+  label: string;        // Required
+  type: AttributeType;  // Required
+  options?: string[];   // Required for enum attributes, not allowed for the others
+  required?: boolean;   // Optional: defaults to false
+}
+
+/**
+ * UpdateAttributeDto (Data Transfer Object)
+ * The key and type are fixed, because users already store values under them
+ */
+export interface UpdateAttributeDto {
+  label?: string;
+  options?: string[];
+  required?: boolean;
+}
@@ -0,0 +1,65 @@
+/**
+ * Audit Types
+ * The audit log records every change made to a user: who did it, what
+ * they did, when, and which fields changed (before → after)
+ *
+ * Entries are only ever added - never edited or removed - so the log
+ * stays a trustworthy history, even for users that were purged.
+ */
+
+/**
+ * What happened to the user
+ * delete = moved to the trash, purge = removed for good
+ */
+export const AUDIT_ACTIONS = ['create', 'update', 'delete', 'restore', 'purge'] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+/**
+ * The user who made a change
+ * The name is copied into the entry, so it still reads well after that user is gone
+ * Automatic changes (e.g. purging old trash) have no actor: id null, name "System"
+ */
+export interface AuditActor {
+  id: string | null;
+  name: string;
+}
+
+/**
+ * One changed field
+ * before is null for a new user, after is null when a field was removed
+ */
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * AuditEntry Interface
+ * One line in the audit log
+ */
+export interface AuditEntry {
+  id: string;               // Unique identifier of the entry
+  userId: string;           // The user that was changed
+  userName: string;         // That user's name at the time (for the feed)
+  action: AuditAction;      // What happened
+  actor: AuditActor;        // Who did it
+  changes: FieldChange[];   // Field-level diff (empty if nothing changed)
+  timestamp: string;        // When it happened (ISO)
+}
+
+/**
+ * AuditQuery
+ * Options for GET /api/audit (and /api/users/:id/history)
+ * Entries are always returned newest first
+ */
+export interface AuditQuery {
+  page: number;             // Which page to return (starts at 1)
+  pageSize: number;         // How many entries per page
+  userId?: string;          // Optional: only changes to this user
+  actorId?: string;         // Optional: only changes made by this user
+  action?: AuditAction;     // Optional: only this kind of change
+  from?: string;            // Optional: only entries on/after this date (ISO)
+  to?: string;              // Optional: only entries on/before this date (ISO)
+}
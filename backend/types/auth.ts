@@ -0,0 +1,38 @@
+/**
+ * Account Interface
+ * Sign-in credentials of a user
+ * Kept separate from User, so password hashes can never end up in a /api/users response
+ */
+export interface Account {
+  userId: string;        // The user these credentials belong to (User.id)
+  passwordHash: string;  // Salted scrypt hash (see backend/lib/password.ts)
+  createdAt: string;     // Timestamp when the account was created
+}
+
+/**
+ * Session Interface
+ * One signed-in browser - deleted on sign-out
+ */
+export interface Session {
+  id: string;            // Random id, part of the session cookie
+  userId: string;        // The signed-in user
+  createdAt: string;     // When the user signed in
+  expiresAt: string;     // When the session stops working
+}
+
+/**
+ * LoginDto (Data Transfer Object)
+ * What the sign-in form sends to POST /api/auth/login
+ */
+export interface LoginDto {
+  email: string;
+  password: string;
+}
+
+/**
+ * SetPasswordDto (Data Transfer Object)
+ * What PUT /api/users/:id/password sends: the user's new password
+ */
+export interface SetPasswordDto {
+  password: string;
+}
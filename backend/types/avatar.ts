@@ -0,0 +1,19 @@
+/**
+ * Avatar Types
+ * Profile pictures: users can upload one, and it is shown next to their name
+ * (users without one get their initials instead)
+ */
+
+/**
+ * The picture formats that can be uploaded (checked against the file's contents, not its name)
+ */
+export const AVATAR_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'] as const;
+
+/**
+ * The thumbnail sizes that are stored, in pixels (width = height)
+ * Uploaded pictures are cropped to a square and stored in each size (as WebP),
+ * so the browser never downloads more than it shows
+ */
+export const AVATAR_SIZES = [64, 128, 256] as const;
+
+export type AvatarSize = (typeof AVATAR_SIZES)[number];
@@ -0,0 +1,82 @@
+/**
+ * Batch Types
+ * POST /api/users/batch runs a list of create/update/delete operations in one request
+ *
+ * Two modes:
+ * - Default: every operation runs on its own - some may succeed while others fail
+ * - Transactional: all operations succeed, or none of them is saved
+ */
+
+import { Permission } from './role';
+import { CreateUserDto, UpdateUserDto, User } from './user';
+
+/**
+ * The operations a batch can contain
+ */
+export const BATCH_OPERATIONS = ['create', 'update', 'delete'] as const;
+
+export type BatchOperationType = (typeof BATCH_OPERATIONS)[number];
+
+/**
+ * One operation in a batch
+ * version is optional and works like If-Match: the operation fails with 412
+ * when the user has changed since that version
+ */
+export type BatchOperation =
+  | { op: 'create'; data: CreateUserDto }
+  | { op: 'update'; id: string; data: UpdateUserDto; version?: number }
+  | { op: 'delete'; id: string; version?: number };
+
+/**
+ * The body of POST /api/users/batch (after validation)
+ */
+export interface BatchRequest {
+  operations: BatchOperation[];
+  transactional: boolean;   // true = all or nothing
+}
+
+/**
+ * Checks that the signed-in user may run one operation
+ * Throws ForbiddenError when a permission is missing
+ * current = the user as stored before the operation (update and delete only)
+ */
+export type BatchAuthorizer = (operation: BatchOperation, current?: User) => Promise<void>;
+
+/**
+ * What happened to one operation (returned by userService.batch)
+ * - done:      the operation was saved (user = the created/updated/deleted user)
+ * - not-found: no active user has this id
+ * - failed:    the operation was refused (error = what the service threw)
+ * - skipped:   transactional batch only - not saved because another operation failed
+ */
+export type BatchOutcome =
+  | { status: 'done'; user: User }
+  | { status: 'not-found' }
+  | { status: 'failed'; error: unknown }
+  | { status: 'skipped' };
+
+/**
+ * The result of one operation as sent to the client
+ * status is the HTTP status the operation would have had on its own
+ * (e.g. 201 created, 404 not found, 409 email taken, 424 skipped)
+ */
+export interface BatchItemResult {
+  index: number;                    // Position of the operation in the request
+  op?: BatchOperationType;          // Missing when the operation didn't name a valid op
+  id?: string;                      // The user the operation was about (new id for create)
+  status: number;
+  user?: User;                      // The saved user (successful create/update/delete only)
+  error?: string;                   // What went wrong
+  errors?: Record<string, string>;  // Field errors (422 and 409)
+  permission?: Permission;          // The missing permission (403)
+}
+
+/**
+ * The response of POST /api/users/batch
+ */
+export interface BatchResponse {
+  transactional: boolean;
+  succeeded: number;                // How many operations were saved
+  failed: number;                   // How many were not (including skipped ones)
+  results: BatchItemResult[];       // One entry per operation, in request order
+}
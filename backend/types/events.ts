@@ -0,0 +1,20 @@
+/**
+ * User Event Types
+ * Live notifications about user changes, streamed to browsers by
+ * GET /api/users/events (server-sent events)
+ */
+
+import { AuditAction, AuditActor } from './audit';
+import { User } from './user';
+
+/**
+ * UserEvent
+ * One change to one user - the same kinds of change as the audit log
+ */
+export interface UserEvent {
+  id: number;               // Goes up by 1 per event - browsers resume from the last one they saw
+  type: AuditAction;        // create, update, delete, restore or purge
+  user: User;               // The user after the change (before it, for purge)
+  actor: AuditActor;        // Who made the change
+  timestamp: string;        // When it happened (ISO)
+}
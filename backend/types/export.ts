@@ -0,0 +1,76 @@
+/**
+ * Export Types
+ * GET /api/users/export downloads the users the table currently shows
+ * (same search, filters and sort - every page) as a CSV, JSON or Excel file
+ */
+
+/**
+ * The file formats an export can be downloaded as
+ */
+export const EXPORT_FORMATS = ['csv', 'json', 'xlsx'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * The columns an export can contain, in the order they appear in the file
+ * "role" is the role's NAME (e.g. "Manager"), not its id - and "manager" is the manager's name
+ */
+export const EXPORT_COLUMNS = [
+  'id',
+  'name',
+  'email',
+  'role',
+  'phone',
+  'department',
+  'jobTitle',
+  'manager',
+  'status',
+  'createdAt',
+  'updatedAt',
+  'deletedAt',
+] as const;
+
+export type ExportColumn = (typeof EXPORT_COLUMNS)[number];
+
+/**
+ * Column titles used in the header row of CSV and Excel files
+ * (JSON files use the column ids as keys)
+ */
+export const EXPORT_COLUMN_LABELS: Record<ExportColumn, string> = {
+  id: 'ID',
+  name: 'Name',
+  email: 'Email',
+  role: 'Role',
+  phone: 'Phone',
+  department: 'Department',
+  jobTitle: 'Job Title',
+  manager: 'Manager',
+  status: 'Status',
+  createdAt: 'Created At',
+  updatedAt: 'Updated At',
+  deletedAt: 'Deleted At',
+};
+
+/**
+ * Columns used when the request doesn't choose any
+ */
+export const DEFAULT_EXPORT_COLUMNS: ExportColumn[] = ['name', 'email', 'role', 'createdAt'];
+
+/**
+ * How the file should look (the "which users" part is a normal UserListQuery)
+ */
+export interface ExportOptions {
+  format: ExportFormat;
+  columns: ExportColumn[];  // Which columns, in file order
+  locale: string;           // Dates in CSV/Excel are written for this locale, e.g. "de-DE"
+  timeZone: string;         // ...and in this time zone, e.g. "Europe/Berlin"
+}
+
+/**
+ * A finished export, ready to be sent as a download
+ */
+export interface ExportFile {
+  body: ReadableStream<Uint8Array>; // The file contents, produced piece by piece
+  contentType: string;              // e.g. "text/csv; charset=utf-8"
+  fileName: string;                 // e.g. "users-2025-01-31.csv"
+}
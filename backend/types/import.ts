@@ -0,0 +1,48 @@
+/**
+ * Import Types
+ * Adding many users at once from a CSV or JSON file (POST /api/users/import)
+ *
+ * The browser reads the file and maps its columns to name/email/role, then
+ * sends plain rows. The server checks every row (preview), and on commit
+ * creates the valid ones and reports the rows it skipped.
+ */
+
+import { FieldErrors } from '../validation/schema';
+import { User } from './user';
+
+/**
+ * One row of the file, after the columns were mapped
+ * role may be a role name ("Manager") or id ("manager") - matched ignoring case
+ */
+export interface ImportRow {
+  name: string;
+  email: string;
+  role: string;
+}
+
+/**
+ * The check result of one row
+ * row is the row's number in the file's data (1 = first row after the header)
+ */
+export interface ImportRowResult extends ImportRow {
+  row: number;
+  roleId?: string;          // The matched role (missing when the role is unknown)
+  errors?: FieldErrors;     // Why the row can't be imported (missing = row is valid)
+}
+
+/**
+ * The response of a preview (POST /api/users/import with "dryRun": true)
+ */
+export interface ImportPreview {
+  rows: ImportRowResult[];
+  valid: number;            // Rows that would be imported
+  invalid: number;          // Rows that would be skipped
+}
+
+/**
+ * The response of an import
+ */
+export interface ImportResult {
+  created: User[];          // The users that were added
+  skipped: ImportRowResult[]; // Rows that were not imported, with their errors (the report)
+}
@@ -0,0 +1,113 @@
+/**
+ * OpenAPI Types
+ * The parts of an OpenAPI 3.1 document our API description uses
+ * (see backend/openapi/spec.ts, served at GET /api/openapi.json)
+ *
+ * Full specification: https://spec.openapis.org/oas/v3.1.0
+ */
+
+/**
+ * A link to a shared definition, e.g. { $ref: '#/components/schemas/User' }
+ */
+export interface ReferenceObject {
+  $ref: string;
+}
+
+/**
+ * JSON Schema (2020-12) describing a value
+ */
+export interface SchemaObject {
+  $ref?: string;
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null' | ('string' | 'number' | 'null')[];
+  format?: string;                  // e.g. "email", "date-time", "binary"
+  description?: string;
+  enum?: readonly (string | number)[];
+  const?: string | number | boolean;
+  default?: unknown;
+  examples?: unknown[];
+  // Strings and numbers
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  // Objects
+  properties?: Record<string, SchemaObject>;
+  required?: string[];
+  additionalProperties?: boolean | SchemaObject;
+  // Arrays
+  items?: SchemaObject;
+  minItems?: number;
+  maxItems?: number;
+  // Combinations
+  allOf?: SchemaObject[];
+  oneOf?: SchemaObject[];
+  discriminator?: { propertyName: string };
+}
+
+/**
+ * One query, path or header parameter of an operation
+ */
+export interface ParameterObject {
+  name: string;
+  in: 'query' | 'path' | 'header';
+  required?: boolean;
+  description?: string;
+  schema: SchemaObject;
+}
+
+/**
+ * A body in one content type, e.g. "application/json"
+ */
+export interface MediaTypeObject {
+  schema: SchemaObject;
+  example?: unknown;
+}
+
+export interface RequestBodyObject {
+  required?: boolean;
+  description?: string;
+  content: Record<string, MediaTypeObject>;
+}
+
+export interface ResponseObject {
+  description: string;
+  headers?: Record<string, { description?: string; schema: SchemaObject }>;
+  content?: Record<string, MediaTypeObject>;
+}
+
+/**
+ * One method on one path, e.g. GET /api/users
+ */
+export interface OperationObject {
+  operationId: string;              // Unique name, e.g. "listUsers"
+  summary: string;
+  description?: string;
+  tags: string[];
+  parameters?: (ParameterObject | ReferenceObject)[];
+  requestBody?: RequestBodyObject;
+  responses: Record<string, ResponseObject | ReferenceObject>; // By status code, e.g. "200"
+}
+
+export const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'] as const;
+
+export type HttpMethod = (typeof HTTP_METHODS)[number];
+
+export type PathItemObject = Partial<Record<HttpMethod, OperationObject>>;
+
+/**
+ * The whole document
+ */
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: { title: string; version: string; description?: string };
+  tags: { name: string; description?: string }[];
+  security: Record<string, string[]>[];
+  paths: Record<string, PathItemObject>; // By URL template, e.g. "/api/users/{id}"
+  components: {
+    schemas: Record<string, SchemaObject>;
+    parameters: Record<string, ParameterObject>;
+    responses: Record<string, ResponseObject>;
+    securitySchemes: Record<string, { type: 'apiKey'; in: 'cookie'; name: string; description?: string }>;
+  };
+}
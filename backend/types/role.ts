@@ -0,0 +1,59 @@
+/**
+ * Role Interface
+ * A role groups permissions and is assigned to users (User.roleId)
+ * Roles are stored data, so new roles can be added without code changes
+ */
+export interface Role {
+  id: string;                 // Unique identifier (users point to this)
+  name: string;               // Display name, e.g. "Manager" (unique)
+  description: string;        // What this role is for
+  color: RoleColor;           // Badge color in the UI
+  permissions: Permission[];  // What users with this role are allowed to do
+}
+
+/**
+ * Every permission that can be given to a role
+ * "as const" makes TypeScript treat these as fixed values, not just any string
+ */
+export const PERMISSIONS = [
+  'users:read',         // See users
+  'users:create',       // Add users
+  'users:update',       // Edit name, email and profile fields of users
+  'users:delete',       // Delete users
+  'users:change-role',  // Change the role of a user
+  'roles:manage',       // Create, edit and delete roles
+  'webhooks:manage',    // Create, edit and delete webhooks, see their delivery log
+  'attributes:manage',  // Define, edit and delete custom user attributes
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+/**
+ * Colors a role badge can have
+ * The UI maps each one to fixed Tailwind classes (see RoleBadge)
+ */
+export const ROLE_COLORS = ['gray', 'red', 'yellow', 'green', 'blue', 'indigo', 'purple', 'pink'] as const;
+
+export type RoleColor = (typeof ROLE_COLORS)[number];
+
+/**
+ * CreateRoleDto (Data Transfer Object)
+ * This defines what data is needed to CREATE a new role
+ */
+export interface CreateRoleDto {
+  name: string;               // Required: Role name
+  description?: string;       // Optional: defaults to ""
+  color: RoleColor;           // Required: Badge color
+  permissions: Permission[];  // Required: may be empty (no permissions)
+}
+
+/**
+ * UpdateRoleDto (Data Transfer Object)
+ * All fields are optional (?) because you might only want to update one field
+ */
+export interface UpdateRoleDto {
+  name?: string;
+  description?: string;
+  color?: RoleColor;
+  permissions?: Permission[];
+}
@@ -7,10 +7,40 @@ export interface User {
   id: string;           // Unique identifier for each user
   name: string;         // User's full name
   email: string;        // User's email address
-  role: string;         // User's role (Admin, User, Manager, Developer)
+  roleId: string;       // ID of the user's role (see backend/types/role.ts)
   createdAt: string;    // Timestamp when user was created
+  updatedAt: string;    // Timestamp of the last change
+  version: number;      // Goes up by 1 on every change (sent as the ETag, see backend/utils/etag.ts)
+  deletedAt?: string;   // Timestamp when user was moved to the trash (missing = not deleted)
+  phone?: string;       // Phone number, as typed (missing = not set)
+  department?: string;  // e.g. "Engineering" (missing = not set)
+  jobTitle?: string;    // e.g. "Team Lead" (missing = not set)
+  managerId?: string;   // ID of the user this user reports to (missing = nobody)
+  status: UserStatus;   // Whether the account is in use (suspended users can't sign in)
+  attributes: UserAttributes; // Values of the admin-defined custom attributes (see backend/types/attribute.ts)
+  avatar?: string;      // ID of the uploaded profile picture (missing = initials are shown instead)
 }
 
+/**
+ * Every status a user can have
+ * active = normal, suspended = temporarily blocked, invited = asked to join but not started yet
+ */
+export const USER_STATUSES = ['active', 'suspended', 'invited'] as const;
+
+export type UserStatus = (typeof USER_STATUSES)[number];
+
+/**
+ * The value of one custom attribute
+ * text, date ("YYYY-MM-DD") and enum values are strings, number values are numbers
+ */
+export type AttributeValue = string | number;
+
+/**
+ * Custom attribute values by attribute key, e.g. { costCenter: 'CC-12', startDate: '2024-03-01' }
+ * Attributes without a value are left out
+ */
+export type UserAttributes = Record<string, AttributeValue>;
+
 /**
  * CreateUserDto (Data Transfer Object)
  * This defines what data is needed to CREATE a new user
@@ -19,8 +49,14 @@ export interface User {
 export interface CreateUserDto {
   name: string;         // Required: User's name
   email: string;        // Required: User's email
-  role: string;         // Required: User's role
-  // Note: id and createdAt are NOT included because they're auto-generated
+  roleId: string;       // Required: ID of the user's role
+  phone?: string;       // Optional: "" or missing = not set
+  department?: string;  // Optional: "" or missing = not set
+  jobTitle?: string;    // Optional: "" or missing = not set
+  managerId?: string;   // Optional: "" or missing = reports to nobody
+  status?: UserStatus;  // Optional: defaults to "active"
+  attributes?: UserAttributes; // Optional: custom attribute values (required attributes must be included)
+  // Note: id, createdAt, updatedAt and version are NOT included because they're auto-generated
 }
 
 /**
@@ -31,5 +67,77 @@ export interface CreateUserDto {
 export interface UpdateUserDto {
   name?: string;        // Optional: Update user's name
   email?: string;       // Optional: Update user's email
-  role?: string;        // Optional: Update user's role
+  roleId?: string;      // Optional: Update user's role
+  phone?: string;       // Optional: "" removes the phone number
+  department?: string;  // Optional: "" removes the department
+  jobTitle?: string;    // Optional: "" removes the job title
+  managerId?: string;   // Optional: "" removes the manager
+  status?: UserStatus;  // Optional: Update user's status
+  attributes?: UserAttributes; // Optional: replaces ALL custom attribute values (leave a key out to remove it)
+}
+
+/**
+ * Fields the user list can be sorted by
+ * "role" sorts by the NAME of the user's role
+ */
+export type UserSortField = 'name' | 'email' | 'role' | 'createdAt' | 'deletedAt';
+
+/**
+ * Sort direction: ascending (A→Z, oldest first) or descending
+ */
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * UserListQuery
+ * Options for fetching a page of users (GET /api/users?page=1&pageSize=10...)
+ */
+export interface UserListQuery {
+  page: number;             // Which page to return (starts at 1)
+  pageSize: number;         // How many users per page
+  sort: UserSortField;      // Field to sort by
+  order: SortOrder;         // Sort direction
+  q?: string;               // Optional: search text matched against name, email and role name
+  roleId?: string;          // Optional: only users with this role
+  createdFrom?: string;     // Optional: only users created on/after this date (ISO)
+  createdTo?: string;       // Optional: only users created on/before this date (ISO)
+  includeDeleted?: boolean | 'only'; // Optional: true = also users in the trash, 'only' = just the trash
+}
+
+/**
+ * Fields that the search box (?q=) looks at
+ * "role" means the NAME of the user's role
+ */
+export type SearchableUserField = 'name' | 'email' | 'role';
+
+/**
+ * MatchRange
+ * Marks which characters of a field matched the search text
+ * start is inclusive, end is exclusive - same as String.prototype.slice()
+ */
+export interface MatchRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * UserListItem
+ * A user as returned by GET /api/users
+ * `managerName` saves the UI from looking up every manager by id
+ * When searching, `highlights` tells the UI which parts of each field to highlight
+ */
+export interface UserListItem extends User {
+  managerName?: string; // Name of the user's manager (missing = no manager, or the manager was purged)
+  highlights?: Partial<Record<SearchableUserField, MatchRange[]>>;
+}
+
+/**
+ * PaginatedResult
+ * The "envelope" returned for list endpoints
+ * items = the current page, total = number of matches across ALL pages
+ */
+export interface PaginatedResult<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
 }
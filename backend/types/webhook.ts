@@ -0,0 +1,128 @@
+/**
+ * Webhook Types
+ * Webhooks tell other systems (e.g. provisioning scripts) about user changes:
+ * for every change, a signed JSON payload is POSTed to each subscribed URL
+ *
+ * A Webhook is the subscription (where to send, which events, the secret).
+ * A WebhookDelivery is one payload on its way to one webhook - it is kept
+ * after sending, so the delivery log shows what was sent and what came back.
+ */
+
+import { AuditAction, AuditActor } from './audit';
+import { User } from './user';
+
+/**
+ * The events a webhook can subscribe to - one per kind of user change
+ */
+export const WEBHOOK_EVENT_TYPES = ['user.created', 'user.updated', 'user.deleted', 'user.restored', 'user.purged'] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+/**
+ * The webhook event sent for each kind of change in the audit log
+ */
+export const WEBHOOK_EVENT_BY_ACTION: Record<AuditAction, WebhookEventType> = {
+  create: 'user.created',
+  update: 'user.updated',
+  delete: 'user.deleted',
+  restore: 'user.restored',
+  purge: 'user.purged',
+};
+
+/**
+ * Webhook Interface
+ * One subscription
+ */
+export interface Webhook {
+  id: string;                   // Unique identifier
+  url: string;                  // Where payloads are POSTed (http or https)
+  events: WebhookEventType[];   // Which changes are sent
+  secret: string;               // Key for the X-Webhook-Signature header (never sent back after creation)
+  description: string;          // What the webhook is for, e.g. "Provisioning"
+  active: boolean;              // false = nothing is sent until it is switched on again
+  createdAt: string;            // Timestamp when the webhook was created
+  updatedAt: string;            // Timestamp of the last change
+}
+
+/**
+ * A webhook as the API shows it: without the secret
+ * (POST /api/webhooks answers with the full Webhook once, so the secret can be copied)
+ */
+export type WebhookResponse = Omit<Webhook, 'secret'>;
+
+/**
+ * CreateWebhookDto (Data Transfer Object)
+ * What is needed to create a webhook
+ */
+export interface CreateWebhookDto {
+  url: string;                  // Required
+  events: WebhookEventType[];   // Required: at least one event
+  secret?: string;              // Optional: a random secret is made when missing
+  description?: string;         // Optional: defaults to ""
+  active?: boolean;             // Optional: defaults to true
+}
+
+/**
+ * UpdateWebhookDto (Data Transfer Object)
+ * All fields are optional - sending a new secret replaces the old one
+ */
+export interface UpdateWebhookDto {
+  url?: string;
+  events?: WebhookEventType[];
+  secret?: string;
+  description?: string;
+  active?: boolean;
+}
+
+/**
+ * WebhookPayload
+ * The JSON body POSTed to the webhook's URL
+ * Redeliveries send the same payload again (same id), so receivers can skip duplicates
+ */
+export interface WebhookPayload {
+  id: string;                   // Unique per event
+  type: WebhookEventType;       // What happened
+  createdAt: string;            // When it happened (ISO)
+  data: {
+    user: User;                 // The user after the change (before it, for user.purged)
+    actor: AuditActor;          // Who made the change
+  };
+}
+
+/**
+ * Where a delivery is
+ * pending = waiting for its (next) attempt, succeeded = the URL answered 2xx,
+ * failed = every attempt failed (or the webhook is gone) - can be redelivered by hand
+ */
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'succeeded', 'failed'] as const;
+
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+/**
+ * WebhookDelivery Interface
+ * One payload for one webhook, and how sending it went
+ */
+export interface WebhookDelivery {
+  id: string;                   // Unique identifier (sent as the X-Webhook-Delivery header)
+  webhookId: string;            // The webhook it is sent to
+  payload: WebhookPayload;      // What is sent
+  status: WebhookDeliveryStatus;
+  attempts: number;             // How often sending was tried so far
+  nextAttemptAt: string | null; // When the next try is due (null once succeeded or failed)
+  lastAttemptAt?: string;       // When it was last tried
+  responseStatus?: number;      // HTTP status of the last answer (missing = no answer, e.g. timeout)
+  responseBody?: string;        // Start of the last answer's body
+  error?: string;               // Why the last try failed
+  redeliveryOf?: string;        // The delivery this one repeats (sent by hand)
+  createdAt: string;            // When it was queued
+}
+
+/**
+ * DeliveryQuery
+ * Options for reading a webhook's delivery log (GET /api/webhooks/:id/deliveries)
+ */
+export interface DeliveryQuery {
+  page: number;
+  pageSize: number;
+  status?: WebhookDeliveryStatus;  // Only deliveries with this status
+}
@@ -0,0 +1,96 @@
+/**
+ * Audit Query Helpers
+ * Turns URL query parameters into an AuditQuery, and applies that query
+ * (filter → newest first → paginate) to the audit log
+ *
+ * Example: /api/audit?userId=2&action=update&from=2025-01-01&page=2
+ */
+
+import { AUDIT_ACTIONS, AuditAction, AuditEntry, AuditQuery } from '../types/audit';
+import { PaginatedResult } from '../types/user';
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  ParseResult,
+  dateRange,
+  isValidDate,
+  parsePositiveInt,
+} from './userQuery';
+
+/**
+ * PARSE AUDIT QUERY
+ * Validates the query parameters of GET /api/audit
+ *
+ * @param {URLSearchParams} params - request.nextUrl.searchParams
+ * @returns {ParseResult<AuditQuery>} The parsed query or an error message
+ */
+export function parseAuditQuery(params: URLSearchParams): ParseResult<AuditQuery> {
+  const page = parsePositiveInt(params.get('page'), 1);
+  if (Number.isNaN(page)) {
+    return { ok: false, error: 'page must be a positive integer' };
+  }
+
+  const pageSize = parsePositiveInt(params.get('pageSize'), DEFAULT_PAGE_SIZE);
+  if (Number.isNaN(pageSize) || pageSize > MAX_PAGE_SIZE) {
+    return { ok: false, error: `pageSize must be an integer between 1 and ${MAX_PAGE_SIZE}` };
+  }
+
+  const action = (params.get('action') || undefined) as AuditAction | undefined;
+  if (action && !AUDIT_ACTIONS.includes(action)) {
+    return { ok: false, error: `action must be one of: ${AUDIT_ACTIONS.join(', ')}` };
+  }
+
+  const from = params.get('from') || undefined;
+  const to = params.get('to') || undefined;
+  if ((from && !isValidDate(from)) || (to && !isValidDate(to))) {
+    return { ok: false, error: 'from and to must be valid dates' };
+  }
+
+  return {
+    ok: true,
+    value: {
+      page,
+      pageSize,
+      userId: params.get('userId') || undefined,
+      actorId: params.get('actorId') || undefined,
+      action,
+      from,
+      to,
+    },
+  };
+}
+
+/**
+ * APPLY AUDIT QUERY
+ * Filters the log and cuts out one page, newest entries first
+ *
+ * @param {AuditEntry[]} entries - The whole log (oldest first, as stored)
+ * @param {AuditQuery} query - Parsed query options
+ * @returns {PaginatedResult<AuditEntry>} The requested page plus the total match count
+ */
+export function applyAuditQuery(entries: AuditEntry[], query: AuditQuery): PaginatedResult<AuditEntry> {
+  const { from, to } = dateRange(query.from, query.to);
+
+  // 1. FILTER
+  const matched = entries.filter((entry) => {
+    if (query.userId && entry.userId !== query.userId) return false;
+    if (query.actorId && entry.actor.id !== query.actorId) return false;
+    if (query.action && entry.action !== query.action) return false;
+
+    const time = new Date(entry.timestamp).getTime();
+    return time >= from && time <= to;
+  });
+
+  // 2. NEWEST FIRST - the log is stored oldest first, so reversing is enough
+  matched.reverse();
+
+  // 3. PAGINATE
+  const start = (query.page - 1) * query.pageSize;
+
+  return {
+    items: matched.slice(start, start + query.pageSize),
+    total: matched.length,
+    page: query.page,
+    pageSize: query.pageSize,
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * CSV Helpers
+ * Reads and writes CSV text (comma separated values, RFC 4180)
+ *
+ * Used by the browser (importing users, exporting selected users) and the
+ * server (exports) - plain functions without any Node.js APIs, so they work on both sides.
+ */
+
+// A leading + or - followed only by digits, spaces, ( ) . and - : phone numbers
+// like "+1 (555) 010-9999" or numbers like "-12.5". Without letters such a value
+// can't call a function or point to another cell, so it is left as it is.
+const NUMBER_LIKE_PATTERN = /^[+-][\d\s().-]*$/;
+
+/**
+ * SPREADSHEET SAFE
+ * Keeps a CSV value from being run as a formula when the file is opened in Excel & co.
+ * Values starting with =, @, a tab or a carriage return - and values starting with
+ * + or - that aren't just a number or phone number - get a leading apostrophe, which
+ * spreadsheets read as "this cell is text": =HYPERLINK(...) → '=HYPERLINK(...)
+ * (Excel files don't need this: their text cells are never run as formulas)
+ * @param {string} value - One cell value
+ */
+export function spreadsheetSafe(value: string): string {
+  const isFormulaLike = /^[=@\t\r]/.test(value) || (/^[+-]/.test(value) && !NUMBER_LIKE_PATTERN.test(value));
+  return isFormulaLike ? `'${value}` : value;
+}
+
+/**
+ * UNDO SPREADSHEET SAFE
+ * Removes the apostrophe spreadsheetSafe() added, so a file we wrote can be
+ * imported again without it: '=HYPERLINK(...) → =HYPERLINK(...)
+ * Other values (including "'quoted'" texts) are returned unchanged.
+ * @param {string} value - One value read from a CSV file
+ */
+export function undoSpreadsheetSafe(value: string): string {
+  const original = value.slice(1);
+  return value.startsWith("'") && spreadsheetSafe(original) === value ? original : value;
+}
+
+/**
+ * Quotes one value if needed
+ * Values containing a comma, quote or line break are wrapped in quotes,
+ * and quotes inside are doubled: He said "hi" → "He said ""hi"""
+ * Formula-like values are made safe first (see spreadsheetSafe)
+ */
+function csvField(value: string): string {
+  const safe = spreadsheetSafe(value);
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * CSV LINE
+ * One line of CSV, including its \r\n line break
+ * Lets a file be written line by line (e.g. streamed) instead of all at once
+ * @param {string[]} values - The values of the line
+ */
+export function csvLine(values: string[]): string {
+  return values.map(csvField).join(',') + '\r\n';
+}
+
+/**
+ * TO CSV
+ * @param {string[]} header - Column names (first line)
+ * @param {string[][]} rows - One array of values per line
+ * @returns {string} The CSV text, lines separated by \r\n as the standard says
+ */
+export function toCsv(header: string[], rows: string[][]): string {
+  return [header, ...rows].map(csvLine).join('');
+}
+
+/**
+ * PARSE CSV
+ * Splits CSV text into rows of values
+ * Handles quoted values (with commas, line breaks and "" inside) and both
+ * \n and \r\n line endings. Empty lines are skipped.
+ *
+ * @param {string} text - The CSV text
+ * @returns {string[][]} One array of values per line
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Ends the current value / line
+  const endField = () => {
+    row.push(field);
+    field = '';
+  };
+  const endRow = () => {
+    endField();
+    if (row.length > 1 || row[0] !== '') rows.push(row); // Skip empty lines
+    row = [];
+  };
+
+  // A byte order mark (added by Excel) is not part of the first value
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'; // "" inside quotes is one quote
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      endField();
+    } else if (char === '\n') {
+      endRow();
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+
+  // The last line may not end with a line break
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+}
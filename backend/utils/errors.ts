@@ -0,0 +1,71 @@
+/**
+ * Custom Error Classes
+ * Services throw these for "expected" problems, and the API routes turn
+ * them into the matching HTTP status code (instead of a generic 500)
+ */
+
+import { Permission } from '../types/role';
+
+/**
+ * ConflictError
+ * Thrown when a change would break a uniqueness rule, e.g. two users with the same email
+ * API routes respond with 409 (Conflict) and name the conflicting field
+ */
+export class ConflictError extends Error {
+  /**
+   * @param {string} field - The field that caused the conflict (e.g. "email")
+   * @param {string} message - Human readable explanation
+   */
+  constructor(
+    public readonly field: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * PreconditionFailedError
+ * Thrown when a change was based on an old version of a record,
+ * i.e. someone else saved it in the meantime (optimistic concurrency)
+ * API routes respond with 412 (Precondition Failed) and the current record
+ */
+export class PreconditionFailedError extends Error {
+  constructor(message = 'This record was changed by someone else') {
+    super(message);
+    this.name = 'PreconditionFailedError';
+  }
+}
+
+/**
+ * ValidationError
+ * Thrown when data has the right shape but breaks a rule that needs stored data
+ * to check, e.g. a user pointing to a role that doesn't exist
+ * API routes respond with 422 (Unprocessable Entity) and { errors }
+ */
+export class ValidationError extends Error {
+  /**
+   * @param {Record<string, string>} errors - Error message per field, e.g. { roleId: 'Unknown role' }
+   */
+  constructor(public readonly errors: Record<string, string>) {
+    super(Object.values(errors).join(', '));
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * ForbiddenError
+ * Thrown when the signed-in user lacks a permission for one step of a larger
+ * request (e.g. one operation of a batch)
+ * API routes respond with 403 (Forbidden) and name the missing permission
+ */
+export class ForbiddenError extends Error {
+  /**
+   * @param {Permission} permission - The permission that is needed
+   */
+  constructor(public readonly permission: Permission) {
+    super('You do not have permission to do this');
+    this.name = 'ForbiddenError';
+  }
+}
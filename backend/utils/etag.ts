@@ -0,0 +1,36 @@
+/**
+ * ETag Helpers
+ * Optimistic concurrency for users over HTTP
+ *
+ * How it works:
+ * 1. Every response with a single user has an ETag header with its version: ETag: "3"
+ * 2. When saving, the client sends that value back: If-Match: "3"
+ * 3. If the user is no longer at version 3 (someone else saved it), the
+ *    server answers 412 Precondition Failed instead of overwriting their change
+ */
+
+import { User } from '../types/user';
+
+/**
+ * Builds the ETag header value for a user, e.g. "3" (the quotes are part of the value)
+ * @param {User} user - The user being returned
+ */
+export function userETag(user: Pick<User, 'version'>): string {
+  return `"${user.version}"`;
+}
+
+/**
+ * Reads the version from an If-Match header
+ *
+ * @param {string | null} header - request.headers.get('if-match')
+ * @returns {number | undefined} The expected version, undefined when there is nothing to check
+ *   (no header or "*"), or NaN for a weak tag or a value we don't understand (which never matches → 412)
+ */
+export function parseIfMatch(header: string | null): number | undefined {
+  const value = header?.trim();
+  if (!value || value === '*') return undefined;
+
+  // Only the strong form "3": If-Match compares strongly (RFC 9110), so a weak W/"3" never matches
+  const match = /^"(\d+)"$/.exec(value);
+  return match ? Number(match[1]) : NaN;
+}
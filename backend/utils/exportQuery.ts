@@ -0,0 +1,122 @@
+/**
+ * Export Query Helpers
+ * Reads the "how should the file look" part of GET /api/users/export
+ *
+ * Example: /api/users/export?format=xlsx&columns=name,email,createdAt&locale=de-DE&timeZone=Europe/Berlin
+ *
+ * Which users end up in the file is decided by the normal list parameters
+ * (q, roleId, sort, ...) - see parseUserListQuery.
+ */
+
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  ExportColumn,
+  ExportFormat,
+  ExportOptions,
+} from '../types/export';
+import { ParseResult } from './userQuery';
+
+const DEFAULT_LOCALE = 'en-US';
+const DEFAULT_TIME_ZONE = 'UTC';
+
+/**
+ * Returns the locale if dates can be formatted for it, otherwise undefined
+ * supportedLocalesOf throws for text that isn't a locale at all ("not a locale!")
+ */
+function supportedLocale(locale: string): string | undefined {
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf(locale)[0];
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Checks that a time zone name is known, e.g. "Europe/Berlin"
+ */
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat(DEFAULT_LOCALE, { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Picks the first usable locale from an Accept-Language header
+ * "de-CH,de;q=0.9,en;q=0.8" → "de-CH" (entries are tried by their q weight)
+ */
+function localeFromAcceptLanguage(header: string | null): string | undefined {
+  const entries = (header ?? '')
+    .split(',')
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(';');
+      const weight = params.find((param) => param.trim().startsWith('q='));
+      return { tag: tag.trim(), q: weight ? Number(weight.trim().slice(2)) : 1 };
+    })
+    .filter((entry) => entry.tag && entry.tag !== '*' && entry.q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  for (const entry of entries) {
+    const locale = supportedLocale(entry.tag);
+    if (locale) return locale;
+  }
+  return undefined;
+}
+
+/**
+ * PARSE EXPORT OPTIONS
+ * Validates format, columns, locale and timeZone
+ *
+ * - format: "csv" (default), "json" or "xlsx"
+ * - columns: comma separated, in the order they should appear (default: name,email,role,createdAt)
+ * - locale: how dates are written; falls back to the Accept-Language header, then en-US
+ * - timeZone: which clock dates are written in (default: UTC)
+ *
+ * @param {URLSearchParams} params - request.nextUrl.searchParams
+ * @param {string | null} acceptLanguage - The request's Accept-Language header
+ * @returns {ParseResult<ExportOptions>} The options or an error message for a 400 response
+ */
+export function parseExportOptions(
+  params: URLSearchParams,
+  acceptLanguage: string | null
+): ParseResult<ExportOptions> {
+  const format = (params.get('format') || 'csv') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return { ok: false, error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` };
+  }
+
+  // "name, email,,name" → ['name', 'email'] (blanks and repeats are dropped)
+  const columnsParam = params.get('columns');
+  const columns = columnsParam
+    ? [...new Set(columnsParam.split(',').map((column) => column.trim()).filter(Boolean))]
+    : DEFAULT_EXPORT_COLUMNS;
+  const unknown = columns.filter((column) => !EXPORT_COLUMNS.includes(column as ExportColumn));
+  if (columns.length === 0 || unknown.length > 0) {
+    return { ok: false, error: `columns must be a comma separated list of: ${EXPORT_COLUMNS.join(', ')}` };
+  }
+
+  const localeParam = params.get('locale');
+  const locale = localeParam ? supportedLocale(localeParam) : localeFromAcceptLanguage(acceptLanguage);
+  if (localeParam && !locale) {
+    return { ok: false, error: 'locale must be a supported language tag, e.g. "en-US"' };
+  }
+
+  const timeZone = params.get('timeZone') || DEFAULT_TIME_ZONE;
+  if (!isValidTimeZone(timeZone)) {
+    return { ok: false, error: 'timeZone must be a time zone name, e.g. "Europe/Berlin"' };
+  }
+
+  return {
+    ok: true,
+    value: {
+      format,
+      columns: columns as ExportColumn[],
+      locale: locale ?? DEFAULT_LOCALE,
+      timeZone,
+    },
+  };
+}
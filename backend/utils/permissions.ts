@@ -0,0 +1,82 @@
+/**
+ * Permission Helpers
+ * Small checks shared by the API (403 responses) and the UI (hiding buttons)
+ *
+ * What each built-in role may do (see repositories/seedData.ts):
+ * - Admin:            everything, including deleting users and changing roles
+ * - Manager:          create and edit users (but not Admins - see canAssignRole)
+ * - Developer, User:  read only
+ */
+
+import { Permission, Role } from '../types/role';
+import { UpdateUserDto, User } from '../types/user';
+
+/**
+ * Checks if a list of permissions contains the given permission
+ * @param {Permission[]} permissions - The signed-in user's permissions
+ * @param {Permission} permission - The permission that is needed
+ */
+export function hasPermission(permissions: Permission[], permission: Permission): boolean {
+  return permissions.includes(permission);
+}
+
+/**
+ * CAN ASSIGN ROLE
+ * Checks if someone may give a NEW user this role
+ *
+ * With "users:change-role" any role can be given. Without it, only roles
+ * that grant nothing beyond your own permissions - so a Manager can add
+ * Developers and Users, but can't create an Admin.
+ *
+ * @param {Permission[]} permissions - The signed-in user's permissions
+ * @param {Role} role - The role to give
+ */
+export function canAssignRole(permissions: Permission[], role: Role): boolean {
+  if (hasPermission(permissions, 'users:change-role')) return true;
+  return role.permissions.every((permission) => hasPermission(permissions, permission));
+}
+
+/**
+ * MISSING EDIT PERMISSION
+ * Checks if someone may make these changes to a user
+ * - every field except roleId (name, email, status, profile fields, attributes...) needs "users:update"
+ * - a different roleId needs "users:change-role" (sending the current role is fine)
+ * - users whose role you couldn't give (see canAssignRole) need "users:change-role" for
+ *   any change - so a Manager can't suspend an Admin or change the Admin's email
+ *
+ * @param {Permission[]} permissions - The signed-in user's permissions
+ * @param {User} current - The user as it is saved now
+ * @param {UpdateUserDto} changes - The fields that will be written
+ * @param {Role} currentRole - The role of `current` (undefined if it no longer exists)
+ * @returns {Permission | null} The first permission that is missing, or null when allowed
+ */
+export function missingEditPermission(
+  permissions: Permission[],
+  current: User,
+  changes: UpdateUserDto,
+  currentRole: Role | undefined
+): Permission | null {
+  const changesProfile = Object.keys(changes).some((field) => field !== 'roleId');
+  if (changesProfile && !hasPermission(permissions, 'users:update')) {
+    return 'users:update';
+  }
+  if (changes.roleId !== undefined && changes.roleId !== current.roleId && !hasPermission(permissions, 'users:change-role')) {
+    return 'users:change-role';
+  }
+  if (currentRole && !canAssignRole(permissions, currentRole)) {
+    return 'users:change-role';
+  }
+  return null;
+}
+
+/**
+ * CAN EDIT USER
+ * Checks if someone may edit a user at all (used by the UI to disable the Edit button)
+ * Needs "users:update", and the user's role must be one you could give
+ *
+ * @param {Permission[]} permissions - The signed-in user's permissions
+ * @param {Role} role - The user's role (undefined if it no longer exists, or isn't loaded yet)
+ */
+export function canEditUser(permissions: Permission[], role: Role | undefined): boolean {
+  return hasPermission(permissions, 'users:update') && (!role || canAssignRole(permissions, role));
+}
@@ -0,0 +1,45 @@
+/**
+ * Request Body Helpers
+ * Reading uploads without trusting the client to say how large they are
+ *
+ * Why not just check Content-Length?
+ * - Chunked uploads don't send one at all, and request.formData() reads the
+ *   whole body into memory before we could look at the file size
+ * - readLimitedBody counts the bytes while they arrive and stops as soon as
+ *   there are too many, so a huge upload never fills the server's memory
+ */
+
+/**
+ * Reads the whole request body, up to a limit
+ *
+ * @param {Request} request - The incoming HTTP request
+ * @param {number} maxBytes - The most bytes that are accepted
+ * @returns {Promise<Uint8Array<ArrayBuffer> | null>} The body, or null when it is larger than maxBytes
+ */
+export async function readLimitedBody(request: Request, maxBytes: number): Promise<Uint8Array<ArrayBuffer> | null> {
+  if (!request.body) return new Uint8Array(0);
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel(); // Stop receiving the rest
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  // Join the chunks into one block of bytes
+  const body = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+}
@@ -0,0 +1,68 @@
+/**
+ * Editable User Fields
+ * Helpers for the fields of a user that clients can change
+ *
+ * Optional fields (phone, department...) are simply missing from a User when
+ * they are not set, but clients send "" to clear them. editableUser() fills in
+ * "" (and the other defaults), so two versions of a user can be compared field
+ * by field. Used by PUT/PATCH /api/users/:id, userService, UserForm and ConflictResolver.
+ */
+
+import { CreateUserDto, User } from '../types/user';
+
+/**
+ * Every editable field, with nothing left out ("" = not set)
+ */
+export type EditableUser = Required<CreateUserDto>;
+
+/**
+ * The optional text fields - "" means "not set", and they are left out of the stored user
+ */
+export const OPTIONAL_TEXT_FIELDS = ['phone', 'department', 'jobTitle', 'managerId'] as const;
+
+/**
+ * EDITABLE USER
+ * The editable fields of a user, with the defaults filled in
+ * @param {Partial<User>} user - A stored user (nothing = the values of a brand new, empty user)
+ * @returns {EditableUser} e.g. { name: 'Jane', ..., phone: '', status: 'active', attributes: {} }
+ */
+export function editableUser(user: Partial<User> = {}): EditableUser {
+  return {
+    name: user.name ?? '',
+    email: user.email ?? '',
+    roleId: user.roleId ?? '',
+    phone: user.phone ?? '',
+    department: user.department ?? '',
+    jobTitle: user.jobTitle ?? '',
+    managerId: user.managerId ?? '',
+    status: user.status ?? 'active',
+    attributes: user.attributes ?? {},
+  };
+}
+
+/**
+ * SAME FIELD VALUE
+ * Compares two values of one editable field
+ * Attribute maps are equal when they have the same values, in any key order
+ */
+export function sameFieldValue(a: unknown, b: unknown): boolean {
+  if (typeof a === 'object' && a !== null && typeof b === 'object' && b !== null) {
+    const aRecord = a as Record<string, unknown>;
+    const bRecord = b as Record<string, unknown>;
+    const keys = Object.keys(aRecord);
+    return keys.length === Object.keys(bRecord).length && keys.every((key) => aRecord[key] === bRecord[key]);
+  }
+  return a === b;
+}
+
+/**
+ * Leaves out the optional text fields that are "" (not set), so they aren't stored
+ * @param {T} user - A user (or changes) that may contain "" values
+ */
+export function withoutEmptyFields<T extends Partial<User>>(user: T): T {
+  const result = { ...user };
+  for (const field of OPTIONAL_TEXT_FIELDS) {
+    if (result[field] === '') delete result[field];
+  }
+  return result;
+}
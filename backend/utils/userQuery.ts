@@ -0,0 +1,224 @@
+/**
+ * User Query Helpers
+ * Turns URL query parameters into a UserListQuery, and applies that
+ * query (filter → search → sort → paginate) to a list of users
+ *
+ * Example: /api/users?page=2&pageSize=20&sort=name&order=desc&roleId=admin&q=jane
+ *
+ * Users in the trash (deletedAt set) are left out unless ?includeDeleted=true
+ * (everyone) or ?includeDeleted=only (the trash view) is given.
+ */
+
+import { Role } from '../types/role';
+import {
+  PaginatedResult,
+  SortOrder,
+  User,
+  UserListItem,
+  UserListQuery,
+  UserSortField,
+} from '../types/user';
+import { searchTerms, searchUser } from './userSearch';
+
+export const DEFAULT_PAGE_SIZE = 10;
+export const MAX_PAGE_SIZE = 100;
+export const MAX_SEARCH_LENGTH = 100;
+
+export const SORT_FIELDS: UserSortField[] = ['name', 'email', 'role', 'createdAt', 'deletedAt'];
+const SORT_ORDERS: SortOrder[] = ['asc', 'desc'];
+
+// Matches a plain calendar date like "2025-01-31" (no time part)
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Result of parsing: either a valid query, or an error message for a 400 response
+ */
+export type ParseResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: string };
+
+/**
+ * Reads a positive whole number from the query string
+ * Returns the fallback when the parameter is missing, or NaN when it is invalid
+ */
+export function parsePositiveInt(value: string | null, fallback: number): number {
+  if (value === null || value === '') return fallback;
+  const number = Number(value);
+  return Number.isInteger(number) && number > 0 ? number : NaN;
+}
+
+/**
+ * Checks that a date parameter can be understood by new Date()
+ */
+export function isValidDate(value: string): boolean {
+  return !Number.isNaN(new Date(value).getTime());
+}
+
+/**
+ * PARSE LIST QUERY
+ * Validates the query parameters of GET /api/users
+ *
+ * @param {URLSearchParams} params - request.nextUrl.searchParams
+ * @returns {ParseResult<UserListQuery>} The parsed query or an error message
+ */
+export function parseUserListQuery(params: URLSearchParams): ParseResult<UserListQuery> {
+  const page = parsePositiveInt(params.get('page'), 1);
+  if (Number.isNaN(page)) {
+    return { ok: false, error: 'page must be a positive integer' };
+  }
+
+  const pageSize = parsePositiveInt(params.get('pageSize'), DEFAULT_PAGE_SIZE);
+  if (Number.isNaN(pageSize) || pageSize > MAX_PAGE_SIZE) {
+    return { ok: false, error: `pageSize must be an integer between 1 and ${MAX_PAGE_SIZE}` };
+  }
+
+  const sort = (params.get('sort') || 'createdAt') as UserSortField;
+  if (!SORT_FIELDS.includes(sort)) {
+    return { ok: false, error: `sort must be one of: ${SORT_FIELDS.join(', ')}` };
+  }
+
+  const order = (params.get('order') || 'asc') as SortOrder;
+  if (!SORT_ORDERS.includes(order)) {
+    return { ok: false, error: 'order must be "asc" or "desc"' };
+  }
+
+  const createdFrom = params.get('createdFrom') || undefined;
+  const createdTo = params.get('createdTo') || undefined;
+  if ((createdFrom && !isValidDate(createdFrom)) || (createdTo && !isValidDate(createdTo))) {
+    return { ok: false, error: 'createdFrom and createdTo must be valid dates' };
+  }
+
+  const q = params.get('q')?.trim() || undefined;
+  if (q && q.length > MAX_SEARCH_LENGTH) {
+    return { ok: false, error: `q must be at most ${MAX_SEARCH_LENGTH} characters` };
+  }
+
+  // includeDeleted: missing or "false" = no deleted users, "true" = all users, "only" = just the trash
+  const includeDeletedParam = params.get('includeDeleted') || 'false';
+  if (!['true', 'false', 'only'].includes(includeDeletedParam)) {
+    return { ok: false, error: 'includeDeleted must be "true", "false" or "only"' };
+  }
+  const includeDeleted =
+    includeDeletedParam === 'only' ? 'only' : includeDeletedParam === 'true' ? true : undefined;
+
+  return {
+    ok: true,
+    value: {
+      page,
+      pageSize,
+      sort,
+      order,
+      roleId: params.get('roleId') || undefined,
+      createdFrom,
+      createdTo,
+      q,
+      includeDeleted,
+    },
+  };
+}
+
+/**
+ * Converts two date filters to timestamps
+ * A date-only end date (e.g. 2025-01-31) includes that whole day
+ * @param {string} fromDate - Optional start date (missing = no lower limit)
+ * @param {string} toDate - Optional end date (missing = no upper limit)
+ */
+export function dateRange(fromDate?: string, toDate?: string): { from: number; to: number } {
+  const from = fromDate ? new Date(fromDate).getTime() : -Infinity;
+
+  let to = Infinity;
+  if (toDate) {
+    to = new Date(toDate).getTime();
+    if (DATE_ONLY.test(toDate)) {
+      to += 24 * 60 * 60 * 1000 - 1; // End of that day
+    }
+  }
+
+  return { from, to };
+}
+
+/**
+ * MATCH LIST QUERY
+ * Searches, filters and sorts users - every match, without paging
+ * (page and pageSize are ignored; used by the list and by exports)
+ *
+ * @param {User[]} users - All users
+ * @param {UserListQuery} query - Parsed query options
+ * @param {Role[]} roles - All roles (searching and sorting use the role NAME, not the id)
+ * @returns {UserListItem[]} Every matching user, in order
+ */
+export function matchUserListQuery(
+  users: User[],
+  query: Omit<UserListQuery, 'page' | 'pageSize'>,
+  roles: Role[]
+): UserListItem[] {
+  const { from, to } = dateRange(query.createdFrom, query.createdTo);
+
+  // Look up role names by id: { admin: 'Admin', ... }
+  const roleNames = new Map(roles.map((role) => [role.id, role.name]));
+  const roleName = (user: User) => roleNames.get(user.roleId) ?? '';
+
+  // 1. FILTER
+  const filtered = users.filter((user) => {
+    // Users in the trash only show up when asked for
+    if (user.deletedAt ? !query.includeDeleted : query.includeDeleted === 'only') return false;
+    if (query.roleId && user.roleId !== query.roleId) return false;
+
+    const created = new Date(user.createdAt).getTime();
+    return created >= from && created <= to;
+  });
+
+  // 2. SEARCH - keeps only matching users and adds highlight ranges
+  const terms = searchTerms(query.q ?? '');
+  const matched: UserListItem[] =
+    terms.length === 0
+      ? filtered
+      : filtered
+          .map((user) => searchUser(user, terms, roleName(user)))
+          .filter((user): user is UserListItem => user !== null);
+
+  // 3. SORT
+  // localeCompare gives a natural A→Z order ("bob" and "Bob" sort together)
+  // ISO date strings sort correctly as text too, so one comparison covers every field
+  // (a missing deletedAt sorts as an empty string, i.e. before any date)
+  const sortValue = (user: User) => (query.sort === 'role' ? roleName(user) : user[query.sort] ?? '');
+  const direction = query.order === 'desc' ? -1 : 1;
+  matched.sort(
+    (a, b) =>
+      direction * sortValue(a).localeCompare(sortValue(b), undefined, { sensitivity: 'base' }) ||
+      a.id.localeCompare(b.id) // Tie-breaker keeps the order stable between pages
+  );
+
+  // 4. MANAGER NAMES - looked up among all users (the manager may not be a match)
+  const userNames = new Map(users.map((user) => [user.id, user.name]));
+  return matched.map((user) =>
+    user.managerId && userNames.has(user.managerId) ? { ...user, managerName: userNames.get(user.managerId) } : user
+  );
+}
+
+/**
+ * APPLY LIST QUERY
+ * Searches, filters, sorts and cuts out one page of users
+ *
+ * @param {User[]} users - All users
+ * @param {UserListQuery} query - Parsed query options
+ * @param {Role[]} roles - All roles (searching and sorting use the role NAME, not the id)
+ * @returns {PaginatedResult<UserListItem>} The requested page plus the total match count
+ */
+export function applyUserListQuery(
+  users: User[],
+  query: UserListQuery,
+  roles: Role[]
+): PaginatedResult<UserListItem> {
+  const matched = matchUserListQuery(users, query, roles);
+
+  // 4. PAGINATE
+  const start = (query.page - 1) * query.pageSize;
+
+  return {
+    items: matched.slice(start, start + query.pageSize),
+    total: matched.length,
+    page: query.page,
+    pageSize: query.pageSize,
+  };
+}
@@ -0,0 +1,155 @@
+/**
+ * User Search
+ * Matches search text (?q=) against a user's name, email and role name
+ *
+ * How matching works:
+ * - The search text is split into terms ("jo smi" → ["jo", "smi"])
+ * - EVERY term has to match at least one field for the user to be included
+ * - A term matches if it appears anywhere in a field (case-insensitive),
+ *   e.g. "doe" matches "John Doe" and "example" matches "john@example.com"
+ * - Otherwise a term of 4+ characters may match the start of a word with a
+ *   small typo (fuzzy match), e.g. "jonh" still finds "John"
+ *
+ * The matched character ranges are returned so the UI can highlight them.
+ */
+
+import { MatchRange, SearchableUserField, User, UserListItem } from '../types/user';
+
+const SEARCHABLE_FIELDS: SearchableUserField[] = ['name', 'email', 'role'];
+
+// Fuzzy matching is only used for terms at least this long (short terms would match everything)
+const MIN_FUZZY_LENGTH = 4;
+
+// Finds "words" in a text: runs of letters or digits (so emails split on @ and .)
+const WORD = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Counts how many single-character edits (insert, delete, replace, swap)
+ * turn `a` into `b` (Damerau-Levenshtein "optimal string alignment" distance)
+ */
+function editDistance(a: string, b: string): number {
+  // d[i][j] = distance between the first i chars of a and the first j chars of b
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,        // delete
+        d[i][j - 1] + 1,        // insert
+        d[i - 1][j - 1] + cost  // replace
+      );
+      // swap of two neighbouring characters ("jonh" → "john")
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+}
+
+/**
+ * How many typos we forgive for a term: 1 for short terms, 2 for long ones
+ */
+function allowedTypos(term: string): number {
+  return term.length >= 8 ? 2 : 1;
+}
+
+/**
+ * Finds where `term` matches inside `text`
+ * @returns {MatchRange[]} Matched ranges (empty if the term doesn't match)
+ */
+function matchTerm(text: string, term: string): MatchRange[] {
+  const lowerText = text.toLowerCase();
+
+  // 1. Exact (substring) matches - every occurrence is highlighted
+  const ranges: MatchRange[] = [];
+  let index = lowerText.indexOf(term);
+  while (index !== -1) {
+    ranges.push({ start: index, end: index + term.length });
+    index = lowerText.indexOf(term, index + term.length);
+  }
+  if (ranges.length > 0 || term.length < MIN_FUZZY_LENGTH) return ranges;
+
+  // 2. Fuzzy matches - compare the term with the start of each word
+  for (const word of lowerText.matchAll(WORD)) {
+    const start = word.index ?? 0;
+    // Try prefixes one character shorter/longer too, so missing or extra letters count
+    for (const length of [term.length, term.length + 1, term.length - 1]) {
+      if (length > word[0].length) continue;
+      if (editDistance(term, word[0].slice(0, length)) <= allowedTypos(term)) {
+        ranges.push({ start, end: start + length });
+        break;
+      }
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Sorts ranges and merges the ones that overlap or touch
+ * e.g. [0-3] and [2-5] become [0-5]
+ */
+function mergeRanges(ranges: MatchRange[]): MatchRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: MatchRange[] = [];
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Splits search text into lowercase terms
+ * @param {string} q - Raw search text, e.g. "  Jane  ADMIN "
+ * @returns {string[]} e.g. ["jane", "admin"]
+ */
+export function searchTerms(q: string): string[] {
+  return q.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * SEARCH USER
+ * Checks one user against the search terms
+ *
+ * @param {User} user - The user to check
+ * @param {string[]} terms - Output of searchTerms()
+ * @param {string} roleName - Name of the user's role (users only store the role id)
+ * @returns {UserListItem | null} The user with highlight ranges, or null if it doesn't match
+ */
+export function searchUser(user: User, terms: string[], roleName: string): UserListItem | null {
+  const highlights: UserListItem['highlights'] = {};
+  const texts: Record<SearchableUserField, string> = {
+    name: user.name,
+    email: user.email,
+    role: roleName,
+  };
+
+  for (const term of terms) {
+    let termMatched = false;
+
+    for (const field of SEARCHABLE_FIELDS) {
+      const ranges = matchTerm(texts[field], term);
+      if (ranges.length === 0) continue;
+
+      termMatched = true;
+      highlights[field] = mergeRanges([...(highlights[field] ?? []), ...ranges]);
+    }
+
+    // Every term must match somewhere, otherwise the user is not a result
+    if (!termMatched) return null;
+  }
+
+  return { ...user, highlights };
+}
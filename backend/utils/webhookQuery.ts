@@ -0,0 +1,63 @@
+/**
+ * Webhook Query Helpers
+ * Turns URL query parameters into a DeliveryQuery, and applies that query
+ * (filter → newest first → paginate) to a webhook's delivery log
+ *
+ * Example: /api/webhooks/123/deliveries?status=failed&page=2
+ */
+
+import { DeliveryQuery, WEBHOOK_DELIVERY_STATUSES, WebhookDelivery, WebhookDeliveryStatus } from '../types/webhook';
+import { PaginatedResult } from '../types/user';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, ParseResult, parsePositiveInt } from './userQuery';
+
+/**
+ * PARSE DELIVERY QUERY
+ * Validates the query parameters of GET /api/webhooks/:id/deliveries
+ *
+ * @param {URLSearchParams} params - request.nextUrl.searchParams
+ * @returns {ParseResult<DeliveryQuery>} The parsed query or an error message
+ */
+export function parseDeliveryQuery(params: URLSearchParams): ParseResult<DeliveryQuery> {
+  const page = parsePositiveInt(params.get('page'), 1);
+  if (Number.isNaN(page)) {
+    return { ok: false, error: 'page must be a positive integer' };
+  }
+
+  const pageSize = parsePositiveInt(params.get('pageSize'), DEFAULT_PAGE_SIZE);
+  if (Number.isNaN(pageSize) || pageSize > MAX_PAGE_SIZE) {
+    return { ok: false, error: `pageSize must be an integer between 1 and ${MAX_PAGE_SIZE}` };
+  }
+
+  const status = (params.get('status') || undefined) as WebhookDeliveryStatus | undefined;
+  if (status && !WEBHOOK_DELIVERY_STATUSES.includes(status)) {
+    return { ok: false, error: `status must be one of: ${WEBHOOK_DELIVERY_STATUSES.join(', ')}` };
+  }
+
+  return { ok: true, value: { page, pageSize, status } };
+}
+
+/**
+ * APPLY DELIVERY QUERY
+ * Filters one webhook's deliveries and cuts out one page, newest first
+ *
+ * @param {WebhookDelivery[]} deliveries - That webhook's deliveries (oldest first, as stored)
+ * @param {DeliveryQuery} query - Parsed query options
+ * @returns {PaginatedResult<WebhookDelivery>} The requested page plus the total match count
+ */
+export function applyDeliveryQuery(
+  deliveries: WebhookDelivery[],
+  query: DeliveryQuery
+): PaginatedResult<WebhookDelivery> {
+  // 1. FILTER, 2. NEWEST FIRST - stored oldest first, so reversing is enough
+  const matched = deliveries.filter((delivery) => !query.status || delivery.status === query.status).reverse();
+
+  // 3. PAGINATE
+  const start = (query.page - 1) * query.pageSize;
+
+  return {
+    items: matched.slice(start, start + query.pageSize),
+    total: matched.length,
+    page: query.page,
+    pageSize: query.pageSize,
+  };
+}
@@ -0,0 +1,210 @@
+/**
+ * Custom Attribute Validation Schemas
+ * Rules for attribute definitions (POST/PUT /api/attributes), and for the
+ * attribute values of a user
+ *
+ * validateAttributeValues() is used by userService (to reject bad values with 422)
+ * AND by UserForm (to show the same messages before the request is even sent).
+ */
+
+import {
+  ATTRIBUTE_TYPES,
+  AttributeDefinition,
+  CreateAttributeDto,
+  UpdateAttributeDto,
+} from '../types/attribute';
+import { AttributeValue, UserAttributes } from '../types/user';
+import {
+  FieldErrors,
+  FieldValidator,
+  ObjectSchema,
+  ValidationResult,
+  arrayOf,
+  boolean,
+  isPlainObject,
+  oneOf,
+  optional,
+  string,
+  validateObject,
+} from './schema';
+
+export const ATTRIBUTE_KEY_MAX_LENGTH = 50;
+export const ATTRIBUTE_LABEL_MAX_LENGTH = 100;
+export const ATTRIBUTE_OPTION_MAX_LENGTH = 100;
+export const ATTRIBUTE_TEXT_MAX_LENGTH = 500;
+
+// Keys are used in JSON and in URLs: "costCenter", "start_date"
+export const ATTRIBUTE_KEY_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+// Names every JavaScript object already has ("constructor", "toString", "valueOf"...)
+// A key like that would read the built-in instead of a missing value, so they can't be used
+export const ATTRIBUTE_RESERVED_KEYS: readonly string[] = Object.getOwnPropertyNames(Object.prototype);
+
+// A calendar date without a time: "2025-01-31"
+export const ATTRIBUTE_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * The fields a client is allowed to send, and how each one is checked
+ */
+const attributeSchema: ObjectSchema<CreateAttributeDto> = {
+  key: string({
+    max: ATTRIBUTE_KEY_MAX_LENGTH,
+    pattern: ATTRIBUTE_KEY_PATTERN,
+    message: 'Must start with a letter and contain only letters, digits and "_"',
+  }),
+  label: string({ max: ATTRIBUTE_LABEL_MAX_LENGTH }),
+  type: oneOf(ATTRIBUTE_TYPES),
+  options: optional(arrayOf(string({ max: ATTRIBUTE_OPTION_MAX_LENGTH }))),
+  required: optional(boolean()),
+};
+
+/**
+ * Only label, options and required can be changed
+ */
+const updateAttributeSchema: ObjectSchema<UpdateAttributeDto> = {
+  label: attributeSchema.label,
+  options: attributeSchema.options,
+  required: attributeSchema.required,
+};
+
+/**
+ * Checks that the options fit the attribute type:
+ * enum attributes need at least one option, the other types can't have any
+ * @returns {string | undefined} The error message for "options", if any
+ */
+export function optionsError(type: AttributeDefinition['type'], options: string[] | undefined): string | undefined {
+  if (type === 'enum' && (!options || options.length === 0)) return 'Enum attributes need at least one option';
+  if (type !== 'enum' && options && options.length > 0) return 'Only enum attributes have options';
+  return undefined;
+}
+
+/**
+ * VALIDATE CREATE
+ * key, label and type are required; options are required for enum attributes
+ * @param {unknown} input - The parsed JSON body of POST /api/attributes
+ */
+export function validateCreateAttribute(input: unknown): ValidationResult<CreateAttributeDto> {
+  const result = validateObject(attributeSchema, input);
+  if (!result.ok) return result;
+
+  if (ATTRIBUTE_RESERVED_KEYS.includes(result.value.key)) {
+    return { ok: false, errors: { key: 'Is a reserved name' } };
+  }
+
+  const error = optionsError(result.value.type, result.value.options);
+  return error ? { ok: false, errors: { options: error } } : result;
+}
+
+/**
+ * VALIDATE UPDATE
+ * Every field is optional, but the ones that are sent must be valid
+ * (whether the options fit the attribute's type is checked by attributeService)
+ * @param {unknown} input - The parsed JSON body of PUT /api/attributes/:key
+ */
+export function validateUpdateAttribute(input: unknown): ValidationResult<UpdateAttributeDto> {
+  return validateObject(updateAttributeSchema, input, { partial: true });
+}
+
+// ==================== ATTRIBUTE VALUES ====================
+
+/**
+ * ATTRIBUTE VALUES VALIDATOR
+ * Checks only the shape of User.attributes: an object of texts and numbers
+ * Whether the keys and values fit the definitions is checked by validateAttributeValues()
+ */
+export function attributeValues(): FieldValidator<UserAttributes> {
+  return (input) => {
+    if (!isPlainObject(input)) return { ok: false, error: 'Must be an object' };
+
+    for (const [key, value] of Object.entries(input)) {
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        return { ok: false, error: `"${key}" must be a text or a number` };
+      }
+    }
+    return { ok: true, value: input as UserAttributes };
+  };
+}
+
+/**
+ * Checks that a "YYYY-MM-DD" text is a real date (not e.g. 2025-02-30)
+ */
+function isCalendarDate(value: string): boolean {
+  if (!ATTRIBUTE_DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Checks one value against its definition
+ * @returns The cleaned-up value (trimmed text), or an error message
+ */
+function checkValue(definition: AttributeDefinition, value: AttributeValue): { value: AttributeValue } | { error: string } {
+  switch (definition.type) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? { value } : { error: 'Must be a number' };
+    case 'date':
+      return typeof value === 'string' && isCalendarDate(value)
+        ? { value }
+        : { error: 'Must be a date (YYYY-MM-DD)' };
+    case 'enum':
+      return typeof value === 'string' && definition.options.includes(value)
+        ? { value }
+        : { error: `Must be one of: ${definition.options.join(', ')}` };
+    default:
+      if (typeof value !== 'string') return { error: 'Must be a text' };
+      return value.trim().length > ATTRIBUTE_TEXT_MAX_LENGTH
+        ? { error: `Must be at most ${ATTRIBUTE_TEXT_MAX_LENGTH} characters` }
+        : { value: value.trim() };
+  }
+}
+
+/**
+ * VALIDATE ATTRIBUTE VALUES
+ * Checks a user's complete set of custom attribute values against the definitions
+ *
+ * Rules:
+ * - Every key must belong to a defined attribute
+ * - Empty texts count as "no value" and are left out
+ * - Required attributes must have a value
+ * - Each value must fit its attribute's type
+ *
+ * Errors are keyed "attributes.<key>", e.g. { 'attributes.startDate': 'Is required' }
+ *
+ * @param {UserAttributes} values - The values (already shape-checked by attributeValues())
+ * @param {AttributeDefinition[]} definitions - Every defined attribute
+ * @returns {ValidationResult<UserAttributes>} The cleaned-up values, or every error that was found
+ */
+export function validateAttributeValues(
+  values: UserAttributes,
+  definitions: AttributeDefinition[]
+): ValidationResult<UserAttributes> {
+  const errors: FieldErrors = {};
+  const value: UserAttributes = {};
+
+  for (const key of Object.keys(values)) {
+    if (!definitions.some((definition) => definition.key === key)) {
+      errors[`attributes.${key}`] = 'Unknown attribute';
+    }
+  }
+
+  for (const definition of definitions) {
+    // Only the user's own values count, never built-ins like "toString"
+    const raw = Object.hasOwn(values, definition.key) ? values[definition.key] : undefined;
+    const isEmpty = raw === undefined || (typeof raw === 'string' && raw.trim() === '');
+
+    if (isEmpty) {
+      if (definition.required) errors[`attributes.${definition.key}`] = 'Is required';
+      continue;
+    }
+
+    const result = checkValue(definition, raw);
+    if ('error' in result) {
+      errors[`attributes.${definition.key}`] = result.error;
+    } else {
+      value[definition.key] = result.value;
+    }
+  }
+
+  if (Object.keys(errors).length > 0) return { ok: false, errors };
+  return { ok: true, value };
+}
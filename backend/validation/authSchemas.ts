@@ -0,0 +1,35 @@
+/**
+ * Auth Validation Schemas
+ * Rules for the sign-in form data and for new passwords
+ */
+
+import { LoginDto, SetPasswordDto } from '../types/auth';
+import { ObjectSchema, ValidationResult, string, validateObject } from './schema';
+
+// Shortest password that can be set for a user
+export const PASSWORD_MIN_LENGTH = 8;
+
+const loginSchema: ObjectSchema<LoginDto> = {
+  email: string({ max: 254 }),
+  password: string({ trim: false, max: 1000 }), // Spaces can be part of a password
+};
+
+/**
+ * VALIDATE LOGIN
+ * @param {unknown} input - The parsed JSON body of POST /api/auth/login
+ */
+export function validateLogin(input: unknown): ValidationResult<LoginDto> {
+  return validateObject(loginSchema, input);
+}
+
+const setPasswordSchema: ObjectSchema<SetPasswordDto> = {
+  password: string({ trim: false, min: PASSWORD_MIN_LENGTH, max: 1000 }),
+};
+
+/**
+ * VALIDATE SET PASSWORD
+ * @param {unknown} input - The parsed JSON body of PUT /api/users/:id/password
+ */
+export function validateSetPassword(input: unknown): ValidationResult<SetPasswordDto> {
+  return validateObject(setPasswordSchema, input);
+}
@@ -0,0 +1,114 @@
+/**
+ * Batch Validation Schemas
+ * Rules for the body of POST /api/users/batch
+ *
+ * Checking happens in two steps:
+ * 1. validateBatchRequest() checks the envelope - a broken envelope rejects the whole request
+ * 2. validateBatchOperation() checks each operation - a broken operation only fails that item
+ *    (or, in a transactional batch, the whole batch)
+ */
+
+import { BATCH_OPERATIONS, BatchOperation } from '../types/batch';
+import {
+  FieldValidator,
+  ObjectSchema,
+  ValidationResult,
+  boolean,
+  integer,
+  isPlainObject,
+  oneOf,
+  optional,
+  string,
+  validateObject,
+} from './schema';
+import { validateCreateUser, validateUpdateUser } from './userSchemas';
+
+// Most operations accepted in one request
+export const MAX_BATCH_OPERATIONS = 100;
+
+/**
+ * Accepts a list with 1 to MAX_BATCH_OPERATIONS items (the items are checked later)
+ */
+const operationList: FieldValidator<unknown[]> = (input) => {
+  if (!Array.isArray(input)) return { ok: false, error: 'Must be a list' };
+  if (input.length === 0) return { ok: false, error: 'Must contain at least one operation' };
+  if (input.length > MAX_BATCH_OPERATIONS) {
+    return { ok: false, error: `Must contain at most ${MAX_BATCH_OPERATIONS} operations` };
+  }
+  return { ok: true, value: input };
+};
+
+/**
+ * Accepts any JSON object (its fields are checked by the user schemas)
+ */
+const anyObject: FieldValidator<Record<string, unknown>> = (input) =>
+  isPlainObject(input) ? { ok: true, value: input } : { ok: false, error: 'Must be an object' };
+
+const batchSchema: ObjectSchema<{ operations: unknown[]; transactional?: boolean }> = {
+  operations: operationList,
+  transactional: optional(boolean()),
+};
+
+// The fields each kind of operation may have
+const op = oneOf(BATCH_OPERATIONS);
+const id = string({ max: 100 });
+const version = optional(integer({ min: 1 }));
+
+const createSchema: ObjectSchema<{ op: string; data: Record<string, unknown> }> = { op, data: anyObject };
+const updateSchema: ObjectSchema<{ op: string; id: string; data: Record<string, unknown>; version?: number }> = {
+  op,
+  id,
+  data: anyObject,
+  version,
+};
+const deleteSchema: ObjectSchema<{ op: string; id: string; version?: number }> = { op, id, version };
+
+/**
+ * VALIDATE BATCH REQUEST
+ * @param {unknown} input - The parsed JSON body of POST /api/users/batch
+ * @returns The operations (not checked yet) and the mode (transactional defaults to false)
+ */
+export function validateBatchRequest(
+  input: unknown
+): ValidationResult<{ operations: unknown[]; transactional: boolean }> {
+  const result = validateObject(batchSchema, input);
+  if (!result.ok) return result;
+  return { ok: true, value: { operations: result.value.operations, transactional: result.value.transactional ?? false } };
+}
+
+/**
+ * VALIDATE BATCH OPERATION
+ * Checks the operation itself (op, id, version), then its user data
+ * Field errors of the data use the plain field names (e.g. "email"), like POST /api/users
+ *
+ * @param {unknown} input - One item of "operations"
+ */
+export function validateBatchOperation(input: unknown): ValidationResult<BatchOperation> {
+  if (!isPlainObject(input)) {
+    return { ok: false, errors: { body: 'Operation must be a JSON object' } };
+  }
+
+  const type = op(input.op);
+  if (!type.ok) return { ok: false, errors: { op: type.error } };
+
+  // The operation's own fields first, then the user data inside it
+  if (type.value === 'create') {
+    const shape = validateObject(createSchema, input);
+    if (!shape.ok) return shape;
+    const data = validateCreateUser(shape.value.data);
+    if (!data.ok) return data;
+    return { ok: true, value: { op: 'create', data: data.value } };
+  }
+
+  if (type.value === 'update') {
+    const shape = validateObject(updateSchema, input);
+    if (!shape.ok) return shape;
+    const data = validateUpdateUser(shape.value.data);
+    if (!data.ok) return data;
+    return { ok: true, value: { op: 'update', id: shape.value.id, data: data.value, version: shape.value.version } };
+  }
+
+  const shape = validateObject(deleteSchema, input);
+  if (!shape.ok) return shape;
+  return { ok: true, value: { op: 'delete', id: shape.value.id, version: shape.value.version } };
+}
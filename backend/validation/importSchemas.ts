@@ -0,0 +1,52 @@
+/**
+ * Import Validation Schemas
+ * Rules for the body of POST /api/users/import
+ *
+ * Only the shape is checked here - whether each row is a valid user is
+ * checked row by row by importService, so one bad row doesn't reject the file.
+ */
+
+import { ImportRow } from '../types/import';
+import { FieldValidator, ObjectSchema, ValidationResult, boolean, isPlainObject, optional, validateObject } from './schema';
+
+// Most rows accepted in one import
+export const MAX_IMPORT_ROWS = 1000;
+
+/**
+ * Accepts a list of 1 to MAX_IMPORT_ROWS rows
+ * Every row must be an object whose name/email/role are text (missing = empty)
+ */
+const rowList: FieldValidator<ImportRow[]> = (input) => {
+  if (!Array.isArray(input)) return { ok: false, error: 'Must be a list' };
+  if (input.length === 0) return { ok: false, error: 'Must contain at least one row' };
+  if (input.length > MAX_IMPORT_ROWS) {
+    return { ok: false, error: `Must contain at most ${MAX_IMPORT_ROWS} rows` };
+  }
+
+  const rows: ImportRow[] = [];
+  for (const [index, raw] of input.entries()) {
+    const values = isPlainObject(raw) ? [raw.name ?? '', raw.email ?? '', raw.role ?? ''] : [];
+    if (values.length === 0 || values.some((value) => typeof value !== 'string')) {
+      return { ok: false, error: `Row ${index + 1}: name, email and role must be text` };
+    }
+    const [name, email, role] = values as string[];
+    rows.push({ name, email, role });
+  }
+  return { ok: true, value: rows };
+};
+
+const importSchema: ObjectSchema<{ rows: ImportRow[]; dryRun?: boolean }> = {
+  rows: rowList,
+  dryRun: optional(boolean()),
+};
+
+/**
+ * VALIDATE IMPORT REQUEST
+ * @param {unknown} input - The parsed JSON body of POST /api/users/import
+ * @returns The rows and the mode (dryRun defaults to false)
+ */
+export function validateImportRequest(input: unknown): ValidationResult<{ rows: ImportRow[]; dryRun: boolean }> {
+  const result = validateObject(importSchema, input);
+  if (!result.ok) return result;
+  return { ok: true, value: { rows: result.value.rows, dryRun: result.value.dryRun ?? false } };
+}
@@ -0,0 +1,38 @@
+/**
+ * Role Validation Schemas
+ * Rules for the data clients send to create or update a role
+ */
+
+import { CreateRoleDto, PERMISSIONS, ROLE_COLORS, UpdateRoleDto } from '../types/role';
+import { ObjectSchema, ValidationResult, arrayOf, oneOf, optional, string, validateObject } from './schema';
+
+export const ROLE_NAME_MAX_LENGTH = 50;
+export const ROLE_DESCRIPTION_MAX_LENGTH = 500;
+
+/**
+ * The fields a client is allowed to send, and how each one is checked
+ */
+const roleSchema: ObjectSchema<CreateRoleDto> = {
+  name: string({ max: ROLE_NAME_MAX_LENGTH }),
+  description: optional(string({ min: 0, max: ROLE_DESCRIPTION_MAX_LENGTH })),
+  color: oneOf(ROLE_COLORS),
+  permissions: arrayOf(oneOf(PERMISSIONS)),
+};
+
+/**
+ * VALIDATE CREATE
+ * name, color and permissions are required, description is optional
+ * @param {unknown} input - The parsed JSON body of POST /api/roles
+ */
+export function validateCreateRole(input: unknown): ValidationResult<CreateRoleDto> {
+  return validateObject(roleSchema, input);
+}
+
+/**
+ * VALIDATE UPDATE
+ * Every field is optional, but the ones that are sent must be valid
+ * @param {unknown} input - The parsed JSON body of PUT /api/roles/:id
+ */
+export function validateUpdateRole(input: unknown): ValidationResult<UpdateRoleDto> {
+  return validateObject(roleSchema, input, { partial: true });
+}
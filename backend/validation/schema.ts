@@ -0,0 +1,208 @@
+/**
+ * Schema Validation Helpers
+ * A very small validation library for checking JSON request bodies
+ *
+ * A "schema" is an object with one validator function per allowed field.
+ * validateObject() runs every validator and collects ALL errors at once,
+ * so the form can show a message next to every invalid input.
+ *
+ * Example:
+ *   const schema = { name: string({ max: 100 }), role: oneOf(['A', 'B']) };
+ *   validateObject(schema, { name: 'Jo', role: 'C' })
+ *   // → { ok: false, errors: { role: 'Must be one of: A, B' } }
+ */
+
+/**
+ * FieldErrors
+ * Maps a field name to its error message, e.g. { email: 'Must be a valid email address' }
+ * The special key "body" is used for problems with the body as a whole
+ */
+export type FieldErrors = Record<string, string>;
+
+/**
+ * Result of validating a whole object
+ */
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: FieldErrors };
+
+/**
+ * Result of validating a single field
+ * `value` is the cleaned-up value (e.g. trimmed string)
+ */
+export type FieldResult<V> = { ok: true; value: V } | { ok: false; error: string };
+
+/**
+ * A validator checks (and may clean up) one field value
+ * Validators created with optional() may be left out of the object
+ */
+export type FieldValidator<V> = ((value: unknown) => FieldResult<V>) & { optional?: boolean };
+
+/**
+ * ObjectSchema
+ * One validator per field of T - every field of T must have a validator
+ */
+export type ObjectSchema<T> = { [K in keyof T]-?: FieldValidator<NonNullable<T[K]>> };
+
+/**
+ * STRING VALIDATOR
+ * @param options.trim - Remove spaces at the start/end before checking (default true)
+ * @param options.min - Minimum length after trimming (default 1 = not empty)
+ * @param options.max - Maximum length after trimming
+ * @param options.pattern - Regular expression the value must match
+ * @param options.message - Error message when the pattern doesn't match
+ */
+export function string(
+  options: { trim?: boolean; min?: number; max?: number; pattern?: RegExp; message?: string } = {}
+): FieldValidator<string> {
+  const { trim = true, min = 1, max, pattern, message = 'Has an invalid format' } = options;
+
+  return (input) => {
+    if (typeof input !== 'string') return { ok: false, error: 'Must be a string' };
+
+    const value = trim ? input.trim() : input;
+    if (value.length < min) {
+      return { ok: false, error: min === 1 ? 'Must not be empty' : `Must be at least ${min} characters` };
+    }
+    if (max !== undefined && value.length > max) {
+      return { ok: false, error: `Must be at most ${max} characters` };
+    }
+    if (pattern && !pattern.test(value)) return { ok: false, error: message };
+
+    return { ok: true, value };
+  };
+}
+
+/**
+ * ONE-OF VALIDATOR
+ * Accepts only the listed values (exact match)
+ * @param {readonly string[]} allowed - The allowed values
+ */
+export function oneOf<V extends string>(allowed: readonly V[]): FieldValidator<V> {
+  return (input) =>
+    allowed.includes(input as V)
+      ? { ok: true, value: input as V }
+      : { ok: false, error: `Must be one of: ${allowed.join(', ')}` };
+}
+
+/**
+ * INTEGER VALIDATOR
+ * Accepts whole numbers only (no strings like "3", no 1.5)
+ * @param options.min - Smallest allowed value
+ */
+export function integer(options: { min?: number } = {}): FieldValidator<number> {
+  return (input) => {
+    if (typeof input !== 'number' || !Number.isInteger(input)) {
+      return { ok: false, error: 'Must be a whole number' };
+    }
+    if (options.min !== undefined && input < options.min) {
+      return { ok: false, error: `Must be at least ${options.min}` };
+    }
+    return { ok: true, value: input };
+  };
+}
+
+/**
+ * BOOLEAN VALIDATOR
+ * Accepts true or false only
+ */
+export function boolean(): FieldValidator<boolean> {
+  return (input) =>
+    typeof input === 'boolean' ? { ok: true, value: input } : { ok: false, error: 'Must be true or false' };
+}
+
+/**
+ * ARRAY VALIDATOR
+ * Checks that the value is an array and validates every item
+ * Duplicate items are removed (e.g. ["a", "a"] becomes ["a"])
+ * @param {FieldValidator<V>} item - Validator for each item
+ */
+export function arrayOf<V>(item: FieldValidator<V>): FieldValidator<V[]> {
+  return (input) => {
+    if (!Array.isArray(input)) return { ok: false, error: 'Must be a list' };
+
+    const values: V[] = [];
+    for (const [index, raw] of input.entries()) {
+      const result = item(raw);
+      if (!result.ok) return { ok: false, error: `Item ${index + 1}: ${result.error}` };
+      if (!values.includes(result.value)) values.push(result.value);
+    }
+
+    return { ok: true, value: values };
+  };
+}
+
+/**
+ * OPTIONAL FIELD
+ * Marks a field that may be left out, even when creating
+ * @param {FieldValidator<V>} validator - Used when the field IS present
+ */
+export function optional<V>(validator: FieldValidator<V>): FieldValidator<V> {
+  const wrapped: FieldValidator<V> = (input) => validator(input);
+  wrapped.optional = true;
+  return wrapped;
+}
+
+/**
+ * Checks that a value is a plain JSON object ({ ... }), not an array or null
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * VALIDATE OBJECT
+ * Checks an unknown value (usually a parsed request body) against a schema
+ *
+ * Rules:
+ * - The value must be a JSON object
+ * - Fields that are not in the schema are rejected ("Unknown field")
+ * - Every schema field is required, unless it is optional() or
+ *   `partial` is true (used for updates)
+ *
+ * @param {ObjectSchema<T>} schema - One validator per allowed field
+ * @param {unknown} input - The value to check
+ * @param {Object} options - { partial: true } makes every field optional
+ * @returns {ValidationResult<T>} The cleaned-up value, or every error that was found
+ */
+export function validateObject<T>(
+  schema: ObjectSchema<T>,
+  input: unknown,
+  options: { partial?: boolean } = {}
+): ValidationResult<T> {
+  if (!isPlainObject(input)) {
+    return { ok: false, errors: { body: 'Request body must be a JSON object' } };
+  }
+
+  const errors: FieldErrors = {};
+  const value: Record<string, unknown> = {};
+
+  // 1. Reject fields the schema doesn't know about (e.g. "id" or "createdAt")
+  for (const key of Object.keys(input)) {
+    if (!Object.prototype.hasOwnProperty.call(schema, key)) {
+      errors[key] = 'Unknown field';
+    }
+  }
+
+  // 2. Validate every field in the schema
+  for (const key of Object.keys(schema) as (keyof T & string)[]) {
+    const raw = input[key];
+
+    const validator = schema[key] as FieldValidator<unknown>;
+
+    if (raw === undefined) {
+      if (!options.partial && !validator.optional) errors[key] = 'Is required';
+      continue;
+    }
+
+    const result = validator(raw);
+    if (result.ok) {
+      value[key] = result.value;
+    } else {
+      errors[key] = result.error;
+    }
+  }
+
+  if (Object.keys(errors).length > 0) return { ok: false, errors };
+  return { ok: true, value: value as T };
+}
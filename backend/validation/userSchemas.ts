@@ -0,0 +1,77 @@
+/**
+ * User Validation Schemas
+ * Rules for the data clients send to create or update a user
+ *
+ * Used by the API routes (to reject bad requests with 422) AND by UserForm
+ * (to show the same messages before the request is even sent).
+ */
+
+import { CreateUserDto, USER_STATUSES, UpdateUserDto } from '../types/user';
+import { EditableUser, editableUser } from '../utils/userFields';
+import { attributeValues } from './attributeSchemas';
+import { ObjectSchema, ValidationResult, oneOf, optional, string, validateObject } from './schema';
+
+export const NAME_MAX_LENGTH = 100;
+export const EMAIL_MAX_LENGTH = 254; // Longest email address allowed by the email standards
+export const PHONE_MAX_LENGTH = 30;
+export const PROFILE_TEXT_MAX_LENGTH = 100; // department and job title
+
+// Simple email check: something@something.something, without spaces
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Phone numbers as people type them: "+49 (30) 123-456"
+export const PHONE_PATTERN = /^[+\d\s().-]*$/;
+
+/**
+ * The fields a client is allowed to send, and how each one is checked
+ */
+const userSchema: ObjectSchema<CreateUserDto> = {
+  name: string({ max: NAME_MAX_LENGTH }),
+  email: string({ max: EMAIL_MAX_LENGTH, pattern: EMAIL_PATTERN, message: 'Must be a valid email address' }),
+  // Only the format is checked here - userService checks that the role exists
+  roleId: string({ max: 100 }),
+  // The optional fields accept "" (min: 0), which means "not set"
+  phone: optional(string({
+    min: 0,
+    max: PHONE_MAX_LENGTH,
+    pattern: PHONE_PATTERN,
+    message: 'Must be a phone number (digits, spaces and + - ( ) only)',
+  })),
+  department: optional(string({ min: 0, max: PROFILE_TEXT_MAX_LENGTH })),
+  jobTitle: optional(string({ min: 0, max: PROFILE_TEXT_MAX_LENGTH })),
+  // userService checks that the manager exists (and isn't the user themselves)
+  managerId: optional(string({ min: 0, max: 100 })),
+  status: optional(oneOf(USER_STATUSES)),
+  // Only the shape is checked here - userService checks the values against the attribute definitions
+  attributes: optional(attributeValues()),
+};
+
+/**
+ * VALIDATE CREATE
+ * name, email and roleId are required, the profile fields and attributes are optional
+ * @param {unknown} input - The parsed JSON body of POST /api/users
+ */
+export function validateCreateUser(input: unknown): ValidationResult<CreateUserDto> {
+  return validateObject(userSchema, input);
+}
+
+/**
+ * VALIDATE REPLACE
+ * PUT replaces the whole user, so - like create - name, email and roleId are required
+ * Optional fields that are left out are cleared ("" / "active" / no attributes)
+ * Also used for the result of a PATCH: after patching, the user must still be complete
+ * @param {unknown} input - The parsed JSON body of PUT /api/users/:id (or the patched user)
+ */
+export function validateReplaceUser(input: unknown): ValidationResult<EditableUser> {
+  const result = validateObject(userSchema, input);
+  return result.ok ? { ok: true, value: { ...editableUser(), ...result.value } } : result;
+}
+
+/**
+ * VALIDATE UPDATE
+ * Every field is optional, but the ones that are sent must be valid
+ * @param {unknown} input - The "data" of an update in POST /api/users/batch
+ */
+export function validateUpdateUser(input: unknown): ValidationResult<UpdateUserDto> {
+  return validateObject(userSchema, input, { partial: true });
+}
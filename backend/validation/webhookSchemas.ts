@@ -0,0 +1,77 @@
+/**
+ * Webhook Validation Schemas
+ * Rules for the data clients send to create or update a webhook
+ */
+
+import { CreateWebhookDto, UpdateWebhookDto, WEBHOOK_EVENT_TYPES } from '../types/webhook';
+import { FieldValidator, ObjectSchema, ValidationResult, arrayOf, boolean, oneOf, optional, string, validateObject } from './schema';
+
+export const WEBHOOK_URL_MAX_LENGTH = 2000;
+export const WEBHOOK_DESCRIPTION_MAX_LENGTH = 200;
+export const WEBHOOK_SECRET_MIN_LENGTH = 16;
+export const WEBHOOK_SECRET_MAX_LENGTH = 200;
+
+/**
+ * URL VALIDATOR
+ * Accepts absolute http:// and https:// URLs (http is allowed for local receivers)
+ */
+function httpUrl(): FieldValidator<string> {
+  const text = string({ max: WEBHOOK_URL_MAX_LENGTH });
+
+  return (input) => {
+    const result = text(input);
+    if (!result.ok) return result;
+
+    let url: URL;
+    try {
+      url = new URL(result.value);
+    } catch {
+      return { ok: false, error: 'Must be a valid URL' };
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return { ok: false, error: 'Must start with http:// or https://' };
+    }
+    return { ok: true, value: url.toString() };
+  };
+}
+
+/**
+ * AT LEAST ONE
+ * A list validator that also rejects empty lists (a webhook without events would never fire)
+ */
+function nonEmpty<V>(validator: FieldValidator<V[]>): FieldValidator<V[]> {
+  return (input) => {
+    const result = validator(input);
+    if (result.ok && result.value.length === 0) return { ok: false, error: 'Must contain at least one item' };
+    return result;
+  };
+}
+
+/**
+ * The fields a client is allowed to send, and how each one is checked
+ */
+const webhookSchema: ObjectSchema<CreateWebhookDto> = {
+  url: httpUrl(),
+  events: nonEmpty(arrayOf(oneOf(WEBHOOK_EVENT_TYPES))),
+  secret: optional(string({ trim: false, min: WEBHOOK_SECRET_MIN_LENGTH, max: WEBHOOK_SECRET_MAX_LENGTH })),
+  description: optional(string({ min: 0, max: WEBHOOK_DESCRIPTION_MAX_LENGTH })),
+  active: optional(boolean()),
+};
+
+/**
+ * VALIDATE CREATE
+ * url and events are required, the rest is optional
+ * @param {unknown} input - The parsed JSON body of POST /api/webhooks
+ */
+export function validateCreateWebhook(input: unknown): ValidationResult<CreateWebhookDto> {
+  return validateObject(webhookSchema, input);
+}
+
+/**
+ * VALIDATE UPDATE
+ * Every field is optional, but the ones that are sent must be valid
+ * @param {unknown} input - The parsed JSON body of PATCH /api/webhooks/:id
+ */
+export function validateUpdateWebhook(input: unknown): ValidationResult<UpdateWebhookDto> {
+  return validateObject(webhookSchema, input, { partial: true });
+}
@@ -0,0 +1,19 @@
+/**
+ * Attributes API Client
+ * Typed functions for the /api/attributes endpoints (see usersClient.ts for how the clients work)
+ */
+
+import { AttributeDefinition } from '@/backend/types/attribute';
+import { ApiResult, RequestOptions, apiRequest } from './request';
+
+/**
+ * Attributes Client Object
+ */
+export const attributesClient = {
+  /**
+   * GET /api/attributes - every custom attribute definition, in the order they were defined
+   */
+  list(options?: RequestOptions): Promise<ApiResult<AttributeDefinition[]>> {
+    return apiRequest('/api/attributes', options);
+  },
+};
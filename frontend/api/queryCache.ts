@@ -0,0 +1,251 @@
+/**
+ * Query Cache
+ * Remembers API responses in the browser, so components can show data right away
+ * and refresh it in the background (used through the useQuery hook)
+ *
+ * How it works:
+ * - Every response is stored under a key, e.g. "users?page=1&pageSize=10"
+ * - Stale-while-revalidate: cached data is shown at once, and refetched when it
+ *   is older than the component's staleTime
+ * - De-duplication: components asking for the same key share one request
+ * - When the browser window gets focus again, shown data is refetched
+ * - Optimistic updates: update() changes cached data before the server answers,
+ *   and rollback() puts it back if the request fails
+ *
+ * Example:
+ * const snapshot = queryCache.update('users?', (list) => ({ ...list, items: [] }));
+ * const result = await usersClient.remove(id, version);
+ * if (!result.ok) queryCache.rollback(snapshot);
+ * queryCache.invalidate('users?');
+ */
+
+import { ApiError, ApiResult } from './request';
+
+/**
+ * What a component sees for one key
+ * A new object on every change, so React can tell that something changed
+ */
+export interface QueryState<T> {
+  data?: T;                 // The last successful response (missing until the first one)
+  error?: ApiError;         // Why the last request failed (cleared by the next success)
+  isFetching: boolean;      // true while a request for this key is running
+}
+
+/**
+ * Loads the data for a key
+ */
+export type QueryFetcher<T> = () => Promise<ApiResult<T>>;
+
+/**
+ * Cached data of some keys from before an optimistic update (see rollback())
+ */
+export type CacheSnapshot = Map<string, unknown>;
+
+/**
+ * Everything the cache keeps per key
+ */
+interface CacheEntry {
+  state: QueryState<unknown>;
+  updatedAt: number;                // When data was last loaded (0 = must be refetched)
+  generation: number;               // Goes up on every local change - older responses are dropped
+  request?: { generation: number; promise: Promise<void> };
+  fetcher?: QueryFetcher<unknown>;  // How to load this key again (e.g. on window focus)
+  staleTime: number;
+  listeners: Set<() => void>;
+}
+
+const EMPTY_STATE: QueryState<never> = { isFetching: false };
+
+const entries = new Map<string, CacheEntry>();
+
+/**
+ * The entry for a key, created on first use
+ */
+function entryFor(key: string): CacheEntry {
+  let entry = entries.get(key);
+  if (!entry) {
+    entry = { state: EMPTY_STATE, updatedAt: 0, generation: 0, staleTime: 0, listeners: new Set() };
+    entries.set(key, entry);
+  }
+  return entry;
+}
+
+/**
+ * Change what components see for a key and tell them
+ */
+function setState(entry: CacheEntry, changes: Partial<QueryState<unknown>>) {
+  entry.state = { ...entry.state, ...changes };
+  entry.listeners.forEach((listener) => listener());
+}
+
+/**
+ * Which keys an update is for: every key starting with a prefix (e.g. "users?" =
+ * every user list), or the keys a function accepts
+ */
+export type KeyMatch = string | ((key: string) => boolean);
+
+/**
+ * The keys with cached data that match
+ */
+function keysWithData(match: KeyMatch): string[] {
+  const matches = typeof match === 'string' ? (key: string) => key.startsWith(match) : match;
+  return [...entries.keys()].filter((key) => matches(key) && entries.get(key)!.state.data !== undefined);
+}
+
+// ==================== WINDOW FOCUS ====================
+
+let isListeningForFocus = false;
+
+/**
+ * Refetch stale data that is on screen when the user comes back to the tab
+ * Started on the first subscription (there is no window on the server)
+ */
+function listenForFocus() {
+  if (isListeningForFocus || typeof window === 'undefined') return;
+  isListeningForFocus = true;
+
+  const refetchShown = () => {
+    if (document.visibilityState !== 'visible') return;
+    entries.forEach((entry, key) => {
+      if (entry.listeners.size > 0 && Date.now() - entry.updatedAt > entry.staleTime) {
+        queryCache.fetch(key);
+      }
+    });
+  };
+  window.addEventListener('focus', refetchShown);
+  document.addEventListener('visibilitychange', refetchShown);
+}
+
+// ==================== CACHE ====================
+
+/**
+ * Query Cache Object
+ */
+export const queryCache = {
+  /**
+   * The current state of a key (the same object until it changes)
+   */
+  read<T>(key: string): QueryState<T> {
+    return (entries.get(key)?.state ?? EMPTY_STATE) as QueryState<T>;
+  },
+
+  /**
+   * Get told whenever a key's state changes
+   * @returns {Function} Call it to stop listening
+   */
+  subscribe(key: string, listener: () => void): () => void {
+    listenForFocus();
+    const entry = entryFor(key);
+    entry.listeners.add(listener);
+    return () => {
+      entry.listeners.delete(listener);
+    };
+  },
+
+  /**
+   * Load a key unless its data is fresh enough
+   * Also remembers the fetcher and staleTime for later refetches (focus, invalidate)
+   *
+   * @param {string} key - The cache key
+   * @param {QueryFetcher} fetcher - How to load the data
+   * @param {number} staleTime - How long loaded data counts as fresh, in milliseconds
+   */
+  load<T>(key: string, fetcher: QueryFetcher<T>, staleTime: number): Promise<void> {
+    const entry = entryFor(key);
+    entry.fetcher = fetcher as QueryFetcher<unknown>;
+    entry.staleTime = staleTime;
+
+    if (Date.now() - entry.updatedAt <= staleTime) return Promise.resolve();
+    return queryCache.fetch(key);
+  },
+
+  /**
+   * Load a key now, with its remembered fetcher
+   * A request for the same key that is already running is shared, unless the
+   * cached data was changed after it started (its answer would be out of date)
+   */
+  fetch(key: string): Promise<void> {
+    const entry = entryFor(key);
+    const { fetcher } = entry;
+    if (!fetcher) return Promise.resolve();
+    if (entry.request && entry.request.generation === entry.generation) return entry.request.promise;
+
+    const generation = entry.generation;
+    const promise = (async () => {
+      setState(entry, { isFetching: true });
+      const result = await fetcher();
+
+      // Only the newest request of this key may finish it (a newer one always has a newer generation)
+      if (entry.request?.generation !== generation) return;
+      entry.request = undefined;
+
+      if (generation !== entry.generation) {
+        // Changed locally while loading: this answer is already outdated
+        setState(entry, { isFetching: false });
+      } else if (result.ok) {
+        entry.updatedAt = Date.now();
+        setState(entry, { data: result.data, error: undefined, isFetching: false });
+      } else {
+        setState(entry, { error: result.error, isFetching: false });
+      }
+    })();
+
+    entry.request = { generation, promise };
+    return promise;
+  },
+
+  /**
+   * OPTIMISTIC UPDATE
+   * Changes the cached data of the matching keys, right away
+   *
+   * @param {KeyMatch} match - e.g. "users?" for every cached user list
+   * @param {Function} updater - Gets the cached data, returns the changed copy
+   * @returns {CacheSnapshot} The data from before, for rollback()
+   */
+  update<T>(match: KeyMatch, updater: (data: T) => T): CacheSnapshot {
+    const snapshot: CacheSnapshot = new Map();
+    keysWithData(match).forEach((key) => {
+      const entry = entries.get(key)!;
+      snapshot.set(key, entry.state.data);
+      entry.generation += 1;
+      setState(entry, { data: updater(entry.state.data as T) });
+    });
+    return snapshot;
+  },
+
+  /**
+   * Put back the data from before an optimistic update (the request failed)
+   */
+  rollback(snapshot: CacheSnapshot) {
+    snapshot.forEach((data, key) => {
+      const entry = entryFor(key);
+      entry.generation += 1;
+      setState(entry, { data });
+    });
+  },
+
+  /**
+   * Mark every key starting with a prefix as out of date
+   * Keys on screen are refetched in the background right away, the others
+   * when they are shown again
+   */
+  invalidate(prefix: string) {
+    entries.forEach((entry, key) => {
+      if (!key.startsWith(prefix)) return;
+      entry.updatedAt = 0;
+      entry.generation += 1;
+      if (entry.listeners.size > 0) queryCache.fetch(key);
+    });
+  },
+  /**
+   * Forget everything (e.g. on sign out, so the next user never sees this user's data)
+   */
+  clear() {
+    entries.forEach((entry) => {
+      entry.updatedAt = 0;
+      entry.generation += 1;
+      entry.request = undefined;
+      setState(entry, { data: undefined, error: undefined, isFetching: false });
+    });
+  },
+};
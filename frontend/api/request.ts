@@ -0,0 +1,157 @@
+/**
+ * API Request Helper
+ * One place that talks to our API with fetch - used by the typed clients
+ * (e.g. usersClient.ts), never directly by components
+ *
+ * Every request:
+ * - Sends and reads JSON
+ * - Can be cancelled (pass an AbortSignal) and gives up after a timeout
+ * - Never throws: it returns { ok: true, data } or { ok: false, error }, where
+ *   error.kind says what went wrong, so callers can't forget the error case
+ */
+
+import { User } from '@/backend/types/user';
+import { Permission } from '@/backend/types/role';
+import { FieldErrors, isPlainObject } from '@/backend/validation/schema';
+
+// Requests that take longer than this are cancelled (in milliseconds)
+export const DEFAULT_TIMEOUT_MS = 15_000;
+
+// ==================== TYPES ====================
+
+/**
+ * Why a request failed
+ * - invalid:      422 or 409 with a message per field (show them in the form)
+ * - stale:        412 - someone else saved the user first; current is their version
+ * - forbidden:    403 - signed in, but missing a permission
+ * - unauthorized: 401 - not signed in (anymore)
+ * - not-found:    404
+ * - http:         any other error status (400, 409 without fields, 500, ...)
+ * - timeout:      no answer within the timeout
+ * - aborted:      cancelled by the caller (e.g. the component went away)
+ * - network:      the server couldn't be reached
+ */
+export type ApiError =
+  | { kind: 'invalid'; status: 409 | 422; message: string; errors: FieldErrors }
+  | { kind: 'stale'; status: 412; message: string; current: User }
+  | { kind: 'forbidden'; status: 403; message: string; permission?: Permission }
+  | { kind: 'unauthorized'; status: 401; message: string }
+  | { kind: 'not-found'; status: 404; message: string }
+  | { kind: 'http'; status: number; message: string }
+  | { kind: 'timeout'; message: string }
+  | { kind: 'aborted'; message: string }
+  | { kind: 'network'; message: string };
+
+/**
+ * The result of a request: the typed response body, or what went wrong
+ */
+export type ApiResult<T> =
+  | { ok: true; status: number; data: T }
+  | { ok: false; error: ApiError };
+
+/**
+ * Options every client function accepts
+ */
+export interface RequestOptions {
+  signal?: AbortSignal;     // Cancel the request, e.g. from an AbortController
+  timeoutMs?: number;       // Give up after this long (default DEFAULT_TIMEOUT_MS)
+}
+
+/**
+ * Everything needed for one request
+ */
+interface ApiRequestInit extends RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  json?: unknown;                   // Body, sent as JSON
+  form?: FormData;                  // Body, sent as multipart/form-data (e.g. file uploads) instead of JSON
+  contentType?: string;             // Content-Type of the body (default application/json)
+  headers?: Record<string, string>; // Extra headers, e.g. If-Match
+}
+
+// ==================== ERRORS ====================
+
+/**
+ * Turns an error response into an ApiError
+ * The kind is picked from the status and the shape of the body (see backend/types/api.ts)
+ * @param {number} status - The HTTP status
+ * @param {unknown} body - The parsed response body (undefined if it wasn't JSON)
+ */
+function toApiError(status: number, body: unknown): ApiError {
+  const data = isPlainObject(body) ? body : {};
+  const message = typeof data.error === 'string' ? data.error : `Request failed (${status})`;
+
+  if ((status === 422 || status === 409) && isPlainObject(data.errors)) {
+    return { kind: 'invalid', status, message, errors: data.errors as FieldErrors };
+  }
+  if (status === 412 && isPlainObject(data.current)) {
+    return { kind: 'stale', status, message, current: data.current as unknown as User };
+  }
+  if (status === 403) {
+    return { kind: 'forbidden', status, message, permission: data.permission as Permission | undefined };
+  }
+  if (status === 401) return { kind: 'unauthorized', status, message };
+  if (status === 404) return { kind: 'not-found', status, message };
+  return { kind: 'http', status, message };
+}
+
+// ==================== REQUEST ====================
+
+/**
+ * API REQUEST
+ * @param {string} path - The URL, e.g. "/api/users/1"
+ * @param {ApiRequestInit} init - Method, body, headers, signal and timeout
+ * @returns {Promise<ApiResult<T>>} The response body typed as T, or the error
+ *
+ * Example:
+ * const result = await apiRequest<User>('/api/users/1');
+ * if (result.ok) console.log(result.data.name);
+ * else console.log(result.error.message);
+ */
+export async function apiRequest<T>(path: string, init: ApiRequestInit = {}): Promise<ApiResult<T>> {
+  const { method = 'GET', json, form, contentType = 'application/json', headers, signal, timeoutMs = DEFAULT_TIMEOUT_MS } = init;
+
+  // One controller cancels the request on a timeout and when the caller's signal fires
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const cancel = () => controller.abort();
+  if (signal?.aborted) cancel();
+  signal?.addEventListener('abort', cancel);
+
+  try {
+    const response = await fetch(path, {
+      method,
+      // A form's Content-Type is set by the browser (it includes the boundary between the parts)
+      headers: json === undefined ? headers : { 'Content-Type': contentType, ...headers },
+      body: form ?? (json === undefined ? undefined : JSON.stringify(json)),
+      signal: controller.signal,
+    });
+
+    // Read the body (error bodies too - they say what was wrong)
+    let body: unknown;
+    try {
+      body = await response.json();
+    } catch (error) {
+      if (controller.signal.aborted) throw error; // Cancelled while reading
+      body = undefined; // Not JSON (e.g. an empty body)
+    }
+
+    return response.ok
+      ? { ok: true, status: response.status, data: body as T }
+      : { ok: false, error: toApiError(response.status, body) };
+  } catch {
+    if (timedOut) {
+      return { ok: false, error: { kind: 'timeout', message: 'The server took too long to answer' } };
+    }
+    if (controller.signal.aborted) {
+      return { ok: false, error: { kind: 'aborted', message: 'The request was cancelled' } };
+    }
+    return { ok: false, error: { kind: 'network', message: 'Could not reach the server' } };
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', cancel);
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Roles API Client
+ * Typed functions for the /api/roles endpoints (see usersClient.ts for how the clients work)
+ */
+
+import { Role } from '@/backend/types/role';
+import { ApiResult, RequestOptions, apiRequest } from './request';
+
+/**
+ * Roles Client Object
+ */
+export const rolesClient = {
+  /**
+   * GET /api/roles - every role, sorted by name
+   */
+  list(options?: RequestOptions): Promise<ApiResult<Role[]>> {
+    return apiRequest('/api/roles', options);
+  },
+};
@@ -0,0 +1,238 @@
+/**
+ * Users API Client
+ * Typed functions for every /api/users endpoint - components call these
+ * instead of writing fetch(), URLs, headers and JSON parsing themselves
+ *
+ * The request and response types come from the shared contract in
+ * backend/types/api.ts, which the route handlers use too. If a route's
+ * response changes, code using this client stops type-checking.
+ *
+ * Every function returns an ApiResult (see request.ts) and takes optional
+ * RequestOptions to cancel it or change its timeout.
+ *
+ * Example:
+ * const result = await usersClient.get('1');
+ * if (result.ok) setUser(result.data);
+ * else if (result.error.kind === 'not-found') ...
+ */
+
+import {
+  BatchRequestBody,
+  CheckEmailResponse,
+  ImportRequestBody,
+  MessageResponse,
+  SetPasswordRequestBody,
+  UserHistoryResponse,
+  UserListResponse,
+  UserMergePatch,
+  UserRequestBody,
+  UserResponse,
+} from '@/backend/types/api';
+import { BatchResponse } from '@/backend/types/batch';
+import { AvatarSize } from '@/backend/types/avatar';
+import { ExportOptions } from '@/backend/types/export';
+import { ImportPreview, ImportResult, ImportRow } from '@/backend/types/import';
+import { UserListQuery } from '@/backend/types/user';
+import { MERGE_PATCH_CONTENT_TYPE } from '@/backend/lib/jsonPatch';
+import { ApiResult, RequestOptions, apiRequest } from './request';
+
+// Imports can be large and are checked row by row - give them more time
+const IMPORT_TIMEOUT_MS = 60_000;
+
+// Pictures are uploaded and resized before the answer comes - give them more time too
+const AVATAR_UPLOAD_TIMEOUT_MS = 60_000;
+
+/**
+ * Turns query options into a URL query string
+ * Empty values are left out, e.g. { page: 1, q: '' } → "page=1"
+ */
+export function toQueryString(query: object): string {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+  return params.toString();
+}
+
+/**
+ * Query cache keys for user data (see queryCache.ts)
+ * lists = the prefix of every cached user list, e.g. to refetch them all after a change
+ */
+export const usersQueryKeys = {
+  lists: 'users?',
+  list: (query: UserListQuery) => `users?${toQueryString(query)}`,
+};
+
+/**
+ * The If-Match header for a user version: only change the user if it is still this version
+ */
+function ifMatch(version: number): Record<string, string> {
+  return { 'If-Match': `"${version}"` };
+}
+
+/**
+ * Users Client Object
+ */
+export const usersClient = {
+  /**
+   * GET /api/users - one page of users
+   * @param {UserListQuery} query - Paging, sorting, search and filters
+   */
+  list(query: UserListQuery, options?: RequestOptions): Promise<ApiResult<UserListResponse>> {
+    return apiRequest(`/api/users?${toQueryString(query)}`, options);
+  },
+
+  /**
+   * GET /api/users/:id
+   */
+  get(id: string, options?: RequestOptions): Promise<ApiResult<UserResponse>> {
+    return apiRequest(`/api/users/${id}`, options);
+  },
+
+  /**
+   * POST /api/users - add a user
+   */
+  create(data: UserRequestBody, options?: RequestOptions): Promise<ApiResult<UserResponse>> {
+    return apiRequest('/api/users', { ...options, method: 'POST', json: data });
+  },
+
+  /**
+   * PUT /api/users/:id - replace every field of a user
+   * @param {number} version - The version that was edited (fails with "stale" if it changed since)
+   */
+  replace(id: string, data: UserRequestBody, version: number, options?: RequestOptions): Promise<ApiResult<UserResponse>> {
+    return apiRequest(`/api/users/${id}`, { ...options, method: 'PUT', json: data, headers: ifMatch(version) });
+  },
+
+  /**
+   * PATCH /api/users/:id - change only the given fields (merge patch)
+   * @param {number} version - The version that was edited (fails with "stale" if it changed since)
+   */
+  update(id: string, changes: UserMergePatch, version: number, options?: RequestOptions): Promise<ApiResult<UserResponse>> {
+    return apiRequest(`/api/users/${id}`, {
+      ...options,
+      method: 'PATCH',
+      json: changes,
+      contentType: MERGE_PATCH_CONTENT_TYPE,
+      headers: ifMatch(version),
+    });
+  },
+
+  /**
+   * DELETE /api/users/:id - move a user to the trash
+   * @param {number} version - The version that was shown (fails with "stale" if it changed since)
+   */
+  remove(id: string, version: number, options?: RequestOptions): Promise<ApiResult<MessageResponse>> {
+    return apiRequest(`/api/users/${id}`, { ...options, method: 'DELETE', headers: ifMatch(version) });
+  },
+
+  /**
+   * POST /api/users/:id/restore - take a user out of the trash
+   */
+  restore(id: string, options?: RequestOptions): Promise<ApiResult<UserResponse>> {
+    return apiRequest(`/api/users/${id}/restore`, { ...options, method: 'POST' });
+  },
+
+  /**
+   * POST /api/users/:id/purge - remove a user in the trash for good
+   */
+  purge(id: string, options?: RequestOptions): Promise<ApiResult<MessageResponse>> {
+    return apiRequest(`/api/users/${id}/purge`, { ...options, method: 'POST' });
+  },
+
+  /**
+   * POST /api/users/:id/avatar - upload a new profile picture
+   * @param {File} file - The picture (JPEG, PNG, WebP or GIF)
+   * @param {number} version - The version that was shown (fails with "stale" if it changed since)
+   */
+  uploadAvatar(id: string, file: File, version: number, options?: RequestOptions): Promise<ApiResult<UserResponse>> {
+    const form = new FormData();
+    form.append('avatar', file);
+    return apiRequest(`/api/users/${id}/avatar`, {
+      timeoutMs: AVATAR_UPLOAD_TIMEOUT_MS,
+      ...options,
+      method: 'POST',
+      form,
+      headers: ifMatch(version),
+    });
+  },
+
+  /**
+   * DELETE /api/users/:id/avatar - remove the profile picture (initials are shown instead)
+   * @param {number} version - The version that was shown (fails with "stale" if it changed since)
+   */
+  removeAvatar(id: string, version: number, options?: RequestOptions): Promise<ApiResult<UserResponse>> {
+    return apiRequest(`/api/users/${id}/avatar`, { ...options, method: 'DELETE', headers: ifMatch(version) });
+  },
+
+  /**
+   * PUT /api/users/:id/password - set the password the user signs in with
+   */
+  setPassword(id: string, data: SetPasswordRequestBody, options?: RequestOptions): Promise<ApiResult<MessageResponse>> {
+    return apiRequest(`/api/users/${id}/password`, { ...options, method: 'PUT', json: data });
+  },
+
+  /**
+   * The URL of a user's picture (GET /api/users/:id/avatar), for an <img> tag
+   * The avatar id in the URL changes with every upload, so the browser may cache it forever
+   * @param {number} size - One of the stored sizes (AVATAR_SIZES)
+   */
+  avatarUrl(user: { id: string; avatar: string }, size: AvatarSize): string {
+    return `/api/users/${user.id}/avatar?${toQueryString({ size, v: user.avatar })}`;
+  },
+
+  /**
+   * GET /api/users/:id/history - one page of the user's audit log, newest first
+   */
+  history(
+    id: string,
+    page: { page: number; pageSize: number },
+    options?: RequestOptions
+  ): Promise<ApiResult<UserHistoryResponse>> {
+    return apiRequest(`/api/users/${id}/history?${toQueryString(page)}`, options);
+  },
+
+  /**
+   * GET /api/users/check-email - is the email still free?
+   * @param {string} excludeId - Optional: the user being edited (their own email counts as free)
+   */
+  checkEmail(email: string, excludeId?: string, options?: RequestOptions): Promise<ApiResult<CheckEmailResponse>> {
+    return apiRequest(`/api/users/check-email?${toQueryString({ email, excludeId })}`, options);
+  },
+
+  /**
+   * POST /api/users/batch - many create/update/delete operations at once
+   * Succeeds (ok) when every operation succeeded and when some failed (207):
+   * check the results of each operation
+   */
+  batch(request: BatchRequestBody, options?: RequestOptions): Promise<ApiResult<BatchResponse>> {
+    return apiRequest('/api/users/batch', { ...options, method: 'POST', json: request });
+  },
+
+  /**
+   * POST /api/users/import with dryRun - check rows without saving anything
+   */
+  previewImport(rows: ImportRow[], options?: RequestOptions): Promise<ApiResult<ImportPreview>> {
+    const body: ImportRequestBody = { rows, dryRun: true };
+    return apiRequest('/api/users/import', { timeoutMs: IMPORT_TIMEOUT_MS, ...options, method: 'POST', json: body });
+  },
+
+  /**
+   * POST /api/users/import - create the valid rows, skip the rest
+   */
+  importRows(rows: ImportRow[], options?: RequestOptions): Promise<ApiResult<ImportResult>> {
+    const body: ImportRequestBody = { rows };
+    return apiRequest('/api/users/import', { timeoutMs: IMPORT_TIMEOUT_MS, ...options, method: 'POST', json: body });
+  },
+
+  /**
+   * The URL of GET /api/users/export - a file download, so it is opened as a
+   * link instead of fetched (page and pageSize are left out: every match is exported)
+   */
+  exportUrl(query: UserListQuery, options: ExportOptions): string {
+    const params = new URLSearchParams(toQueryString({ ...query, ...options, columns: options.columns.join(',') }));
+    params.delete('page');
+    params.delete('pageSize');
+    return `/api/users/export?${params.toString()}`;
+  },
+};
@@ -0,0 +1,55 @@
+/**
+ * AccountMenu Component
+ * Small bar at the top of every page: who is signed in, a link to the API docs, and a Sign out button
+ */
+
+'use client'; // Client Component - handles click events
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { User } from '@/backend/types/user';
+import { queryCache } from '@/frontend/api/queryCache';
+
+/**
+ * Props interface for AccountMenu component
+ */
+interface AccountMenuProps {
+  user: User; // The signed-in user
+}
+
+/**
+ * AccountMenu Component Function
+ * @param {AccountMenuProps} props - The component props
+ */
+export function AccountMenu({ user }: AccountMenuProps) {
+  const router = useRouter();
+
+  /**
+   * Sign out, then go to the sign-in page
+   * Cached data is forgotten, so whoever signs in next doesn't see it
+   */
+  const handleSignOut = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (error) {
+      console.error('Failed to sign out:', error);
+    }
+    queryCache.clear();
+    router.replace('/login');
+    router.refresh(); // Re-render server components without the session
+  };
+
+  return (
+    <div className="flex justify-end items-center gap-3 px-4 py-2 text-sm text-gray-600 bg-white border-b border-gray-200">
+      <span>
+        Signed in as <span className="font-medium text-gray-900">{user.name}</span>
+      </span>
+      <Link href="/docs" className="text-blue-600 hover:underline">
+        API docs
+      </Link>
+      <button onClick={handleSignOut} className="text-blue-600 hover:underline">
+        Sign out
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,384 @@
+/**
+ * ApiDocs Component
+ * Interactive documentation built from the OpenAPI document
+ *
+ * Features:
+ * - Every endpoint, grouped by tag, with its parameters and possible responses
+ * - "Try it": fill in the parameters and body, send the request with the
+ *   current session, and see the status, headers and body that came back
+ * - Link to the raw document (/api/openapi.json) for other tools
+ */
+
+'use client'; // Client Component - uses React hooks and fetch
+
+import { useState } from 'react';
+import {
+  HTTP_METHODS,
+  HttpMethod,
+  OpenApiDocument,
+  OperationObject,
+  ParameterObject,
+  ReferenceObject,
+  ResponseObject,
+} from '@/backend/types/openapi';
+
+/**
+ * Colors of the method badges
+ */
+const METHOD_COLORS: Record<HttpMethod, string> = {
+  get: 'bg-blue-100 text-blue-800',
+  post: 'bg-green-100 text-green-800',
+  put: 'bg-yellow-100 text-yellow-800',
+  patch: 'bg-orange-100 text-orange-800',
+  delete: 'bg-red-100 text-red-800',
+};
+
+/**
+ * One operation with the path and method it belongs to
+ */
+interface Endpoint {
+  path: string;
+  method: HttpMethod;
+  operation: OperationObject;
+}
+
+/**
+ * What came back from a "Try it" request
+ */
+interface TryResult {
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  body: string;
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Looks up a shared definition, e.g. "#/components/parameters/UserId"
+ */
+function resolve<T>(item: T | ReferenceObject, shared: Record<string, T>): T {
+  if (typeof item === 'object' && item !== null && '$ref' in item) {
+    return shared[item.$ref.split('/').pop() ?? ''];
+  }
+  return item;
+}
+
+/**
+ * Every operation of the document, grouped by its first tag (in the document's tag order)
+ */
+function groupByTag(document: OpenApiDocument): { tag: string; description?: string; endpoints: Endpoint[] }[] {
+  const endpoints: Endpoint[] = Object.entries(document.paths).flatMap(([path, item]) =>
+    HTTP_METHODS.flatMap((method) => {
+      const operation = item[method];
+      return operation ? [{ path, method, operation }] : [];
+    })
+  );
+
+  return document.tags.map(({ name, description }) => ({
+    tag: name,
+    description,
+    endpoints: endpoints.filter(({ operation }) => operation.tags[0] === name),
+  }));
+}
+
+/**
+ * The documented example body for a content type, as editable text
+ */
+function exampleText(operation: OperationObject, contentType: string | undefined): string {
+  const example = contentType ? operation.requestBody?.content[contentType]?.example : undefined;
+  return example === undefined ? '' : JSON.stringify(example, null, 2);
+}
+
+/**
+ * Turns a response body into something readable
+ * JSON is pretty-printed, text is shown as is, files only by size
+ * (event streams never end, so they are closed right away)
+ */
+async function readBody(response: Response): Promise<string> {
+  const contentType = response.headers.get('content-type') ?? '';
+  if (contentType.startsWith('text/event-stream')) {
+    await response.body?.cancel();
+    return '(a live event stream - open it with EventSource to receive the events)';
+  }
+  if (contentType.includes('json')) {
+    const text = await response.text();
+    try {
+      return JSON.stringify(JSON.parse(text), null, 2);
+    } catch {
+      return text;
+    }
+  }
+  if (contentType.startsWith('text/')) return response.text();
+
+  const bytes = (await response.arrayBuffer()).byteLength;
+  return `(${bytes} bytes of ${contentType || 'binary data'})`;
+}
+
+// ==================== COMPONENTS ====================
+
+/**
+ * Props interface for ApiDocs component
+ */
+interface ApiDocsProps {
+  document: OpenApiDocument; // The OpenAPI document (built on the server)
+}
+
+/**
+ * ApiDocs Component Function
+ * @param {ApiDocsProps} props - The component props
+ */
+export function ApiDocs({ document }: ApiDocsProps) {
+  return (
+    <div className="space-y-8">
+      {/* Title and introduction */}
+      <header className="space-y-2">
+        <h1 className="text-3xl font-bold text-gray-900">{document.info.title}</h1>
+        <p className="text-sm text-gray-500">
+          Version {document.info.version} · OpenAPI {document.openapi} ·{' '}
+          <a href="/api/openapi.json" className="text-blue-600 hover:underline">
+            openapi.json
+          </a>
+        </p>
+        {document.info.description?.split('\n\n').map((paragraph) => (
+          <p key={paragraph} className="text-gray-700">
+            {paragraph}
+          </p>
+        ))}
+      </header>
+
+      {/* One section per tag */}
+      {groupByTag(document).map(({ tag, description, endpoints }) => (
+        <section key={tag} className="space-y-3">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">{tag}</h2>
+            {description && <p className="text-gray-600 text-sm">{description}</p>}
+          </div>
+          {endpoints.map((endpoint) => (
+            <EndpointPanel
+              key={`${endpoint.method} ${endpoint.path}`}
+              endpoint={endpoint}
+              document={document}
+            />
+          ))}
+        </section>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Props interface for EndpointPanel component
+ */
+interface EndpointPanelProps {
+  endpoint: Endpoint;
+  document: OpenApiDocument; // For looking up shared parameters and responses
+}
+
+/**
+ * EndpointPanel Component Function
+ * One operation: collapsed to a single line, opens to its details and "Try it" form
+ * @param {EndpointPanelProps} props - The component props
+ */
+function EndpointPanel({ endpoint, document }: EndpointPanelProps) {
+  const { path, method, operation } = endpoint;
+
+  const parameters = (operation.parameters ?? []).map((parameter) =>
+    resolve<ParameterObject>(parameter, document.components.parameters)
+  );
+  const responses = Object.entries(operation.responses).map(
+    ([status, response]) => [status, resolve<ResponseObject>(response, document.components.responses)] as const
+  );
+  const bodyTypes = Object.keys(operation.requestBody?.content ?? {});
+
+  // ==================== STATE MANAGEMENT ====================
+
+  /**
+   * values: What was typed into each parameter (by name)
+   * contentType: The chosen body format (PATCH offers two)
+   * body: The request body text, starting with the documented example
+   * result: The last response, or null before the first "Send"
+   * isSending: Whether a request is on its way
+   */
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [contentType, setContentType] = useState(bodyTypes[0] ?? '');
+  const [body, setBody] = useState(() => exampleText(operation, bodyTypes[0]));
+  const [result, setResult] = useState<TryResult | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
+  /**
+   * Switching the body format also switches to that format's example
+   */
+  const handleContentTypeChange = (next: string) => {
+    setContentType(next);
+    setBody(exampleText(operation, next));
+  };
+
+  // ==================== SEND ====================
+
+  /**
+   * Send the request with the filled-in parameters
+   * Plain fetch on purpose: this shows whatever the server answers, raw,
+   * instead of turning it into typed results like usersClient does
+   */
+  const handleSend = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSending(true);
+
+    // Put path parameters into the URL, query parameters after it, and headers aside
+    let url = path;
+    const query = new URLSearchParams();
+    const headers: Record<string, string> = {};
+    parameters.forEach(({ name, in: location }) => {
+      const value = values[name]?.trim();
+      if (!value) return;
+      if (location === 'path') url = url.replace(`{${name}}`, encodeURIComponent(value));
+      else if (location === 'query') query.set(name, value);
+      else headers[name] = value;
+    });
+    if (query.toString()) url += `?${query.toString()}`;
+    if (contentType) headers['Content-Type'] = contentType;
+
+    try {
+      const response = await fetch(url, {
+        method: method.toUpperCase(),
+        headers,
+        body: contentType ? body : undefined,
+      });
+      setResult({
+        status: response.status,
+        statusText: response.statusText,
+        headers: [...response.headers.entries()],
+        body: await readBody(response),
+      });
+    } catch (error) {
+      setResult({ status: 0, statusText: 'Network error', headers: [], body: String(error) });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  // ==================== RENDER ====================
+
+  return (
+    <details className="bg-white rounded-lg border border-gray-200 shadow-sm">
+      <summary className="flex items-center gap-3 px-4 py-3 cursor-pointer">
+        <span className={`w-16 text-center text-xs font-bold uppercase rounded px-2 py-1 ${METHOD_COLORS[method]}`}>
+          {method}
+        </span>
+        <code className="text-sm text-gray-900">{path}</code>
+        <span className="text-sm text-gray-600">{operation.summary}</span>
+      </summary>
+
+      <form onSubmit={handleSend} className="border-t border-gray-200 px-4 py-4 space-y-4 text-sm">
+        {operation.description && <p className="text-gray-700">{operation.description}</p>}
+
+        {/* Parameters */}
+        {parameters.length > 0 && (
+          <fieldset className="space-y-2">
+            <legend className="font-medium text-gray-900 mb-2">Parameters</legend>
+            {parameters.map((parameter) => (
+              <label key={`${parameter.in} ${parameter.name}`} className="grid grid-cols-3 gap-3 items-start">
+                <span>
+                  <code className="text-gray-900">{parameter.name}</code>
+                  {parameter.required && <span className="text-red-600"> *</span>}
+                  <span className="block text-xs text-gray-500">
+                    {parameter.in}
+                    {parameter.schema.enum && ` · ${parameter.schema.enum.join(' | ')}`}
+                  </span>
+                </span>
+                <span className="col-span-2">
+                  <input
+                    type="text"
+                    value={values[parameter.name] ?? ''}
+                    onChange={(e) => setValues({ ...values, [parameter.name]: e.target.value })}
+                    required={parameter.required}
+                    placeholder={parameter.schema.default !== undefined ? String(parameter.schema.default) : ''}
+                    className="w-full px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  {parameter.description && (
+                    <span className="block text-xs text-gray-500 mt-1">{parameter.description}</span>
+                  )}
+                </span>
+              </label>
+            ))}
+          </fieldset>
+        )}
+
+        {/* Request body */}
+        {bodyTypes.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="font-medium text-gray-900">Body</span>
+              {bodyTypes.length > 1 ? (
+                <select
+                  value={contentType}
+                  onChange={(e) => handleContentTypeChange(e.target.value)}
+                  aria-label="Body format"
+                  className="px-2 py-1 border border-gray-300 rounded-lg"
+                >
+                  {bodyTypes.map((type) => (
+                    <option key={type} value={type}>
+                      {type}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <code className="text-xs text-gray-500">{contentType}</code>
+              )}
+            </div>
+            <textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              rows={Math.min(12, body.split('\n').length + 1)}
+              aria-label="Request body"
+              spellCheck={false}
+              className="w-full font-mono text-xs px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        )}
+
+        {/* Documented responses */}
+        <div>
+          <span className="font-medium text-gray-900">Responses</span>
+          <ul className="mt-1 space-y-1">
+            {responses.map(([status, response]) => (
+              <li key={status} className="flex gap-3">
+                <code className="w-10 text-gray-900">{status}</code>
+                <span className="text-gray-600">{response.description}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <button
+          type="submit"
+          disabled={isSending}
+          className="bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 font-medium disabled:opacity-50"
+        >
+          {isSending ? 'Sending...' : 'Send request'}
+        </button>
+
+        {/* The response that came back */}
+        {result && (
+          <div className="space-y-2" aria-live="polite">
+            <p className="font-medium text-gray-900">
+              Response:{' '}
+              <span className={result.status >= 200 && result.status < 300 ? 'text-green-700' : 'text-red-700'}>
+                {result.status} {result.statusText}
+              </span>
+            </p>
+            {result.headers.length > 0 && (
+              <pre className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-xs overflow-x-auto">
+                {result.headers.map(([name, value]) => `${name}: ${value}`).join('\n')}
+              </pre>
+            )}
+            <pre className="bg-gray-900 text-gray-100 rounded-lg p-3 text-xs overflow-x-auto max-h-96">
+              {result.body || '(empty body)'}
+            </pre>
+          </div>
+        )}
+      </form>
+    </details>
+  );
+}
@@ -0,0 +1,105 @@
+/**
+ * Avatar Component
+ * Shows a user's profile picture as a circle, or their initials when they have none
+ *
+ * - The smallest stored thumbnail that is still sharp on high-DPI screens is loaded
+ * - The initials' color comes from the user id, so a user keeps the same color everywhere
+ * - If the picture can't be loaded (e.g. it was just removed), the initials are shown instead
+ */
+
+'use client'; // Client Component - remembers whether the picture failed to load
+
+import { useState } from 'react';
+import { AVATAR_SIZES } from '@/backend/types/avatar';
+import { User } from '@/backend/types/user';
+import { usersClient } from '@/frontend/api/usersClient';
+
+/**
+ * Tailwind classes for the initials' background and text
+ * Written out in full - Tailwind can't find classes built like `bg-${color}-100`
+ */
+const COLOR_CLASSES = [
+  'bg-red-100 text-red-700',
+  'bg-orange-100 text-orange-700',
+  'bg-amber-100 text-amber-800',
+  'bg-green-100 text-green-700',
+  'bg-teal-100 text-teal-700',
+  'bg-blue-100 text-blue-700',
+  'bg-indigo-100 text-indigo-700',
+  'bg-pink-100 text-pink-700',
+];
+
+/**
+ * The initials of a name: first letters of the first and last word
+ * "Jane Smith" → "JS", "Cher" → "C", "" → "?"
+ * @param {string} name - The user's name
+ */
+export function initialsOf(name: string): string {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return '?';
+
+  const first = [...words[0]][0];
+  const last = words.length > 1 ? [...words[words.length - 1]][0] : '';
+  return (first + last).toUpperCase();
+}
+
+/**
+ * Picks a color for a user - the same key always gets the same color
+ * @param {string} key - The user id (or the name, for users that aren't saved yet)
+ */
+function colorOf(key: string): string {
+  let hash = 0;
+  for (const char of key) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return COLOR_CLASSES[Math.abs(hash) % COLOR_CLASSES.length];
+}
+
+/**
+ * Props interface for Avatar component
+ */
+interface AvatarProps {
+  user: Pick<User, 'name' | 'avatar'> & { id?: string }; // id is missing for users that aren't saved yet
+  size?: number; // Optional: width and height in pixels (default 32)
+}
+
+/**
+ * Avatar Component Function
+ * @param {AvatarProps} props - The component props
+ */
+export function Avatar({ user, size = 32 }: AvatarProps) {
+  /**
+   * failedUrl: A picture URL that couldn't be loaded - the initials are shown instead
+   * (the URL is kept, so a new picture gets a new try)
+   */
+  const [failedUrl, setFailedUrl] = useState<string | null>(null);
+
+  // Twice the shown size looks sharp on high-DPI screens; the largest thumbnail is the limit
+  const thumbnailSize = AVATAR_SIZES.find((stored) => stored >= size * 2) ?? AVATAR_SIZES[AVATAR_SIZES.length - 1];
+  const url = user.id && user.avatar ? usersClient.avatarUrl({ id: user.id, avatar: user.avatar }, thumbnailSize) : null;
+
+  if (url && url !== failedUrl) {
+    return (
+      // A plain <img>: the server already sends a small thumbnail, so next/image has nothing left to optimize
+      // eslint-disable-next-line @next/next/no-img-element
+      <img
+        src={url}
+        alt="" // Decorative - the name is always shown next to it
+        width={size}
+        height={size}
+        className="shrink-0 rounded-full object-cover bg-gray-100"
+        onError={() => setFailedUrl(url)}
+      />
+    );
+  }
+
+  return (
+    <span
+      aria-hidden="true"
+      className={`shrink-0 inline-flex items-center justify-center rounded-full font-semibold select-none ${colorOf(user.id ?? user.name)}`}
+      style={{ width: size, height: size, fontSize: Math.round(size * 0.4) }}
+    >
+      {initialsOf(user.name)}
+    </span>
+  );
+}
@@ -0,0 +1,116 @@
+/**
+ * BulkActionBar Component
+ * Shown above the user table while one or more rows are selected
+ *
+ * Features:
+ * - "3 selected" summary with a button to clear the selection
+ * - Change the role of every selected user at once
+ * - Export the selected users as a CSV file
+ * - Delete (move to the trash) every selected user at once
+ *
+ * Buttons the signed-in user has no permission for are not shown.
+ */
+
+'use client'; // Client Component - uses React hooks (useState)
+
+import { useState } from 'react';
+import { Role } from '@/backend/types/role';
+
+/**
+ * Props interface for BulkActionBar component
+ */
+interface BulkActionBarProps {
+  count: number;                            // How many users are selected
+  roles: Role[];                            // Roles offered in the "Change role" dropdown
+  canDelete: boolean;                       // Show the delete button ("users:delete")
+  canChangeRole: boolean;                   // Show the role dropdown ("users:change-role")
+  isBusy: boolean;                          // true while a bulk action is running
+  onDelete: () => void;                     // Delete the selected users
+  onChangeRole: (roleId: string) => void;   // Give the selected users this role
+  onExport: () => void;                     // Download the selected users
+  onClear: () => void;                      // Unselect everything
+}
+
+/**
+ * BulkActionBar Component Function
+ * @param {BulkActionBarProps} props - The component props
+ */
+export function BulkActionBar({
+  count,
+  roles,
+  canDelete,
+  canChangeRole,
+  isBusy,
+  onDelete,
+  onChangeRole,
+  onExport,
+  onClear,
+}: BulkActionBarProps) {
+  // The role picked in the dropdown ('' = none picked yet)
+  const [roleId, setRoleId] = useState('');
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Actions for selected users"
+      className="flex flex-wrap items-center gap-3 mb-4 px-4 py-3 bg-blue-50 border border-blue-200 rounded-lg text-sm"
+    >
+      {/* Summary and clear button */}
+      <span className="font-medium text-blue-900">{count} selected</span>
+      <button type="button" onClick={onClear} className="text-blue-700 hover:underline">
+        Clear selection
+      </button>
+
+      <div className="flex flex-wrap items-center gap-3 ml-auto">
+        {/* Change role: pick a role, then apply it */}
+        {canChangeRole && (
+          <div className="flex items-center gap-2">
+            <select
+              value={roleId}
+              onChange={(e) => setRoleId(e.target.value)}
+              aria-label="New role for selected users"
+              className="px-3 py-2 border border-gray-300 rounded-lg bg-white"
+            >
+              <option value="">Change role to…</option>
+              {roles.map((role) => (
+                <option key={role.id} value={role.id}>
+                  {role.name}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => onChangeRole(roleId)}
+              disabled={!roleId || isBusy}
+              className="px-4 py-2 rounded-lg bg-white border border-gray-300 text-gray-700 hover:bg-gray-50 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Apply
+            </button>
+          </div>
+        )}
+
+        {/* Export: download the selected users as CSV */}
+        <button
+          type="button"
+          onClick={onExport}
+          disabled={isBusy}
+          className="px-4 py-2 rounded-lg bg-white border border-gray-300 text-gray-700 hover:bg-gray-50 font-medium disabled:opacity-50"
+        >
+          Export selected
+        </button>
+
+        {/* Delete: move the selected users to the trash */}
+        {canDelete && (
+          <button
+            type="button"
+            onClick={onDelete}
+            disabled={isBusy}
+            className="px-4 py-2 rounded-lg bg-red-600 text-white hover:bg-red-700 font-medium disabled:opacity-50"
+          >
+            Delete selected
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
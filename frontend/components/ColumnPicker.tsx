@@ -0,0 +1,108 @@
+/**
+ * ColumnPicker Component
+ * "Columns" button with a small panel of checkboxes, to choose which
+ * columns a table shows
+ *
+ * It only reports the choice (onChange) - the table decides where it is kept
+ * (UserTable keeps it in localStorage, see useStoredColumns).
+ */
+
+'use client'; // Client Component - uses React hooks and browser APIs
+
+import { useEffect, useRef, useState } from 'react';
+
+/**
+ * One column that can be shown or hidden
+ */
+export interface PickableColumn {
+  id: string;
+  label: string;
+}
+
+/**
+ * Props interface for ColumnPicker component
+ */
+interface ColumnPickerProps {
+  columns: PickableColumn[];            // Every column that can be chosen, in table order
+  visible: string[];                    // Ids of the columns shown now
+  onChange: (visible: string[]) => void; // Called with the new choice (in table order)
+}
+
+/**
+ * ColumnPicker Component Function
+ * @param {ColumnPickerProps} props - The component props
+ */
+export function ColumnPicker({ columns, visible, onChange }: ColumnPickerProps) {
+  // isOpen: Whether the panel is shown
+  const [isOpen, setIsOpen] = useState(false);
+
+  // The button and panel, to tell clicks inside from clicks outside
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  /**
+   * Close the panel on a click outside of it or on the Escape key
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsOpen(false);
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    document.addEventListener('keydown', handleKey);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+      document.removeEventListener('keydown', handleKey);
+    };
+  }, [isOpen]);
+
+  /**
+   * Show or hide one column (the result keeps the table's column order)
+   */
+  const toggleColumn = (id: string) => {
+    const next = visible.includes(id) ? visible.filter((column) => column !== id) : [...visible, id];
+    onChange(columns.map((column) => column.id).filter((column) => next.includes(column)));
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        aria-haspopup="dialog"
+        className="px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm text-gray-700 hover:bg-gray-50"
+      >
+        Columns
+      </button>
+
+      {isOpen && (
+        <div
+          role="dialog"
+          aria-label="Choose columns"
+          className="absolute right-0 z-20 mt-2 w-64 bg-white border border-gray-200 rounded-lg shadow-lg p-4 text-sm"
+        >
+          <fieldset>
+            <legend className="font-medium text-gray-900 mb-2">Show columns</legend>
+            <div className="space-y-1 max-h-72 overflow-y-auto">
+              {columns.map((column) => (
+                <label key={column.id} className="flex items-center gap-2 text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={visible.includes(column.id)}
+                    onChange={() => toggleColumn(column.id)}
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        </div>
+      )}
+    </div>
+  );
+}
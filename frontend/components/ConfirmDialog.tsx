@@ -0,0 +1,92 @@
+/**
+ * ConfirmDialog Component
+ * Asks a yes/no question in a small dialog - the accessible replacement
+ * for the browser's confirm()
+ *
+ * Features:
+ * - Title, explanation, and two buttons with custom labels
+ * - "danger" style (red button) for things like deleting
+ * - For dangerous questions the focus starts on Cancel, so pressing Enter
+ *   by accident doesn't delete anything
+ * - Escape, the X and clicking outside all mean "Cancel"
+ *
+ * Usually opened through the useConfirm hook, which turns it into a
+ * question you can await: if (!(await confirm({ ... }))) return;
+ */
+
+'use client'; // Client Component - uses refs and click events
+
+import { useRef } from 'react';
+import { Modal } from './Modal';
+
+/**
+ * The question to ask
+ */
+export interface ConfirmOptions {
+  title: string;            // e.g. "Delete user?"
+  message: string;          // What will happen
+  confirmLabel?: string;    // Default "Confirm"
+  cancelLabel?: string;     // Default "Cancel"
+  variant?: 'default' | 'danger';
+}
+
+/**
+ * Props interface for ConfirmDialog component
+ */
+interface ConfirmDialogProps extends ConfirmOptions {
+  isOpen: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * ConfirmDialog Component Function
+ * @param {ConfirmDialogProps} props - The component props
+ */
+export function ConfirmDialog({
+  isOpen,
+  title,
+  message,
+  confirmLabel = 'Confirm',
+  cancelLabel = 'Cancel',
+  variant = 'default',
+  onConfirm,
+  onCancel,
+}: ConfirmDialogProps) {
+  const cancelRef = useRef<HTMLButtonElement>(null);
+  const confirmRef = useRef<HTMLButtonElement>(null);
+  const isDanger = variant === 'danger';
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onCancel}
+      title={title}
+      size="sm"
+      initialFocusRef={isDanger ? cancelRef : confirmRef}
+    >
+      <p className="text-gray-700">{message}</p>
+
+      <div className="flex justify-end gap-3 mt-6">
+        <button
+          ref={cancelRef}
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+        >
+          {cancelLabel}
+        </button>
+        <button
+          ref={confirmRef}
+          type="button"
+          onClick={onConfirm}
+          className={`px-4 py-2 text-white rounded-lg transition-colors font-medium ${
+            isDanger ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+          }`}
+        >
+          {confirmLabel}
+        </button>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,187 @@
+/**
+ * ConflictResolver Component
+ * Shown inside UserForm when saving failed because someone else changed
+ * the same user in the meantime (412 Precondition Failed)
+ *
+ * For every field where your value differs from the saved one, you pick
+ * which value to keep:
+ * - Fields only YOU changed default to your value
+ * - Fields only THEY changed default to their (saved) value
+ * - Fields you BOTH changed default to your value, but are marked so you can check them
+ */
+
+'use client'; // Client Component - uses React hooks (useState)
+
+import { useState } from 'react';
+import { AttributeDefinition } from '@/backend/types/attribute';
+import { Role } from '@/backend/types/role';
+import { User, UserAttributes } from '@/backend/types/user';
+import { editableUser, sameFieldValue } from '@/backend/utils/userFields';
+import type { UserOption } from '@/frontend/hooks/useUserOptions';
+import type { UserFormValues } from './UserForm';
+
+type Field = keyof UserFormValues;
+
+// The custom attributes are one field: all of their values are kept from the same side
+const FIELDS: { field: Field; label: string }[] = [
+  { field: 'name', label: 'Name' },
+  { field: 'email', label: 'Email' },
+  { field: 'roleId', label: 'Role' },
+  { field: 'phone', label: 'Phone' },
+  { field: 'department', label: 'Department' },
+  { field: 'jobTitle', label: 'Job title' },
+  { field: 'managerId', label: 'Manager' },
+  { field: 'status', label: 'Status' },
+  { field: 'attributes', label: 'Custom attributes' },
+];
+
+/**
+ * Props interface for ConflictResolver component
+ */
+interface ConflictResolverProps {
+  base: User;                 // The version you started editing
+  mine: UserFormValues;       // What you entered in the form
+  current: User;              // What is saved on the server now
+  roles: Role[];              // To show role names instead of ids
+  attributes: AttributeDefinition[]; // To show attribute labels instead of keys
+  userOptions: UserOption[];  // To show manager names instead of ids
+  onResolve: (values: UserFormValues) => void; // Called with the merged values
+}
+
+/**
+ * ConflictResolver Component Function
+ * @param {ConflictResolverProps} props - The component props
+ */
+export function ConflictResolver({
+  base: baseUser,
+  mine,
+  current: currentUser,
+  roles,
+  attributes,
+  userOptions,
+  onResolve,
+}: ConflictResolverProps) {
+  // Compare like the form does: "" for fields that aren't set
+  const base = editableUser(baseUser);
+  const current = editableUser(currentUser);
+
+  // Only fields where the saved value differs from yours need a decision
+  const differing = FIELDS.filter(({ field }) => !sameFieldValue(mine[field], current[field]));
+
+  /**
+   * choice: Which value to keep per field ('mine' or 'theirs')
+   * Fields you didn't touch default to the saved value, everything else to yours
+   */
+  const [choice, setChoice] = useState<Record<Field, 'mine' | 'theirs'>>(() => {
+    const initial = {} as Record<Field, 'mine' | 'theirs'>;
+    FIELDS.forEach(({ field }) => {
+      initial[field] = sameFieldValue(mine[field], base[field]) ? 'theirs' : 'mine';
+    });
+    return initial;
+  });
+
+  /**
+   * Shows a value the way people know it: role and manager names instead of ids,
+   * attributes as "Label: value" lines, and "-" for empty values
+   */
+  const display = (field: Field, value: UserFormValues[Field]): string => {
+    if (field === 'attributes') {
+      const values = value as UserAttributes;
+      const lines = attributes
+        .filter((attribute) => values[attribute.key] !== undefined)
+        .map((attribute) => `${attribute.label}: ${values[attribute.key]}`);
+      return lines.length > 0 ? lines.join('\n') : '-';
+    }
+    if (value === '') return '-';
+    if (field === 'roleId') return roles.find((role) => role.id === value)?.name ?? String(value);
+    if (field === 'managerId') return userOptions.find((option) => option.id === value)?.name ?? String(value);
+    return String(value);
+  };
+
+  /**
+   * Builds the merged values from the choices
+   * @param {boolean} takeAllTheirs - true = throw away your changes and use the saved values
+   */
+  const resolve = (takeAllTheirs: boolean) => {
+    const merged = { ...mine };
+    FIELDS.forEach(({ field }) => {
+      if (takeAllTheirs || choice[field] === 'theirs') Object.assign(merged, { [field]: current[field] });
+    });
+    onResolve(merged);
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Explanation */}
+      <div className="text-sm text-yellow-800 bg-yellow-50 rounded-lg px-4 py-3">
+        Someone else saved changes to this user while you were editing.
+        Choose which value to keep for each field, then save again.
+      </div>
+
+      {/* One row per differing field: your value vs. the saved value */}
+      {differing.length === 0 ? (
+        <p className="text-sm text-gray-600">The saved values already match yours.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="py-2 font-medium">Field</th>
+              <th className="py-2 font-medium">Your value</th>
+              <th className="py-2 font-medium">Saved value</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {differing.map(({ field, label }) => {
+              // Did both sides change this field since you started editing?
+              const bothChanged = !sameFieldValue(mine[field], base[field]) && !sameFieldValue(current[field], base[field]);
+
+              return (
+                <tr key={field}>
+                  <td className="py-2 pr-2 font-medium text-gray-700 align-top">
+                    {label}
+                    {bothChanged && <span className="block text-xs text-red-600">Changed by both</span>}
+                  </td>
+                  {(['mine', 'theirs'] as const).map((side) => (
+                    <td key={side} className="py-2 pr-2 align-top">
+                      {/* Radio buttons with the same name: only one side can be picked */}
+                      <label className="flex items-start gap-2 cursor-pointer">
+                        <input
+                          type="radio"
+                          name={`conflict-${field}`}
+                          checked={choice[field] === side}
+                          onChange={() => setChoice({ ...choice, [field]: side })}
+                          className="mt-0.5"
+                        />
+                        <span className="break-all whitespace-pre-line text-gray-900">
+                          {display(field, side === 'mine' ? mine[field] : current[field])}
+                        </span>
+                      </label>
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {/* Actions */}
+      <div className="flex gap-3 pt-2">
+        <button
+          type="button"
+          onClick={() => resolve(false)}
+          className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+        >
+          Use selected values
+        </button>
+        <button
+          type="button"
+          onClick={() => resolve(true)}
+          className="flex-1 bg-gray-200 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+        >
+          Discard my changes
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+/**
+ * ExportMenu Component
+ * "Export" button with a small panel to download the users the table shows
+ *
+ * Features:
+ * - Choose the format: CSV, JSON or Excel
+ * - Choose which columns end up in the file
+ * - Uses the table's current search, filters and sort (every page, not just the visible one)
+ * - Dates are written in the browser's language and time zone
+ *
+ * The download is a normal link to GET /api/users/export, so the browser
+ * saves the file while the server is still writing it.
+ */
+
+'use client'; // Client Component - uses React hooks and browser APIs
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_COLUMN_LABELS,
+  EXPORT_COLUMNS,
+  ExportColumn,
+  ExportFormat,
+} from '@/backend/types/export';
+import { UserListQuery } from '@/backend/types/user';
+import { usersClient } from '@/frontend/api/usersClient';
+
+/**
+ * Format choices shown in the panel
+ */
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+  xlsx: 'Excel (.xlsx)',
+};
+
+/**
+ * Props interface for ExportMenu component
+ */
+interface ExportMenuProps {
+  query: UserListQuery;     // The table's query (search, filters, sort - paging is left out)
+  isTrash: boolean;         // Offer the "Deleted At" column (only useful in the trash)
+}
+
+/**
+ * ExportMenu Component Function
+ * @param {ExportMenuProps} props - The component props
+ */
+export function ExportMenu({ query, isTrash }: ExportMenuProps) {
+  // ==================== STATE MANAGEMENT ====================
+
+  /**
+   * isOpen: Whether the panel is shown
+   * format: The chosen file format
+   * columns: The chosen columns (kept in the order of EXPORT_COLUMNS)
+   */
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [columns, setColumns] = useState<ExportColumn[]>(DEFAULT_EXPORT_COLUMNS);
+
+  // The button and panel, to tell clicks inside from clicks outside
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // ==================== CLOSING ====================
+
+  /**
+   * Close the panel on a click outside of it or on the Escape key
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsOpen(false);
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    document.addEventListener('keydown', handleKey);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+      document.removeEventListener('keydown', handleKey);
+    };
+  }, [isOpen]);
+
+  // ==================== DOWNLOAD LINK ====================
+
+  // Columns offered here; "Deleted At" is always empty outside the trash
+  const availableColumns = EXPORT_COLUMNS.filter((column) => isTrash || column !== 'deletedAt');
+  const chosenColumns = columns.filter((column) => availableColumns.includes(column));
+
+  /**
+   * Check or uncheck one column
+   */
+  const toggleColumn = (column: ExportColumn) => {
+    const next = columns.includes(column) ? columns.filter((c) => c !== column) : [...columns, column];
+    setColumns(EXPORT_COLUMNS.filter((c) => next.includes(c)));
+  };
+
+  /**
+   * The table's query plus the export options
+   * e.g. /api/users/export?sort=name&q=jane&format=xlsx&columns=name,email&locale=de-DE&timeZone=Europe/Berlin
+   */
+  const exportUrl = () =>
+    usersClient.exportUrl(query, {
+      format,
+      columns: chosenColumns,
+      locale: navigator.language,
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    });
+
+  // ==================== RENDER ====================
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        aria-haspopup="dialog"
+        className="bg-white text-gray-700 px-6 py-3 rounded-lg border border-gray-300 hover:bg-gray-50 transition-colors font-medium"
+      >
+        Export
+      </button>
+
+      {isOpen && (
+        <div
+          role="dialog"
+          aria-label="Export users"
+          className="absolute right-0 z-20 mt-2 w-72 bg-white border border-gray-200 rounded-lg shadow-lg p-4 space-y-4 text-sm"
+        >
+          {/* Format */}
+          <fieldset>
+            <legend className="font-medium text-gray-900 mb-2">Format</legend>
+            <div className="space-y-1">
+              {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((option) => (
+                <label key={option} className="flex items-center gap-2 text-gray-700">
+                  <input
+                    type="radio"
+                    name="export-format"
+                    checked={format === option}
+                    onChange={() => setFormat(option)}
+                  />
+                  {FORMAT_LABELS[option]}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          {/* Columns */}
+          <fieldset>
+            <legend className="font-medium text-gray-900 mb-2">Columns</legend>
+            <div className="grid grid-cols-2 gap-1">
+              {availableColumns.map((column) => (
+                <label key={column} className="flex items-center gap-2 text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={columns.includes(column)}
+                    onChange={() => toggleColumn(column)}
+                  />
+                  {EXPORT_COLUMN_LABELS[column]}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <p className="text-gray-500">Exports every user matching the current search and filters.</p>
+
+          {/* Download: disabled (a plain span) until at least one column is chosen */}
+          {chosenColumns.length > 0 ? (
+            <a
+              href={exportUrl()}
+              onClick={() => setIsOpen(false)}
+              className="block text-center bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 font-medium"
+            >
+              Download
+            </a>
+          ) : (
+            <span className="block text-center bg-blue-600 text-white py-2 px-4 rounded-lg font-medium opacity-50 cursor-not-allowed">
+              Choose at least one column
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+/**
+ * Highlight Component
+ * Renders text with some parts marked (e.g. the parts that matched a search)
+ *
+ * Example: text="John Doe", ranges=[{ start: 5, end: 8 }]
+ * renders: John <mark>Doe</mark>
+ */
+
+import { MatchRange } from '@/backend/types/user';
+
+/**
+ * Props interface for Highlight component
+ */
+interface HighlightProps {
+  text: string;            // The full text to display
+  ranges?: MatchRange[];   // Sorted, non-overlapping ranges to highlight
+}
+
+/**
+ * Highlight Component Function
+ * @param {HighlightProps} props - The component props
+ */
+export function Highlight({ text, ranges }: HighlightProps) {
+  // Nothing to highlight - just show the text
+  if (!ranges || ranges.length === 0) return <>{text}</>;
+
+  // Walk through the ranges and alternate between plain and highlighted pieces
+  const parts = [];
+  let position = 0;
+
+  ranges.forEach((range, index) => {
+    if (range.start > position) {
+      parts.push(text.slice(position, range.start));
+    }
+    parts.push(
+      <mark key={index} className="bg-yellow-200 text-inherit rounded-sm">
+        {text.slice(range.start, range.end)}
+      </mark>
+    );
+    position = range.end;
+  });
+
+  if (position < text.length) {
+    parts.push(text.slice(position));
+  }
+
+  return <>{parts}</>;
+}
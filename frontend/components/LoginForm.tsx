@@ -0,0 +1,133 @@
+/**
+ * LoginForm Component
+ * Email + password form for the sign-in page
+ *
+ * Features:
+ * - Sends the credentials to POST /api/auth/login (which sets the session cookie)
+ * - Shows "Invalid email or password" when the sign-in fails
+ * - Goes back to the page the user originally wanted (?next=...)
+ */
+
+'use client'; // Client Component - uses React hooks and browser APIs
+
+import { FormEvent, useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+/**
+ * Props interface for LoginForm component
+ */
+interface LoginFormProps {
+  next?: string; // Where to go after signing in (defaults to the home page)
+}
+
+/**
+ * Only allow redirects to pages of THIS site ("/users/1"), never to other
+ * sites ("https://evil.example", "//evil.example" or "/\evil.example" -
+ * browsers read a backslash like a slash)
+ * The path is resolved the way the browser would, and must stay on this origin
+ */
+function safeRedirectPath(next: string | undefined): string {
+  if (!next || !next.startsWith('/')) return '/';
+  try {
+    const url = new URL(next, window.location.origin);
+    return url.origin === window.location.origin ? `${url.pathname}${url.search}${url.hash}` : '/';
+  } catch {
+    return '/';
+  }
+}
+
+/**
+ * LoginForm Component Function
+ * @param {LoginFormProps} props - The component props
+ */
+export function LoginForm({ next }: LoginFormProps) {
+  const router = useRouter();
+
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  /**
+   * Form Submit Handler
+   * Signs in, then navigates to the requested page
+   */
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault(); // Stop the browser from refreshing the page
+    setError('');
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password }),
+      });
+
+      if (response.ok) {
+        router.replace(safeRedirectPath(next));
+        router.refresh(); // Re-render server components, now with the session cookie
+        return;
+      }
+
+      setError(response.status === 401 ? 'Invalid email or password' : 'Please enter your email and password');
+    } catch (error) {
+      console.error('Failed to sign in:', error);
+      setError('Could not reach the server. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {/* ERROR MESSAGE */}
+      {error && (
+        <p role="alert" className="text-sm text-red-600 bg-red-50 rounded-lg px-4 py-2">
+          {error}
+        </p>
+      )}
+
+      {/* EMAIL INPUT FIELD */}
+      <div>
+        <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
+          Email
+        </label>
+        <input
+          type="email"
+          id="email"
+          required
+          autoComplete="username" // Lets password managers fill in the form
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all"
+        />
+      </div>
+
+      {/* PASSWORD INPUT FIELD */}
+      <div>
+        <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
+          Password
+        </label>
+        <input
+          type="password"
+          id="password"
+          required
+          autoComplete="current-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all"
+        />
+      </div>
+
+      {/* SUBMIT BUTTON */}
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+      >
+        {isSubmitting ? 'Signing in…' : 'Sign in'}
+      </button>
+    </form>
+  );
+}
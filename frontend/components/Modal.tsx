@@ -1,17 +1,25 @@
 /**
  * Modal Component
- * A reusable modal/dialog component that displays content in an overlay
+ * A reusable, accessible dialog that displays content in an overlay
  *
  * Features:
  * - Overlay background that can be clicked to close
- * - Close button (X) in top-right corner
- * - Centered on screen with blur backdrop
- * - Can display any content passed as children
+ * - Close button (X) in top-right corner, and the Escape key
+ * - Centered on screen with blur backdrop, in one of several widths
+ * - Rendered at the end of <body> (a portal), so no parent styles can cut it off
+ * - Screen readers announce it as a dialog with its title
+ * - Keeps the keyboard focus inside while open (Tab cycles through its controls),
+ *   and gives it back to the element that opened it when closed
+ * - The page behind doesn't scroll while it is open
+ * - Can be stacked: a dialog opened from inside a dialog appears on top, and
+ *   only the top one reacts to Escape (see frontend/utils/modalStack.ts)
  */
 
 'use client'; // This tells Next.js this is a Client Component (can use hooks, events, etc.)
 
-import { ReactNode } from 'react';
+import { ReactNode, RefObject, useEffect, useId, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { modalStack } from '@/frontend/utils/modalStack';
 
 /**
  * Props interface for Modal component
@@ -22,37 +30,151 @@ interface ModalProps {
   onClose: () => void;    // Function to call when user wants to close the modal
   title: string;          // Text to display in the modal header
   children: ReactNode;    // Content to display inside the modal (can be any React element)
+  size?: ModalSize;       // Optional: width of the dialog (default 'md')
+  closeOnBackdropClick?: boolean;   // Optional: false = only the X, Escape or a button closes it
+  initialFocusRef?: RefObject<HTMLElement | null>; // Optional: what gets the focus on open (default: the first control)
 }
 
+export type ModalSize = 'sm' | 'md' | 'lg' | 'xl';
+
+// Tailwind max-width class for each size ('sm' for short questions, 'xl' for tables)
+const SIZE_CLASSES: Record<ModalSize, string> = {
+  sm: 'max-w-sm',
+  md: 'max-w-md',
+  lg: 'max-w-2xl',
+  xl: 'max-w-4xl',
+};
+
+// Everything the keyboard can focus
+const FOCUSABLE_SELECTOR = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled]):not([type="hidden"])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])',
+].join(',');
+
 /**
  * Modal Component Function
  * @param {ModalProps} props - The component props
  */
-export function Modal({ isOpen, onClose, title, children }: ModalProps) {
+export function Modal({
+  isOpen,
+  onClose,
+  title,
+  children,
+  size = 'md',
+  closeOnBackdropClick = true,
+  initialFocusRef,
+}: ModalProps) {
+  // Unique ids: one for the stack, one to link the dialog to its title
+  const id = useId();
+  const titleId = `${id}-title`;
+
+  // The dialog box, to find the controls inside it
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  // The latest onClose, so the keyboard handler doesn't have to be re-attached on every render
+  const onCloseRef = useRef(onClose);
+  useEffect(() => {
+    onCloseRef.current = onClose;
+  }, [onClose]);
+
+  // ==================== OPEN / CLOSE ====================
+
+  /**
+   * While open:
+   * - join the modal stack (locks page scrolling)
+   * - move the focus into the dialog
+   * - handle Escape and Tab (only when this dialog is on top)
+   * When closed: leave the stack and give the focus back
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const previouslyFocused = document.activeElement as HTMLElement | null;
+    modalStack.push(id);
+
+    const focusables = () => [...(dialogRef.current?.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR) ?? [])];
+    (initialFocusRef?.current ?? focusables()[0] ?? dialogRef.current)?.focus();
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!modalStack.isTop(id)) return; // A dialog on top of this one handles the keys
+
+      if (event.key === 'Escape') {
+        event.preventDefault();
+        onCloseRef.current();
+        return;
+      }
+
+      // Tab on the last control goes back to the first one (Shift+Tab the other way)
+      if (event.key === 'Tab') {
+        const items = focusables();
+        if (items.length === 0) {
+          event.preventDefault();
+          return;
+        }
+        const first = items[0];
+        const last = items[items.length - 1];
+        const active = document.activeElement;
+        const isInside = dialogRef.current?.contains(active);
+
+        if (event.shiftKey && (active === first || !isInside)) {
+          event.preventDefault();
+          last.focus();
+        } else if (!event.shiftKey && (active === last || !isInside)) {
+          event.preventDefault();
+          first.focus();
+        }
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      modalStack.remove(id);
+      previouslyFocused?.focus();
+    };
+  }, [isOpen, id, initialFocusRef]);
+
   // If modal is not open, don't render anything (return null)
-  if (!isOpen) return null;
+  // (there is no document on the server either)
+  if (!isOpen || typeof document === 'undefined') return null;
 
-  return (
+  return createPortal(
     // Outer container: Fixed position, covers entire screen, z-50 = high z-index (appears on top)
+    // Stacked dialogs all use z-50: the one opened later comes later in <body>, so it is on top
     <div className="fixed inset-0 z-50 flex items-center justify-center">
       {/* Backdrop/Overlay: Dark background with blur effect */}
-      {/* Clicking this will close the modal */}
+      {/* Clicking this will close the modal (unless turned off) */}
       <div
         className="absolute inset-0 bg-black/50 backdrop-blur-sm"
-        onClick={onClose} // Close modal when backdrop is clicked
+        onClick={closeOnBackdropClick ? onClose : undefined}
+        aria-hidden="true"
       />
 
       {/* Modal Content Container */}
       {/* relative = positioned relative to backdrop, not fixed to screen */}
-      <div className="relative bg-white rounded-xl shadow-2xl w-full max-w-md mx-4 overflow-hidden">
+      {/* tabIndex -1 lets the dialog itself hold the focus when it has no controls */}
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        tabIndex={-1}
+        className={`relative bg-white rounded-xl shadow-2xl w-full ${SIZE_CLASSES[size]} mx-4 max-h-[90vh] overflow-y-auto outline-none`}
+      >
         {/* Modal Header */}
         <div className="flex items-center justify-between p-6 border-b border-gray-200">
           {/* Modal Title */}
-          <h2 className="text-xl font-semibold text-gray-900">{title}</h2>
+          <h2 id={titleId} className="text-xl font-semibold text-gray-900">{title}</h2>
 
           {/* Close Button (X icon) */}
           <button
+            type="button"
             onClick={onClose} // Close modal when X is clicked
+            aria-label="Close"
             className="text-gray-400 hover:text-gray-600 transition-colors"
           >
             {/* SVG icon for X/close symbol */}
@@ -61,6 +183,7 @@ export function Modal({ isOpen, onClose, title, children }: ModalProps) {
               fill="none"
               stroke="currentColor"
               viewBox="0 0 24 24"
+              aria-hidden="true"
             >
               <path
                 strokeLinecap="round"
@@ -76,6 +199,7 @@ export function Modal({ isOpen, onClose, title, children }: ModalProps) {
         {/* This is where the children content will be rendered */}
         <div className="p-6">{children}</div>
       </div>
-    </div>
+    </div>,
+    document.body
   );
 }
@@ -0,0 +1,94 @@
+/**
+ * Pagination Component
+ * Pager controls shown below the user table
+ *
+ * Features:
+ * - "Showing X–Y of Z" summary
+ * - Previous / Next buttons (disabled at the first/last page)
+ * - Page size dropdown
+ */
+
+'use client'; // Client Component - handles click and change events
+
+/**
+ * Props interface for Pagination component
+ */
+interface PaginationProps {
+  page: number;                               // Current page (starts at 1)
+  pageSize: number;                           // Items per page
+  total: number;                              // Total number of items across all pages
+  onPageChange: (page: number) => void;       // Called with the new page number
+  onPageSizeChange: (pageSize: number) => void; // Called with the new page size
+}
+
+// Page sizes offered in the dropdown
+const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
+
+/**
+ * Pagination Component Function
+ * @param {PaginationProps} props - The component props
+ */
+export function Pagination({
+  page,
+  pageSize,
+  total,
+  onPageChange,
+  onPageSizeChange,
+}: PaginationProps) {
+  // Math.max(1, ...) so an empty table still shows "page 1 of 1"
+  const totalPages = Math.max(1, Math.ceil(total / pageSize));
+
+  // Range of items on this page, e.g. 11–20
+  const first = total === 0 ? 0 : (page - 1) * pageSize + 1;
+  const last = Math.min(page * pageSize, total);
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-4 px-6 py-4 border-t border-gray-200 bg-gray-50 text-sm text-gray-600">
+      {/* Left side: summary text */}
+      <p>
+        Showing <span className="font-medium">{first}</span>–<span className="font-medium">{last}</span> of{' '}
+        <span className="font-medium">{total}</span>
+      </p>
+
+      {/* Right side: page size and navigation */}
+      <div className="flex items-center gap-4">
+        <label className="flex items-center gap-2">
+          Rows per page
+          <select
+            value={pageSize}
+            onChange={(e) => onPageSizeChange(Number(e.target.value))}
+            className="px-2 py-1 border border-gray-300 rounded-lg bg-white"
+          >
+            {PAGE_SIZE_OPTIONS.map((size) => (
+              <option key={size} value={size}>
+                {size}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => onPageChange(page - 1)}
+            disabled={page <= 1}
+            className="px-3 py-1 rounded-lg border border-gray-300 bg-white hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Previous
+          </button>
+          <span>
+            Page {page} of {totalPages}
+          </span>
+          <button
+            type="button"
+            onClick={() => onPageChange(page + 1)}
+            disabled={page >= totalPages}
+            className="px-3 py-1 rounded-lg border border-gray-300 bg-white hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Next
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
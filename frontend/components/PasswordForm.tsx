@@ -0,0 +1,120 @@
+/**
+ * PasswordForm Component
+ * Sets the password a user signs in with (shown in a modal on the user page)
+ *
+ * Features:
+ * - The password is typed twice, so a typo doesn't lock the user out
+ * - Checks the length with the same rules as the API before sending
+ * - Shows the error from the server (e.g. not allowed) above the fields
+ */
+
+'use client'; // Client Component - uses React hooks
+
+import { FormEvent, useState } from 'react';
+import { PASSWORD_MIN_LENGTH, validateSetPassword } from '@/backend/validation/authSchemas';
+
+/**
+ * Props interface for PasswordForm component
+ */
+interface PasswordFormProps {
+  userName: string; // Whose password is set (shown in the hint)
+  onSubmit: (password: string) => Promise<string | void>; // Saves the password; returns an error message on failure
+  onCancel: () => void; // Closes the form without saving
+}
+
+/**
+ * PasswordForm Component Function
+ * @param {PasswordFormProps} props - The component props
+ */
+export function PasswordForm({ userName, onSubmit, onCancel }: PasswordFormProps) {
+  const [password, setPassword] = useState('');
+  const [repeated, setRepeated] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  /**
+   * Form Submit Handler
+   * Checks both fields, then lets the parent save the password
+   */
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault(); // Stop the browser from refreshing the page
+
+    const validation = validateSetPassword({ password });
+    if (!validation.ok) return setError(`Password: ${validation.errors.password}`);
+    if (password !== repeated) return setError('The passwords do not match');
+
+    setError('');
+    setIsSubmitting(true);
+    const failure = await onSubmit(validation.value.password);
+    setIsSubmitting(false);
+    if (failure) setError(failure);
+  };
+
+  const inputClass =
+    'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-gray-600">
+        {userName} signs in with their email and this password. It must be at least {PASSWORD_MIN_LENGTH} characters long.
+      </p>
+
+      {/* ERROR MESSAGE */}
+      {error && (
+        <p role="alert" className="text-sm text-red-600 bg-red-50 rounded-lg px-4 py-2">
+          {error}
+        </p>
+      )}
+
+      {/* NEW PASSWORD */}
+      <div>
+        <label htmlFor="new-password" className="block text-sm font-medium text-gray-700 mb-1">
+          New password
+        </label>
+        <input
+          type="password"
+          id="new-password"
+          required
+          autoComplete="new-password" // Keeps browsers from filling in the admin's own password
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className={inputClass}
+        />
+      </div>
+
+      {/* SAME PASSWORD AGAIN */}
+      <div>
+        <label htmlFor="repeat-password" className="block text-sm font-medium text-gray-700 mb-1">
+          Repeat password
+        </label>
+        <input
+          type="password"
+          id="repeat-password"
+          required
+          autoComplete="new-password"
+          value={repeated}
+          onChange={(e) => setRepeated(e.target.value)}
+          className={inputClass}
+        />
+      </div>
+
+      {/* BUTTONS */}
+      <div className="flex gap-3 pt-2">
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+        >
+          {isSubmitting ? 'Saving…' : 'Set password'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex-1 bg-gray-200 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
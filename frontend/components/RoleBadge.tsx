@@ -0,0 +1,49 @@
+/**
+ * RoleBadge Component
+ * Shows a user's role as a small colored "pill"
+ *
+ * The color comes from the role itself (Role.color), so new roles
+ * get their own color without any code change.
+ */
+
+import { ReactNode } from 'react';
+import { Role, RoleColor } from '@/backend/types/role';
+
+/**
+ * Tailwind classes for every role color
+ * Tailwind only includes classes it can find written out in the code,
+ * so we can't build them dynamically like `bg-${color}-100`
+ */
+const COLOR_CLASSES: Record<RoleColor, string> = {
+  gray: 'bg-gray-100 text-gray-700',
+  red: 'bg-red-100 text-red-700',
+  yellow: 'bg-yellow-100 text-yellow-800',
+  green: 'bg-green-100 text-green-700',
+  blue: 'bg-blue-100 text-blue-700',
+  indigo: 'bg-indigo-100 text-indigo-700',
+  purple: 'bg-purple-100 text-purple-700',
+  pink: 'bg-pink-100 text-pink-700',
+};
+
+/**
+ * Props interface for RoleBadge component
+ */
+interface RoleBadgeProps {
+  role?: Role;           // The role to show (undefined while roles are loading or if it was removed)
+  children?: ReactNode;  // Optional: custom content (e.g. highlighted text), defaults to the role name
+}
+
+/**
+ * RoleBadge Component Function
+ * @param {RoleBadgeProps} props - The component props
+ */
+export function RoleBadge({ role, children }: RoleBadgeProps) {
+  return (
+    <span
+      className={`px-3 py-1 rounded-full text-xs font-medium ${COLOR_CLASSES[role?.color ?? 'gray']}`}
+      title={role?.description} // Tooltip with the role description
+    >
+      {children ?? role?.name ?? '—'}
+    </span>
+  );
+}
@@ -0,0 +1,52 @@
+/**
+ * SortableHeader Component
+ * A table header cell that can be clicked to sort by its column
+ *
+ * Features:
+ * - Shows an arrow (▲ / ▼) on the column that is currently sorted
+ * - Clicking the active column flips the direction, clicking another column sorts by it
+ * - Sets aria-sort so screen readers announce the sort state
+ */
+
+'use client'; // Client Component - handles click events
+
+import { SortOrder, UserSortField } from '@/backend/types/user';
+
+/**
+ * Props interface for SortableHeader component
+ */
+interface SortableHeaderProps {
+  label: string;                         // Text shown in the header
+  field: UserSortField;                  // Column this header sorts by
+  sort: UserSortField;                   // Column the table is currently sorted by
+  order: SortOrder;                      // Current sort direction
+  onSort: (field: UserSortField) => void; // Called when the header is clicked
+}
+
+/**
+ * SortableHeader Component Function
+ * @param {SortableHeaderProps} props - The component props
+ */
+export function SortableHeader({ label, field, sort, order, onSort }: SortableHeaderProps) {
+  const isActive = sort === field;
+
+  return (
+    <th
+      className="px-6 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider"
+      aria-sort={isActive ? (order === 'asc' ? 'ascending' : 'descending') : 'none'}
+    >
+      {/* A button inside the header makes it keyboard accessible */}
+      <button
+        type="button"
+        onClick={() => onSort(field)}
+        className="flex items-center gap-1 uppercase tracking-wider hover:text-blue-600 transition-colors"
+      >
+        {label}
+        {/* Arrow only on the active column, faded placeholder on the others */}
+        <span className={isActive ? 'text-blue-600' : 'text-gray-300'}>
+          {isActive && order === 'desc' ? '▼' : '▲'}
+        </span>
+      </button>
+    </th>
+  );
+}
@@ -0,0 +1,386 @@
+/**
+ * UserDetail Component
+ * Shows the full profile of one user, with Edit and Delete actions
+ *
+ * Used by the user detail page (/users/:id), so a user can be shared as a link
+ *
+ * Features:
+ * - Profile card with all fields (including custom attributes) and timestamps
+ * - The manager's name links to their own page
+ * - Edit button: opens the same modal + form as the user table
+ * - Delete button: moves the user to the trash and goes back to the user list
+ * - Set password button: lets the user sign in (users added by others have no password yet)
+ * - Buttons are only shown when the signed-in user has the permission
+ * - History timeline: who changed what and when (from the audit log)
+ */
+
+'use client'; // Client Component - uses React hooks and browser APIs
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Permission } from '@/backend/types/role';
+import { User } from '@/backend/types/user';
+import { FieldErrors } from '@/backend/validation/schema';
+import { canEditUser, hasPermission } from '@/backend/utils/permissions';
+import { queryCache } from '@/frontend/api/queryCache';
+import { usersClient, usersQueryKeys } from '@/frontend/api/usersClient';
+import { useToast } from '@/frontend/contexts/ToastContext';
+import { useAttributes } from '@/frontend/hooks/useAttributes';
+import { useConfirm } from '@/frontend/hooks/useConfirm';
+import { useRoles } from '@/frontend/hooks/useRoles';
+import { useUnsavedChangesGuard } from '@/frontend/hooks/useUnsavedChangesGuard';
+import { Avatar } from './Avatar';
+import { Modal } from './Modal';
+import { PasswordForm } from './PasswordForm';
+import { EditConflict, UserForm, UserFormValues, changedFields, formErrorsFrom, toMergePatch } from './UserForm';
+import { RoleBadge } from './RoleBadge';
+import { UserHistory } from './UserHistory';
+
+/**
+ * Props interface for UserDetail component
+ */
+interface UserDetailProps {
+  user: User; // The user to show (loaded by the page on the server)
+  permissions: Permission[]; // What the signed-in user may do (decides which buttons are shown)
+}
+
+/**
+ * UserDetail Component Function
+ * @param {UserDetailProps} props - The component props
+ */
+export function UserDetail({ user: initialUser, permissions }: UserDetailProps) {
+  // useRouter lets us navigate in code (e.g. back to the list after deleting)
+  const router = useRouter();
+
+  // Success, error and undo notifications
+  const toast = useToast();
+
+  /**
+   * user: The user being shown (updated after a successful edit)
+   * isEditing: Controls the edit modal
+   * isSettingPassword: Controls the password modal
+   */
+  const [user, setUser] = useState(initialUser);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSettingPassword, setIsSettingPassword] = useState(false);
+
+  /**
+   * confirm: "Are you sure?" dialog for deleting
+   * guard: Asks "Discard changes?" before closing the edit form with unsaved changes
+   */
+  const { confirm, confirmDialog } = useConfirm();
+  const [isFormDirty, setIsFormDirty] = useState(false);
+  const { guard, confirmDialog: unsavedChangesDialog } = useUnsavedChangesGuard(isFormDirty);
+
+  // All roles (for the form dropdown) and the role of this user
+  const { roles, rolesById } = useRoles();
+  const role = rolesById.get(user.roleId);
+
+  // Custom attribute definitions (for the form and the profile card)
+  const { attributes, error: attributesError, retry: retryAttributes } = useAttributes();
+
+  /**
+   * manager: The user this user reports to, loaded by id
+   * Only used while it matches user.managerId (so a changed manager never shows the old name)
+   */
+  const [manager, setManager] = useState<User | null>(null);
+  const managerName = manager && manager.id === user.managerId ? manager.name : undefined;
+
+  useEffect(() => {
+    if (!user.managerId) return;
+    const controller = new AbortController();
+    usersClient.get(user.managerId, { signal: controller.signal }).then((result) => {
+      if (result.ok) setManager(result.data);
+    });
+    return () => controller.abort();
+  }, [user.managerId]);
+
+  // What the signed-in user may do (the API checks this again)
+  // Users whose role is above your own can't be edited, and their password can't be set
+  const canEdit = canEditUser(permissions, role);
+  const canDelete = hasPermission(permissions, 'users:delete');
+  const canChangeRole = hasPermission(permissions, 'users:change-role');
+
+  /**
+   * UPDATE USER
+   * Sends the changed fields to the API (as a merge patch) and shows the saved result
+   * @param {User} base - The saved user that was edited (its version is sent as If-Match)
+   * @returns {Promise<FieldErrors | EditConflict | void>} Field errors or a conflict, shown by UserForm
+   */
+  const handleUpdate = async (
+    data: UserFormValues,
+    base?: User
+  ): Promise<FieldErrors | EditConflict | void> => {
+    // Nothing was changed: just close the form
+    const changes = changedFields(base ?? user, data);
+    if (Object.keys(changes).length === 0) {
+      setIsEditing(false);
+      return;
+    }
+
+    // The version is sent as If-Match: only save if nobody changed it meanwhile
+    const result = await usersClient.update(user.id, toMergePatch(base ?? user, changes), (base ?? user).version);
+
+    // Invalid data (422), email taken (409), not allowed (403) or someone else
+    // saved this user first (412): the form shows the errors or both versions
+    if (!result.ok) return formErrorsFrom(result.error);
+
+    setUser(result.data); // Show the saved user
+    setIsEditing(false);
+    toast.success('Changes saved');
+    queryCache.invalidate(usersQueryKeys.lists); // Cached user lists show the old data
+  };
+
+  /**
+   * AVATAR CHANGED
+   * The form uploads or removes pictures right away (the form stays open)
+   * @param {User} saved - The saved user
+   */
+  const handleAvatarChange = (saved: User) => {
+    setUser(saved);
+    queryCache.invalidate(usersQueryKeys.lists);
+  };
+
+  /**
+   * SET PASSWORD
+   * @param {string} password - The new password (already checked by PasswordForm)
+   * @returns {Promise<string | void>} An error message for the form, if it failed
+   */
+  const handleSetPassword = async (password: string): Promise<string | void> => {
+    const result = await usersClient.setPassword(user.id, { password });
+    if (!result.ok) {
+      return result.error.kind === 'invalid'
+        ? Object.values(result.error.errors).join(', ')
+        : result.error.message;
+    }
+
+    setIsSettingPassword(false);
+    toast.success(`${user.name} can now sign in with the new password`);
+  };
+
+  /**
+   * DELETE USER
+   * Deletes the user and navigates back to the user list
+   */
+  const handleDelete = async () => {
+    const confirmed = await confirm({
+      title: 'Delete user?',
+      message: `${user.name} will be moved to the trash. They can be restored from there.`,
+      confirmLabel: 'Delete',
+      variant: 'danger',
+    });
+    if (!confirmed) return;
+
+    // The version is sent so we don't delete changes we haven't seen
+    const result = await usersClient.remove(user.id, user.version);
+
+    if (result.ok) {
+      queryCache.invalidate(usersQueryKeys.lists); // Cached user lists still contain the user
+      // The toast stays while the list opens, so the delete can still be undone from there
+      toast.undo(`${user.name} was moved to the trash`, handleUndoDelete);
+      router.push('/'); // This page doesn't exist anymore - go back to the list
+      return;
+    }
+
+    // Someone else changed the user in the meantime (412): show the new data first
+    if (result.error.kind === 'stale') {
+      setUser(result.error.current);
+      toast.error('This user was changed by someone else. Please check the updated data and try again.');
+      return;
+    }
+    toast.error(result.error.message);
+  };
+
+  /**
+   * UNDO DELETE
+   * Takes the user out of the trash again (the Undo button of the toast)
+   */
+  const handleUndoDelete = async () => {
+    const result = await usersClient.restore(user.id);
+    queryCache.invalidate(usersQueryKeys.lists);
+    if (result.ok) {
+      toast.success(`${user.name} was restored`);
+    } else {
+      toast.error(result.error.message);
+    }
+  };
+
+  return (
+    <div className="w-full">
+      {/* ========== HEADER SECTION ========== */}
+      <div className="mb-6">
+        {/* Back link to the user list */}
+        <Link href="/" className="text-sm text-blue-600 hover:underline">
+          ← Back to users
+        </Link>
+
+        <div className="flex justify-between items-center mt-2">
+          {/* Left side: Picture, name and role */}
+          <div className="flex items-center gap-3">
+            <Avatar user={user} size={56} />
+            <h1 className="text-3xl font-bold text-gray-900">{user.name}</h1>
+            <RoleBadge role={role} />
+          </div>
+
+          {/* Right side: Actions (hidden without the permission) */}
+          <div className="flex gap-2">
+            {canEdit && (
+              <button
+                onClick={() => setIsEditing(true)}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+              >
+                Edit
+              </button>
+            )}
+            {canEdit && (
+              <button
+                onClick={() => setIsSettingPassword(true)}
+                className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors font-medium"
+              >
+                Set password
+              </button>
+            )}
+            {canDelete && (
+              <button
+                onClick={handleDelete}
+                className="bg-red-50 text-red-600 px-4 py-2 rounded-lg hover:bg-red-100 transition-colors font-medium"
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* ========== PROFILE SECTION ========== */}
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200">
+        {/* dl = "description list": pairs of labels (dt) and values (dd) */}
+        <dl className="divide-y divide-gray-200">
+          <div className="px-6 py-4 grid grid-cols-3 gap-4">
+            <dt className="text-sm font-medium text-gray-500">Name</dt>
+            <dd className="col-span-2 text-gray-900">{user.name}</dd>
+          </div>
+          <div className="px-6 py-4 grid grid-cols-3 gap-4">
+            <dt className="text-sm font-medium text-gray-500">Email</dt>
+            <dd className="col-span-2 text-gray-900">
+              <a href={`mailto:${user.email}`} className="text-blue-600 hover:underline">
+                {user.email}
+              </a>
+            </dd>
+          </div>
+          <div className="px-6 py-4 grid grid-cols-3 gap-4">
+            <dt className="text-sm font-medium text-gray-500">Role</dt>
+            <dd className="col-span-2 text-gray-900">
+              {role?.name}
+              {/* Show what the role is for, below its name */}
+              {role?.description && (
+                <p className="text-sm text-gray-500">{role.description}</p>
+              )}
+            </dd>
+          </div>
+          <div className="px-6 py-4 grid grid-cols-3 gap-4">
+            <dt className="text-sm font-medium text-gray-500">Status</dt>
+            <dd className="col-span-2 text-gray-900 capitalize">{user.status}</dd>
+          </div>
+          <div className="px-6 py-4 grid grid-cols-3 gap-4">
+            <dt className="text-sm font-medium text-gray-500">Phone</dt>
+            <dd className="col-span-2 text-gray-900">
+              {user.phone ? (
+                <a href={`tel:${user.phone}`} className="text-blue-600 hover:underline">
+                  {user.phone}
+                </a>
+              ) : (
+                '—'
+              )}
+            </dd>
+          </div>
+          <div className="px-6 py-4 grid grid-cols-3 gap-4">
+            <dt className="text-sm font-medium text-gray-500">Department</dt>
+            <dd className="col-span-2 text-gray-900">{user.department || '—'}</dd>
+          </div>
+          <div className="px-6 py-4 grid grid-cols-3 gap-4">
+            <dt className="text-sm font-medium text-gray-500">Job title</dt>
+            <dd className="col-span-2 text-gray-900">{user.jobTitle || '—'}</dd>
+          </div>
+          <div className="px-6 py-4 grid grid-cols-3 gap-4">
+            <dt className="text-sm font-medium text-gray-500">Manager</dt>
+            <dd className="col-span-2 text-gray-900">
+              {user.managerId ? (
+                <Link href={`/users/${user.managerId}`} className="text-blue-600 hover:underline">
+                  {managerName ?? `User ${user.managerId}`}
+                </Link>
+              ) : (
+                '—'
+              )}
+            </dd>
+          </div>
+          {/* One row per custom attribute */}
+          {attributes.map((attribute) => (
+            <div key={attribute.key} className="px-6 py-4 grid grid-cols-3 gap-4">
+              <dt className="text-sm font-medium text-gray-500">{attribute.label}</dt>
+              <dd className="col-span-2 text-gray-900">{user.attributes[attribute.key] ?? '—'}</dd>
+            </div>
+          ))}
+          {attributesError && (
+            <div className="px-6 py-4">
+              <p role="alert" className="text-sm text-red-600">
+                Could not load the custom attributes: {attributesError}.{' '}
+                <button type="button" onClick={retryAttributes} className="text-blue-600 hover:underline">
+                  Try again
+                </button>
+              </p>
+            </div>
+          )}
+          <div className="px-6 py-4 grid grid-cols-3 gap-4">
+            <dt className="text-sm font-medium text-gray-500">User ID</dt>
+            <dd className="col-span-2 font-mono text-sm text-gray-900">{user.id}</dd>
+          </div>
+          <div className="px-6 py-4 grid grid-cols-3 gap-4">
+            <dt className="text-sm font-medium text-gray-500">Created at</dt>
+            <dd className="col-span-2 text-gray-900">
+              {/* The server and browser may be in different time zones, so the text can differ */}
+              <time dateTime={user.createdAt} suppressHydrationWarning>
+                {new Date(user.createdAt).toLocaleString()}
+              </time>
+            </dd>
+          </div>
+        </dl>
+      </div>
+
+      {/* ========== HISTORY SECTION ========== */}
+      {/* refreshKey={user}: reloads the timeline after every saved edit */}
+      <UserHistory userId={user.id} rolesById={rolesById} refreshKey={user} />
+
+      {/* ========== MODAL FOR EDIT ========== */}
+      {/* Closing with unsaved changes asks first */}
+      <Modal isOpen={isEditing} onClose={() => guard(() => setIsEditing(false))} title="Edit User">
+        <UserForm
+          user={user}
+          roles={roles}
+          attributes={attributes}
+          attributesError={attributesError}
+          onRetryAttributes={retryAttributes}
+          canChangeRole={canChangeRole}
+          onSubmit={handleUpdate}
+          onCancel={() => guard(() => setIsEditing(false))}
+          onDirtyChange={setIsFormDirty}
+          onAvatarChange={handleAvatarChange}
+        />
+      </Modal>
+
+      {/* ========== MODAL FOR PASSWORD ========== */}
+      <Modal isOpen={isSettingPassword} onClose={() => setIsSettingPassword(false)} title="Set Password">
+        <PasswordForm
+          userName={user.name}
+          onSubmit={handleSetPassword}
+          onCancel={() => setIsSettingPassword(false)}
+        />
+      </Modal>
+
+      {/* ========== CONFIRMATION DIALOGS ========== */}
+      {confirmDialog}
+      {unsavedChangesDialog}
+    </div>
+  );
+}
@@ -5,56 +5,454 @@
  * Features:
  * - Can be used for both CREATE and EDIT operations
  * - Shows pre-filled data when editing an existing user
- * - Validates required fields (name and email)
- * - Has a dropdown for selecting user role
+ * - Validates fields with the same rules as the API (see backend/validation)
+ * - Shows an error message next to each invalid input (also for errors from the server)
+ * - Checks while typing whether the email is already used by another user
+ * - Has a dropdown for selecting user role (roles come from the API)
+ * - Has the profile fields (phone, department, job title, manager, status) and
+ *   one input per custom attribute, matching its type (text, number, date, enum)
+ * - Shows the profile picture (or initials); when editing, a new picture can be
+ *   uploaded or the current one removed right away (not on submit)
+ * - When someone else saved the user meanwhile, lets you merge both versions
+ * - Tells the parent whether there are unsaved changes (to ask before closing)
  */
 
 'use client'; // Client Component - uses React hooks (useState)
 
-import { FormEvent, useState } from 'react';
-import { User } from '@/backend/types/user';
+import { FormEvent, useEffect, useRef, useState } from 'react';
+import { USER_STATUSES, User, UserListItem } from '@/backend/types/user';
+import { AttributeDefinition } from '@/backend/types/attribute';
+import { AVATAR_CONTENT_TYPES } from '@/backend/types/avatar';
+import { Role } from '@/backend/types/role';
+import { UserMergePatch } from '@/backend/types/api';
+import { EditableUser, editableUser, sameFieldValue } from '@/backend/utils/userFields';
+import { validateAttributeValues } from '@/backend/validation/attributeSchemas';
+import { FieldErrors } from '@/backend/validation/schema';
+import { EMAIL_PATTERN, validateCreateUser } from '@/backend/validation/userSchemas';
+import { ApiError, ApiResult } from '@/frontend/api/request';
+import { usersClient } from '@/frontend/api/usersClient';
+import { useDebouncedValue } from '@/frontend/hooks/useDebouncedValue';
+import { useUserOptions } from '@/frontend/hooks/useUserOptions';
+import { Avatar } from './Avatar';
+import { ConflictResolver } from './ConflictResolver';
+
+// Shared Tailwind classes for inputs, plus a red border when the field has an error
+const inputClassName =
+  'w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all';
+const inputBorder = (hasError: boolean) => (hasError ? 'border-red-500' : 'border-gray-300');
+
+/**
+ * The values the form submits - every field of creating a user, "" for empty inputs
+ */
+export type UserFormValues = EditableUser;
+
+// What an empty form starts with: the built-in "user" role, everything else empty
+const EMPTY_FORM: UserFormValues = { ...editableUser(), roleId: 'user' };
+
+// Labels for the status dropdown
+const STATUS_LABELS: Record<UserFormValues['status'], string> = {
+  active: 'Active',
+  suspended: 'Suspended (can\'t sign in)',
+  invited: 'Invited',
+};
+
+/**
+ * EditConflict
+ * What onSubmit returns when the server answered 412 (someone else saved first)
+ * current = the user as it is saved now
+ */
+export interface EditConflict {
+  current: User;
+}
+
+/**
+ * Tells an EditConflict apart from field errors (FieldErrors values are always strings)
+ */
+function isEditConflict(result: FieldErrors | EditConflict): result is EditConflict {
+  return typeof result.current === 'object';
+}
+
+/**
+ * The form values that differ from the saved user
+ * Used to send only the changed fields when editing (a merge patch)
+ * @param {User} base - The saved user the edits are based on
+ * @param {UserFormValues} values - What is in the form now
+ */
+export function changedFields(base: User, values: UserFormValues): Partial<UserFormValues> {
+  const saved = editableUser(base);
+  const changes: Partial<UserFormValues> = {};
+  (Object.keys(values) as (keyof UserFormValues)[]).forEach((field) => {
+    if (!sameFieldValue(values[field], saved[field])) Object.assign(changes, { [field]: values[field] });
+  });
+  return changes;
+}
+
+/**
+ * Turns changed fields into a merge patch for PATCH /api/users/:id
+ * A merge patch merges custom attributes into the saved ones, so only the
+ * changed values are sent - and null for the ones that were cleared
+ * @param {User} base - The saved user the edits are based on
+ * @param {Partial<UserFormValues>} changes - The result of changedFields()
+ */
+export function toMergePatch(base: User, changes: Partial<UserFormValues>): UserMergePatch {
+  if (!changes.attributes) return changes;
+
+  const attributes: Record<string, string | number | null> = {};
+  const keys = new Set([...Object.keys(base.attributes), ...Object.keys(changes.attributes)]);
+  for (const key of keys) {
+    const value = changes.attributes[key] ?? null;
+    if (value !== (base.attributes[key] ?? null)) attributes[key] = value;
+  }
+  return { ...changes, attributes };
+}
+
+/**
+ * What the form should show for a save that failed
+ * Field errors (422/409) go next to the inputs, a 412 lets the user merge,
+ * and anything else becomes one message above the form
+ * @param {ApiError} error - The error returned by usersClient
+ */
+export function formErrorsFrom(error: ApiError): FieldErrors | EditConflict {
+  if (error.kind === 'invalid') return error.errors;
+  if (error.kind === 'stale') return { current: error.current };
+  return { body: error.message };
+}
 
 /**
  * Props interface for UserForm component
  */
 interface UserFormProps {
   user?: User;  // Optional: If provided, form is in EDIT mode. If not, CREATE mode
-  onSubmit: (data: { name: string; email: string; role: string }) => void; // Function to call when form is submitted
+  roles: Role[]; // Roles to choose from in the dropdown
+  attributes: AttributeDefinition[]; // Custom attributes - one input each
+  attributesError?: string | null; // Optional: why the attributes couldn't be loaded (shown with "Try again")
+  onRetryAttributes?: () => void; // Optional: loads the attributes again
+  canChangeRole?: boolean; // false = the role dropdown is locked (no "users:change-role" permission)
+  // Function to call when form is submitted
+  // base = the saved user the edits are based on (send its version as If-Match,
+  // and only the fields that differ from it - see changedFields())
+  // It can return field errors from the server (e.g. a 422 response) to show in the form,
+  // or an EditConflict (412 response) to let the user merge with the saved version
+  onSubmit: (data: UserFormValues, base?: User) => Promise<FieldErrors | EditConflict | void>;
   onCancel: () => void;  // Function to call when user clicks Cancel button
+  onDirtyChange?: (isDirty: boolean) => void; // Optional: told when the form starts/stops differing from the saved user
+  onAvatarChange?: (user: User) => void; // Optional: told when a picture was uploaded or removed (gets the saved user)
 }
 
 /**
  * UserForm Component Function
  * @param {UserFormProps} props - The component props
  */
-export function UserForm({ user, onSubmit, onCancel }: UserFormProps) {
+export function UserForm({
+  user,
+  roles,
+  attributes,
+  attributesError,
+  onRetryAttributes,
+  canChangeRole = true,
+  onSubmit,
+  onCancel,
+  onDirtyChange,
+  onAvatarChange,
+}: UserFormProps) {
   /**
    * Form State Management using useState hook
    * Stores the current values of all form fields
    *
-   * If user prop exists (EDIT mode): pre-fill with existing data
-   * If no user prop (CREATE mode): use empty strings and default "User" role
+   * If user prop exists (EDIT mode): pre-fill with existing data ("" for fields that aren't set)
+   * If no user prop (CREATE mode): use empty strings and the default "user" role
    */
-  const [formData, setFormData] = useState({
-    name: user?.name || '',      // Use existing name or empty string
-    email: user?.email || '',    // Use existing email or empty string
-    role: user?.role || 'User',  // Use existing role or default to 'User'
-  });
+  const [formData, setFormData] = useState<UserFormValues>(user ? editableUser(user) : EMPTY_FORM);
+
+  // Users to choose a manager from (everyone but the user being edited)
+  const { userOptions, error: userOptionsError, retry: retryUserOptions } = useUserOptions();
+  const managerOptions = userOptions.filter((option) => option.id !== user?.id);
+  const savedManagerName = (user as UserListItem | undefined)?.managerName; // Only list items have it
+
+  /**
+   * errors: Error message per field, e.g. { email: 'Must be a valid email address' }
+   * isSubmitting: true while waiting for the server (disables the submit button)
+   */
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  /**
+   * base: The saved version the edits are based on (sent as If-Match)
+   * conflict: The newer saved version, while the merge view is shown
+   */
+  const [base, setBase] = useState<User | undefined>(user);
+  const [conflict, setConflict] = useState<User | null>(null);
+
+  // ==================== UNSAVED CHANGES ====================
+
+  /**
+   * isDirty: Does the form differ from the saved user (or from an empty form when creating)?
+   * The parent is told on every change, and "not dirty" when the form goes away
+   */
+  const initial = base ? editableUser(base) : EMPTY_FORM;
+  const isDirty = (Object.keys(formData) as (keyof UserFormValues)[]).some(
+    (field) => !sameFieldValue(formData[field], initial[field])
+  );
+
+  useEffect(() => {
+    onDirtyChange?.(isDirty);
+  }, [isDirty, onDirtyChange]);
+
+  useEffect(() => () => onDirtyChange?.(false), [onDirtyChange]);
+
+  // ==================== EMAIL AVAILABILITY CHECK ====================
+
+  /**
+   * emailCheck: Result of the last availability check, and which email it was for
+   * The email is stored too, so an old result is ignored once the input changes
+   */
+  const [emailCheck, setEmailCheck] = useState<{ email: string; available: boolean } | null>(null);
+  const normalizedEmail = formData.email.trim().toLowerCase();
+  const emailToCheck = useDebouncedValue(normalizedEmail, 400);
+
+  /**
+   * Ask the server whether the email is free, 400ms after the user stops typing
+   * Skipped for invalid emails and for the user's own current email
+   */
+  useEffect(() => {
+    if (!EMAIL_PATTERN.test(emailToCheck) || emailToCheck === user?.email) return;
+
+    // AbortController cancels the request if the email changes before it finishes
+    const controller = new AbortController();
+
+    usersClient.checkEmail(emailToCheck, user?.id, { signal: controller.signal }).then((result) => {
+      // Ignore cancelled or failed checks - the server checks again on submit
+      if (result.ok) setEmailCheck({ email: emailToCheck, available: result.data.available });
+    });
+
+    return () => controller.abort();
+  }, [emailToCheck, user]);
+
+  const emailTaken = emailCheck?.email === normalizedEmail && !emailCheck.available;
+  const emailError = errors.email ?? (emailTaken ? 'Email already in use' : undefined);
 
   /**
    * Form Submit Handler
    * Prevents default form submission (which would reload the page)
-   * Then calls the onSubmit function passed from parent component
+   * Validates the data, then calls the onSubmit function passed from parent component
    */
-  const handleSubmit = (e: FormEvent) => {
+  const handleSubmit = async (e: FormEvent) => {
     e.preventDefault(); // Stop the browser from refreshing the page
-    onSubmit(formData); // Send form data to parent component
+
+    // Check the data with the same rules the API uses - no request if it's invalid
+    const validation = validateCreateUser(formData);
+    const attributeValidation = validateAttributeValues(formData.attributes, attributes);
+    if (!validation.ok || !attributeValidation.ok) {
+      setErrors({
+        ...(validation.ok ? {} : validation.errors),
+        ...(attributeValidation.ok ? {} : attributeValidation.errors),
+      });
+      return;
+    }
+    if (emailTaken) {
+      setErrors({ email: 'Email already in use' });
+      return;
+    }
+
+    setErrors({});
+    setIsSubmitting(true);
+    try {
+      // Send form data to parent component, and show any errors the server found
+      const result = await onSubmit(formData, base);
+      if (result && isEditConflict(result)) {
+        setConflict(result.current); // Someone else saved first - show the merge view
+      } else if (result) {
+        setErrors(result);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Removes the error message of one field (the user is fixing it)
+   * @param {string} field - e.g. "email" or "attributes.costCenter"
+   */
+  const clearError = (field: string) => {
+    if (errors[field]) {
+      const rest = { ...errors };
+      delete rest[field];
+      setErrors(rest);
+    }
+  };
+
+  /**
+   * Updates one field and clears its error message
+   */
+  const handleChange = <K extends keyof UserFormValues>(field: K, value: UserFormValues[K]) => {
+    setFormData({ ...formData, [field]: value });
+    clearError(field);
+  };
+
+  /**
+   * Updates one custom attribute
+   * An empty input removes the value; number inputs store numbers
+   * @param {AttributeDefinition} attribute - The attribute
+   * @param {string} input - What is in the input now
+   */
+  const handleAttributeChange = (attribute: AttributeDefinition, input: string) => {
+    const values = { ...formData.attributes };
+    if (input === '') {
+      delete values[attribute.key];
+    } else {
+      values[attribute.key] = attribute.type === 'number' && !Number.isNaN(Number(input)) ? Number(input) : input;
+    }
+    setFormData({ ...formData, attributes: values });
+    clearError(`attributes.${attribute.key}`);
+  };
+
+  // ==================== PROFILE PICTURE ====================
+
+  /**
+   * avatarError: Why the last upload failed (e.g. not a picture)
+   * isUploading: true while a picture is uploaded or removed
+   */
+  const [avatarError, setAvatarError] = useState<string | undefined>();
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  /**
+   * Shows the outcome of an upload or removal
+   * The picture is saved right away as a new version of the user, so the form
+   * continues from that version (If-Match made sure nobody else saved in between)
+   */
+  const applyAvatarResult = (result: ApiResult<User>) => {
+    if (result.ok) {
+      setBase(result.data);
+      onAvatarChange?.(result.data);
+    } else if (result.error.kind === 'stale') {
+      setConflict(result.error.current); // Someone else saved first - merge, then try again
+    } else if (result.error.kind === 'invalid') {
+      setAvatarError(result.error.errors.avatar ?? result.error.message);
+    } else {
+      setAvatarError(result.error.message);
+    }
   };
 
+  /**
+   * A file was picked: check its type, then upload it
+   */
+  const handleAvatarFile = async (file: File | undefined) => {
+    if (!file || !base) return;
+    if (!(AVATAR_CONTENT_TYPES as readonly string[]).includes(file.type)) {
+      setAvatarError('Must be a JPEG, PNG, WebP or GIF picture');
+      return;
+    }
+
+    setAvatarError(undefined);
+    setIsUploading(true);
+    try {
+      applyAvatarResult(await usersClient.uploadAvatar(base.id, file, base.version));
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  /**
+   * Removes the picture - initials are shown again
+   */
+  const handleAvatarRemove = async () => {
+    if (!base) return;
+
+    setAvatarError(undefined);
+    setIsUploading(true);
+    try {
+      applyAvatarResult(await usersClient.removeAvatar(base.id, base.version));
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  /**
+   * Merge finished: fill in the chosen values and continue from the saved version
+   * The next save sends the new version as If-Match, so it won't conflict again
+   */
+  const handleResolve = (values: UserFormValues) => {
+    setFormData(values);
+    setBase(conflict ?? base);
+    setConflict(null);
+    setErrors({});
+  };
+
+  // Someone else saved this user while we were editing: show the merge view instead
+  if (conflict && base) {
+    return (
+      <ConflictResolver
+        base={base}
+        mine={formData}
+        current={conflict}
+        roles={roles}
+        attributes={attributes}
+        userOptions={userOptions}
+        onResolve={handleResolve}
+      />
+    );
+  }
+
   return (
     // Form element with submit handler
     // space-y-4 = adds vertical spacing between form elements
-    <form onSubmit={handleSubmit} className="space-y-4">
+    // noValidate = we show our own error messages instead of the browser's popups
+    <form onSubmit={handleSubmit} noValidate className="space-y-4">
+      {/* GENERAL ERROR (problems that don't belong to one field) */}
+      {errors.body && (
+        <p className="text-sm text-red-600 bg-red-50 rounded-lg px-4 py-2">{errors.body}</p>
+      )}
+
+      {/* PROFILE PICTURE (initials of the typed name until a picture is uploaded) */}
+      <div className="flex items-center gap-4">
+        <Avatar user={{ id: base?.id, name: formData.name, avatar: base?.avatar }} size={64} />
+        {base ? (
+          <div>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isUploading}
+                className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                {isUploading ? 'Saving...' : base.avatar ? 'Change picture' : 'Upload picture'}
+              </button>
+              {base.avatar && (
+                <button
+                  type="button"
+                  onClick={handleAvatarRemove}
+                  disabled={isUploading}
+                  className="px-3 py-1.5 text-sm text-red-600 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+            {/* Hidden file input, opened by the button above
+                value is reset after each pick, so picking the same file again still uploads it */}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={AVATAR_CONTENT_TYPES.join(',')}
+              className="hidden"
+              aria-label="Profile picture"
+              onChange={(e) => {
+                handleAvatarFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+            {avatarError ? (
+              <p className="text-sm text-red-600 mt-1">{avatarError}</p>
+            ) : (
+              <p className="text-xs text-gray-500 mt-1">JPEG, PNG, WebP or GIF - saved right away</p>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">A picture can be added once the user is created.</p>
+        )}
+      </div>
+
       {/* NAME INPUT FIELD */}
       <div>
         {/* Label for name input */}
@@ -68,13 +466,19 @@ export function UserForm({ user, onSubmit, onCancel }: UserFormProps) {
         <input
           type="text"
           id="name"
-          required // Browser will prevent submission if empty
+          required
           value={formData.name} // Controlled input: value comes from state
           // onChange: Updates state when user types
-          onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all"
+          onChange={(e) => handleChange('name', e.target.value)}
+          aria-invalid={!!errors.name}
+          aria-describedby={errors.name ? 'name-error' : undefined}
+          className={`${inputClassName} ${inputBorder(!!errors.name)}`}
           placeholder="Enter name"
         />
+        {/* Error message for this field (only rendered when there is one) */}
+        {errors.name && (
+          <p id="name-error" className="text-sm text-red-600 mt-1">{errors.name}</p>
+        )}
       </div>
 
       {/* EMAIL INPUT FIELD */}
@@ -88,40 +492,230 @@ export function UserForm({ user, onSubmit, onCancel }: UserFormProps) {
         </label>
         {/* Email input with built-in validation */}
         <input
-          type="email" // Browser validates email format
+          type="email" // Shows the email keyboard on phones
           id="email"
           required
           value={formData.email}
-          onChange={(e) => setFormData({ ...formData, email: e.target.value })}
-          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all"
+          onChange={(e) => handleChange('email', e.target.value)}
+          aria-invalid={!!emailError}
+          aria-describedby={emailError ? 'email-error' : undefined}
+          className={`${inputClassName} ${inputBorder(!!emailError)}`}
           placeholder="Enter email"
         />
+        {emailError && (
+          <p id="email-error" className="text-sm text-red-600 mt-1">{emailError}</p>
+        )}
       </div>
 
       {/* ROLE SELECT DROPDOWN */}
       <div>
         {/* Label for role dropdown */}
         <label
-          htmlFor="role"
+          htmlFor="roleId"
           className="block text-sm font-medium text-gray-700 mb-1"
         >
           Role
         </label>
         {/* Dropdown select for role */}
         <select
-          id="role"
-          value={formData.role}
-          onChange={(e) => setFormData({ ...formData, role: e.target.value })}
-          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all"
+          id="roleId"
+          value={formData.roleId}
+          onChange={(e) => handleChange('roleId', e.target.value)}
+          disabled={!canChangeRole} // Only users with "users:change-role" may pick a different role
+          aria-invalid={!!errors.roleId}
+          aria-describedby={errors.roleId ? 'roleId-error' : undefined}
+          className={`${inputClassName} ${inputBorder(!!errors.roleId)} disabled:bg-gray-100 disabled:text-gray-500`}
         >
-          {/* Available role options */}
-          <option value="User">User</option>
-          <option value="Admin">Admin</option>
-          <option value="Manager">Manager</option>
-          <option value="Developer">Developer</option>
+          {/* Available role options - the option value is the role id */}
+          {roles.map((role) => (
+            <option key={role.id} value={role.id}>
+              {role.name}
+            </option>
+          ))}
         </select>
+        {errors.roleId && (
+          <p id="roleId-error" className="text-sm text-red-600 mt-1">{errors.roleId}</p>
+        )}
       </div>
 
+      {/* PROFILE FIELDS - all optional */}
+      {/* grid-cols-2 = two inputs side by side */}
+      <div className="grid grid-cols-2 gap-4">
+        {/* PHONE */}
+        <div>
+          <label htmlFor="phone" className="block text-sm font-medium text-gray-700 mb-1">
+            Phone
+          </label>
+          <input
+            type="tel" // Shows the number keyboard on phones
+            id="phone"
+            value={formData.phone}
+            onChange={(e) => handleChange('phone', e.target.value)}
+            aria-invalid={!!errors.phone}
+            aria-describedby={errors.phone ? 'phone-error' : undefined}
+            className={`${inputClassName} ${inputBorder(!!errors.phone)}`}
+            placeholder="+1 555 0100"
+          />
+          {errors.phone && (
+            <p id="phone-error" className="text-sm text-red-600 mt-1">{errors.phone}</p>
+          )}
+        </div>
+
+        {/* STATUS */}
+        <div>
+          <label htmlFor="status" className="block text-sm font-medium text-gray-700 mb-1">
+            Status
+          </label>
+          <select
+            id="status"
+            value={formData.status}
+            onChange={(e) => handleChange('status', e.target.value as UserFormValues['status'])}
+            aria-invalid={!!errors.status}
+            aria-describedby={errors.status ? 'status-error' : undefined}
+            className={`${inputClassName} ${inputBorder(!!errors.status)}`}
+          >
+            {USER_STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+          {errors.status && (
+            <p id="status-error" className="text-sm text-red-600 mt-1">{errors.status}</p>
+          )}
+        </div>
+
+        {/* DEPARTMENT */}
+        <div>
+          <label htmlFor="department" className="block text-sm font-medium text-gray-700 mb-1">
+            Department
+          </label>
+          <input
+            type="text"
+            id="department"
+            value={formData.department}
+            onChange={(e) => handleChange('department', e.target.value)}
+            aria-invalid={!!errors.department}
+            aria-describedby={errors.department ? 'department-error' : undefined}
+            className={`${inputClassName} ${inputBorder(!!errors.department)}`}
+            placeholder="e.g. Sales"
+          />
+          {errors.department && (
+            <p id="department-error" className="text-sm text-red-600 mt-1">{errors.department}</p>
+          )}
+        </div>
+
+        {/* JOB TITLE */}
+        <div>
+          <label htmlFor="jobTitle" className="block text-sm font-medium text-gray-700 mb-1">
+            Job title
+          </label>
+          <input
+            type="text"
+            id="jobTitle"
+            value={formData.jobTitle}
+            onChange={(e) => handleChange('jobTitle', e.target.value)}
+            aria-invalid={!!errors.jobTitle}
+            aria-describedby={errors.jobTitle ? 'jobTitle-error' : undefined}
+            className={`${inputClassName} ${inputBorder(!!errors.jobTitle)}`}
+            placeholder="e.g. Account Manager"
+          />
+          {errors.jobTitle && (
+            <p id="jobTitle-error" className="text-sm text-red-600 mt-1">{errors.jobTitle}</p>
+          )}
+        </div>
+      </div>
+
+      {/* MANAGER - the user this user reports to */}
+      <div>
+        <label htmlFor="managerId" className="block text-sm font-medium text-gray-700 mb-1">
+          Manager
+        </label>
+        <select
+          id="managerId"
+          value={formData.managerId}
+          onChange={(e) => handleChange('managerId', e.target.value)}
+          aria-invalid={!!errors.managerId}
+          aria-describedby={errors.managerId ? 'managerId-error' : undefined}
+          className={`${inputClassName} ${inputBorder(!!errors.managerId)}`}
+        >
+          <option value="">No manager</option>
+          {/* The saved manager may not be among the loaded users - keep it selectable */}
+          {formData.managerId && !managerOptions.some((option) => option.id === formData.managerId) && (
+            <option value={formData.managerId}>
+              {savedManagerName ?? `User ${formData.managerId}`}
+            </option>
+          )}
+          {managerOptions.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.name}
+            </option>
+          ))}
+        </select>
+        {errors.managerId && (
+          <p id="managerId-error" className="text-sm text-red-600 mt-1">{errors.managerId}</p>
+        )}
+        {userOptionsError && (
+          <p role="alert" className="text-sm text-red-600 mt-1">
+            Could not load the users to choose from: {userOptionsError}.{' '}
+            <button type="button" onClick={retryUserOptions} className="text-blue-600 hover:underline">
+              Try again
+            </button>
+          </p>
+        )}
+      </div>
+
+      {/* CUSTOM ATTRIBUTES - one input per definition, matching its type */}
+      {attributes.map((attribute) => {
+        const id = `attribute-${attribute.key}`;
+        const error = errors[`attributes.${attribute.key}`];
+        const value = formData.attributes[attribute.key] ?? '';
+        const inputProps = {
+          id,
+          value: String(value),
+          onChange: (e: { target: { value: string } }) => handleAttributeChange(attribute, e.target.value),
+          'aria-invalid': !!error,
+          'aria-describedby': error ? `${id}-error` : undefined,
+          className: `${inputClassName} ${inputBorder(!!error)}`,
+        };
+
+        return (
+          <div key={attribute.key}>
+            <label htmlFor={id} className="block text-sm font-medium text-gray-700 mb-1">
+              {attribute.label}
+              {attribute.required && <span className="text-red-600"> *</span>}
+            </label>
+            {attribute.type === 'enum' ? (
+              <select {...inputProps}>
+                <option value="">-</option>
+                {attribute.options.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <input type={attribute.type === 'text' ? 'text' : attribute.type} {...inputProps} />
+            )}
+            {error && (
+              <p id={`${id}-error`} className="text-sm text-red-600 mt-1">{error}</p>
+            )}
+          </div>
+        );
+      })}
+
+      {/* The attribute inputs are missing when the definitions couldn't be loaded */}
+      {attributesError && (
+        <p role="alert" className="text-sm text-red-600">
+          Could not load the custom attributes: {attributesError}.{' '}
+          {onRetryAttributes && (
+            <button type="button" onClick={onRetryAttributes} className="text-blue-600 hover:underline">
+              Try again
+            </button>
+          )}
+        </p>
+      )}
+
       {/* FORM ACTION BUTTONS */}
       {/* flex gap-3 = buttons side by side with gap between them */}
       <div className="flex gap-3 pt-4">
@@ -130,7 +724,8 @@ export function UserForm({ user, onSubmit, onCancel }: UserFormProps) {
         {/* flex-1 = takes up equal space */}
         <button
           type="submit"
-          className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors font-medium"
+          disabled={isSubmitting} // Prevent double submits while waiting for the server
+          className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
         >
           {/* Show "Update" if editing existing user, "Create" if creating new */}
           {user ? 'Update' : 'Create'}
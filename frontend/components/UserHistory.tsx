@@ -0,0 +1,197 @@
+/**
+ * UserHistory Component
+ * A timeline of every change made to one user (from the audit log)
+ *
+ * Each entry shows who did what and when, plus the changed fields
+ * as "before → after". Newest changes are at the top.
+ * If loading fails, the reason is shown with a "Try again" button.
+ */
+
+'use client'; // Client Component - uses React hooks and fetch
+
+import { useCallback, useEffect, useState } from 'react';
+import { AuditAction, AuditEntry, FieldChange } from '@/backend/types/audit';
+import { Role } from '@/backend/types/role';
+import { usersClient } from '@/frontend/api/usersClient';
+
+// How many entries to load per "Show more" click
+const PAGE_SIZE = 10;
+
+/**
+ * Past-tense labels and dot colors for each action
+ */
+const ACTIONS: Record<AuditAction, { label: string; dot: string }> = {
+  create: { label: 'created', dot: 'bg-green-500' },
+  update: { label: 'edited', dot: 'bg-blue-500' },
+  delete: { label: 'moved to trash', dot: 'bg-red-500' },
+  restore: { label: 'restored', dot: 'bg-yellow-500' },
+  purge: { label: 'permanently deleted', dot: 'bg-gray-900' },
+};
+
+/**
+ * Readable names for stored field names
+ */
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  email: 'Email',
+  roleId: 'Role',
+  phone: 'Phone',
+  department: 'Department',
+  jobTitle: 'Job title',
+  managerId: 'Manager (ID)',
+  status: 'Status',
+  attributes: 'Custom attributes',
+  avatar: 'Picture',
+  createdAt: 'Created at',
+  deletedAt: 'Deleted at',
+};
+
+/**
+ * Props interface for UserHistory component
+ */
+interface UserHistoryProps {
+  userId: string;                 // The user whose history to show
+  rolesById: Map<string, Role>;   // To show role names instead of role ids
+  refreshKey?: unknown;           // Change this (e.g. pass the saved user) to reload the history
+}
+
+/**
+ * UserHistory Component Function
+ * @param {UserHistoryProps} props - The component props
+ */
+export function UserHistory({ userId, rolesById, refreshKey }: UserHistoryProps) {
+  // ==================== STATE MANAGEMENT ====================
+
+  /**
+   * entries: The loaded entries (grows when "Show more" is clicked)
+   * total: How many entries exist in total
+   * page: The last page that was loaded
+   * error: Why the last load failed, and which page it was (to try that page again)
+   */
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<{ message: string; page: number } | null>(null);
+
+  // ==================== API FUNCTIONS ====================
+
+  /**
+   * FETCH HISTORY
+   * Loads one page of entries; page 1 replaces the list, later pages are appended
+   */
+  const fetchHistory = useCallback(
+    async (pageToLoad: number) => {
+      try {
+        const result = await usersClient.history(userId, { page: pageToLoad, pageSize: PAGE_SIZE });
+        if (!result.ok) {
+          setError({ message: result.error.message, page: pageToLoad });
+          return;
+        }
+
+        const data = result.data;
+        setError(null);
+        setEntries((previous) => (pageToLoad === 1 ? data.items : [...previous, ...data.items]));
+        setTotal(data.total);
+        setPage(pageToLoad);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [userId]
+  );
+
+  /**
+   * Load the newest entries on first render and whenever refreshKey changes
+   * (e.g. right after the user was edited)
+   */
+  useEffect(() => {
+    fetchHistory(1);
+  }, [fetchHistory, refreshKey]);
+
+  // ==================== HELPERS ====================
+
+  /**
+   * Turns a stored value into readable text
+   * Role ids become role names and timestamps become local dates
+   */
+  const formatValue = (change: FieldChange, value: unknown): string => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (change.field === 'roleId') return rolesById.get(String(value))?.name ?? String(value);
+    if (change.field === 'avatar') return value === change.before ? 'old picture' : 'new picture'; // Ids mean nothing to people
+    if (change.field.endsWith('At')) return new Date(String(value)).toLocaleString();
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  };
+
+  // ==================== RENDER ====================
+
+  return (
+    <section className="mt-8">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">History</h2>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading history…</p>
+      ) : entries.length === 0 && error ? null : entries.length === 0 ? (
+        <p className="text-sm text-gray-500">No changes recorded yet.</p>
+      ) : (
+        // Timeline: a vertical line on the left with one dot per entry
+        <ol className="relative border-l border-gray-200 ml-2">
+          {entries.map((entry) => (
+            <li key={entry.id} className="ml-6 mb-6">
+              {/* Dot on the line, colored by action */}
+              <span
+                className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full ring-4 ring-white ${ACTIONS[entry.action].dot}`}
+              />
+
+              {/* "Jane Smith edited · 3/1/2025, 10:00:00 AM" */}
+              <p className="text-sm text-gray-900">
+                <span className="font-medium">{entry.actor.name}</span> {ACTIONS[entry.action].label}
+                <span className="text-gray-500">
+                  {' · '}
+                  <time dateTime={entry.timestamp}>{new Date(entry.timestamp).toLocaleString()}</time>
+                </span>
+              </p>
+
+              {/* Field changes - not shown for create/purge, where every field "changes" */}
+              {entry.action === 'update' && entry.changes.length > 0 && (
+                <ul className="mt-2 space-y-1 text-sm">
+                  {entry.changes.map((change) => (
+                    <li key={change.field} className="text-gray-600">
+                      <span className="font-medium text-gray-700">
+                        {FIELD_LABELS[change.field] ?? change.field}:
+                      </span>{' '}
+                      <del className="text-red-600">{formatValue(change, change.before)}</del>
+                      {' → '}
+                      <ins className="text-green-700 no-underline">{formatValue(change, change.after)}</ins>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {/* LOADING FAILED: say so (instead of "No changes recorded yet") and offer to load that page again */}
+      {error && (
+        <p role="alert" className="text-sm text-red-600">
+          Could not load history: {error.message}.{' '}
+          <button type="button" onClick={() => fetchHistory(error.page)} className="text-blue-600 hover:underline">
+            Try again
+          </button>
+        </p>
+      )}
+
+      {/* Load older entries */}
+      {!error && entries.length < total && (
+        <button
+          type="button"
+          onClick={() => fetchHistory(page + 1)}
+          className="text-sm text-blue-600 hover:underline"
+        >
+          Show more
+        </button>
+      )}
+    </section>
+  );
+}
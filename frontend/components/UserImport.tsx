@@ -0,0 +1,354 @@
+/**
+ * UserImport Component
+ * Adds many users at once from a CSV or JSON file
+ *
+ * Steps:
+ * 1. Upload:  pick a .csv or .json file (read in the browser, nothing is sent yet)
+ * 2. Map:     choose which column holds the name, email and role
+ * 3. Preview: the server checks every row - invalid rows and duplicate
+ *             emails are shown with their errors
+ * 4. Done:    valid rows are created; skipped rows can be downloaded as a report
+ */
+
+'use client'; // Client Component - uses React hooks and the File API
+
+import { useState } from 'react';
+import { ImportPreview, ImportResult, ImportRow, ImportRowResult } from '@/backend/types/import';
+import { parseCsv, toCsv, undoSpreadsheetSafe } from '@/backend/utils/csv';
+import { MAX_IMPORT_ROWS } from '@/backend/validation/importSchemas';
+import { isPlainObject } from '@/backend/validation/schema';
+import { ApiError } from '@/frontend/api/request';
+import { usersClient } from '@/frontend/api/usersClient';
+import { downloadFile } from '@/frontend/utils/download';
+
+type Step = 'upload' | 'map' | 'preview' | 'done';
+type Field = keyof ImportRow;
+
+/**
+ * The fields to map, and how to recognize a matching column header
+ */
+const FIELDS: { field: Field; label: string; pattern: RegExp }[] = [
+  { field: 'name', label: 'Name', pattern: /name/i },
+  { field: 'email', label: 'Email', pattern: /e-?mail/i },
+  { field: 'role', label: 'Role', pattern: /role/i },
+];
+
+/**
+ * A file turned into a table: column names plus one array of values per row
+ */
+interface ParsedFile {
+  columns: string[];
+  records: string[][];
+}
+
+/**
+ * Reads a CSV file (first line = column names) or a JSON file (a list of objects)
+ * @throws {Error} With a readable message when the file can't be used
+ */
+function parseFile(fileName: string, text: string): ParsedFile {
+  if (fileName.toLowerCase().endsWith('.json')) {
+    const data: unknown = JSON.parse(text);
+    if (!Array.isArray(data) || !data.every(isPlainObject)) {
+      throw new Error('The JSON file must contain a list of objects');
+    }
+    // Columns = every key used by any object
+    const columns = [...new Set(data.flatMap((item) => Object.keys(item)))];
+    return {
+      columns,
+      records: data.map((item) => columns.map((column) => (item[column] == null ? '' : String(item[column])))),
+    };
+  }
+
+  const [header = [], ...records] = parseCsv(text);
+  return {
+    columns: header.map((column) => column.trim()),
+    // Files we exported (and import reports) mark formula-like values with an apostrophe - see spreadsheetSafe
+    records: records.map((record) => record.map(undoSpreadsheetSafe)),
+  };
+}
+
+/**
+ * Turns the errors of a row into one line, e.g. "email: Email already in use"
+ */
+function describeErrors(row: ImportRowResult): string {
+  return Object.entries(row.errors ?? {})
+    .map(([field, message]) => `${field}: ${message}`)
+    .join('; ');
+}
+
+/**
+ * Turns a failed request into one line
+ * Invalid rows (422) list every message, e.g. "rows: Must contain at most 1000 rows"
+ */
+function describeError(error: ApiError): string {
+  return error.kind === 'invalid' ? Object.values(error.errors).join(', ') : error.message;
+}
+
+/**
+ * Props interface for UserImport component
+ */
+interface UserImportProps {
+  onImported: () => void;   // Called after users were created (e.g. to refresh the list)
+  onClose: () => void;      // Called when the user is done or cancels
+}
+
+/**
+ * UserImport Component Function
+ * @param {UserImportProps} props - The component props
+ */
+export function UserImport({ onImported, onClose }: UserImportProps) {
+  // ==================== STATE MANAGEMENT ====================
+
+  /**
+   * step: Which step of the import is shown
+   * file: The uploaded file as a table
+   * mapping: Column index for each field (-1 = not in the file)
+   * preview: The server's check of every row
+   * result: What the import created and skipped
+   */
+  const [step, setStep] = useState<Step>('upload');
+  const [file, setFile] = useState<ParsedFile | null>(null);
+  const [mapping, setMapping] = useState<Record<Field, number>>({ name: -1, email: -1, role: -1 });
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  // ==================== STEP 1: UPLOAD ====================
+
+  /**
+   * Reads the chosen file and guesses the column mapping from its header
+   */
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    setError('');
+
+    try {
+      const parsed = parseFile(selected.name, await selected.text());
+      if (parsed.records.length === 0) throw new Error('The file has no rows');
+      if (parsed.records.length > MAX_IMPORT_ROWS) {
+        throw new Error(`The file has ${parsed.records.length} rows - at most ${MAX_IMPORT_ROWS} can be imported at once`);
+      }
+
+      // "E-mail Address" → email, "Full name" → name, ...
+      const guessed = { name: -1, email: -1, role: -1 };
+      FIELDS.forEach(({ field, pattern }) => {
+        guessed[field] = parsed.columns.findIndex((column) => pattern.test(column));
+      });
+
+      setFile(parsed);
+      setMapping(guessed);
+      setStep('map');
+    } catch (problem) {
+      setError(problem instanceof Error ? problem.message : 'The file could not be read');
+    }
+  };
+
+  // ==================== STEP 2 & 3: MAP AND PREVIEW ====================
+
+  /**
+   * The file's rows with the mapped columns (unmapped fields are empty)
+   */
+  const mappedRows = (): ImportRow[] =>
+    (file?.records ?? []).map((record) => ({
+      name: mapping.name >= 0 ? record[mapping.name] ?? '' : '',
+      email: mapping.email >= 0 ? record[mapping.email] ?? '' : '',
+      role: mapping.role >= 0 ? record[mapping.role] ?? '' : '',
+    }));
+
+  /**
+   * Sends the rows to POST /api/users/import
+   * @param {boolean} dryRun - true = only check them (preview)
+   */
+  const sendRows = async (dryRun: boolean) => {
+    setIsWorking(true);
+    setError('');
+
+    if (dryRun) {
+      const checked = await usersClient.previewImport(mappedRows());
+      setIsWorking(false);
+      if (!checked.ok) return setError(describeError(checked.error));
+
+      setPreview(checked.data);
+      setStep('preview');
+      return;
+    }
+
+    const imported = await usersClient.importRows(mappedRows());
+    setIsWorking(false);
+    if (!imported.ok) return setError(describeError(imported.error));
+
+    setResult(imported.data);
+    setStep('done');
+    if (imported.data.created.length > 0) onImported();
+  };
+
+  // ==================== STEP 4: REPORT ====================
+
+  /**
+   * Downloads the skipped rows with their errors as a CSV file
+   */
+  const downloadReport = () => {
+    const csv = toCsv(
+      ['Row', 'Name', 'Email', 'Role', 'Errors'],
+      (result?.skipped ?? []).map((row) => [String(row.row), row.name, row.email, row.role, describeErrors(row)])
+    );
+    downloadFile(csv, 'import-report.csv', 'text/csv');
+  };
+
+  // ==================== RENDER ====================
+
+  const buttonClass = 'py-2 px-4 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+  const primary = `${buttonClass} bg-blue-600 text-white hover:bg-blue-700`;
+  const secondary = `${buttonClass} bg-gray-200 text-gray-700 hover:bg-gray-300`;
+
+  return (
+    <div className="space-y-4 text-sm">
+      {/* Problem with the file or the request */}
+      {error && <div className="text-red-700 bg-red-50 rounded-lg px-4 py-3">{error}</div>}
+
+      {/* ---------- STEP 1: UPLOAD ---------- */}
+      {step === 'upload' && (
+        <>
+          <p className="text-gray-600">
+            Choose a CSV file with a header row, or a JSON file with a list of objects.
+            You can pick the columns for name, email and role in the next step.
+          </p>
+          <input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="block w-full text-gray-700"
+          />
+          <div className="flex justify-end">
+            <button type="button" onClick={onClose} className={secondary}>
+              Cancel
+            </button>
+          </div>
+        </>
+      )}
+
+      {/* ---------- STEP 2: MAP COLUMNS ---------- */}
+      {step === 'map' && file && (
+        <>
+          <p className="text-gray-600">
+            {file.records.length} row(s) found. Which column holds each field?
+          </p>
+          <div className="grid grid-cols-3 gap-4">
+            {FIELDS.map(({ field, label }) => (
+              <label key={field} className="text-gray-700">
+                <span className="block font-medium mb-1">{label}</span>
+                <select
+                  value={mapping[field]}
+                  onChange={(e) => setMapping({ ...mapping, [field]: Number(e.target.value) })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white"
+                >
+                  <option value={-1}>— Not in file —</option>
+                  {file.columns.map((column, index) => (
+                    <option key={index} value={index}>
+                      {column || `Column ${index + 1}`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+          <div className="flex justify-end gap-3">
+            <button type="button" onClick={() => setStep('upload')} className={secondary}>
+              Back
+            </button>
+            <button type="button" onClick={() => sendRows(true)} disabled={isWorking} className={primary}>
+              {isWorking ? 'Checking…' : 'Preview'}
+            </button>
+          </div>
+        </>
+      )}
+
+      {/* ---------- STEP 3: PREVIEW ---------- */}
+      {step === 'preview' && preview && (
+        <>
+          <p className="text-gray-600">
+            <span className="font-medium text-green-700">{preview.valid} row(s) ready to import</span>
+            {preview.invalid > 0 && (
+              <>
+                , <span className="font-medium text-red-700">{preview.invalid} row(s) will be skipped</span>
+              </>
+            )}
+            .
+          </p>
+
+          {/* Scrollable table: one line per row, invalid rows in red with their errors */}
+          <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-lg">
+            <table className="w-full">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr className="text-left text-gray-500">
+                  <th className="px-3 py-2 font-medium">Row</th>
+                  <th className="px-3 py-2 font-medium">Name</th>
+                  <th className="px-3 py-2 font-medium">Email</th>
+                  <th className="px-3 py-2 font-medium">Role</th>
+                  <th className="px-3 py-2 font-medium">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {preview.rows.map((row) => (
+                  <tr key={row.row} className={row.errors ? 'bg-red-50' : ''}>
+                    <td className="px-3 py-2 text-gray-500">{row.row}</td>
+                    {(['name', 'email', 'role'] as const).map((field) => (
+                      <td
+                        key={field}
+                        className={`px-3 py-2 break-all ${row.errors?.[field] ? 'text-red-700 font-medium' : 'text-gray-900'}`}
+                      >
+                        {row[field] || '—'}
+                      </td>
+                    ))}
+                    <td className="px-3 py-2">
+                      {row.errors ? (
+                        <span className="text-red-700">{describeErrors(row)}</span>
+                      ) : (
+                        <span className="text-green-700">OK</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <button type="button" onClick={() => setStep('map')} className={secondary}>
+              Back
+            </button>
+            <button
+              type="button"
+              onClick={() => sendRows(false)}
+              disabled={isWorking || preview.valid === 0}
+              className={primary}
+            >
+              {isWorking ? 'Importing…' : `Import ${preview.valid} user(s)`}
+            </button>
+          </div>
+        </>
+      )}
+
+      {/* ---------- STEP 4: DONE ---------- */}
+      {step === 'done' && result && (
+        <>
+          <p className="text-gray-900">
+            {result.created.length} user(s) imported.
+            {result.skipped.length > 0 && ` ${result.skipped.length} row(s) were skipped.`}
+          </p>
+          <div className="flex justify-end gap-3">
+            {result.skipped.length > 0 && (
+              <button type="button" onClick={downloadReport} className={secondary}>
+                Download report
+              </button>
+            )}
+            <button type="button" onClick={onClose} className={primary}>
+              Close
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -3,36 +3,197 @@
  * The main component that displays and manages the user table
  *
  * This component handles:
- * - Fetching users from the API
- * - Displaying users in a table format
- * - Creating new users (via modal)
+ * - Fetching users from the API (one page at a time), cached by useQuery so
+ *   pages already seen show at once and refresh in the background
+ * - Displaying users in a table format, with a choice of columns (profile fields
+ *   and custom attributes too) that is remembered in the browser
+ * - Sorting, filtering and paging through users
+ * - Searching users (debounced search box, kept in the URL as ?q=)
+ * - Creating new users (via modal), one by one or imported from a CSV/JSON file
  * - Editing existing users (via modal)
- * - Deleting users (with confirmation)
- * - Loading states
+ * - Deleting users (with a confirmation dialog) - they go to the trash first
+ * - Selecting many users with checkboxes, then deleting, re-roling or
+ *   exporting them at once (POST /api/users/batch)
+ * - Trash view: restoring deleted users or purging them for good
+ * - Hiding/disabling actions the signed-in user has no permission for
+ * - Optimistic updates: changes show in the table right away (the row is marked
+ *   as saving) and are undone if the server rejects them
+ * - Loading states (a spinner only before the first page arrives)
+ * - Toasts for results and errors (with Undo after deleting, Retry after a failed load)
+ * - Live updates: changes made in other browsers show up without reloading
+ *   (rows changed by someone else light up briefly)
  *
  * This is the heart of our CRUD application!
  */
 
 'use client'; // Client Component - uses React hooks and browser APIs
 
-import { useState, useEffect } from 'react';
-import { User } from '@/backend/types/user';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import Link from 'next/link';
+import { User, UserListItem, UserListQuery, UserSortField } from '@/backend/types/user';
+import { UserListResponse } from '@/backend/types/api';
+import { BatchOperation } from '@/backend/types/batch';
+import { UserEvent } from '@/backend/types/events';
+import { Permission } from '@/backend/types/role';
+import { FieldErrors } from '@/backend/validation/schema';
+import { toCsv } from '@/backend/utils/csv';
+import { canAssignRole, canEditUser, hasPermission } from '@/backend/utils/permissions';
+import { queryCache } from '@/frontend/api/queryCache';
+import { usersClient, usersQueryKeys } from '@/frontend/api/usersClient';
+import { useToast } from '@/frontend/contexts/ToastContext';
+import { useConfirm } from '@/frontend/hooks/useConfirm';
+import { useDebouncedValue } from '@/frontend/hooks/useDebouncedValue';
+import { useAttributes } from '@/frontend/hooks/useAttributes';
+import { useQuery } from '@/frontend/hooks/useQuery';
+import { useRoles } from '@/frontend/hooks/useRoles';
+import { useStoredColumns } from '@/frontend/hooks/useStoredColumns';
+import { useUnsavedChangesGuard } from '@/frontend/hooks/useUnsavedChangesGuard';
+import { useUserEvents } from '@/frontend/hooks/useUserEvents';
+import { downloadFile } from '@/frontend/utils/download';
+import { BulkActionBar } from './BulkActionBar';
+import { ColumnPicker, PickableColumn } from './ColumnPicker';
 import { Modal } from './Modal';
-import { UserForm } from './UserForm';
+import { ExportMenu } from './ExportMenu';
+import { EditConflict, UserForm, UserFormValues, changedFields, formErrorsFrom, toMergePatch } from './UserForm';
+import { UserImport } from './UserImport';
+import { Pagination } from './Pagination';
+import { SortableHeader } from './SortableHeader';
+import { Avatar } from './Avatar';
+import { Highlight } from './Highlight';
+import { RoleBadge } from './RoleBadge';
+
+/**
+ * Starting query: first page, oldest users first, no filters
+ */
+const INITIAL_QUERY: UserListQuery = {
+  page: 1,
+  pageSize: 10,
+  sort: 'createdAt',
+  order: 'asc',
+};
+
+/**
+ * A column that shows one plain value per user (profile fields and custom attributes)
+ */
+interface ValueColumn extends PickableColumn {
+  value: (user: UserListItem) => string | number | undefined;
+}
+
+/**
+ * The profile field columns
+ */
+const PROFILE_COLUMNS: ValueColumn[] = [
+  { id: 'phone', label: 'Phone', value: (user) => user.phone },
+  { id: 'department', label: 'Department', value: (user) => user.department },
+  { id: 'jobTitle', label: 'Job Title', value: (user) => user.jobTitle },
+  { id: 'manager', label: 'Manager', value: (user) => user.managerName },
+  { id: 'status', label: 'Status', value: (user) => user.status.charAt(0).toUpperCase() + user.status.slice(1) },
+];
+
+/**
+ * Columns shown until the user chooses others with the "Columns" button
+ * (name and actions are always shown; "date" is Created At, or Deleted At in the trash)
+ */
+const DEFAULT_COLUMNS = ['email', 'role', 'department', 'status', 'date'];
+
+// Where the chosen columns are remembered (localStorage)
+const COLUMNS_STORAGE_KEY = 'userTable.columns';
+
+/**
+ * Optimistic changes to cached user lists (see queryCache.update)
+ * Lists that don't contain the user are left as they are
+ */
+const replaceInList = (user: User) => (list: UserListResponse): UserListResponse => ({
+  ...list,
+  items: list.items.map((item) => (item.id === user.id ? { ...item, ...user } : item)),
+});
+
+const removeFromList = (ids: string[]) => (list: UserListResponse): UserListResponse => {
+  const items = list.items.filter((item) => !ids.includes(item.id));
+  return { ...list, items, total: list.total - (list.items.length - items.length) };
+};
+
+// How long a row changed by someone else stays highlighted (milliseconds)
+const HIGHLIGHT_MS = 4000;
+
+// Live changes are collected this long before the lists are refetched (one refetch per burst)
+const LIVE_REFRESH_DELAY_MS = 300;
+
+/**
+ * Props interface for UserTable component
+ */
+interface UserTableProps {
+  initialSearch?: string; // Search text from the page URL (?q=), so shared links keep the search
+  permissions: Permission[]; // What the signed-in user may do (decides which buttons are shown)
+  trashRetentionDays: number; // Days before users in the trash are purged automatically
+  currentUserId: string; // The signed-in user (their own changes aren't highlighted)
+}
 
 /**
  * UserTable Component Function
  * Manages all state and operations for the user table
+ * @param {UserTableProps} props - The component props
  */
-export function UserTable() {
+export function UserTable({ initialSearch = '', permissions, trashRetentionDays, currentUserId }: UserTableProps) {
   // ==================== STATE MANAGEMENT ====================
   // useState is a React Hook that lets components "remember" things
 
   /**
-   * users: Array of all users fetched from the API
-   * setUsers: Function to update the users array
+   * query: Current page, page size, sort and filters
+   * Changing it loads another page (see useQuery below)
+   */
+  const [query, setQuery] = useState<UserListQuery>(INITIAL_QUERY);
+
+  /**
+   * searchInput: What is typed in the search box (updates on every key press)
+   * search: The same text, but only updated 300ms after typing stops
+   * Only `search` is sent to the API, so we don't fire a request per key press
    */
-  const [users, setUsers] = useState<User[]>([]);
+  const [searchInput, setSearchInput] = useState(initialSearch);
+  const search = useDebouncedValue(searchInput.trim(), 300);
+
+  /**
+   * roles: All roles (for the filter, the form dropdown and the badges)
+   * rolesById: Lookup from a user's roleId to its role
+   */
+  const { roles, rolesById } = useRoles();
+
+  /**
+   * attributes: Custom attribute definitions (for the form and the optional columns)
+   * attributesError / retryAttributes: why they couldn't be loaded, and how to try again
+   * visibleColumns: Ids of the columns chosen with the "Columns" button
+   */
+  const { attributes, error: attributesError, retry: retryAttributes } = useAttributes();
+  const [visibleColumns, setVisibleColumns] = useStoredColumns(COLUMNS_STORAGE_KEY, DEFAULT_COLUMNS);
+
+  // Profile columns, then one column per custom attribute ("attribute:<key>")
+  const valueColumns = useMemo<ValueColumn[]>(
+    () => [
+      ...PROFILE_COLUMNS,
+      ...attributes.map((attribute) => ({
+        id: `attribute:${attribute.key}`,
+        label: attribute.label,
+        value: (user: UserListItem) => user.attributes[attribute.key],
+      })),
+    ],
+    [attributes]
+  );
+
+  // Success, error and undo notifications
+  const toast = useToast();
+
+  // "Are you sure?" dialogs (await confirm(...) resolves to true or false)
+  const { confirm, confirmDialog } = useConfirm();
+
+  /**
+   * What the signed-in user may do
+   * The API checks this again - hiding a button is only for a clearer UI
+   */
+  const canCreate = hasPermission(permissions, 'users:create');
+  // Users whose role is above your own can't be edited (see canEditUser)
+  const canEdit = (user: User) => canEditUser(permissions, rolesById.get(user.roleId));
+  const canDelete = hasPermission(permissions, 'users:delete');
+  const canChangeRole = hasPermission(permissions, 'users:change-role');
 
   /**
    * isModalOpen: Boolean - controls if the modal is visible
@@ -40,6 +201,11 @@ export function UserTable() {
    */
   const [isModalOpen, setIsModalOpen] = useState(false);
 
+  /**
+   * isImportOpen: Boolean - controls if the import dialog is visible
+   */
+  const [isImportOpen, setIsImportOpen] = useState(false);
+
   /**
    * editingUser: The user currently being edited (undefined = creating new user)
    * setEditingUser: Function to set which user is being edited
@@ -47,131 +213,532 @@ export function UserTable() {
   const [editingUser, setEditingUser] = useState<User | undefined>();
 
   /**
-   * isLoading: Boolean - shows loading spinner while fetching data
-   * setIsLoading: Function to update loading state
+   * isFormDirty: The create/edit form has unsaved changes (reported by UserForm)
+   * guard: Asks "Discard changes?" before closing the form in that case
    */
-  const [isLoading, setIsLoading] = useState(true);
+  const [isFormDirty, setIsFormDirty] = useState(false);
+  const { guard, confirmDialog: unsavedChangesDialog } = useUnsavedChangesGuard(isFormDirty);
 
-  // ==================== SIDE EFFECTS ====================
+  /**
+   * pendingIds: Users with a change on its way to the server
+   * Their rows are dimmed and their buttons disabled until the server answers
+   */
+  const [pendingIds, setPendingIds] = useState<Set<string>>(new Set());
 
   /**
-   * useEffect Hook
-   * Runs code after the component renders
-   * The empty array [] means this only runs ONCE when component first loads
+   * selected: The checked users, by id (kept while paging, so a selection can span pages)
+   * isBulkBusy: true while a bulk action is running
    */
-  useEffect(() => {
-    fetchUsers(); // Fetch users when component first loads
-  }, []); // Empty dependency array = run once on mount
+  const [selected, setSelected] = useState<Map<string, User>>(new Map());
+  const [isBulkBusy, setIsBulkBusy] = useState(false);
 
-  // ==================== API FUNCTIONS ====================
+  /**
+   * changedByOthers: Rows someone else just changed (user id → their name)
+   * They are highlighted for a few seconds (see LIVE UPDATES below)
+   */
+  const [changedByOthers, setChangedByOthers] = useState<Map<string, string>>(new Map());
 
   /**
-   * FETCH USERS (READ Operation)
-   * Gets all users from the API and updates the state
+   * isTrash: true while showing the trash (deleted users) instead of the user list
+   * It's part of the query (?includeDeleted=only), so switching views re-fetches
    */
-  const fetchUsers = async () => {
-    try {
-      // Make GET request to /api/users
-      const response = await fetch('/api/users');
+  const isTrash = query.includeDeleted === 'only';
 
-      // Parse JSON response
-      const data = await response.json();
+  // ==================== DATA ====================
 
-      // Update state with fetched users
-      setUsers(data);
-    } catch (error) {
-      // Log error if request fails
-      console.error('Failed to fetch users:', error);
-    } finally {
-      // Always set loading to false when done (success or error)
-      setIsLoading(false);
+  /**
+   * The current page of users, from the query cache
+   * - listQuery: what the API is asked for (the query plus the search text)
+   * - Pages seen before show at once, and are refetched in the background when stale
+   * - While another page loads, the previous one stays visible
+   */
+  const listQuery = useMemo(() => ({ ...query, q: search }), [query, search]);
+  const listKey = usersQueryKeys.list(listQuery);
+  const fetchList = useCallback(async () => {
+    const result = await usersClient.list(listQuery);
+    if (!result.ok) {
+      toast.error(`Could not load users: ${result.error.message}`, {
+        label: 'Retry',
+        onClick: () => queryCache.invalidate(usersQueryKeys.lists),
+      });
     }
+    return result;
+  }, [listQuery, toast]);
+  const { data, error, isLoading, isPreviousData, isFetching } = useQuery(listKey, fetchList);
+
+  // The response: { items, total, page, pageSize }
+  const users: UserListItem[] = data?.items ?? [];
+  const total = data?.total ?? 0;
+
+  /**
+   * If the page is now past the end (e.g. we deleted its last user), jump to the last page
+   * Adjusting state while rendering is fine here: it only happens once per answer
+   */
+  const lastPage = Math.max(1, Math.ceil(total / query.pageSize));
+  if (data && !isPreviousData && query.page > lastPage) {
+    setQuery({ ...query, page: lastPage });
+  }
+
+  /**
+   * Refetch every cached user list (after a change was saved or failed),
+   * so sort order, totals and other pages match the server again
+   */
+  const refreshLists = () => queryCache.invalidate(usersQueryKeys.lists);
+
+  /**
+   * Mark users as saving (dimmed rows), or as done
+   */
+  const setPending = (ids: string[], pending: boolean) => {
+    setPendingIds((previous) => {
+      const next = new Set(previous);
+      ids.forEach((id) => (pending ? next.add(id) : next.delete(id)));
+      return next;
+    });
   };
 
+  // ==================== LIVE UPDATES ====================
+
+  // The timer of the next refetch after live changes
+  const liveRefreshTimer = useRef<ReturnType<typeof setTimeout>>(undefined);
+
+  /**
+   * Apply a change from the event stream (made here, in another tab, or by someone else)
+   * - Changed rows are patched at once; deleted ones disappear
+   * - The lists are refetched shortly after, so sort order, totals, new users
+   *   and the trash match the server
+   */
+  const handleUserEvent = (event: UserEvent) => {
+    if (event.type === 'update') {
+      queryCache.update(usersQueryKeys.lists, replaceInList(event.user));
+    } else if (event.type === 'delete' || event.type === 'purge') {
+      queryCache.update(usersQueryKeys.lists, removeFromList([event.user.id]));
+    }
+
+    clearTimeout(liveRefreshTimer.current);
+    liveRefreshTimer.current = setTimeout(refreshLists, LIVE_REFRESH_DELAY_MS);
+
+    // Someone else's change: light the row up for a moment
+    if (event.actor.id !== currentUserId && event.type !== 'purge') {
+      const userId = event.user.id;
+      setChangedByOthers((previous) => new Map(previous).set(userId, event.actor.name));
+      setTimeout(() => {
+        setChangedByOthers((previous) => {
+          const next = new Map(previous);
+          next.delete(userId);
+          return next;
+        });
+      }, HIGHLIGHT_MS);
+    }
+  };
+
+  /**
+   * liveStatus: Whether changes currently arrive live ('live'), or the
+   * connection is being (re)opened - shown next to the title
+   * After a reset (changes were missed) every list is simply reloaded
+   */
+  const liveStatus = useUserEvents({ onEvent: handleUserEvent, onReset: refreshLists });
+
+  // Don't refetch after the table is gone
+  useEffect(() => () => clearTimeout(liveRefreshTimer.current), []);
+
+  // ==================== SIDE EFFECTS ====================
+
+  /**
+   * Keep the search text in the address bar (?q=...)
+   * replaceState changes the URL without adding a browser history entry per search
+   */
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    if (search) {
+      url.searchParams.set('q', search);
+    } else {
+      url.searchParams.delete('q');
+    }
+    window.history.replaceState(window.history.state, '', url);
+  }, [search]);
+
   /**
    * CREATE USER (CREATE Operation)
    * Sends new user data to the API
-   * @param {Object} data - The user data (name, email, role)
+   * @param {UserFormValues} data - The user data (name, email, roleId)
+   * @returns {Promise<FieldErrors | EditConflict | void>} Errors from the server, shown by UserForm
    */
-  const handleCreate = async (data: {
-    name: string;
-    email: string;
-    role: string;
-  }) => {
+  const handleCreate = async (data: UserFormValues): Promise<FieldErrors | EditConflict | void> => {
+    // Show the new user at the top of this page right away, marked as saving
+    // (a temporary id until the server gives it a real one)
+    const now = new Date().toISOString();
+    const draft: User = { ...data, id: `pending-${Date.now()}`, createdAt: now, updatedAt: now, version: 1 };
+    const snapshot = queryCache.update<UserListResponse>(
+      (key) => key === listKey,
+      (list) => ({ ...list, items: [draft, ...list.items], total: list.total + 1 })
+    );
+    setPending([draft.id], true);
+
     try {
-      // Make POST request to /api/users with user data
-      const response = await fetch('/api/users', {
-        method: 'POST', // POST = create new resource
-        headers: { 'Content-Type': 'application/json' }, // Tell server we're sending JSON
-        body: JSON.stringify(data), // Convert JavaScript object to JSON string
-      });
+      // POST /api/users with the user data
+      const result = await usersClient.create(data);
 
-      // If request successful (status 200-299)
-      if (response.ok) {
-        await fetchUsers(); // Refresh the user list
-        setIsModalOpen(false); // Close the modal
+      // Rejected (422 invalid, 409 email taken, 403 not allowed, ...): take the row
+      // away again and show why in the form
+      if (!result.ok) {
+        queryCache.rollback(snapshot);
+        return formErrorsFrom(result.error);
       }
-    } catch (error) {
-      console.error('Failed to create user:', error);
+
+      // Saved: the row gets the real user, the refetch moves it to its place in the sort order
+      queryCache.update<UserListResponse>(usersQueryKeys.lists, (list) => ({
+        ...list,
+        items: list.items.map((item) => (item.id === draft.id ? result.data : item)),
+      }));
+      setIsModalOpen(false); // Close the modal
+      toast.success(`${result.data.name} was added`);
+    } finally {
+      setPending([draft.id], false);
+      refreshLists();
     }
   };
 
   /**
    * UPDATE USER (UPDATE Operation)
-   * Sends updated user data to the API
-   * @param {Object} data - The updated user data
-   */
-  const handleUpdate = async (data: {
-    name: string;
-    email: string;
-    role: string;
-  }) => {
+   * Sends only the changed fields to the API as a merge patch
+   * @param {UserFormValues} data - The updated user data
+   * @param {User} base - The saved user that was edited (its version is sent as If-Match)
+   * @returns {Promise<FieldErrors | EditConflict | void>} Field errors or a conflict, shown by UserForm
+   */
+  const handleUpdate = async (
+    data: UserFormValues,
+    base?: User
+  ): Promise<FieldErrors | EditConflict | void> => {
     // Safety check: make sure we have a user to update
     if (!editingUser) return;
 
+    // Nothing was changed: just close the form, no request needed
+    const changes = changedFields(base ?? editingUser, data);
+    if (Object.keys(changes).length === 0) {
+      closeModal();
+      return;
+    }
+
+    // Show the changes in the table right away, marked as saving
+    const snapshot = queryCache.update(usersQueryKeys.lists, replaceInList({ ...editingUser, ...changes }));
+    setPending([editingUser.id], true);
+
     try {
-      // Make PUT request to /api/users/:id with updated data
-      const response = await fetch(`/api/users/${editingUser.id}`, {
-        method: 'PUT', // PUT = update existing resource
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(data),
-      });
+      // PATCH /api/users/:id with only the changed fields
+      // The version is sent as If-Match: only save if nobody changed the user since we loaded it
+      const result = await usersClient.update(
+        editingUser.id,
+        toMergePatch(base ?? editingUser, changes),
+        (base ?? editingUser).version
+      );
 
-      // If request successful
-      if (response.ok) {
-        await fetchUsers(); // Refresh the user list
-        setIsModalOpen(false); // Close the modal
-        setEditingUser(undefined); // Clear the editing user
+      // Rejected (422 invalid, 409 email taken, 403 not allowed), or someone
+      // else saved this user first (412): undo the row, the form shows the errors or both versions
+      if (!result.ok) {
+        queryCache.rollback(snapshot);
+        return formErrorsFrom(result.error);
       }
-    } catch (error) {
-      console.error('Failed to update user:', error);
+
+      queryCache.update(usersQueryKeys.lists, replaceInList(result.data)); // The saved user (new version)
+      setIsModalOpen(false); // Close the modal
+      setEditingUser(undefined); // Clear the editing user
+      toast.success('Changes saved');
+    } finally {
+      setPending([editingUser.id], false);
+      refreshLists();
     }
   };
 
+  /**
+   * AVATAR CHANGED
+   * The form uploads or removes pictures right away - show the saved user in the table
+   * (the form itself continues editing from this new version)
+   * @param {User} user - The saved user
+   */
+  const handleAvatarChange = (user: User) => {
+    setEditingUser(user);
+    queryCache.update(usersQueryKeys.lists, replaceInList(user));
+  };
+
   /**
    * DELETE USER (DELETE Operation)
    * Removes a user by calling the API
-   * @param {string} id - The ID of the user to delete
+   * @param {User} user - The user to delete (its version is sent as If-Match)
    */
-  const handleDelete = async (id: string) => {
+  const handleDelete = async (user: User) => {
     // Show confirmation dialog - if user clicks Cancel, stop here
-    if (!confirm('Are you sure you want to delete this user?')) return;
+    const confirmed = await confirm({
+      title: 'Delete user?',
+      message: `${user.name} will be moved to the trash. They can be restored from there.`,
+      confirmLabel: 'Delete',
+      variant: 'danger',
+    });
+    if (!confirmed) return;
+
+    // Take the row out right away
+    const snapshot = queryCache.update(usersQueryKeys.lists, removeFromList([user.id]));
+
+    // DELETE /api/users/:id - the version is sent so we don't delete changes we haven't seen
+    const result = await usersClient.remove(user.id, user.version);
+
+    if (result.ok) {
+      toast.undo(`${user.name} was moved to the trash`, () => handleRestore([user.id]));
+    } else {
+      queryCache.rollback(snapshot); // Put the row back
+      // Someone else changed the user in the meantime (412): show the new data first
+      toast.error(
+        result.error.kind === 'stale'
+          ? 'This user was changed by someone else. Please check the updated data and try again.'
+          : result.error.message
+      );
+    }
+    refreshLists(); // The trash (and a 412's new data) load in the background
+  };
+
+  /**
+   * RESTORE USERS
+   * Takes users out of the trash again (the Restore button, or Undo after deleting)
+   * @param {string[]} ids - The IDs of the deleted users
+   */
+  const handleRestore = async (ids: string[]) => {
+    // Out of the trash right away
+    const snapshot = queryCache.update(usersQueryKeys.lists, removeFromList(ids));
+
+    const results = await Promise.all(ids.map((id) => usersClient.restore(id)));
+    const failure = results.find((result) => !result.ok);
+    if (failure && !failure.ok) {
+      queryCache.rollback(snapshot); // The refetch below removes the ones that did work
+      toast.error(failure.error.message);
+    } else {
+      toast.success(ids.length === 1 ? 'User restored' : `${ids.length} users restored`);
+    }
+    refreshLists();
+  };
+
+  /**
+   * PURGE USER
+   * Removes a user in the trash for good - this can't be undone
+   * @param {string} id - The ID of the deleted user
+   */
+  const handlePurge = async (id: string) => {
+    const confirmed = await confirm({
+      title: 'Delete permanently?',
+      message: 'The user will be removed for good. This cannot be undone.',
+      confirmLabel: 'Delete permanently',
+      variant: 'danger',
+    });
+    if (!confirmed) return;
+
+    const snapshot = queryCache.update(usersQueryKeys.lists, removeFromList([id]));
+
+    const result = await usersClient.purge(id);
+    if (result.ok) {
+      toast.success('User deleted permanently');
+    } else {
+      queryCache.rollback(snapshot);
+      toast.error(result.error.message);
+    }
+    refreshLists();
+  };
 
+  // ==================== BULK ACTIONS ====================
+
+  /**
+   * The selected users, with this page's newer data where it has some
+   * (e.g. the new version after an edit, so If-Match checks don't fail)
+   */
+  const selectedUsers = () => [...selected.values()].map((user) => users.find((item) => item.id === user.id) ?? user);
+
+  /**
+   * RUN BATCH
+   * Shows the change in the table right away, sends the operations to
+   * POST /api/users/batch, then refetches the lists (which also brings back
+   * the rows whose operation failed)
+   * Users whose operation failed stay selected, and the reasons are shown
+   *
+   * @param {BatchOperation[]} operations - One operation per selected user
+   * @param {string} verb - For the message, e.g. "deleted"
+   * @param {Function} optimistic - The change to show in cached lists until the server answers
+   * @param {Function} onUndo - Optional: offered as "Undo" after it worked
+   */
+  const runBatch = async (
+    operations: BatchOperation[],
+    verb: string,
+    optimistic: (list: UserListResponse) => UserListResponse,
+    onUndo?: (succeededIds: string[]) => void
+  ) => {
+    const ids = [...selected.keys()];
+    const snapshot = queryCache.update(usersQueryKeys.lists, optimistic);
+    setIsBulkBusy(true);
+    setPending(ids, true);
     try {
-      // Make DELETE request to /api/users/:id
-      const response = await fetch(`/api/users/${id}`, {
-        method: 'DELETE', // DELETE = remove resource
+      // Succeeds when every operation did (200) and when only some did (207)
+      const response = await usersClient.batch({ operations });
+      if (!response.ok) {
+        queryCache.rollback(snapshot); // Nothing was saved
+        toast.error(response.error.message);
+        return;
+      }
+
+      const result = response.data;
+      const failed = result.results.filter((item) => item.status >= 300);
+
+      // Keep only the users that still need attention selected
+      setSelected((previous) => {
+        const next = new Map<string, User>();
+        failed.forEach((item) => {
+          const user = item.id ? previous.get(item.id) : undefined;
+          if (user) next.set(user.id, user);
+        });
+        return next;
       });
 
-      // If request successful
-      if (response.ok) {
-        await fetchUsers(); // Refresh the user list (deleted user will be gone)
+      if (failed.length > 0) {
+        const reasons = failed.map((item) => `- ${selected.get(item.id ?? '')?.name ?? item.id}: ${item.error}`);
+        toast.error(`${result.succeeded} user(s) ${verb}, ${failed.length} failed:\n${reasons.join('\n')}`);
+      } else if (onUndo) {
+        const succeededIds = result.results.flatMap((item) => (item.id ? [item.id] : []));
+        toast.undo(`${result.succeeded} user(s) ${verb}`, () => onUndo(succeededIds));
+      } else {
+        toast.success(`${result.succeeded} user(s) ${verb}`);
       }
-    } catch (error) {
-      console.error('Failed to delete user:', error);
+    } finally {
+      setIsBulkBusy(false);
+      setPending(ids, false);
+      refreshLists();
     }
   };
 
+  /**
+   * Move every selected user to the trash
+   * Each user's version is sent, so users changed in the meantime are skipped (412)
+   */
+  const handleBulkDelete = async () => {
+    const confirmed = await confirm({
+      title: `Delete ${selected.size} user(s)?`,
+      message: 'They will be moved to the trash and can be restored from there.',
+      confirmLabel: 'Delete',
+      variant: 'danger',
+    });
+    if (!confirmed) return;
+    await runBatch(
+      selectedUsers().map((user) => ({ op: 'delete', id: user.id, version: user.version })),
+      'deleted',
+      removeFromList([...selected.keys()]),
+      handleRestore
+    );
+  };
+
+  /**
+   * Give every selected user the same role
+   * @param {string} roleId - The new role
+   */
+  const handleBulkChangeRole = async (roleId: string) => {
+    await runBatch(
+      selectedUsers().map((user) => ({ op: 'update', id: user.id, data: { roleId }, version: user.version })),
+      'updated',
+      (list) => ({ ...list, items: list.items.map((item) => (selected.has(item.id) ? { ...item, roleId } : item)) })
+    );
+  };
+
+  /**
+   * Download the selected users as a CSV file
+   * Built in the browser from the data we already have - no request needed
+   */
+  const handleExportSelected = () => {
+    const csv = toCsv(
+      ['Name', 'Email', 'Role', 'Created At'],
+      selectedUsers().map((user) => [
+        user.name,
+        user.email,
+        rolesById.get(user.roleId)?.name ?? user.roleId,
+        user.createdAt,
+      ])
+    );
+    downloadFile(csv, 'users.csv', 'text/csv');
+  };
+
+  /**
+   * Check or uncheck one user
+   */
+  const toggleSelected = (user: User) => {
+    const next = new Map(selected);
+    if (next.has(user.id)) {
+      next.delete(user.id);
+    } else {
+      next.set(user.id, user);
+    }
+    setSelected(next);
+  };
+
+  // Header checkbox state: are all (or some) users on this page checked?
+  const allOnPageSelected = users.length > 0 && users.every((user) => selected.has(user.id));
+  const someOnPageSelected = users.some((user) => selected.has(user.id));
+
+  /**
+   * Header checkbox: check every user on this page, or uncheck them all
+   */
+  const toggleAllOnPage = () => {
+    const next = new Map(selected);
+    users.forEach((user) => {
+      if (allOnPageSelected) {
+        next.delete(user.id);
+      } else {
+        next.set(user.id, user);
+      }
+    });
+    setSelected(next);
+  };
+
+  // ==================== QUERY CONTROL FUNCTIONS ====================
+
+  /**
+   * Sort by a column
+   * Clicking the current column flips the direction, a new column starts ascending
+   * @param {UserSortField} field - The column that was clicked
+   */
+  const handleSort = (field: UserSortField) => {
+    setQuery({
+      ...query,
+      sort: field,
+      order: query.sort === field && query.order === 'asc' ? 'desc' : 'asc',
+      page: 1, // Back to the first page so the new order starts at the top
+    });
+  };
+
+  /**
+   * Change a filter value (roleId, createdFrom, createdTo)
+   * Filters always reset to page 1 because the number of pages changes
+   */
+  const handleFilterChange = (filter: 'roleId' | 'createdFrom' | 'createdTo', value: string) => {
+    setQuery({ ...query, [filter]: value || undefined, page: 1 });
+  };
+
+  /**
+   * Switch between the user list and the trash
+   * The trash starts with the most recently deleted users
+   * @param {boolean} trash - true to show the trash
+   */
+  const showTrash = (trash: boolean) => {
+    setSelected(new Map()); // Bulk actions are for the user list only
+    setQuery({
+      ...query,
+      includeDeleted: trash ? 'only' : undefined,
+      sort: trash ? 'deletedAt' : 'createdAt',
+      order: trash ? 'desc' : 'asc',
+      page: 1,
+    });
+  };
+
+  /**
+   * Update the search box
+   * Goes back to page 1 right away, the actual search runs once typing stops
+   */
+  const handleSearchChange = (value: string) => {
+    setSearchInput(value);
+    if (query.page !== 1) setQuery({ ...query, page: 1 });
+  };
+
   // ==================== MODAL CONTROL FUNCTIONS ====================
 
   /**
@@ -203,8 +770,9 @@ export function UserTable() {
   // ==================== LOADING STATE ====================
 
   /**
-   * If still loading, show a spinner
+   * If nothing has loaded yet, show a spinner
    * Early return - component stops here and doesn't render the table
+   * (later loads keep the table and only show the small "Updating" note)
    */
   if (isLoading) {
     return (
@@ -217,6 +785,19 @@ export function UserTable() {
 
   // ==================== MAIN RENDER ====================
 
+  // Every column that can be shown or hidden, in table order
+  const pickableColumns: PickableColumn[] = [
+    { id: 'email', label: 'Email' },
+    { id: 'role', label: 'Role' },
+    ...valueColumns,
+    { id: 'date', label: isTrash ? 'Deleted At' : 'Created At' },
+  ];
+  const isShown = (id: string) => visibleColumns.includes(id);
+  const shownValueColumns = valueColumns.filter((column) => isShown(column.id));
+
+  // Name and actions, the chosen columns - plus the checkboxes outside the trash
+  const columnCount = 2 + pickableColumns.filter((column) => isShown(column.id)).length + (isTrash ? 0 : 1);
+
   return (
     <div className="w-full">
       {/* ========== HEADER SECTION ========== */}
@@ -224,34 +805,176 @@ export function UserTable() {
         {/* Left side: Title and description */}
         <div>
           <h1 className="text-3xl font-bold text-gray-900">User Management</h1>
-          <p className="text-gray-600 mt-1">
+          <p className="text-gray-600 mt-1 flex items-center gap-3">
             Manage your users with full CRUD operations
+            {/* Live updates: green while connected, gray while reconnecting */}
+            <span
+              className={`flex items-center gap-1 text-sm ${liveStatus === 'live' ? 'text-green-600' : 'text-gray-400'}`}
+              title={liveStatus === 'live' ? 'Changes by others show up as they happen' : 'Reconnecting for live updates'}
+            >
+              <span
+                className={`h-2 w-2 rounded-full ${liveStatus === 'live' ? 'bg-green-500' : 'bg-gray-300'}`}
+                aria-hidden="true"
+              ></span>
+              {liveStatus === 'live' ? 'Live' : liveStatus === 'offline' ? 'Offline' : 'Connecting'}
+            </span>
+            {/* Loading another page or refreshing in the background */}
+            {isFetching && (
+              <span className="flex items-center gap-1 text-sm text-gray-400" role="status">
+                <span className="animate-spin rounded-full h-3 w-3 border-b-2 border-gray-400"></span>
+                Updating
+              </span>
+            )}
           </p>
         </div>
 
-        {/* Right side: Add User button */}
-        <button
-          onClick={openCreateModal} // Open modal for creating new user
-          className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors font-medium shadow-lg shadow-blue-600/30 flex items-center gap-2"
-        >
-          {/* Plus icon SVG */}
-          <svg
-            className="w-5 h-5"
-            fill="none"
-            stroke="currentColor"
-            viewBox="0 0 24 24"
+        {/* Right side: Export, plus Import and Add User (only with the "users:create" permission) */}
+        <div className="flex items-center gap-3">
+          {/* Export downloads what the table shows (every page) */}
+          <ExportMenu query={{ ...query, q: search }} isTrash={isTrash} />
+          {canCreate && (
+            <>
+              <button
+                type="button"
+                onClick={() => setIsImportOpen(true)} // Open the import dialog
+                className="bg-white text-gray-700 px-6 py-3 rounded-lg border border-gray-300 hover:bg-gray-50 transition-colors font-medium"
+              >
+                Import
+              </button>
+              <button
+                onClick={openCreateModal} // Open modal for creating new user
+                className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors font-medium shadow-lg shadow-blue-600/30 flex items-center gap-2"
+              >
+                {/* Plus icon SVG */}
+                <svg
+                  className="w-5 h-5"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M12 4v16m8-8H4" // Draws a + symbol
+                  />
+                </svg>
+                Add User
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* ========== VIEW TABS ========== */}
+      {/* Users / Trash - the trash is only shown to users who may delete (and restore) */}
+      {canDelete && (
+        <div className="flex items-center gap-2 mb-4">
+          {[
+            { label: 'Users', trash: false },
+            { label: 'Trash', trash: true },
+          ].map((tab) => (
+            <button
+              key={tab.label}
+              type="button"
+              onClick={() => showTrash(tab.trash)}
+              aria-pressed={isTrash === tab.trash}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                isTrash === tab.trash ? 'bg-gray-900 text-white' : 'text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+          {isTrash && (
+            <span className="text-sm text-gray-500 ml-2">
+              Deleted users are removed for good after {trashRetentionDays} days.
+            </span>
+          )}
+        </div>
+      )}
+
+      {/* ========== FILTER SECTION ========== */}
+      <div className="flex flex-wrap items-end gap-4 mb-4">
+        {/* Search box */}
+        <label className="text-sm text-gray-700 flex-1 min-w-64">
+          <span className="block font-medium mb-1">Search</span>
+          <input
+            type="search"
+            value={searchInput}
+            onChange={(e) => handleSearchChange(e.target.value)}
+            placeholder="Search by name, email or role"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white"
+          />
+        </label>
+
+        {/* Role filter */}
+        <label className="text-sm text-gray-700">
+          <span className="block font-medium mb-1">Role</span>
+          <select
+            value={query.roleId || ''}
+            onChange={(e) => handleFilterChange('roleId', e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg bg-white"
           >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M12 4v16m8-8H4" // Draws a + symbol
-            />
-          </svg>
-          Add User
-        </button>
+            <option value="">All roles</option>
+            {roles.map((role) => (
+              <option key={role.id} value={role.id}>
+                {role.name}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {/* Created date range */}
+        <label className="text-sm text-gray-700">
+          <span className="block font-medium mb-1">Created from</span>
+          <input
+            type="date"
+            value={query.createdFrom || ''}
+            onChange={(e) => handleFilterChange('createdFrom', e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg bg-white"
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          <span className="block font-medium mb-1">Created to</span>
+          <input
+            type="date"
+            value={query.createdTo || ''}
+            onChange={(e) => handleFilterChange('createdTo', e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg bg-white"
+          />
+        </label>
+
+        {/* Which columns the table shows */}
+        <ColumnPicker columns={pickableColumns} visible={visibleColumns} onChange={setVisibleColumns} />
       </div>
 
+      {/* Without the definitions there are no custom attribute columns (or form inputs) */}
+      {attributesError && (
+        <p role="alert" className="text-sm text-red-600 mb-4">
+          Could not load the custom attributes: {attributesError}.{' '}
+          <button type="button" onClick={retryAttributes} className="text-blue-600 hover:underline">
+            Try again
+          </button>
+        </p>
+      )}
+
+      {/* ========== BULK ACTIONS ========== */}
+      {/* Only while users are selected (never in the trash) */}
+      {!isTrash && selected.size > 0 && (
+        <BulkActionBar
+          count={selected.size}
+          roles={roles}
+          canDelete={canDelete}
+          canChangeRole={canChangeRole}
+          isBusy={isBulkBusy}
+          onDelete={handleBulkDelete}
+          onChangeRole={handleBulkChangeRole}
+          onExport={handleExportSelected}
+          onClear={() => setSelected(new Map())}
+        />
+      )}
+
       {/* ========== TABLE SECTION ========== */}
       <div className="bg-white rounded-xl shadow-lg overflow-hidden border border-gray-200">
         {/* overflow-x-auto = table can scroll horizontally on small screens */}
@@ -260,19 +983,45 @@ export function UserTable() {
             {/* ========== TABLE HEADER ========== */}
             <thead>
               <tr className="bg-gray-50 border-b border-gray-200">
-                {/* Column headers */}
-                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">
-                  Name
-                </th>
-                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">
-                  Email
-                </th>
-                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">
-                  Role
-                </th>
-                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">
-                  Created At
-                </th>
+                {/* Select all users on this page (a dash when only some are checked) */}
+                {!isTrash && (
+                  <th className="pl-6 py-4 w-4">
+                    <input
+                      type="checkbox"
+                      checked={allOnPageSelected}
+                      ref={(input) => {
+                        if (input) input.indeterminate = someOnPageSelected && !allOnPageSelected;
+                      }}
+                      onChange={toggleAllOnPage}
+                      disabled={users.length === 0}
+                      aria-label="Select all users on this page"
+                    />
+                  </th>
+                )}
+                {/* Column headers - click to sort */}
+                <SortableHeader label="Name" field="name" sort={query.sort} order={query.order} onSort={handleSort} />
+                {isShown('email') && (
+                  <SortableHeader label="Email" field="email" sort={query.sort} order={query.order} onSort={handleSort} />
+                )}
+                {isShown('role') && (
+                  <SortableHeader label="Role" field="role" sort={query.sort} order={query.order} onSort={handleSort} />
+                )}
+                {/* Profile fields and custom attributes (not sortable) */}
+                {shownValueColumns.map((column) => (
+                  <th
+                    key={column.id}
+                    className="px-6 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider"
+                  >
+                    {column.label}
+                  </th>
+                ))}
+                {/* In the trash, the date column shows when the user was deleted */}
+                {isShown('date') &&
+                  (isTrash ? (
+                    <SortableHeader label="Deleted At" field="deletedAt" sort={query.sort} order={query.order} onSort={handleSort} />
+                  ) : (
+                    <SortableHeader label="Created At" field="createdAt" sort={query.sort} order={query.order} onSort={handleSort} />
+                  ))}
                 <th className="px-6 py-4 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">
                   Actions
                 </th>
@@ -282,129 +1031,263 @@ export function UserTable() {
             {/* ========== TABLE BODY ========== */}
             <tbody className="divide-y divide-gray-200">
               {/* Conditional rendering: Show message if no users, or map through users */}
-              {users.length === 0 ? (
+              {users.length === 0 && error ? (
+                // LOADING FAILED: say so instead of pretending the list is empty
+                <tr>
+                  <td colSpan={columnCount} className="px-6 py-12 text-center text-red-600">
+                    Could not load users: {error.message}.{' '}
+                    <button type="button" onClick={refreshLists} className="text-blue-600 hover:underline">
+                      Try again
+                    </button>
+                  </td>
+                </tr>
+              ) : users.length === 0 && search ? (
+                // NO SEARCH RESULTS: Different message, so it doesn't look like the table is empty
+                <tr>
+                  <td colSpan={columnCount} className="px-6 py-12 text-center text-gray-500">
+                    No results for &ldquo;{search}&rdquo;.{' '}
+                    <button
+                      type="button"
+                      onClick={() => handleSearchChange('')}
+                      className="text-blue-600 hover:underline"
+                    >
+                      Clear search
+                    </button>
+                  </td>
+                </tr>
+              ) : users.length === 0 ? (
                 // NO USERS: Show empty state message
                 <tr>
-                  {/* colSpan={5} means this cell spans all 5 columns */}
-                  <td colSpan={5} className="px-6 py-12 text-center text-gray-500">
-                    No users found. Create one to get started!
+                  {/* colSpan means this cell spans all columns */}
+                  <td colSpan={columnCount} className="px-6 py-12 text-center text-gray-500">
+                    {isTrash
+                      ? 'The trash is empty.'
+                      : canCreate
+                        ? 'No users found. Create one to get started!'
+                        : 'No users found.'}
                   </td>
                 </tr>
               ) : (
                 // HAS USERS: Map through array and create a row for each user
                 // .map() is like a loop that creates a new array (of JSX elements)
-                users.map((user) => (
-                  <tr
-                    key={user.id} // React needs unique key for list items
-                    className="hover:bg-gray-50 transition-colors"
-                  >
-                    {/* USER NAME COLUMN */}
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="font-medium text-gray-900">{user.name}</div>
-                    </td>
-
-                    {/* USER EMAIL COLUMN */}
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-gray-600">{user.email}</div>
-                    </td>
-
-                    {/* USER ROLE COLUMN */}
-                    {/* Role shown as colored badge */}
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span
-                        // Dynamic className based on role - different colors for different roles
-                        className={`px-3 py-1 rounded-full text-xs font-medium ${
-                          user.role === 'Admin'
-                            ? 'bg-purple-100 text-purple-700' // Purple for Admin
-                            : user.role === 'Manager'
-                            ? 'bg-blue-100 text-blue-700' // Blue for Manager
-                            : user.role === 'Developer'
-                            ? 'bg-green-100 text-green-700' // Green for Developer
-                            : 'bg-gray-100 text-gray-700' // Gray for others
-                        }`}
-                      >
-                        {user.role}
-                      </span>
-                    </td>
-
-                    {/* CREATED AT COLUMN */}
-                    <td className="px-6 py-4 whitespace-nowrap text-gray-600">
-                      {/* Convert ISO date string to readable format */}
-                      {new Date(user.createdAt).toLocaleDateString()}
-                    </td>
-
-                    {/* ACTIONS COLUMN */}
-                    <td className="px-6 py-4 whitespace-nowrap text-right">
-                      <div className="flex justify-end gap-2">
-                        {/* EDIT BUTTON */}
-                        <button
-                          onClick={() => openEditModal(user)} // Open edit modal with this user
-                          className="text-blue-600 hover:text-blue-800 transition-colors p-2 hover:bg-blue-50 rounded-lg"
-                          title="Edit" // Tooltip on hover
-                        >
-                          {/* Edit icon (pencil) */}
-                          <svg
-                            className="w-5 h-5"
-                            fill="none"
-                            stroke="currentColor"
-                            viewBox="0 0 24 24"
-                          >
-                            <path
-                              strokeLinecap="round"
-                              strokeLinejoin="round"
-                              strokeWidth={2}
-                              d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
-                            />
-                          </svg>
-                        </button>
-
-                        {/* DELETE BUTTON */}
-                        <button
-                          onClick={() => handleDelete(user.id)} // Delete this user
-                          className="text-red-600 hover:text-red-800 transition-colors p-2 hover:bg-red-50 rounded-lg"
-                          title="Delete" // Tooltip on hover
-                        >
-                          {/* Delete icon (trash can) */}
-                          <svg
-                            className="w-5 h-5"
-                            fill="none"
-                            stroke="currentColor"
-                            viewBox="0 0 24 24"
-                          >
-                            <path
-                              strokeLinecap="round"
-                              strokeLinejoin="round"
-                              strokeWidth={2}
-                              d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                users.map((user) => {
+                  // Saving: dimmed, and no actions until the server answered
+                  const isPending = pendingIds.has(user.id);
+                  // Just changed by someone else: highlighted, with their name on hover
+                  const changedBy = changedByOthers.get(user.id);
+                  return (
+                    <tr
+                      key={user.id} // React needs unique key for list items
+                      aria-busy={isPending}
+                      title={changedBy && `Just changed by ${changedBy}`}
+                      className={`transition-colors duration-700 ${
+                        selected.has(user.id) ? 'bg-blue-50' : changedBy ? 'bg-yellow-50' : 'hover:bg-gray-50'
+                      } ${isPending ? 'opacity-60' : ''}`}
+                    >
+                      {/* SELECT CHECKBOX */}
+                      {!isTrash && (
+                        <td className="pl-6 py-4 w-4">
+                          <input
+                            type="checkbox"
+                            checked={selected.has(user.id)}
+                            onChange={() => toggleSelected(user)}
+                            disabled={isPending}
+                            aria-label={`Select ${user.name}`}
+                          />
+                        </td>
+                      )}
+
+                      {/* USER NAME COLUMN (with the profile picture, or initials) */}
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center gap-3">
+                          <Avatar user={user} size={32} />
+                          {/* Name links to the user's detail page (/users/:id) - deleted users have none,
+                              and a user that is still being created has no page yet */}
+                          {isTrash || isPending ? (
+                            <span className="font-medium text-gray-900">
+                              <Highlight text={user.name} ranges={user.highlights?.name} />
+                            </span>
+                          ) : (
+                            <Link
+                              href={`/users/${user.id}`}
+                              className="font-medium text-gray-900 hover:text-blue-600 hover:underline"
+                            >
+                              <Highlight text={user.name} ranges={user.highlights?.name} />
+                            </Link>
+                          )}
+                          {isPending && (
+                            <span className="inline-flex items-center gap-1 text-xs text-gray-500">
+                              <span className="animate-spin rounded-full h-3 w-3 border-b-2 border-gray-500"></span>
+                              Saving
+                            </span>
+                          )}
+                        </div>
+                      </td>
+
+                      {/* USER EMAIL COLUMN */}
+                      {isShown('email') && (
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-gray-600">
+                            <Highlight text={user.email} ranges={user.highlights?.email} />
+                          </div>
+                        </td>
+                      )}
+
+                      {/* USER ROLE COLUMN */}
+                      {/* Role shown as colored badge (name and color come from the role data) */}
+                      {isShown('role') && (
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <RoleBadge role={rolesById.get(user.roleId)}>
+                            <Highlight
+                              text={rolesById.get(user.roleId)?.name ?? '—'}
+                              ranges={user.highlights?.role}
                             />
-                          </svg>
-                        </button>
-                      </div>
-                    </td>
-                  </tr>
-                ))
+                          </RoleBadge>
+                        </td>
+                      )}
+
+                      {/* PROFILE FIELD AND CUSTOM ATTRIBUTE COLUMNS */}
+                      {shownValueColumns.map((column) => {
+                        const value = column.value(user);
+                        return (
+                          <td key={column.id} className="px-6 py-4 whitespace-nowrap text-gray-600">
+                            {value === undefined || value === '' ? '—' : value}
+                          </td>
+                        );
+                      })}
+
+                      {/* CREATED AT (or DELETED AT in the trash) COLUMN */}
+                      {isShown('date') && (
+                        <td className="px-6 py-4 whitespace-nowrap text-gray-600">
+                          {/* Convert ISO date string to readable format */}
+                          {new Date((isTrash && user.deletedAt) || user.createdAt).toLocaleDateString()}
+                        </td>
+                      )}
+
+                      {/* ACTIONS COLUMN */}
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        {isTrash ? (
+                          <div className="flex justify-end gap-2">
+                            {/* RESTORE BUTTON */}
+                            <button
+                              onClick={() => handleRestore([user.id])} // Take this user out of the trash
+                              className="text-blue-600 hover:text-blue-800 transition-colors px-3 py-2 hover:bg-blue-50 rounded-lg text-sm font-medium"
+                            >
+                              Restore
+                            </button>
+
+                            {/* PURGE BUTTON */}
+                            <button
+                              onClick={() => handlePurge(user.id)} // Remove this user for good
+                              className="text-red-600 hover:text-red-800 transition-colors px-3 py-2 hover:bg-red-50 rounded-lg text-sm font-medium"
+                            >
+                              Delete permanently
+                            </button>
+                          </div>
+                        ) : (
+                          <div className="flex justify-end gap-2">
+                            {/* EDIT BUTTON (disabled without the "users:update" permission, or for users above your role) */}
+                            <button
+                              onClick={() => openEditModal(user)} // Open edit modal with this user
+                              disabled={!canEdit(user) || isPending}
+                              className="text-blue-600 hover:text-blue-800 transition-colors p-2 hover:bg-blue-50 rounded-lg disabled:text-gray-300 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+                              title={canEdit(user) ? 'Edit' : 'You do not have permission to edit this user'} // Tooltip on hover
+                            >
+                              {/* Edit icon (pencil) */}
+                              <svg
+                                className="w-5 h-5"
+                                fill="none"
+                                stroke="currentColor"
+                                viewBox="0 0 24 24"
+                              >
+                                <path
+                                  strokeLinecap="round"
+                                  strokeLinejoin="round"
+                                  strokeWidth={2}
+                                  d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+                                />
+                              </svg>
+                            </button>
+
+                            {/* DELETE BUTTON (disabled without the "users:delete" permission) */}
+                            <button
+                              onClick={() => handleDelete(user)} // Delete this user
+                              disabled={!canDelete || isPending}
+                              className="text-red-600 hover:text-red-800 transition-colors p-2 hover:bg-red-50 rounded-lg disabled:text-gray-300 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+                              title={canDelete ? 'Delete' : 'You do not have permission to delete users'} // Tooltip on hover
+                            >
+                              {/* Delete icon (trash can) */}
+                              <svg
+                                className="w-5 h-5"
+                                fill="none"
+                                stroke="currentColor"
+                                viewBox="0 0 24 24"
+                              >
+                                <path
+                                  strokeLinecap="round"
+                                  strokeLinejoin="round"
+                                  strokeWidth={2}
+                                  d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                                />
+                              </svg>
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                      </tr>
+                  );
+                })
               )}
             </tbody>
           </table>
         </div>
+
+        {/* ========== PAGER ========== */}
+        <Pagination
+          page={query.page}
+          pageSize={query.pageSize}
+          total={total}
+          onPageChange={(page) => setQuery({ ...query, page })}
+          onPageSizeChange={(pageSize) => setQuery({ ...query, pageSize, page: 1 })}
+        />
       </div>
 
+      {/* ========== MODAL FOR IMPORT ========== */}
+      {/* Wide, so the preview table fits */}
+      <Modal isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} title="Import Users" size="xl">
+        <UserImport onImported={refreshLists} onClose={() => setIsImportOpen(false)} />
+      </Modal>
+
       {/* ========== MODAL FOR CREATE/EDIT ========== */}
       {/* Modal is always in the DOM, but only visible when isModalOpen is true */}
+      {/* Closing with unsaved changes asks first (X, Escape, clicking outside, Cancel) */}
       <Modal
         isOpen={isModalOpen}
-        onClose={closeModal}
+        onClose={() => guard(closeModal)}
         // Dynamic title: "Edit User" if editing, "Create New User" if creating
         title={editingUser ? 'Edit User' : 'Create New User'}
       >
         {/* UserForm inside the modal */}
         <UserForm
           user={editingUser} // Pass user if editing, undefined if creating
+          // Roles for the dropdown - new users can only get roles you're allowed to give
+          roles={editingUser ? roles : roles.filter((role) => canAssignRole(permissions, role))}
+          attributes={attributes} // One input per custom attribute
+          attributesError={attributesError}
+          onRetryAttributes={retryAttributes}
+          canChangeRole={!editingUser || canChangeRole} // Editing someone's role needs "users:change-role"
           // Dynamic onSubmit: use handleUpdate if editing, handleCreate if creating
           onSubmit={editingUser ? handleUpdate : handleCreate}
-          onCancel={closeModal} // Close modal when Cancel is clicked
+          onCancel={() => guard(closeModal)} // Close modal when Cancel is clicked
+          onDirtyChange={setIsFormDirty}
+          onAvatarChange={handleAvatarChange}
         />
       </Modal>
+
+      {/* ========== CONFIRMATION DIALOGS ========== */}
+      {/* Shown on top of everything else, including the form */}
+      {confirmDialog}
+      {unsavedChangesDialog}
     </div>
   );
 }
@@ -0,0 +1,175 @@
+/**
+ * Toast Notifications
+ * Short messages in the corner of the screen that disappear by themselves
+ *
+ * Variants:
+ * - success: something worked ("Changes saved")
+ * - error:   something failed, with the server's message - optionally with an
+ *            action button, e.g. "Retry"
+ * - undo:    something was done that can be taken back ("Moved to trash · Undo")
+ *
+ * Setup: <ToastProvider> wraps the app (see app/layout.tsx)
+ *
+ * Example:
+ * const toast = useToast();
+ * toast.success('User created');
+ * toast.error(result.error.message, { label: 'Retry', onClick: reload });
+ * toast.undo('Moved to trash', () => restore(id));
+ */
+
+'use client'; // Client Component - uses React state and context
+
+import { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+
+export type ToastVariant = 'success' | 'error' | 'undo';
+
+/**
+ * A button in a toast (clicking it also closes the toast)
+ */
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
+/**
+ * One toast on screen
+ */
+interface Toast {
+  id: number;
+  variant: ToastVariant;
+  message: string;
+  action?: ToastAction;
+}
+
+/**
+ * What useToast() gives components
+ */
+export interface ToastApi {
+  success: (message: string) => void;
+  error: (message: string, action?: ToastAction) => void;
+  undo: (message: string, onUndo: () => void) => void;
+}
+
+// How long each variant stays (in milliseconds) - errors and undo give more time to read and react
+const DURATION_MS: Record<ToastVariant, number> = {
+  success: 4_000,
+  error: 8_000,
+  undo: 8_000,
+};
+
+// At most this many toasts at once - older ones make room for new ones
+const MAX_TOASTS = 4;
+
+const VARIANT_CLASSES: Record<ToastVariant, string> = {
+  success: 'border-green-200 bg-green-50 text-green-900',
+  error: 'border-red-200 bg-red-50 text-red-900',
+  undo: 'border-gray-700 bg-gray-900 text-white',
+};
+
+const ToastContext = createContext<ToastApi | null>(null);
+
+// ==================== PROVIDER ====================
+
+/**
+ * ToastProvider Component
+ * Keeps the list of toasts and shows them above the page
+ * @param {ReactNode} children - The app
+ */
+export function ToastProvider({ children }: { children: ReactNode }) {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+
+  const dismiss = useCallback((id: number) => {
+    setToasts((previous) => previous.filter((toast) => toast.id !== id));
+  }, []);
+
+  /**
+   * The functions components call - created once, so they can be used in
+   * useCallback/useEffect dependencies without causing re-runs
+   */
+  const api = useMemo<ToastApi>(() => {
+    let nextId = 1;
+    const show = (variant: ToastVariant, message: string, action?: ToastAction) => {
+      const toast: Toast = { id: nextId++, variant, message, action };
+      setToasts((previous) => [...previous, toast].slice(-MAX_TOASTS));
+    };
+
+    return {
+      success: (message) => show('success', message),
+      error: (message, action) => show('error', message, action),
+      undo: (message, onUndo) => show('undo', message, { label: 'Undo', onClick: onUndo }),
+    };
+  }, []);
+
+  return (
+    <ToastContext.Provider value={api}>
+      {children}
+
+      {/* Bottom-right corner, newest at the bottom; screen readers announce new toasts */}
+      <div
+        aria-live="polite"
+        className="fixed bottom-4 right-4 z-[60] flex flex-col gap-2 w-full max-w-sm pointer-events-none"
+      >
+        {toasts.map((toast) => (
+          <ToastItem key={toast.id} toast={toast} onDismiss={dismiss} />
+        ))}
+      </div>
+    </ToastContext.Provider>
+  );
+}
+
+/**
+ * ToastItem Component
+ * One toast: closes itself after its variant's duration
+ */
+function ToastItem({ toast, onDismiss }: { toast: Toast; onDismiss: (id: number) => void }) {
+  useEffect(() => {
+    const timer = setTimeout(() => onDismiss(toast.id), DURATION_MS[toast.variant]);
+    return () => clearTimeout(timer);
+  }, [toast, onDismiss]);
+
+  return (
+    <div
+      role={toast.variant === 'error' ? 'alert' : 'status'}
+      className={`pointer-events-auto flex items-start gap-3 rounded-lg border px-4 py-3 shadow-lg text-sm ${
+        VARIANT_CLASSES[toast.variant]
+      }`}
+    >
+      {/* pre-line keeps line breaks, e.g. one failed user per line */}
+      <p className="flex-1 whitespace-pre-line">{toast.message}</p>
+
+      {toast.action && (
+        <button
+          type="button"
+          onClick={() => {
+            toast.action!.onClick();
+            onDismiss(toast.id);
+          }}
+          className={`font-semibold hover:underline ${toast.variant === 'undo' ? 'text-blue-300' : 'text-blue-700'}`}
+        >
+          {toast.action.label}
+        </button>
+      )}
+
+      <button
+        type="button"
+        onClick={() => onDismiss(toast.id)}
+        aria-label="Dismiss notification"
+        className="opacity-60 hover:opacity-100"
+      >
+        ×
+      </button>
+    </div>
+  );
+}
+
+// ==================== HOOK ====================
+
+/**
+ * useToast Hook
+ * @returns {ToastApi} Functions to show a success, error or undo toast
+ */
+export function useToast(): ToastApi {
+  const api = useContext(ToastContext);
+  if (!api) throw new Error('useToast must be used inside <ToastProvider>');
+  return api;
+}
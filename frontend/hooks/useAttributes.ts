@@ -0,0 +1,47 @@
+/**
+ * useAttributes Hook
+ * Loads the custom attribute definitions from the API once, for the user
+ * form and the table's optional columns
+ *
+ * Returns:
+ * - attributes: Array of definitions, in the order they were defined (empty while loading)
+ * - error: Why loading failed (null while loading or when it worked)
+ * - retry: Loads the definitions again, e.g. from a "Try again" button
+ */
+
+'use client'; // Client-side hook - uses useState/useEffect
+
+import { useCallback, useEffect, useState } from 'react';
+import { AttributeDefinition } from '@/backend/types/attribute';
+import { attributesClient } from '@/frontend/api/attributesClient';
+
+export function useAttributes() {
+  const [attributes, setAttributes] = useState<AttributeDefinition[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0); // Goes up on every retry, which runs the effect again
+
+  /**
+   * Fetch the definitions when the component using this hook first loads (and on retry)
+   */
+  useEffect(() => {
+    // If the component unmounts before the request finishes, cancel it
+    const controller = new AbortController();
+
+    // Only a successful answer is a list of definitions - on errors (e.g. 401) no attribute
+    // inputs can be shown, so the error is kept for the page to show with a "Try again" button
+    attributesClient.list({ signal: controller.signal }).then((result) => {
+      if (result.ok) {
+        setAttributes(result.data);
+        setError(null);
+      } else if (result.error.kind !== 'aborted') {
+        setError(result.error.message); // Cancelled on unmount = nobody to tell
+      }
+    });
+
+    return () => controller.abort();
+  }, [attempt]);
+
+  const retry = useCallback(() => setAttempt((previous) => previous + 1), []);
+
+  return { attributes, error, retry };
+}
@@ -0,0 +1,61 @@
+/**
+ * useConfirm Hook
+ * Asks a question with ConfirmDialog and waits for the answer, like the
+ * browser's confirm() - but accessible and styled like the rest of the app
+ *
+ * Returns:
+ * - confirm: Opens the dialog, resolves to true (confirmed) or false (cancelled)
+ * - confirmDialog: The dialog element - render it somewhere in the component
+ *
+ * Example:
+ * const { confirm, confirmDialog } = useConfirm();
+ * const handleDelete = async () => {
+ *   if (!(await confirm({ title: 'Delete user?', message: '...', variant: 'danger' }))) return;
+ *   ...
+ * };
+ * return <>...{confirmDialog}</>;
+ */
+
+'use client'; // Client-side hook - uses useState
+
+import { ReactNode, useCallback, useState } from 'react';
+import { ConfirmDialog, ConfirmOptions } from '@/frontend/components/ConfirmDialog';
+
+/**
+ * The open question and how to answer it
+ */
+interface PendingConfirm {
+  options: ConfirmOptions;
+  resolve: (confirmed: boolean) => void;
+}
+
+export function useConfirm(): { confirm: (options: ConfirmOptions) => Promise<boolean>; confirmDialog: ReactNode } {
+  const [pending, setPending] = useState<PendingConfirm | null>(null);
+
+  /**
+   * Open the dialog - the promise resolves when a button is clicked
+   */
+  const confirm = useCallback(
+    (options: ConfirmOptions) => new Promise<boolean>((resolve) => setPending({ options, resolve })),
+    []
+  );
+
+  /**
+   * Close the dialog with an answer
+   */
+  const answer = (confirmed: boolean) => {
+    pending?.resolve(confirmed);
+    setPending(null);
+  };
+
+  const confirmDialog = pending && (
+    <ConfirmDialog
+      isOpen
+      {...pending.options}
+      onConfirm={() => answer(true)}
+      onCancel={() => answer(false)}
+    />
+  );
+
+  return { confirm, confirmDialog };
+}
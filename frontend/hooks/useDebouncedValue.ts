@@ -0,0 +1,30 @@
+/**
+ * useDebouncedValue Hook
+ * Returns a copy of `value` that only updates after it stopped changing for `delay` ms
+ *
+ * Example: typing "jane" quickly into a search box only triggers ONE
+ * search for "jane" instead of four searches for "j", "ja", "jan", "jane"
+ */
+
+'use client'; // Client-side hook - uses useState/useEffect
+
+import { useEffect, useState } from 'react';
+
+/**
+ * @param {T} value - The value that changes often (e.g. input text)
+ * @param {number} delay - How long to wait after the last change, in milliseconds
+ * @returns {T} The "settled" value
+ */
+export function useDebouncedValue<T>(value: T, delay = 300): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    // Start a timer on every change...
+    const timer = setTimeout(() => setDebounced(value), delay);
+
+    // ...and cancel the previous one, so only the last change "wins"
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+}
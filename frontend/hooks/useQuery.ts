@@ -0,0 +1,59 @@
+/**
+ * useQuery Hook
+ * Shows data from the query cache and keeps it fresh (see frontend/api/queryCache.ts)
+ *
+ * Returns:
+ * - data: The cached response - while a new key loads, the previous key's data
+ *   stays (so a table keeps its rows while the next page loads)
+ * - error: Why the last request failed
+ * - isLoading: true only while there is nothing to show yet
+ * - isPreviousData: true while data still belongs to the previous key
+ * - isFetching: true while a request is running (also in the background)
+ *
+ * Example:
+ * const fetchUser = useCallback(() => usersClient.get(id), [id]);
+ * const { data: user, isLoading } = useQuery(`users/${id}`, fetchUser);
+ */
+
+'use client'; // Client-side hook - uses useState/useEffect
+
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import { ApiError } from '@/frontend/api/request';
+import { QueryFetcher, queryCache } from '@/frontend/api/queryCache';
+
+// Data younger than this is shown without asking the server again (in milliseconds)
+export const DEFAULT_STALE_TIME_MS = 30_000;
+
+/**
+ * @param {string} key - The cache key; a new key loads new data
+ * @param {QueryFetcher} fetcher - How to load the data (wrap it in useCallback)
+ * @param {number} staleTime - How long loaded data counts as fresh
+ */
+export function useQuery<T>(
+  key: string,
+  fetcher: QueryFetcher<T>,
+  staleTime = DEFAULT_STALE_TIME_MS
+): { data?: T; error?: ApiError; isLoading: boolean; isPreviousData: boolean; isFetching: boolean } {
+  // Re-render whenever the cached state of this key changes
+  const subscribe = useCallback((listener: () => void) => queryCache.subscribe(key, listener), [key]);
+  const read = () => queryCache.read<T>(key);
+  const state = useSyncExternalStore(subscribe, read, read);
+
+  // Load on first use, and whenever the key changes (skipped while the data is fresh)
+  useEffect(() => {
+    queryCache.load(key, fetcher, staleTime);
+  }, [key, fetcher, staleTime]);
+
+  // The last data shown, kept while a new key has none yet
+  const [previousData, setPreviousData] = useState(state.data);
+  if (state.data !== undefined && state.data !== previousData) setPreviousData(state.data);
+
+  const data = state.data ?? previousData;
+  return {
+    data,
+    error: state.error,
+    isLoading: data === undefined && !state.error,
+    isPreviousData: state.data === undefined && data !== undefined,
+    isFetching: state.isFetching,
+  };
+}
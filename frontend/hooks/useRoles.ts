@@ -0,0 +1,38 @@
+/**
+ * useRoles Hook
+ * Loads all roles from the API once, for dropdowns and role badges
+ *
+ * Returns:
+ * - roles: Array of roles, sorted by name (empty while loading)
+ * - rolesById: Map for quick lookups, e.g. rolesById.get(user.roleId)
+ */
+
+'use client'; // Client-side hook - uses useState/useEffect
+
+import { useEffect, useMemo, useState } from 'react';
+import { Role } from '@/backend/types/role';
+import { rolesClient } from '@/frontend/api/rolesClient';
+
+export function useRoles() {
+  const [roles, setRoles] = useState<Role[]>([]);
+
+  /**
+   * Fetch roles when the component using this hook first loads
+   */
+  useEffect(() => {
+    // If the component unmounts before the request finishes, cancel it
+    const controller = new AbortController();
+
+    // Only a successful answer is a list of roles - on errors (e.g. 401) the dropdowns stay empty
+    rolesClient.list({ signal: controller.signal }).then((result) => {
+      if (result.ok) setRoles(result.data);
+    });
+
+    return () => controller.abort();
+  }, []);
+
+  // useMemo only rebuilds the Map when the roles array changes
+  const rolesById = useMemo(() => new Map(roles.map((role) => [role.id, role])), [roles]);
+
+  return { roles, rolesById };
+}
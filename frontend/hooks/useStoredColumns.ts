@@ -0,0 +1,72 @@
+/**
+ * useStoredColumns Hook
+ * Remembers which table columns are shown, in the browser's localStorage,
+ * so the choice survives reloads (and follows along in other tabs)
+ *
+ * Returns [columns, setColumns]:
+ * - columns: The ids of the chosen columns (the defaults until something is chosen)
+ * - setColumns: Saves a new choice
+ *
+ * Example:
+ * const [columns, setColumns] = useStoredColumns('userTable.columns', ['email', 'role']);
+ */
+
+'use client'; // Client-side hook - uses localStorage
+
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+
+// Components using this hook in this tab (the "storage" event only fires in OTHER tabs)
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  window.addEventListener('storage', listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', listener);
+  };
+}
+
+/**
+ * @param {string} storageKey - Where the choice is kept in localStorage
+ * @param {string[]} defaults - Columns shown until the user chooses (keep it stable, e.g. a constant)
+ */
+export function useStoredColumns(storageKey: string, defaults: string[]): [string[], (columns: string[]) => void] {
+  // The stored JSON text (null on the server, and when nothing was chosen yet)
+  // A string is compared by value, so reading it again doesn't cause a re-render
+  const stored = useSyncExternalStore(
+    subscribe,
+    () => {
+      try {
+        return localStorage.getItem(storageKey);
+      } catch {
+        return null; // Storage blocked (e.g. by privacy settings): use the defaults
+      }
+    },
+    () => null
+  );
+
+  const columns = useMemo(() => {
+    if (stored === null) return defaults;
+    try {
+      const parsed: unknown = JSON.parse(stored);
+      return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : defaults;
+    } catch {
+      return defaults; // Not our JSON - ignore it
+    }
+  }, [stored, defaults]);
+
+  const setColumns = useCallback(
+    (next: string[]) => {
+      try {
+        localStorage.setItem(storageKey, JSON.stringify(next));
+      } catch {
+        // Can't be saved - the choice is lost on reload, nothing else to do
+      }
+      listeners.forEach((listener) => listener());
+    },
+    [storageKey]
+  );
+
+  return [columns, setColumns];
+}
@@ -0,0 +1,68 @@
+/**
+ * useUnsavedChangesGuard Hook
+ * Asks "Discard changes?" before a form with unsaved changes is closed
+ *
+ * - guard(close): runs close() right away when nothing changed, otherwise
+ *   only after the user agreed to discard the changes
+ * - While there are unsaved changes, leaving or reloading the page asks too
+ *   (the browser shows its own question for that)
+ *
+ * Returns:
+ * - guard: Wrap every way of closing the form with it (X, Escape, Cancel, ...)
+ * - confirmDialog: The question dialog - render it next to the form's Modal
+ *
+ * Example:
+ * const [isDirty, setIsDirty] = useState(false);
+ * const { guard, confirmDialog } = useUnsavedChangesGuard(isDirty);
+ * <Modal onClose={() => guard(closeModal)}>
+ *   <UserForm onDirtyChange={setIsDirty} onCancel={() => guard(closeModal)} ... />
+ * </Modal>
+ * {confirmDialog}
+ */
+
+'use client'; // Client-side hook - uses useEffect
+
+import { ReactNode, useEffect } from 'react';
+import { useConfirm } from './useConfirm';
+
+/**
+ * @param {boolean} isDirty - Does the form have changes that weren't saved?
+ */
+export function useUnsavedChangesGuard(isDirty: boolean): {
+  guard: (close: () => void) => Promise<void>;
+  confirmDialog: ReactNode;
+} {
+  const { confirm, confirmDialog } = useConfirm();
+
+  /**
+   * Ask before leaving or reloading the page while there are unsaved changes
+   */
+  useEffect(() => {
+    if (!isDirty) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault(); // Makes the browser ask "Leave site?"
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isDirty]);
+
+  /**
+   * Close only if nothing changed, or the user agrees to lose the changes
+   */
+  const guard = async (close: () => void) => {
+    if (isDirty) {
+      const discard = await confirm({
+        title: 'Discard changes?',
+        message: 'You have changes that were not saved. They will be lost.',
+        confirmLabel: 'Discard',
+        cancelLabel: 'Keep editing',
+        variant: 'danger',
+      });
+      if (!discard) return;
+    }
+    close();
+  };
+
+  return { guard, confirmDialog };
+}
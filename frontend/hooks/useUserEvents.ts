@@ -0,0 +1,103 @@
+/**
+ * useUserEvents Hook
+ * Listens to GET /api/users/events and reports every user change as it
+ * happens - also the ones made by other people in other browsers
+ *
+ * - The connection is opened once and closed when the component unmounts
+ * - A dropped connection is reopened, resuming after the last event seen,
+ *   so no change is missed (the browser does this by itself for short breaks;
+ *   when it gives up, we try again with a growing delay)
+ * - When the server can't tell what was missed, onReset is called instead:
+ *   reload whatever the events would have updated
+ *
+ * Returns the connection status:
+ * - 'connecting': not connected yet (or reconnecting)
+ * - 'live': changes arrive as they happen
+ * - 'offline': the connection broke - retrying in the background
+ *
+ * Example:
+ * const status = useUserEvents({
+ *   onEvent: (event) => console.log(event.type, event.user.name),
+ *   onReset: () => queryCache.invalidate(usersQueryKeys.lists),
+ * });
+ */
+
+'use client'; // Client-side hook - uses useState/useEffect and EventSource
+
+import { useEffect, useRef, useState } from 'react';
+import { UserEvent } from '@/backend/types/events';
+
+export type UserEventsStatus = 'connecting' | 'live' | 'offline';
+
+const EVENTS_URL = '/api/users/events';
+
+// Delays before reconnecting ourselves, in milliseconds (the last one repeats)
+const RECONNECT_DELAYS_MS = [1_000, 2_000, 5_000, 10_000, 30_000];
+
+/**
+ * What to do with the events
+ */
+interface UserEventsHandlers {
+  onEvent: (event: UserEvent) => void;  // One user changed
+  onReset?: () => void;                 // Changes were missed - reload the data
+}
+
+/**
+ * @param {UserEventsHandlers} handlers - Called for events (don't need to be memoized)
+ * @returns {UserEventsStatus} Whether changes currently arrive live
+ */
+export function useUserEvents(handlers: UserEventsHandlers): UserEventsStatus {
+  const [status, setStatus] = useState<UserEventsStatus>('connecting');
+
+  // The latest handlers, so a re-render doesn't reopen the connection
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    let source: EventSource | null = null;
+    let lastEventId: string | null = null;
+    let attempt = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = () => {
+      // EventSource can't send headers, so a manual reconnect resumes with ?lastEventId=
+      const url = lastEventId ? `${EVENTS_URL}?lastEventId=${encodeURIComponent(lastEventId)}` : EVENTS_URL;
+      source = new EventSource(url);
+
+      source.onopen = () => {
+        attempt = 0;
+        setStatus('live');
+      };
+
+      source.addEventListener('user', (message: MessageEvent<string>) => {
+        lastEventId = message.lastEventId;
+        handlersRef.current.onEvent(JSON.parse(message.data) as UserEvent);
+      });
+
+      source.addEventListener('reset', () => handlersRef.current.onReset?.());
+
+      source.onerror = () => {
+        setStatus('offline');
+
+        // CONNECTING = the browser is already retrying (and sends Last-Event-ID itself)
+        // CLOSED = it gave up (e.g. the server answered with an error) - retry ourselves
+        if (source?.readyState !== EventSource.CLOSED) return;
+        source.close();
+        const delay = RECONNECT_DELAYS_MS[Math.min(attempt, RECONNECT_DELAYS_MS.length - 1)];
+        attempt += 1;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      clearTimeout(reconnectTimer);
+      source?.close();
+    };
+  }, []);
+
+  return status;
+}
@@ -0,0 +1,50 @@
+/**
+ * useUserOptions Hook
+ * Loads users (id and name, sorted by name) to pick from, e.g. as a manager
+ *
+ * Only the first MAX_PAGE_SIZE users are loaded - enough for a dropdown.
+ *
+ * Returns:
+ * - userOptions: Array of { id, name } (empty while loading)
+ * - error: Why loading failed (null while loading or when it worked)
+ * - retry: Loads the users again, e.g. from a "Try again" button
+ */
+
+'use client'; // Client-side hook - uses useState/useEffect
+
+import { useCallback, useEffect, useState } from 'react';
+import { MAX_PAGE_SIZE } from '@/backend/utils/userQuery';
+import { usersClient } from '@/frontend/api/usersClient';
+
+export interface UserOption {
+  id: string;
+  name: string;
+}
+
+export function useUserOptions() {
+  const [userOptions, setUserOptions] = useState<UserOption[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0); // Goes up on every retry, which runs the effect again
+
+  useEffect(() => {
+    // AbortController cancels the request if the component unmounts first
+    const controller = new AbortController();
+
+    usersClient
+      .list({ page: 1, pageSize: MAX_PAGE_SIZE, sort: 'name', order: 'asc' }, { signal: controller.signal })
+      .then((result) => {
+        if (result.ok) {
+          setUserOptions(result.data.items.map(({ id, name }) => ({ id, name })));
+          setError(null);
+        } else if (result.error.kind !== 'aborted') {
+          setError(result.error.message); // Cancelled on unmount = nobody to tell
+        }
+      });
+
+    return () => controller.abort();
+  }, [attempt]);
+
+  const retry = useCallback(() => setAttempt((previous) => previous + 1), []);
+
+  return { userOptions, error, retry };
+}
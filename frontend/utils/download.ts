@@ -0,0 +1,21 @@
+/**
+ * Download Helper
+ * Lets the browser save text we built in JavaScript as a file
+ */
+
+/**
+ * DOWNLOAD FILE
+ * Creates a temporary link to an in-memory file, clicks it once and throws it away
+ *
+ * @param {string} content - The file contents
+ * @param {string} fileName - Suggested name, e.g. "users.csv"
+ * @param {string} type - MIME type, e.g. "text/csv"
+ */
+export function downloadFile(content: string, fileName: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
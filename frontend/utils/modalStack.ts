@@ -0,0 +1,44 @@
+/**
+ * Modal Stack
+ * Keeps track of the open dialogs, in the order they were opened
+ *
+ * Dialogs can open on top of each other (e.g. "Discard changes?" over the
+ * edit form). Only the top one may react to Escape and keep the focus, and
+ * the page behind must not scroll while any dialog is open.
+ */
+
+// IDs of the open dialogs, the top one last
+const stack: string[] = [];
+
+// The page's own overflow style, put back when the last dialog closes
+let savedBodyOverflow = '';
+
+export const modalStack = {
+  /**
+   * A dialog opened - the first one stops the page from scrolling
+   */
+  push(id: string) {
+    if (stack.length === 0) {
+      savedBodyOverflow = document.body.style.overflow;
+      document.body.style.overflow = 'hidden';
+    }
+    stack.push(id);
+  },
+
+  /**
+   * A dialog closed - after the last one the page scrolls again
+   */
+  remove(id: string) {
+    const index = stack.indexOf(id);
+    if (index === -1) return;
+    stack.splice(index, 1);
+    if (stack.length === 0) document.body.style.overflow = savedBodyOverflow;
+  },
+
+  /**
+   * Is this the dialog on top (the one the user is looking at)?
+   */
+  isTop(id: string): boolean {
+    return stack[stack.length - 1] === id;
+  },
+};
@@ -0,0 +1,55 @@
+/**
+ * Proxy (formerly "middleware" in Next.js)
+ * Runs BEFORE every matching request and keeps out visitors who are not signed in
+ *
+ * - Pages: redirect to /login?next=<page they wanted>
+ * - API routes: 401 JSON response { error: 'Authentication required' }
+ *
+ * This is a quick check of the signed session cookie only. Route handlers
+ * check the stored session again (see backend/middleware/auth.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authConfig } from '@/backend/config/auth';
+import { verifySessionToken } from '@/backend/lib/sessionToken';
+
+// Paths anyone may visit without signing in
+const PUBLIC_PATHS = ['/login', '/api/auth/login', '/api/auth/logout', '/api/openapi.json'];
+
+/**
+ * Proxy Function
+ * @param {NextRequest} request - The incoming request
+ */
+export function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+
+  if (PUBLIC_PATHS.includes(pathname)) {
+    return NextResponse.next();
+  }
+
+  const token = request.cookies.get(authConfig.sessionCookieName)?.value;
+  if (verifySessionToken(token)) {
+    return NextResponse.next(); // Signed in - continue to the page or route handler
+  }
+
+  // API calls get JSON, so scripts and fetch() calls can handle it
+  if (pathname.startsWith('/api/')) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  // Pages redirect to the sign-in page, remembering where the user wanted to go
+  const loginUrl = new URL('/login', request.url);
+  loginUrl.searchParams.set('next', pathname + search);
+  return NextResponse.redirect(loginUrl);
+}
+
+/**
+ * Which requests the proxy runs for
+ * Everything except Next.js internals and static files (images, favicon, ...)
+ */
+export const config = {
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)'],
+};
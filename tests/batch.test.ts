@@ -0,0 +1,130 @@
+/**
+ * Batch Tests
+ * Checks userService.batch(): a transactional batch saves all of its
+ * operations or none of them, a normal batch saves every operation that works
+ *
+ * Run with: npm test (uses the in-memory storage, so nothing is written to disk)
+ */
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { SYSTEM_ACTOR } from '@/backend/services/auditService';
+import { userService } from '@/backend/services/userService';
+import { BatchAuthorizer, BatchOperation, BatchOutcome } from '@/backend/types/batch';
+import { ConflictError, ForbiddenError, PreconditionFailedError } from '@/backend/utils/errors';
+
+// Lets every operation through
+const allowAll: BatchAuthorizer = async () => {};
+
+/**
+ * Every user (including the trash) as it is saved now, to compare before and after a batch
+ */
+async function snapshot() {
+  const users = await userService.listAll({ sort: 'name', order: 'asc', includeDeleted: true });
+  return users.map(({ id, name, email, version, deletedAt }) => ({ id, name, email, version, deletedAt }));
+}
+
+/**
+ * The statuses of a batch's outcomes, e.g. ['skipped', 'failed']
+ */
+function statuses(outcomes: BatchOutcome[]): BatchOutcome['status'][] {
+  return outcomes.map((outcome) => outcome.status);
+}
+
+// Creates a user, renames Jane and deletes Bob - fine on their own
+const goodOperations: BatchOperation[] = [
+  { op: 'create', data: { name: 'New Person', email: 'new.person@example.com', roleId: 'user' } },
+  { op: 'update', id: '2', data: { name: 'Jane Renamed' } },
+  { op: 'delete', id: '3' },
+];
+
+// ==================== TRANSACTIONAL: NOTHING IS SAVED ====================
+
+test('a transactional batch saves nothing when a later operation fails', async () => {
+  const before = await snapshot();
+
+  // The email of the user created by the first operation is used again
+  const outcomes = await userService.batch(
+    {
+      transactional: true,
+      operations: [...goodOperations, { op: 'create', data: { name: 'Copy', email: 'new.person@example.com', roleId: 'user' } }],
+    },
+    SYSTEM_ACTOR,
+    allowAll
+  );
+
+  assert.deepEqual(statuses(outcomes), ['skipped', 'skipped', 'skipped', 'failed']);
+  assert.ok((outcomes[3] as { error: unknown }).error instanceof ConflictError);
+  assert.deepEqual(await snapshot(), before);
+});
+
+test('a transactional batch saves nothing when an operation is not allowed', async () => {
+  const before = await snapshot();
+
+  // Deleting is refused, so the create and update before it must not be saved either
+  const refuseDelete: BatchAuthorizer = async (operation) => {
+    if (operation.op === 'delete') throw new ForbiddenError('users:delete');
+  };
+  const outcomes = await userService.batch({ transactional: true, operations: goodOperations }, SYSTEM_ACTOR, refuseDelete);
+
+  assert.deepEqual(statuses(outcomes), ['skipped', 'skipped', 'failed']);
+  assert.ok((outcomes[2] as { error: unknown }).error instanceof ForbiddenError);
+  assert.deepEqual(await snapshot(), before);
+});
+
+test('a transactional batch saves nothing when a version is out of date', async () => {
+  const before = await snapshot();
+
+  const outcomes = await userService.batch(
+    { transactional: true, operations: [goodOperations[1], { op: 'update', id: '1', data: { name: 'Johnny' }, version: 99 }] },
+    SYSTEM_ACTOR,
+    allowAll
+  );
+
+  assert.deepEqual(statuses(outcomes), ['skipped', 'failed']);
+  assert.ok((outcomes[1] as { error: unknown }).error instanceof PreconditionFailedError);
+  assert.deepEqual(await snapshot(), before);
+});
+
+test('a transactional batch with an unknown user saves nothing', async () => {
+  const before = await snapshot();
+
+  const outcomes = await userService.batch(
+    { transactional: true, operations: [goodOperations[1], { op: 'delete', id: 'no-such-user' }] },
+    SYSTEM_ACTOR,
+    allowAll
+  );
+
+  assert.deepEqual(statuses(outcomes), ['skipped', 'not-found']);
+  assert.deepEqual(await snapshot(), before);
+});
+
+// ==================== SAVING ====================
+
+test('a normal batch saves the operations that work, even when others fail', async () => {
+  const outcomes = await userService.batch(
+    {
+      transactional: false,
+      operations: [
+        { op: 'update', id: '1', data: { name: 'John Renamed' } },
+        { op: 'update', id: '2', data: { email: 'john@example.com' } }, // Taken by John
+      ],
+    },
+    SYSTEM_ACTOR,
+    allowAll
+  );
+
+  assert.deepEqual(statuses(outcomes), ['done', 'failed']);
+  assert.equal((await userService.getById('1'))?.name, 'John Renamed');
+  assert.equal((await userService.getById('2'))?.email, 'jane@example.com');
+});
+
+test('a transactional batch saves every operation when all of them pass', async () => {
+  const outcomes = await userService.batch({ transactional: true, operations: goodOperations }, SYSTEM_ACTOR, allowAll);
+
+  assert.deepEqual(statuses(outcomes), ['done', 'done', 'done']);
+  const after = await snapshot();
+  assert.ok(after.some((user) => user.email === 'new.person@example.com'));
+  assert.equal(after.find((user) => user.id === '2')?.name, 'Jane Renamed');
+  assert.ok(after.find((user) => user.id === '3')?.deletedAt, 'Bob is in the trash');
+});
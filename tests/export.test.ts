@@ -0,0 +1,89 @@
+/**
+ * Export Escaping Tests
+ * Checks that exported files can't run formulas when opened in Excel & co.,
+ * without changing ordinary values like phone numbers:
+ * - CSV: formula-like values get a leading apostrophe (backend/utils/csv.ts)
+ * - XLSX: values are written as text cells, exactly as they are (backend/lib/xlsx.ts)
+ *
+ * Run with: npm test (uses the in-memory storage, so nothing is written to disk)
+ */
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { inflateRawSync } from 'zlib';
+import { SYSTEM_ACTOR } from '@/backend/services/auditService';
+import { exportService } from '@/backend/services/exportService';
+import { userService } from '@/backend/services/userService';
+import { ExportFormat } from '@/backend/types/export';
+import { csvLine, parseCsv, spreadsheetSafe, undoSpreadsheetSafe } from '@/backend/utils/csv';
+
+/**
+ * Reads the whole body of an export as bytes
+ */
+async function readBody(body: ReadableStream<Uint8Array>): Promise<Buffer> {
+  return Buffer.from(await new Response(body).arrayBuffer());
+}
+
+/**
+ * Finds one file in a ZIP archive (like an .xlsx file) and returns its text
+ * Walks the local file headers: name length at byte 26, extra length at 28,
+ * compressed size at 18 (see the ZIP writer in backend/lib/xlsx.ts)
+ */
+function readZipEntry(zip: Buffer, name: string): string {
+  for (let offset = 0; zip.readUInt32LE(offset) === 0x04034b50; ) {
+    const compressedSize = zip.readUInt32LE(offset + 18);
+    const nameLength = zip.readUInt16LE(offset + 26);
+    const extraLength = zip.readUInt16LE(offset + 28);
+    const dataStart = offset + 30 + nameLength + extraLength;
+    if (zip.toString('utf8', offset + 30, offset + 30 + nameLength) === name) {
+      return inflateRawSync(zip.subarray(dataStart, dataStart + compressedSize)).toString('utf8');
+    }
+    offset = dataStart + compressedSize;
+  }
+  throw new Error(`${name} is not in the archive`);
+}
+
+// ==================== CSV VALUES ====================
+
+test('formula-like CSV values get an apostrophe', () => {
+  for (const value of ['=HYPERLINK("http://evil.example")', '@SUM(A1)', '\t=1+1', '\r=1+1', '+SUM(A1)', '-A1*2', '+cmd|x']) {
+    assert.equal(spreadsheetSafe(value), `'${value}`, value);
+  }
+});
+
+test('phone numbers, negative numbers and plain text are left as they are', () => {
+  for (const value of ['+1 (555) 010-9999', '+49 30 1234567', '-12.5', '-', 'Jane = Boss', "'quoted'", '']) {
+    assert.equal(spreadsheetSafe(value), value, value);
+  }
+});
+
+test('a CSV line is quoted after it is made safe, and reads back without the apostrophe', () => {
+  const values = ['=1,2', 'He said "hi"', '+1 (555) 010-9999', "'quoted'"];
+  const line = csvLine(values);
+
+  assert.equal(line, `"'=1,2","He said ""hi""",+1 (555) 010-9999,'quoted'\r\n`);
+  assert.deepEqual(parseCsv(line)[0].map(undoSpreadsheetSafe), values);
+});
+
+// ==================== EXPORTED FILES ====================
+
+test('exports escape formulas in CSV but write them unchanged into Excel text cells', async () => {
+  await userService.create(
+    { name: '=HYPERLINK("http://evil.example")', email: 'formula@example.com', roleId: 'user', phone: '+1 (555) 010-9999' },
+    SYSTEM_ACTOR
+  );
+  const exportAs = (format: ExportFormat) =>
+    exportService.export(
+      { sort: 'name', order: 'asc', q: 'formula@example.com' },
+      { format, columns: ['name', 'phone'], locale: 'en-US', timeZone: 'UTC' }
+    );
+
+  const csv = (await readBody((await exportAs('csv')).body)).toString('utf8');
+  assert.equal(csv, `\uFEFFName,Phone\r\n"'=HYPERLINK(""http://evil.example"")",+1 (555) 010-9999\r\n`);
+
+  const sheet = readZipEntry(await readBody((await exportAs('xlsx')).body), 'xl/worksheets/sheet1.xml');
+  assert.match(sheet, /t="inlineStr"><is><t xml:space="preserve">=HYPERLINK\(&quot;http:\/\/evil.example&quot;\)<\/t>/);
+  assert.match(sheet, />\+1 \(555\) 010-9999</);
+  assert.doesNotMatch(sheet, /'=/, 'no apostrophe in Excel cells');
+  assert.doesNotMatch(sheet, /<f>/, 'no formulas in Excel cells');
+});
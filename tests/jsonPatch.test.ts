@@ -0,0 +1,90 @@
+/**
+ * JSON Patch Tests
+ * Checks backend/lib/jsonPatch.ts: JSON Merge Patch (RFC 7396), JSON Patch (RFC 6902),
+ * and that no patch can reach into JavaScript's object internals ("__proto__" etc.)
+ *
+ * Run with: npm test
+ */
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { applyJsonPatch, applyMergePatch, JsonPatchError } from '@/backend/lib/jsonPatch';
+
+/**
+ * Asserts that `run` throws a JsonPatchError of the given kind
+ */
+function assertPatchError(run: () => unknown, kind: JsonPatchError['kind']) {
+  assert.throws(run, (error) => error instanceof JsonPatchError && error.kind === kind);
+}
+
+// ==================== MERGE PATCH ====================
+
+test('merge patch sets, merges and removes fields', () => {
+  const user = { name: 'Jane', phone: '555', attributes: { costCenter: 'A1', shift: 'late' } };
+  const patched = applyMergePatch(user, { name: 'Janet', phone: null, attributes: { shift: null, badge: 7 } });
+
+  assert.deepEqual(patched, { name: 'Janet', attributes: { costCenter: 'A1', badge: 7 } });
+  assert.equal(user.name, 'Jane', 'the original document is untouched');
+});
+
+test('merge patch that is not an object replaces the whole document', () => {
+  assert.deepEqual(applyMergePatch({ name: 'Jane' }, ['a']), ['a']);
+});
+
+// ==================== JSON PATCH ====================
+
+test('json patch runs add, remove, replace, move, copy and test in order', () => {
+  const user = { name: 'Jane', email: 'jane@example.com', tags: ['a', 'b'] };
+  const patched = applyJsonPatch(user, [
+    { op: 'test', path: '/email', value: 'jane@example.com' },
+    { op: 'replace', path: '/name', value: 'Janet' },
+    { op: 'add', path: '/tags/-', value: 'c' },
+    { op: 'remove', path: '/tags/0' },
+    { op: 'copy', from: '/name', path: '/nickname' },
+    { op: 'move', from: '/nickname', path: '/alias' },
+  ]);
+
+  assert.deepEqual(patched, { name: 'Janet', email: 'jane@example.com', tags: ['b', 'c'], alias: 'Janet' });
+  assert.deepEqual(user.tags, ['a', 'b'], 'the original document is untouched');
+});
+
+test('json patch reports failures by kind', () => {
+  const user = { name: 'Jane', tags: ['a'] };
+
+  assertPatchError(() => applyJsonPatch(user, { op: 'replace' }), 'malformed');
+  assertPatchError(() => applyJsonPatch(user, [{ op: 'rename', path: '/name' }]), 'malformed');
+  assertPatchError(() => applyJsonPatch(user, [{ op: 'replace', path: 'name', value: 'x' }]), 'malformed');
+  assertPatchError(() => applyJsonPatch(user, [{ op: 'remove', path: '/phone' }]), 'unprocessable');
+  assertPatchError(() => applyJsonPatch(user, [{ op: 'add', path: '/tags/5', value: 'b' }]), 'unprocessable');
+  assertPatchError(() => applyJsonPatch(user, [{ op: 'test', path: '/name', value: 'John' }]), 'test-failed');
+});
+
+test('json patch only sees the document\'s own keys, not inherited ones', () => {
+  const user = { name: 'Jane' };
+
+  assertPatchError(() => applyJsonPatch(user, [{ op: 'remove', path: '/toString' }]), 'unprocessable');
+  assertPatchError(() => applyJsonPatch(user, [{ op: 'copy', from: '/hasOwnProperty', path: '/x' }]), 'unprocessable');
+  assertPatchError(() => applyJsonPatch(user, [{ op: 'add', path: '/valueOf/x', value: 1 }]), 'unprocessable');
+});
+
+// ==================== PROTOTYPE POLLUTION ====================
+
+test('reserved keys are refused and nothing is added to Object.prototype', () => {
+  const user = { name: 'Jane', attributes: {} };
+  const attacks: unknown[] = [
+    [{ op: 'add', path: '/__proto__/polluted', value: 'yes' }],
+    [{ op: 'add', path: '/attributes/__proto__/polluted', value: 'yes' }],
+    [{ op: 'add', path: '/constructor/prototype/polluted', value: 'yes' }],
+    [{ op: 'replace', path: '/__proto__', value: { polluted: 'yes' } }],
+    [{ op: 'copy', from: '/__proto__', path: '/x' }],
+  ];
+
+  for (const attack of attacks) {
+    assertPatchError(() => applyJsonPatch(user, attack), 'malformed');
+  }
+  // JSON.parse creates "__proto__" as an ordinary own key, just like a request body
+  assertPatchError(() => applyMergePatch(user, JSON.parse('{"__proto__": {"polluted": "yes"}}')), 'malformed');
+  assertPatchError(() => applyMergePatch(user, JSON.parse('{"attributes": {"constructor": {"prototype": {"polluted": "yes"}}}}')), 'malformed');
+
+  assert.equal(({} as Record<string, unknown>).polluted, undefined);
+});
@@ -0,0 +1,387 @@
+/**
+ * OpenAPI Drift Test
+ * Checks that the API description (backend/openapi/spec.ts, served at
+ * GET /api/openapi.json) still says what the route handlers really do
+ *
+ * 1. Every documented path has a route file that handles exactly the documented methods
+ * 2. Every documented operation is called on its route handler - the answer's
+ *    status must be documented, and its headers and body must match what is
+ *    documented for that status and content type
+ * 3. The requests only use documented query parameters, and request bodies sent
+ *    with a success status (including the examples from the description itself)
+ *    must match the documented request schema
+ *
+ * Run with: npm test (uses the in-memory storage, so nothing is written to disk)
+ */
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import Ajv2020 from 'ajv/dist/2020';
+import addFormats from 'ajv-formats';
+import { NextRequest } from 'next/server';
+import sharp from 'sharp';
+import { buildOpenApiDocument } from '@/backend/openapi/spec';
+import { HTTP_METHODS, HttpMethod, OperationObject, ReferenceObject, ResponseObject } from '@/backend/types/openapi';
+import * as loginRoute from '@/app/api/auth/login/route';
+import * as usersRoute from '@/app/api/users/route';
+import * as userRoute from '@/app/api/users/[id]/route';
+import * as restoreRoute from '@/app/api/users/[id]/restore/route';
+import * as purgeRoute from '@/app/api/users/[id]/purge/route';
+import * as historyRoute from '@/app/api/users/[id]/history/route';
+import * as avatarRoute from '@/app/api/users/[id]/avatar/route';
+import * as passwordRoute from '@/app/api/users/[id]/password/route';
+import * as eventsRoute from '@/app/api/users/events/route';
+import * as checkEmailRoute from '@/app/api/users/check-email/route';
+import * as batchRoute from '@/app/api/users/batch/route';
+import * as importRoute from '@/app/api/users/import/route';
+import * as exportRoute from '@/app/api/users/export/route';
+
+// ==================== ROUTES ====================
+
+type RouteHandler = (request: NextRequest, context: { params: Promise<{ id: string }> }) => Promise<Response>;
+type RouteModule = Partial<Record<Uppercase<HttpMethod>, RouteHandler>>;
+
+/**
+ * The route file of every documented path
+ * A new path in the description needs its route file here (test 1 fails until then)
+ */
+const ROUTES: Record<string, RouteModule> = {
+  '/api/users': usersRoute,
+  '/api/users/{id}': userRoute,
+  '/api/users/{id}/restore': restoreRoute,
+  '/api/users/{id}/purge': purgeRoute,
+  '/api/users/{id}/history': historyRoute,
+  '/api/users/{id}/avatar': avatarRoute,
+  '/api/users/{id}/password': passwordRoute,
+  '/api/users/events': eventsRoute,
+  '/api/users/check-email': checkEmailRoute,
+  '/api/users/batch': batchRoute,
+  '/api/users/import': importRoute,
+  '/api/users/export': exportRoute,
+};
+
+// ==================== THE DESCRIPTION ====================
+
+const document = buildOpenApiDocument();
+
+// JSON Schema 2020-12 checker; the whole document is added, so "#/components/..." links resolve
+const ajv = new Ajv2020({ strict: false, allErrors: true, validateSchema: false });
+addFormats(ajv);
+ajv.addFormat('binary', true); // Files - nothing to check in a parsed body
+ajv.addSchema(document, 'openapi');
+
+/**
+ * A JSON pointer into the document, e.g. ['paths', '/api/users'] → "openapi#/paths/~1api~1users"
+ */
+function pointer(parts: string[]): string {
+  return 'openapi#/' + parts.map((part) => part.replace(/~/g, '~0').replace(/\//g, '~1')).join('/');
+}
+
+/**
+ * Checks a value against the schema at a place in the document
+ * @param {string[]} location - Where the schema is, e.g. ['components', 'schemas', 'User']
+ * @param {unknown} value - The value to check
+ * @param {string} what - Names the value in the failure message
+ */
+function assertMatchesSchema(location: string[], value: unknown, what: string): void {
+  const validate = ajv.getSchema(pointer(location));
+  assert.ok(validate, `${what}: no schema at ${location.join(' > ')}`);
+  assert.ok(validate(value), `${what} doesn't match the description: ${ajv.errorsText(validate.errors)}\n${JSON.stringify(value, null, 2)}`);
+}
+
+/**
+ * A documented response, following a link to the shared responses
+ * @returns The response and where it is in the document
+ */
+function documentedResponse(
+  operation: OperationObject,
+  operationLocation: string[],
+  status: number
+): { response: ResponseObject; location: string[] } | undefined {
+  const found: ResponseObject | ReferenceObject | undefined = operation.responses[String(status)];
+  if (!found) return undefined;
+  if (!('$ref' in found)) return { response: found, location: [...operationLocation, 'responses', String(status)] };
+
+  const name = found.$ref.replace('#/components/responses/', '');
+  return { response: document.components.responses[name], location: ['components', 'responses', name] };
+}
+
+// ==================== CALLING THE ROUTES ====================
+
+/**
+ * One request to a documented operation
+ */
+interface Call {
+  method: HttpMethod;
+  path: string;                     // The documented path, e.g. "/api/users/{id}"
+  id?: string;                      // The value for {id}
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+  json?: unknown;                   // JSON body (Content-Type from headers, default application/json)
+  form?: FormData;                  // Multipart body
+  as?: string | null;               // Session cookie to send (default: the admin's, null = signed out)
+  signal?: AbortSignal;
+}
+
+// Operations that were called, to check at the end that none was left out
+const calledOperations = new Set<string>();
+
+// The admin's session cookie, set by the first test
+let adminCookie = '';
+
+/**
+ * Signs in through POST /api/auth/login (not part of the description)
+ * @returns {Promise<string>} The session cookie, e.g. "session=abc..."
+ */
+async function signIn(email: string, password: string): Promise<string> {
+  const response = await loginRoute.POST(
+    new NextRequest('http://localhost/api/auth/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, password }),
+    })
+  );
+  assert.equal(response.status, 200, `Sign-in as ${email} failed`);
+  return (response.headers.get('set-cookie') ?? '').split(';')[0];
+}
+
+/**
+ * CALL
+ * Sends a request to the route handler of a documented operation and checks the answer:
+ * the expected status, which must be documented, with the documented headers and body
+ *
+ * @param {Call} request - What to send
+ * @param {number} expectedStatus - The status the handler must answer with
+ * @returns The response and its parsed body (JSON bodies only, otherwise undefined)
+ */
+async function call(request: Call, expectedStatus: number): Promise<{ response: Response; body: unknown }> {
+  const operation = document.paths[request.path]?.[request.method];
+  assert.ok(operation, `${request.method.toUpperCase()} ${request.path} is not documented`);
+  const operationLocation = ['paths', request.path, request.method];
+  const name = operation.operationId;
+  calledOperations.add(name);
+
+  // Only documented query parameters are sent
+  const parameters = (operation.parameters ?? []).map((parameter) =>
+    '$ref' in parameter ? document.components.parameters[parameter.$ref.replace('#/components/parameters/', '')] : parameter
+  );
+  Object.keys(request.query ?? {}).forEach((key) => {
+    assert.ok(parameters.some((parameter) => parameter.in === 'query' && parameter.name === key), `${name}: query parameter "${key}" is not documented`);
+  });
+
+  // Requests that should succeed must be valid according to the description
+  const contentType = request.headers?.['Content-Type'] ?? 'application/json';
+  if (request.json !== undefined && expectedStatus < 400) {
+    assertMatchesSchema([...operationLocation, 'requestBody', 'content', contentType, 'schema'], request.json, `${name} request`);
+  }
+
+  const url = new URL(request.path.replace('{id}', request.id ?? ''), 'http://localhost');
+  Object.entries(request.query ?? {}).forEach(([key, value]) => url.searchParams.set(key, value));
+  const cookie = request.as === undefined ? adminCookie : request.as;
+  const headers = new Headers(request.headers);
+  if (cookie) headers.set('Cookie', cookie);
+  if (request.json !== undefined) headers.set('Content-Type', contentType);
+
+  const handler = ROUTES[request.path][request.method.toUpperCase() as Uppercase<HttpMethod>];
+  assert.ok(handler, `${name}: the route file has no ${request.method.toUpperCase()} handler`);
+  const response = await handler(
+    new NextRequest(url, {
+      method: request.method.toUpperCase(),
+      headers,
+      body: request.form ?? (request.json !== undefined ? JSON.stringify(request.json) : undefined),
+      signal: request.signal,
+    }),
+    { params: Promise.resolve({ id: request.id ?? '' }) }
+  );
+
+  // The status: the expected one, and documented
+  const text = response.headers.get('content-type')?.includes('json') ? await response.clone().text() : '';
+  assert.equal(response.status, expectedStatus, `${name} answered ${response.status} instead of ${expectedStatus}: ${text}`);
+  const documented = documentedResponse(operation, operationLocation, response.status);
+  assert.ok(documented, `${name} answered ${response.status}, which is not documented`);
+
+  // The documented headers are sent
+  Object.keys(documented.response.headers ?? {}).forEach((header) => {
+    assert.ok(response.headers.has(header), `${name} ${response.status}: the documented ${header} header is missing`);
+  });
+
+  // No body documented (e.g. 304): nothing more to check
+  const content = documented.response.content;
+  if (!content) return { response, body: undefined };
+
+  // The body: a documented content type, and for JSON the documented schema
+  const mediaType = (response.headers.get('content-type') ?? '').split(';')[0].trim();
+  assert.ok(content[mediaType], `${name} ${response.status}: content type "${mediaType}" is not documented`);
+  if (mediaType !== 'application/json') return { response, body: undefined };
+
+  const body: unknown = JSON.parse(text);
+  assertMatchesSchema([...documented.location, 'content', mediaType, 'schema'], body, `${name} ${response.status} body`);
+  return { response, body };
+}
+
+/**
+ * The example request body of an operation, from the description
+ */
+function exampleBody(path: string, method: HttpMethod, contentType = 'application/json'): unknown {
+  return document.paths[path][method]?.requestBody?.content[contentType].example;
+}
+
+/**
+ * A saved user as found in a JSON response (the schema check already made sure it is one)
+ */
+function asUser(body: unknown): { id: string; version: number; avatar?: string } {
+  return body as { id: string; version: number; avatar?: string };
+}
+
+// ==================== TESTS ====================
+
+test('every documented path has a route file with exactly the documented methods', () => {
+  assert.deepEqual(Object.keys(document.paths).sort(), Object.keys(ROUTES).sort());
+
+  Object.entries(ROUTES).forEach(([path, route]) => {
+    HTTP_METHODS.forEach((method) => {
+      const handled = typeof route[method.toUpperCase() as Uppercase<HttpMethod>] === 'function';
+      const described = document.paths[path][method] !== undefined;
+      assert.equal(handled, described, `${method.toUpperCase()} ${path}: handled ${handled}, documented ${described}`);
+    });
+  });
+});
+
+test('signing in works (needed for every other call)', async () => {
+  adminCookie = await signIn('john@example.com', 'password');
+});
+
+let userId = '';
+let version = 0;
+
+test('users: list, create, read, replace, patch and check emails', async () => {
+  await call({ method: 'get', path: '/api/users', query: { page: '1', pageSize: '2', sort: 'name' } }, 200);
+  await call({ method: 'get', path: '/api/users', query: { q: 'jo' } }, 200);
+
+  const created = await call({ method: 'post', path: '/api/users', json: exampleBody('/api/users', 'post') }, 201);
+  ({ id: userId, version } = asUser(created.body));
+
+  await call({ method: 'get', path: '/api/users/{id}', id: userId }, 200);
+
+  const replaced = await call(
+    {
+      method: 'put',
+      path: '/api/users/{id}',
+      id: userId,
+      headers: { 'If-Match': `"${version}"` },
+      json: { ...(exampleBody('/api/users/{id}', 'put') as object), department: 'Sales', status: 'active' },
+    },
+    200
+  );
+  version = asUser(replaced.body).version;
+
+  for (const contentType of ['application/merge-patch+json', 'application/json-patch+json']) {
+    const patched = await call(
+      {
+        method: 'patch',
+        path: '/api/users/{id}',
+        id: userId,
+        headers: { 'Content-Type': contentType, 'If-Match': `"${version}"` },
+        json: exampleBody('/api/users/{id}', 'patch', contentType),
+      },
+      200
+    );
+    version = asUser(patched.body).version;
+  }
+
+  await call({ method: 'get', path: '/api/users/check-email', query: { email: 'ann@example.com' } }, 200);
+  await call({ method: 'get', path: '/api/users/{id}/history', id: userId, query: { pageSize: '5' } }, 200);
+});
+
+test('pictures: upload, show and remove', async () => {
+  const picture = await sharp({ create: { width: 16, height: 16, channels: 3, background: '#3b82f6' } }).png().toBuffer();
+  const form = new FormData();
+  form.append('avatar', new Blob([new Uint8Array(picture)], { type: 'image/png' }), 'avatar.png');
+
+  const uploaded = await call(
+    { method: 'post', path: '/api/users/{id}/avatar', id: userId, headers: { 'If-Match': `"${version}"` }, form },
+    200
+  );
+  const user = asUser(uploaded.body);
+  version = user.version;
+
+  const shown = await call({ method: 'get', path: '/api/users/{id}/avatar', id: userId, query: { size: '64', v: user.avatar ?? '' } }, 200);
+  await call(
+    { method: 'get', path: '/api/users/{id}/avatar', id: userId, query: { size: '64' }, headers: { 'If-None-Match': shown.response.headers.get('etag') ?? '' } },
+    304
+  );
+
+  const removed = await call({ method: 'delete', path: '/api/users/{id}/avatar', id: userId, headers: { 'If-Match': `"${version}"` } }, 200);
+  version = asUser(removed.body).version;
+});
+
+test('passwords: a created user can sign in once a password is set', async () => {
+  const password = exampleBody('/api/users/{id}/password', 'put') as { password: string };
+  await call({ method: 'put', path: '/api/users/{id}/password', id: userId, json: password }, 200);
+  assert.ok(await signIn('ann@example.com', password.password));
+});
+
+test('bulk: batch, import and export', async () => {
+  await call({ method: 'post', path: '/api/users/batch', json: exampleBody('/api/users/batch', 'post') }, 200);
+  await call(
+    { method: 'post', path: '/api/users/batch', json: { operations: [{ op: 'delete', id: 'does-not-exist' }] } },
+    207
+  );
+
+  await call({ method: 'post', path: '/api/users/import', json: exampleBody('/api/users/import', 'post') }, 200);
+  await call(
+    { method: 'post', path: '/api/users/import', json: { rows: [{ name: 'Cy Imported', email: 'cy@example.com', role: 'User' }] } },
+    201
+  );
+
+  for (const format of ['csv', 'json', 'xlsx']) {
+    await call({ method: 'get', path: '/api/users/export', query: { format, timeZone: 'Europe/Berlin' } }, 200);
+  }
+});
+
+test('live events: the stream opens', async () => {
+  const controller = new AbortController();
+  const { response } = await call({ method: 'get', path: '/api/users/events', signal: controller.signal }, 200);
+  controller.abort(); // Closes the stream (and stops its heartbeat)
+  await response.body?.cancel();
+});
+
+test('trash: delete, restore and purge', async () => {
+  await call({ method: 'delete', path: '/api/users/{id}', id: userId, headers: { 'If-Match': `"${version}"` } }, 200);
+  await call({ method: 'post', path: '/api/users/{id}/restore', id: userId }, 200);
+  await call({ method: 'post', path: '/api/users/{id}/purge', id: userId }, 409); // Not in the trash
+
+  const current = await call({ method: 'get', path: '/api/users/{id}', id: userId }, 200);
+  await call({ method: 'delete', path: '/api/users/{id}', id: userId, headers: { 'If-Match': `"${asUser(current.body).version}"` } }, 200);
+  await call({ method: 'post', path: '/api/users/{id}/purge', id: userId }, 200);
+  await call({ method: 'post', path: '/api/users/{id}/restore', id: userId }, 404);
+});
+
+test('errors are answered as documented', async () => {
+  const existing = exampleBody('/api/users', 'post') as { name: string; roleId: string };
+
+  // A user who may only read, for the 403 answers
+  const reader = await call({ method: 'post', path: '/api/users', json: { name: 'Dee Reader', email: 'dee@example.com', roleId: 'user' } }, 201);
+  const readerPassword = { password: 'read-only-password' };
+  await call({ method: 'put', path: '/api/users/{id}/password', id: asUser(reader.body).id, json: readerPassword }, 200);
+  const readOnlyCookie = await signIn('dee@example.com', readerPassword.password);
+
+  await call({ method: 'get', path: '/api/users', as: null }, 401);
+  await call({ method: 'get', path: '/api/users', query: { sort: 'nothing' } }, 400);
+  await call({ method: 'get', path: '/api/users/{id}', id: 'does-not-exist' }, 404);
+  await call({ method: 'post', path: '/api/users', as: readOnlyCookie, json: existing }, 403);
+  await call({ method: 'post', path: '/api/users', json: { name: '' } }, 422);
+  await call({ method: 'post', path: '/api/users', json: { ...existing, email: 'john@example.com' } }, 409);
+  await call({ method: 'patch', path: '/api/users/{id}', id: '3', headers: { 'Content-Type': 'text/plain' }, json: 'name' }, 415);
+  await call({ method: 'delete', path: '/api/users/{id}', id: '2', headers: { 'If-Match': '"999"' } }, 412);
+  await call({ method: 'get', path: '/api/users/{id}/avatar', id: '2' }, 404);
+  await call({ method: 'put', path: '/api/users/{id}/password', id: '2', json: { password: 'short' } }, 422);
+  await call({ method: 'get', path: '/api/users/check-email' }, 400);
+});
+
+test('every documented operation was called', () => {
+  const documented = Object.values(document.paths).flatMap((item) =>
+    HTTP_METHODS.flatMap((method) => item[method]?.operationId ?? [])
+  );
+  assert.deepEqual(documented.filter((name) => !calledOperations.has(name)), []);
+});
@@ -0,0 +1,84 @@
+/**
+ * Permission Helper Tests
+ * Checks backend/utils/permissions.ts with the built-in roles:
+ * who may give which role, and who may change which fields of which user
+ *
+ * Run with: npm test
+ */
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createSeedRoles, createSeedUsers } from '@/backend/repositories/seedData';
+import { Role } from '@/backend/types/role';
+import { canAssignRole, canEditUser, missingEditPermission } from '@/backend/utils/permissions';
+
+const roles = createSeedRoles();
+
+/**
+ * One built-in role by id
+ */
+function role(id: string): Role {
+  const found = roles.find((candidate) => candidate.id === id);
+  assert.ok(found, `seed role ${id}`);
+  return found;
+}
+
+const admin = role('admin');
+const manager = role('manager');
+const developer = role('developer');
+const user = role('user');
+
+// An Admin and a plain User from the seed data
+const seedUsers = createSeedUsers();
+const seedAdmin = seedUsers.find((candidate) => candidate.roleId === 'admin')!;
+const seedUser = seedUsers.find((candidate) => candidate.roleId === 'user')!;
+
+// ==================== CAN ASSIGN ROLE ====================
+
+test('with "users:change-role" every role can be given', () => {
+  for (const candidate of roles) {
+    assert.equal(canAssignRole(admin.permissions, candidate), true, candidate.id);
+  }
+});
+
+test('without "users:change-role" only roles that grant nothing more can be given', () => {
+  assert.equal(canAssignRole(manager.permissions, manager), true);
+  assert.equal(canAssignRole(manager.permissions, developer), true);
+  assert.equal(canAssignRole(manager.permissions, user), true);
+  assert.equal(canAssignRole(manager.permissions, admin), false);
+
+  // One permission beyond your own is enough to refuse the role
+  assert.equal(canAssignRole(manager.permissions, { ...user, permissions: ['users:read', 'webhooks:manage'] }), false);
+});
+
+// ==================== MISSING EDIT PERMISSION ====================
+
+test('profile fields need "users:update", a new role needs "users:change-role"', () => {
+  assert.equal(missingEditPermission(developer.permissions, seedUser, { name: 'New Name' }, user), 'users:update');
+  assert.equal(missingEditPermission(manager.permissions, seedUser, { name: 'New Name' }, user), null);
+  assert.equal(missingEditPermission(manager.permissions, seedUser, { roleId: 'manager' }, user), 'users:change-role');
+  assert.equal(missingEditPermission(admin.permissions, seedUser, { roleId: 'manager', name: 'New Name' }, user), null);
+});
+
+test('sending the current role again needs no extra permission', () => {
+  assert.equal(missingEditPermission(manager.permissions, seedUser, { roleId: seedUser.roleId, status: 'suspended' }, user), null);
+});
+
+test('users above your own role can\'t be changed at all', () => {
+  assert.equal(missingEditPermission(manager.permissions, seedAdmin, { status: 'suspended' }, admin), 'users:change-role');
+  assert.equal(missingEditPermission(manager.permissions, seedAdmin, {}, admin), 'users:change-role');
+  assert.equal(missingEditPermission(admin.permissions, seedAdmin, { status: 'suspended' }, admin), null);
+});
+
+test('a user whose role no longer exists is checked by the fields alone', () => {
+  assert.equal(missingEditPermission(manager.permissions, seedUser, { name: 'New Name' }, undefined), null);
+});
+
+// ==================== CAN EDIT USER ====================
+
+test('the Edit button needs "users:update" and a role you could give', () => {
+  assert.equal(canEditUser(manager.permissions, user), true);
+  assert.equal(canEditUser(manager.permissions, admin), false);
+  assert.equal(canEditUser(developer.permissions, user), false);
+  assert.equal(canEditUser(manager.permissions, undefined), true);
+});